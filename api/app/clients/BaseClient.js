@@ -8,6 +8,11 @@ const {
   ErrorTypes,
   Constants,
 } = require('librechat-data-provider');
+const {
+  isTutorStreamHeld,
+  getTutorSaveOptions,
+  reviewTutorResponse,
+} = require('~/server/services/TutorService');
 const { getMessages, saveMessage, updateMessage, saveConvo } = require('~/models');
 const { addSpaceIfNeeded, isEnabled } = require('~/server/utils');
 const { truncateToolCallOutputs } = require('./prompts');
@@ -565,7 +570,10 @@ class BaseClient {
     const { user, head, isEdited, conversationId, responseMessageId, saveOptions, userMessage } =
       await this.handleStartMethods(message, opts);
 
-    if (opts.progressCallback) {
+    if (opts.progressCallback && isTutorStreamHeld(this.options.req)) {
+      /** Moderated tutor responses are only sent with the final message */
+      opts.onProgress = () => {};
+    } else if (opts.progressCallback) {
       opts.onProgress = opts.progressCallback.call(null, {
         ...(opts.progressOptions ?? {}),
         parentMessageId: userMessage.messageId,
@@ -724,6 +732,10 @@ class BaseClient {
       }
     }
 
+    if (this.options.req?.tutorMode) {
+      await reviewTutorResponse({ req: this.options.req, userMessage, responseMessage });
+    }
+
     this.responsePromise = this.saveMessageToDatabase(responseMessage, saveOptions, user);
     this.savedMessageIds.add(responseMessage.messageId);
     delete responseMessage.tokenCount;
@@ -863,13 +875,17 @@ class BaseClient {
       return { message: savedMessage };
     }
 
+    const convoOptions = this.options.req?.tutorMode
+      ? getTutorSaveOptions(this.options.req, endpointOptions)
+      : endpointOptions;
+
     const conversation = await saveConvo(
       this.options.req,
       {
         conversationId: message.conversationId,
         endpoint: this.options.endpoint,
         endpointType: this.options.endpointType,
-        ...endpointOptions,
+        ...convoOptions,
       },
       { context: 'api/app/clients/BaseClient.js - saveMessageToDatabase #saveConvo' },
     );
@@ -29,6 +29,7 @@ const {
   createContextHandlers,
 } = require('./prompts');
 const { encodeAndFormat } = require('~/server/services/Files/images/encode');
+const { isTutorStreamHeld } = require('~/server/services/TutorService');
 const { addSpaceIfNeeded, isEnabled, sleep } = require('~/server/utils');
 const Tokenizer = require('~/server/services/Tokenizer');
 const { spendTokens } = require('~/models/spendTokens');
@@ -1310,14 +1311,18 @@ ${convo}
         reasoningKey = 'reasoning';
       }
 
+      /** Moderated tutor responses are only sent with the final message */
+      const sendDelta = isTutorStreamHeld(this.options.req)
+        ? () => {}
+        : (event) => sendEvent(this.options.res, event);
       this.streamHandler = new SplitStreamHandler({
         reasoningKey,
         accumulate: true,
         runId: this.responseMessageId,
         handlers: {
           [GraphEvents.ON_RUN_STEP]: (event) => sendEvent(this.options.res, event),
-          [GraphEvents.ON_MESSAGE_DELTA]: (event) => sendEvent(this.options.res, event),
-          [GraphEvents.ON_REASONING_DELTA]: (event) => sendEvent(this.options.res, event),
+          [GraphEvents.ON_MESSAGE_DELTA]: sendDelta,
+          [GraphEvents.ON_REASONING_DELTA]: sendDelta,
         },
       });
 
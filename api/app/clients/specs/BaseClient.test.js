@@ -1,4 +1,6 @@
-const { Constants } = require('librechat-data-provider');
+const { Constants, tutorModerationRefusal } = require('librechat-data-provider');
+const { isTextFlagged } = require('~/server/services/ModerationService');
+const { createOnProgress } = require('~/server/utils');
 const { initializeFakeClient } = require('./FakeClient');
 
 jest.mock('~/lib/db/connectDb');
@@ -30,6 +32,10 @@ jest.mock('~/models', () => ({
   updateFileUsage: jest.fn(),
 }));
 
+jest.mock('~/server/services/ModerationService', () => ({
+  isTextFlagged: jest.fn(),
+}));
+
 jest.mock('@langchain/openai', () => {
   return {
     ChatOpenAI: jest.fn().mockImplementation(() => {
@@ -613,6 +619,27 @@ describe('BaseClient', () => {
       expect(calls[0][0].isCreatedByUser).toBe(true); // First call should be for user message
       expect(calls[1][0].isCreatedByUser).toBe(false); // Second call should be for response message
     });
+
+    test('does not stream moderated tutor responses before they are reviewed', async () => {
+      const unsafeText = 'Unsafe tutor answer';
+      isTextFlagged.mockResolvedValue(true);
+      TestClient.options.req = { tutorMode: { config: { moderation: true, audit: false } } };
+      TestClient.sendCompletion = jest.fn(async (_payload, { onProgress }) => {
+        onProgress(unsafeText);
+        return unsafeText;
+      });
+
+      const res = { write: jest.fn() };
+      const { onProgress: progressCallback } = createOnProgress();
+      const response = await TestClient.sendMessage('Hello, world!', {
+        progressCallback,
+        progressOptions: { res },
+      });
+
+      expect(isTextFlagged).toHaveBeenCalledWith(unsafeText);
+      expect(response.text).toBe(tutorModerationRefusal);
+      expect(res.write).not.toHaveBeenCalled();
+    });
   });
 
   describe('getMessagesWithinTokenLimit with instructions', () => {
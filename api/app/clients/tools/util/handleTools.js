@@ -273,9 +273,11 @@ const loadTools = async ({
       requestedTools[tool] = async () =>
         createMCPTool({
           req: options.req,
+          res: options.res,
           toolKey: tool,
           model: agent?.model ?? model,
           provider: agent?.provider ?? endpoint,
+          agent,
         });
       continue;
     }
@@ -5,6 +5,7 @@ const logger = require('./winston');
 global.EventSource = EventSource;
 
 let mcpManager = null;
+/** @type {Promise<FlowStateManager> | null} */
 let flowManager = null;
 
 /**
@@ -18,17 +19,36 @@ async function getMCPManager() {
   return mcpManager;
 }
 
+/**
+ * Coordinates flows across instances through Redis pub/sub when the Redis store is enabled,
+ * or within this instance otherwise.
+ * @returns {Promise<import('librechat-mcp').FlowEvents>}
+ */
+async function getFlowEvents() {
+  const { LocalFlowEvents, RedisFlowEvents } = await import('librechat-mcp');
+  const { isEnabled } = require('~/server/utils');
+  const { REDIS_URI, USE_REDIS } = process.env;
+  if (!REDIS_URI || !isEnabled(USE_REDIS)) {
+    return new LocalFlowEvents();
+  }
+  const redis = require('~/cache/redis');
+  return new RedisFlowEvents(redis, redis.duplicate());
+}
+
 /**
  * @param {(key: string) => Keyv} getLogStores
  * @returns {Promise<FlowStateManager>}
  */
 async function getFlowStateManager(getLogStores) {
   if (!flowManager) {
-    const { FlowStateManager } = await import('librechat-mcp');
-    flowManager = new FlowStateManager(getLogStores(CacheKeys.FLOWS), {
-      ttl: Time.ONE_MINUTE * 3,
-      logger,
-    });
+    flowManager = import('librechat-mcp').then(
+      async ({ FlowStateManager }) =>
+        new FlowStateManager(getLogStores(CacheKeys.FLOWS), {
+          ttl: Time.ONE_MINUTE * 3,
+          logger,
+          events: await getFlowEvents(),
+        }),
+    );
   }
   return flowManager;
 }
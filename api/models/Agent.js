@@ -8,6 +8,11 @@ const {
   removeAgentIdsFromProject,
   removeAgentFromAllProjects,
 } = require('./Project');
+const {
+  isSharedWithUserClasses,
+  getUserClassResourceIds,
+  removeAgentFromAllClasses,
+} = require('./Class');
 const getLogStores = require('~/cache/getLogStores');
 const agentSchema = require('./schema/agent');
 
@@ -68,6 +73,10 @@ const loadAgent = async ({ req, agent_id }) => {
       return agent;
     }
   }
+
+  if (await isSharedWithUserClasses(req.user.id, 'agentIds', agent_id)) {
+    return agent;
+  }
 };
 
 /**
@@ -179,6 +188,7 @@ const deleteAgent = async (searchParameter) => {
   const agent = await Agent.findOneAndDelete(searchParameter);
   if (agent) {
     await removeAgentFromAllProjects(agent.id);
+    await removeAgentFromAllClasses(agent.id);
   }
   return agent;
 };
@@ -194,9 +204,13 @@ const getListAgents = async (searchParameter) => {
 
   let query = Object.assign({ author }, otherParams);
 
-  const globalProject = await getProjectByName(GLOBAL_PROJECT_NAME, ['agentIds']);
-  if (globalProject && (globalProject.agentIds?.length ?? 0) > 0) {
-    const globalQuery = { id: { $in: globalProject.agentIds }, ...otherParams };
+  const [globalProject, classAgentIds] = await Promise.all([
+    getProjectByName(GLOBAL_PROJECT_NAME, ['agentIds']),
+    getUserClassResourceIds(author, 'agentIds'),
+  ]);
+  const sharedAgentIds = [...(globalProject?.agentIds ?? []), ...classAgentIds];
+  if (sharedAgentIds.length > 0) {
+    const globalQuery = { id: { $in: sharedAgentIds }, ...otherParams };
     delete globalQuery.author;
     query = { $or: [globalQuery, query] };
   }
@@ -0,0 +1,236 @@
+const { model, isValidObjectId } = require('mongoose');
+const { summarizeQuizResults, SubmissionStatus } = require('librechat-data-provider');
+const assignmentSchema = require('~/models/schema/assignmentSchema');
+const submissionSchema = require('~/models/schema/submissionSchema');
+
+const Assignment = model('Assignment', assignmentSchema);
+const Submission = model('Submission', submissionSchema);
+
+/**
+ * Create an assignment.
+ *
+ * @param {Omit<MongoAssignment, '_id' | 'createdAt' | 'updatedAt'>} data - The assignment data.
+ * @returns {Promise<MongoAssignment>} The created assignment as a plain object.
+ */
+const createAssignment = async function (data) {
+  return (await Assignment.create(data)).toObject();
+};
+
+/**
+ * Retrieve an assignment by ID.
+ *
+ * @param {string} assignmentId - The ID of the assignment.
+ * @returns {Promise<MongoAssignment | null>} The assignment, or `null` if not found.
+ */
+const getAssignmentById = async function (assignmentId) {
+  if (!isValidObjectId(assignmentId)) {
+    return null;
+  }
+  return await Assignment.findById(assignmentId).lean();
+};
+
+/**
+ * Retrieve the assignments of the given classes, soonest due first.
+ *
+ * @param {Array<string | ObjectId>} classIds - The IDs of the classes.
+ * @returns {Promise<MongoAssignment[]>} The assignments as plain objects.
+ */
+const getClassAssignments = async function (classIds) {
+  if (!classIds.length) {
+    return [];
+  }
+  return await Assignment.find({ classId: { $in: classIds } })
+    .sort({ dueAt: 1 })
+    .lean();
+};
+
+/**
+ * Retrieve the assignments of the given classes whose solutions tutor mode withholds, latest due first.
+ *
+ * @param {Array<string | ObjectId>} classIds - The IDs of the classes.
+ * @param {number} limit - The maximum number of assignments.
+ * @returns {Promise<MongoAssignment[]>} The assignments as plain objects.
+ */
+const getProtectedAssignments = async function (classIds, limit) {
+  if (!classIds.length) {
+    return [];
+  }
+  return await Assignment.find({ classId: { $in: classIds }, protectSolutions: true })
+    .sort({ dueAt: -1 })
+    .limit(limit)
+    .lean();
+};
+
+/**
+ * Update an assignment.
+ *
+ * @param {string | ObjectId} assignmentId - The ID of the assignment.
+ * @param {Partial<Pick<MongoAssignment, 'protectSolutions'>>} update - The fields to update.
+ * @returns {Promise<MongoAssignment | null>} The updated assignment, or `null` if not found.
+ */
+const updateAssignment = async function (assignmentId, update) {
+  return await Assignment.findByIdAndUpdate(assignmentId, { $set: update }, { new: true }).lean();
+};
+
+/**
+ * Delete an assignment and its submissions.
+ *
+ * @param {string | ObjectId} assignmentId - The ID of the assignment.
+ * @returns {Promise<void>}
+ */
+const deleteAssignment = async function (assignmentId) {
+  await Submission.deleteMany({ assignmentId });
+  await Assignment.deleteOne({ _id: assignmentId });
+};
+
+/**
+ * Delete all assignments of a class and their submissions.
+ *
+ * @param {string | ObjectId} classId - The ID of the class.
+ * @returns {Promise<void>}
+ */
+const deleteClassAssignments = async function (classId) {
+  const assignmentIds = await Assignment.find({ classId }).distinct('_id');
+  if (!assignmentIds.length) {
+    return;
+  }
+  await Submission.deleteMany({ assignmentId: { $in: assignmentIds } });
+  await Assignment.deleteMany({ _id: { $in: assignmentIds } });
+};
+
+/**
+ * Create a submission, summarizing its results into a score and status.
+ *
+ * @param {Object} params
+ * @param {string | ObjectId} params.assignmentId - The ID of the assignment.
+ * @param {string} params.user - The ID of the submitting student.
+ * @param {TQuizResponse[]} params.responses - Responses in question order.
+ * @param {TQuestionResult[]} params.results - Grading results in question order.
+ * @returns {Promise<MongoSubmission | null>} The submission, or `null` if the student already submitted.
+ */
+const createSubmission = async function ({ assignmentId, user, responses, results }) {
+  const summary = summarizeQuizResults(results);
+  try {
+    const submission = await Submission.create({
+      assignmentId,
+      user,
+      responses,
+      results,
+      ...summary,
+      gradedAt: summary.status === SubmissionStatus.GRADED ? new Date() : undefined,
+    });
+    return submission.toObject();
+  } catch (error) {
+    if (error?.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Retrieve a submission by ID.
+ *
+ * @param {string} submissionId - The ID of the submission.
+ * @returns {Promise<MongoSubmission | null>} The submission, or `null` if not found.
+ */
+const getSubmissionById = async function (submissionId) {
+  if (!isValidObjectId(submissionId)) {
+    return null;
+  }
+  return await Submission.findById(submissionId).lean();
+};
+
+/**
+ * Retrieve a student's submission for an assignment.
+ *
+ * @param {string | ObjectId} assignmentId - The ID of the assignment.
+ * @param {string} userId - The ID of the student.
+ * @returns {Promise<MongoSubmission | null>} The submission, or `null` if not submitted.
+ */
+const getUserSubmission = async function (assignmentId, userId) {
+  return await Submission.findOne({ assignmentId, user: userId }).lean();
+};
+
+/**
+ * Retrieve a student's submissions for the given assignments.
+ *
+ * @param {string} userId - The ID of the student.
+ * @param {Array<string | ObjectId>} assignmentIds - The IDs of the assignments.
+ * @returns {Promise<MongoSubmission[]>} The submissions as plain objects.
+ */
+const getUserSubmissions = async function (userId, assignmentIds) {
+  if (!assignmentIds.length) {
+    return [];
+  }
+  return await Submission.find({ user: userId, assignmentId: { $in: assignmentIds } }).lean();
+};
+
+/**
+ * Retrieve all submissions of an assignment, oldest first.
+ *
+ * @param {string | ObjectId} assignmentId - The ID of the assignment.
+ * @returns {Promise<MongoSubmission[]>} The submissions as plain objects.
+ */
+const getAssignmentSubmissions = async function (assignmentId) {
+  return await Submission.find({ assignmentId }).sort({ createdAt: 1 }).lean();
+};
+
+/**
+ * Count the submissions of each assignment.
+ *
+ * @param {ObjectId[]} assignmentIds - The IDs of the assignments; aggregation doesn't cast strings.
+ * @returns {Promise<Map<string, number>>} Submission counts keyed by assignment ID.
+ */
+const countAssignmentSubmissions = async function (assignmentIds) {
+  const counts = new Map();
+  if (!assignmentIds.length) {
+    return counts;
+  }
+  const results = await Submission.aggregate([
+    { $match: { assignmentId: { $in: assignmentIds } } },
+    { $group: { _id: '$assignmentId', count: { $sum: 1 } } },
+  ]);
+  for (const { _id, count } of results) {
+    counts.set(_id.toString(), count);
+  }
+  return counts;
+};
+
+/**
+ * Replace a submission's results, updating its score and status.
+ *
+ * @param {string | ObjectId} submissionId - The ID of the submission.
+ * @param {TQuestionResult[]} results - The updated results in question order.
+ * @returns {Promise<MongoSubmission | null>} The updated submission.
+ */
+const updateSubmissionResults = async function (submissionId, results) {
+  const summary = summarizeQuizResults(results);
+  const update = { $set: { results, ...summary } };
+  if (summary.status === SubmissionStatus.GRADED) {
+    update.$set.gradedAt = new Date();
+  } else {
+    update.$unset = { gradedAt: '' };
+  }
+  return await Submission.findByIdAndUpdate(submissionId, update, { new: true }).lean();
+};
+
+module.exports = {
+  Assignment,
+  Submission,
+  createAssignment,
+  getAssignmentById,
+  getClassAssignments,
+  getProtectedAssignments,
+  updateAssignment,
+  deleteAssignment,
+  deleteClassAssignments,
+  /* submissions */
+  createSubmission,
+  getSubmissionById,
+  getUserSubmission,
+  getUserSubmissions,
+  getAssignmentSubmissions,
+  countAssignmentSubmissions,
+  updateSubmissionResults,
+};
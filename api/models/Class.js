@@ -0,0 +1,366 @@
+const crypto = require('crypto');
+const { model, isValidObjectId } = require('mongoose');
+const classSchema = require('~/models/schema/classSchema');
+const User = require('~/models/User');
+
+const Class = model('Class', classSchema);
+
+/** Join code characters, without look-alikes such as `0`/`O` and `1`/`I` */
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 8;
+const MAX_JOIN_CODE_ATTEMPTS = 5;
+const MEMBER_FIELDS = 'name username email avatar';
+
+/**
+ * Checks whether a user is one of the class's teachers.
+ * @param {MongoClass} classDoc - The class.
+ * @param {string} userId - The ID of the user.
+ * @returns {boolean}
+ */
+const isClassTeacher = (classDoc, userId) =>
+  classDoc.teachers.some((teacherId) => teacherId.toString() === userId);
+
+/**
+ * Checks whether a user is a teacher or student of the class.
+ * @param {MongoClass} classDoc - The class.
+ * @param {string} userId - The ID of the user.
+ * @returns {boolean}
+ */
+const isClassMember = (classDoc, userId) =>
+  isClassTeacher(classDoc, userId) ||
+  classDoc.students.some((studentId) => studentId.toString() === userId);
+
+/**
+ * Resolves user IDs to public member details, preserving the given order.
+ * @param {ObjectId[]} ids
+ * @returns {Promise<TClassMember[]>}
+ */
+const getClassMembers = async (ids) => {
+  if (!ids.length) {
+    return [];
+  }
+  const users = await User.find({ _id: { $in: ids } }, MEMBER_FIELDS).lean();
+  const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+  return ids
+    .map((id) => usersById.get(id.toString()))
+    .filter(Boolean)
+    .map(({ _id, name, username, email, avatar }) => ({
+      id: _id.toString(),
+      name,
+      username,
+      email,
+      avatar,
+    }));
+};
+
+/**
+ * Generates a random class join code.
+ * @returns {string} The join code.
+ */
+const generateJoinCode = () =>
+  Array.from(
+    { length: JOIN_CODE_LENGTH },
+    () => JOIN_CODE_ALPHABET[crypto.randomInt(JOIN_CODE_ALPHABET.length)],
+  ).join('');
+
+/**
+ * Runs a write that assigns a new join code, retrying when the code is already taken.
+ * @template T
+ * @param {(joinCode: string) => Promise<T>} write - The write operation.
+ * @returns {Promise<T>} The result of the write.
+ */
+const withUniqueJoinCode = async (write) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write(generateJoinCode());
+    } catch (error) {
+      if (error?.code !== 11000 || attempt >= MAX_JOIN_CODE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Create a class owned by the given teacher.
+ *
+ * @param {Object} params
+ * @param {string} params.name - The name of the class.
+ * @param {string} [params.description] - The class description.
+ * @param {string} params.teacherId - The ID of the teacher creating the class.
+ * @returns {Promise<MongoClass>} The created class as a plain object.
+ */
+const createClass = async function ({ name, description, teacherId }) {
+  return await withUniqueJoinCode(async (joinCode) =>
+    (await Class.create({ name, description, joinCode, teachers: [teacherId] })).toObject(),
+  );
+};
+
+/**
+ * Retrieve a class by ID.
+ *
+ * @param {string} classId - The ID of the class.
+ * @returns {Promise<MongoClass | null>} The class as a plain object, or `null` if not found.
+ */
+const getClassById = async function (classId) {
+  if (!isValidObjectId(classId)) {
+    return null;
+  }
+  return await Class.findById(classId).lean();
+};
+
+/**
+ * Retrieve the classes a user teaches or attends, newest first.
+ *
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<MongoClass[]>} The classes as plain objects.
+ */
+const getUserClasses = async function (userId) {
+  return await Class.find({ $or: [{ teachers: userId }, { students: userId }] })
+    .sort({ createdAt: -1 })
+    .lean();
+};
+
+/**
+ * Update a class's name or description.
+ *
+ * @param {string} classId - The ID of the class.
+ * @param {Partial<Pick<MongoClass, 'name' | 'description'>>} updates - The fields to update.
+ * @returns {Promise<MongoClass | null>} The updated class.
+ */
+const updateClass = async function (classId, updates) {
+  return await Class.findByIdAndUpdate(classId, { $set: updates }, { new: true }).lean();
+};
+
+/**
+ * Delete a class.
+ *
+ * @param {string} classId - The ID of the class.
+ * @returns {Promise<MongoClass | null>} The deleted class.
+ */
+const deleteClass = async function (classId) {
+  return await Class.findByIdAndDelete(classId).lean();
+};
+
+/**
+ * Replace a class's join code, invalidating the previous one.
+ *
+ * @param {string} classId - The ID of the class.
+ * @returns {Promise<MongoClass | null>} The updated class.
+ */
+const regenerateJoinCode = async function (classId) {
+  return await withUniqueJoinCode((joinCode) =>
+    Class.findByIdAndUpdate(classId, { $set: { joinCode } }, { new: true }).lean(),
+  );
+};
+
+/**
+ * Add a user to the students of the class matching the join code.
+ * Teachers of the class are not added as students.
+ *
+ * @param {string} userId - The ID of the joining user.
+ * @param {string} joinCode - The class join code.
+ * @returns {Promise<MongoClass | null>} The joined class, or `null` if the code is invalid.
+ */
+const joinClassByCode = async function (userId, joinCode) {
+  const normalizedCode = `${joinCode ?? ''}`.trim().toUpperCase();
+  if (!normalizedCode) {
+    return null;
+  }
+
+  const joinedClass = await Class.findOneAndUpdate(
+    { joinCode: normalizedCode, teachers: { $ne: userId } },
+    { $addToSet: { students: userId } },
+    { new: true },
+  ).lean();
+
+  return joinedClass ?? (await Class.findOne({ joinCode: normalizedCode }).lean());
+};
+
+/**
+ * Add a teacher to a class, removing them from its students.
+ *
+ * @param {string} classId - The ID of the class.
+ * @param {string} userId - The ID of the teacher to add.
+ * @returns {Promise<MongoClass | null>} The updated class.
+ */
+const addClassTeacher = async function (classId, userId) {
+  return await Class.findByIdAndUpdate(
+    classId,
+    { $addToSet: { teachers: userId }, $pull: { students: userId } },
+    { new: true },
+  ).lean();
+};
+
+/**
+ * Remove a user from a class's teachers and students.
+ *
+ * @param {string} classId - The ID of the class.
+ * @param {string} userId - The ID of the user to remove.
+ * @returns {Promise<MongoClass | null>} The updated class.
+ */
+const removeClassMember = async function (classId, userId) {
+  return await Class.findByIdAndUpdate(
+    classId,
+    { $pull: { teachers: userId, students: userId } },
+    { new: true },
+  ).lean();
+};
+
+/**
+ * Add and remove the prompt groups and agents shared with a class.
+ *
+ * @param {string} classId - The ID of the class.
+ * @param {Object} shares
+ * @param {string[]} [shares.promptGroupIds] - Prompt group IDs to share.
+ * @param {string[]} [shares.removePromptGroupIds] - Prompt group IDs to stop sharing.
+ * @param {string[]} [shares.agentIds] - Agent IDs to share.
+ * @param {string[]} [shares.removeAgentIds] - Agent IDs to stop sharing.
+ * @returns {Promise<MongoClass | null>} The updated class.
+ */
+const updateClassShares = async function (
+  classId,
+  { promptGroupIds, removePromptGroupIds, agentIds, removeAgentIds },
+) {
+  const $pull = {};
+  if (removePromptGroupIds?.length) {
+    $pull.promptGroupIds = { $in: removePromptGroupIds };
+  }
+  if (removeAgentIds?.length) {
+    $pull.agentIds = { $in: removeAgentIds };
+  }
+
+  const $addToSet = {};
+  if (promptGroupIds?.length) {
+    $addToSet.promptGroupIds = { $each: promptGroupIds };
+  }
+  if (agentIds?.length) {
+    $addToSet.agentIds = { $each: agentIds };
+  }
+
+  /* MongoDB rejects `$pull` and `$addToSet` on the same path in one update */
+  if (Object.keys($pull).length) {
+    await Class.updateOne({ _id: classId }, { $pull });
+  }
+  if (Object.keys($addToSet).length) {
+    await Class.updateOne({ _id: classId }, { $addToSet });
+  }
+
+  return await getClassById(classId);
+};
+
+/**
+ * Share a generated material with a class; sharing the same conversation again replaces it.
+ *
+ * @param {string} classId - The ID of the class.
+ * @param {Omit<MongoClassMaterial, '_id' | 'createdAt'>} material - The material to share.
+ * @returns {Promise<MongoClass | null>} The updated class.
+ */
+const addClassMaterial = async function (classId, material) {
+  await Class.updateOne(
+    { _id: classId },
+    { $pull: { materials: { conversationId: material.conversationId } } },
+  );
+  return await Class.findByIdAndUpdate(
+    classId,
+    { $push: { materials: { $each: [material], $position: 0 } } },
+    { new: true },
+  ).lean();
+};
+
+/**
+ * Remove a material from a class.
+ *
+ * @param {string} classId - The ID of the class.
+ * @param {string} materialId - The ID of the material to remove.
+ * @returns {Promise<MongoClass | null>} The updated class.
+ */
+const removeClassMaterial = async function (classId, materialId) {
+  return await Class.findByIdAndUpdate(
+    classId,
+    { $pull: { materials: { _id: materialId } } },
+    { new: true },
+  ).lean();
+};
+
+/**
+ * Collect the IDs of a resource type shared with any class the user teaches or attends.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {'promptGroupIds' | 'agentIds'} field - The shared resource field.
+ * @returns {Promise<string[]>} The unique resource IDs.
+ */
+const getUserClassResourceIds = async function (userId, field) {
+  const classes = await Class.find(
+    { $or: [{ teachers: userId }, { students: userId }], [`${field}.0`]: { $exists: true } },
+    { [field]: 1 },
+  ).lean();
+
+  const ids = new Set();
+  for (const userClass of classes) {
+    for (const id of userClass[field] ?? []) {
+      ids.add(id.toString());
+    }
+  }
+  return Array.from(ids);
+};
+
+/**
+ * Check whether a resource is shared with any class the user teaches or attends.
+ *
+ * @param {string} userId - The ID of the user.
+ * @param {'promptGroupIds' | 'agentIds'} field - The shared resource field.
+ * @param {string} resourceId - The ID of the resource.
+ * @returns {Promise<boolean>} Whether the user has class access to the resource.
+ */
+const isSharedWithUserClasses = async function (userId, field, resourceId) {
+  const match = await Class.exists({
+    $or: [{ teachers: userId }, { students: userId }],
+    [field]: resourceId,
+  });
+  return match != null;
+};
+
+/**
+ * Remove a prompt group ID from all classes.
+ *
+ * @param {string} promptGroupId - The ID of the prompt group to remove from classes.
+ * @returns {Promise<void>}
+ */
+const removeGroupFromAllClasses = async (promptGroupId) => {
+  await Class.updateMany({}, { $pull: { promptGroupIds: promptGroupId } });
+};
+
+/**
+ * Remove an agent ID from all classes.
+ *
+ * @param {string} agentId - The ID of the agent to remove from classes.
+ * @returns {Promise<void>}
+ */
+const removeAgentFromAllClasses = async (agentId) => {
+  await Class.updateMany({}, { $pull: { agentIds: agentId } });
+};
+
+module.exports = {
+  Class,
+  isClassTeacher,
+  isClassMember,
+  getClassMembers,
+  createClass,
+  getClassById,
+  getUserClasses,
+  updateClass,
+  deleteClass,
+  regenerateJoinCode,
+  joinClassByCode,
+  addClassTeacher,
+  removeClassMember,
+  /* shared resources */
+  updateClassShares,
+  addClassMaterial,
+  removeClassMaterial,
+  getUserClassResourceIds,
+  isSharedWithUserClasses,
+  removeGroupFromAllClasses,
+  removeAgentFromAllClasses,
+};
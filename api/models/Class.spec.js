@@ -0,0 +1,151 @@
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const {
+  Class,
+  createClass,
+  isClassMember,
+  isClassTeacher,
+  joinClassByCode,
+  addClassTeacher,
+  addClassMaterial,
+  updateClassShares,
+  regenerateJoinCode,
+  isSharedWithUserClasses,
+  getUserClassResourceIds,
+  removeAgentFromAllClasses,
+} = require('~/models/Class');
+
+let mongoServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const mongoUri = mongoServer.getUri();
+  await mongoose.connect(mongoUri);
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+beforeEach(async () => {
+  await Class.deleteMany({});
+});
+
+const teacherId = new mongoose.Types.ObjectId().toString();
+const studentId = new mongoose.Types.ObjectId().toString();
+
+describe('createClass', () => {
+  it('should create a class owned by the teacher with a join code', async () => {
+    const created = await createClass({ name: 'Biology 7', teacherId });
+
+    expect(created.joinCode).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+    expect(isClassTeacher(created, teacherId)).toBe(true);
+    expect(created.students).toEqual([]);
+  });
+});
+
+describe('joinClassByCode', () => {
+  it('should add a student using a case-insensitive join code', async () => {
+    const created = await createClass({ name: 'Biology 7', teacherId });
+
+    const joined = await joinClassByCode(studentId, ` ${created.joinCode.toLowerCase()} `);
+
+    expect(isClassMember(joined, studentId)).toBe(true);
+    expect(isClassTeacher(joined, studentId)).toBe(false);
+  });
+
+  it('should not add the class teacher as a student', async () => {
+    const created = await createClass({ name: 'Biology 7', teacherId });
+
+    const joined = await joinClassByCode(teacherId, created.joinCode);
+
+    expect(joined.students).toEqual([]);
+  });
+
+  it('should return null for an unknown or rotated join code', async () => {
+    const created = await createClass({ name: 'Biology 7', teacherId });
+    await regenerateJoinCode(created._id);
+
+    expect(await joinClassByCode(studentId, created.joinCode)).toBeNull();
+    expect(await joinClassByCode(studentId, '')).toBeNull();
+  });
+});
+
+describe('addClassTeacher', () => {
+  it('should move a student to the teachers', async () => {
+    const created = await createClass({ name: 'Biology 7', teacherId });
+    await joinClassByCode(studentId, created.joinCode);
+
+    const updated = await addClassTeacher(created._id, studentId);
+
+    expect(isClassTeacher(updated, studentId)).toBe(true);
+    expect(updated.students).toEqual([]);
+  });
+});
+
+describe('class shares', () => {
+  it('should expose shared agents and prompt groups to members only', async () => {
+    const promptGroupId = new mongoose.Types.ObjectId().toString();
+    const created = await createClass({ name: 'Biology 7', teacherId });
+    await joinClassByCode(studentId, created.joinCode);
+    await updateClassShares(created._id, {
+      agentIds: ['agent_photosynthesis'],
+      promptGroupIds: [promptGroupId],
+    });
+
+    expect(await getUserClassResourceIds(studentId, 'agentIds')).toEqual([
+      'agent_photosynthesis',
+    ]);
+    expect(await getUserClassResourceIds(studentId, 'promptGroupIds')).toEqual([promptGroupId]);
+    expect(await isSharedWithUserClasses(studentId, 'agentIds', 'agent_photosynthesis')).toBe(
+      true,
+    );
+
+    const outsiderId = new mongoose.Types.ObjectId().toString();
+    expect(await isSharedWithUserClasses(outsiderId, 'agentIds', 'agent_photosynthesis')).toBe(
+      false,
+    );
+  });
+
+  it('should add and remove shares in one update', async () => {
+    const created = await createClass({ name: 'Biology 7', teacherId });
+    await updateClassShares(created._id, { agentIds: ['agent_a', 'agent_b'] });
+
+    const updated = await updateClassShares(created._id, {
+      agentIds: ['agent_c'],
+      removeAgentIds: ['agent_a'],
+    });
+
+    expect(updated.agentIds).toEqual(['agent_b', 'agent_c']);
+  });
+
+  it('should remove deleted agents from all classes', async () => {
+    const first = await createClass({ name: 'Biology 7', teacherId });
+    const second = await createClass({ name: 'Chemistry 8', teacherId });
+    await updateClassShares(first._id, { agentIds: ['agent_a'] });
+    await updateClassShares(second._id, { agentIds: ['agent_a', 'agent_b'] });
+
+    await removeAgentFromAllClasses('agent_a');
+
+    expect(await getUserClassResourceIds(teacherId, 'agentIds')).toEqual(['agent_b']);
+  });
+});
+
+describe('addClassMaterial', () => {
+  it('should list the newest material first and replace re-shared conversations', async () => {
+    const created = await createClass({ name: 'Biology 7', teacherId });
+    const material = (conversationId, shareId) => ({
+      shareId,
+      conversationId,
+      title: conversationId,
+      sharedBy: teacherId,
+    });
+
+    await addClassMaterial(created._id, material('quiz', 'share_1'));
+    await addClassMaterial(created._id, material('lesson', 'share_2'));
+    const updated = await addClassMaterial(created._id, material('quiz', 'share_3'));
+
+    expect(updated.materials.map(({ shareId }) => shareId)).toEqual(['share_3', 'share_2']);
+  });
+});
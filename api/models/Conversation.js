@@ -1,5 +1,6 @@
 const Conversation = require('./schema/convoSchema');
 const { getMessages, deleteMessages } = require('./Message');
+const { filterStandardCodes } = require('~/server/services/StandardsService');
 const logger = require('~/config/winston');
 
 /**
@@ -104,6 +105,11 @@ module.exports = {
         update.expiredAt = null;
       }
 
+      const standards = filterStandardCodes(req.body.standards, req.app?.locals?.standards);
+      if (standards) {
+        update.standards = standards;
+      }
+
       /** Note: the resulting Model object is necessary for Meilisearch operations */
       const conversation = await Conversation.findOneAndUpdate(
         { conversationId, user: req.user.id },
@@ -141,7 +147,14 @@ module.exports = {
       throw new Error('Failed to save conversations in bulk.');
     }
   },
-  getConvosByPage: async (user, pageNumber = 1, pageSize = 25, isArchived = false, tags) => {
+  getConvosByPage: async (
+    user,
+    pageNumber = 1,
+    pageSize = 25,
+    isArchived = false,
+    tags,
+    standards,
+  ) => {
     const query = { user };
     if (isArchived) {
       query.isArchived = true;
@@ -151,6 +164,9 @@ module.exports = {
     if (Array.isArray(tags) && tags.length > 0) {
       query.tags = { $in: tags };
     }
+    if (Array.isArray(standards) && standards.length > 0) {
+      query.standards = { $in: standards };
+    }
 
     query.$and = [{ $or: [{ expiredAt: null }, { expiredAt: { $exists: false } }] }];
 
@@ -6,6 +6,7 @@ const {
   removeGroupIdsFromProject,
   removeGroupFromAllProjects,
 } = require('./Project');
+const { getUserClassResourceIds, removeGroupFromAllClasses } = require('./Class');
 const { Prompt, PromptGroup } = require('./schema/promptSchema');
 const { escapeRegExp } = require('~/server/utils');
 const { logger } = require('~/config');
@@ -90,6 +91,22 @@ const createAllGroupsPipeline = (
   ];
 };
 
+/**
+ * Get the IDs of prompt groups shared with the user, globally or through their classes
+ * @param {ServerRequest} req
+ * @returns {Promise<ObjectId[]>}
+ */
+const getSharedPromptGroupIds = async (req) => {
+  const [project, classGroupIds] = await Promise.all([
+    getProjectByName(Constants.GLOBAL_PROJECT_NAME, 'promptGroupIds'),
+    getUserClassResourceIds(req.user.id, 'promptGroupIds'),
+  ]);
+  return [
+    ...(project?.promptGroupIds ?? []),
+    ...classGroupIds.map((groupId) => new ObjectId(groupId)),
+  ];
+};
+
 /**
  * Get all prompt groups with filters
  * @param {ServerRequest} req
@@ -124,9 +141,9 @@ const getAllPromptGroups = async (req, filter) => {
     let combinedQuery = query;
 
     if (searchShared) {
-      const project = await getProjectByName(Constants.GLOBAL_PROJECT_NAME, 'promptGroupIds');
-      if (project && project.promptGroupIds && project.promptGroupIds.length > 0) {
-        const projectQuery = { _id: { $in: project.promptGroupIds }, ...query };
+      const sharedGroupIds = await getSharedPromptGroupIds(req);
+      if (sharedGroupIds.length > 0) {
+        const projectQuery = { _id: { $in: sharedGroupIds }, ...query };
         delete projectQuery.author;
         combinedQuery = searchSharedOnly ? projectQuery : { $or: [projectQuery, query] };
       }
@@ -177,10 +194,9 @@ const getPromptGroups = async (req, filter) => {
     let combinedQuery = query;
 
     if (searchShared) {
-      // const projects = req.user.projects || []; // TODO: handle multiple projects
-      const project = await getProjectByName(Constants.GLOBAL_PROJECT_NAME, 'promptGroupIds');
-      if (project && project.promptGroupIds && project.promptGroupIds.length > 0) {
-        const projectQuery = { _id: { $in: project.promptGroupIds }, ...query };
+      const sharedGroupIds = await getSharedPromptGroupIds(req);
+      if (sharedGroupIds.length > 0) {
+        const projectQuery = { _id: { $in: sharedGroupIds }, ...query };
         delete projectQuery.author;
         combinedQuery = searchSharedOnly ? projectQuery : { $or: [projectQuery, query] };
       }
@@ -235,6 +251,7 @@ const deletePromptGroup = async ({ _id, author, role }) => {
 
   await Prompt.deleteMany(groupQuery);
   await removeGroupFromAllProjects(_id);
+  await removeGroupFromAllClasses(_id);
   return { message: 'Prompt group deleted successfully' };
 };
 
@@ -432,6 +449,7 @@ module.exports = {
     if (remainingPrompts.length === 0) {
       await PromptGroup.deleteOne({ _id: groupId });
       await removeGroupFromAllProjects(groupId);
+      await removeGroupFromAllClasses(groupId);
 
       return {
         prompt: 'Prompt deleted successfully',
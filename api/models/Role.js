@@ -8,6 +8,7 @@ const {
   promptPermissionsSchema,
   bookmarkPermissionsSchema,
   multiConvoPermissionsSchema,
+  teacherToolsPermissionsSchema,
 } = require('librechat-data-provider');
 const getLogStores = require('~/cache/getLogStores');
 const Role = require('~/models/schema/roleSchema');
@@ -77,6 +78,7 @@ const permissionSchemas = {
   [PermissionTypes.PROMPTS]: promptPermissionsSchema,
   [PermissionTypes.BOOKMARKS]: bookmarkPermissionsSchema,
   [PermissionTypes.MULTI_CONVO]: multiConvoPermissionsSchema,
+  [PermissionTypes.TEACHER_TOOLS]: teacherToolsPermissionsSchema,
 };
 
 /**
@@ -133,13 +135,13 @@ async function updateAccessPermissions(roleName, permissionsUpdate) {
 
 /**
  * Initialize default roles in the system.
- * Creates the default roles (ADMIN, USER) if they don't exist in the database.
+ * Creates the default roles (ADMIN, USER, TEACHER, STUDENT) if they don't exist in the database.
  * Updates existing roles with new permission types if they're missing.
  *
  * @returns {Promise<void>}
  */
 const initializeRoles = async function () {
-  const defaultRoles = [SystemRoles.ADMIN, SystemRoles.USER];
+  const defaultRoles = Object.values(SystemRoles);
 
   for (const roleName of defaultRoles) {
     let role = await Role.findOne({ name: roleName });
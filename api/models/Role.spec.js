@@ -417,4 +417,40 @@ describe('initializeRoles', () => {
     expect(userRole[PermissionTypes.MULTI_CONVO]).toBeDefined();
     expect(userRole[PermissionTypes.MULTI_CONVO].USE).toBeDefined();
   });
+
+  it('should create classroom roles with their default permissions', async () => {
+    await initializeRoles();
+
+    const teacherRole = await Role.findOne({ name: SystemRoles.TEACHER }).lean();
+    const studentRole = await Role.findOne({ name: SystemRoles.STUDENT }).lean();
+
+    expect(teacherRole[PermissionTypes.TEACHER_TOOLS].USE).toBe(true);
+    expect(teacherRole[PermissionTypes.AGENTS].CREATE).toBe(true);
+    expect(studentRole[PermissionTypes.TEACHER_TOOLS].USE).toBe(false);
+    expect(studentRole[PermissionTypes.AGENTS].CREATE).toBe(false);
+    expect(studentRole[PermissionTypes.PROMPTS].CREATE).toBe(false);
+    expect(studentRole[PermissionTypes.PROMPTS].SHARED_GLOBAL).toBe(false);
+  });
+});
+
+describe('updateAccessPermissions for Teacher Tools', () => {
+  beforeEach(async () => {
+    await Role.deleteMany({});
+  });
+
+  it('should update per-tool permissions', async () => {
+    await new Role(roleDefaults[SystemRoles.TEACHER]).save();
+
+    await updateAccessPermissions(SystemRoles.TEACHER, {
+      [PermissionTypes.TEACHER_TOOLS]: {
+        TOOLS: { quiz: false },
+      },
+    });
+
+    const updatedRole = await Role.findOne({ name: SystemRoles.TEACHER }).lean();
+    expect(updatedRole[PermissionTypes.TEACHER_TOOLS]).toEqual({
+      USE: true,
+      TOOLS: { quiz: false },
+    });
+  });
 });
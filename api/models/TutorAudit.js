@@ -0,0 +1,55 @@
+const { model } = require('mongoose');
+const tutorAuditSchema = require('~/models/schema/tutorAuditSchema');
+
+const TutorAudit = model('TutorAudit', tutorAuditSchema);
+
+/**
+ * Record a tutor-mode exchange.
+ *
+ * @param {Omit<MongoTutorAudit, '_id' | 'createdAt' | 'updatedAt'>} data - The exchange.
+ * @returns {Promise<MongoTutorAudit>} The created entry as a plain object.
+ */
+const createTutorAudit = async function (data) {
+  return (await TutorAudit.create(data)).toObject();
+};
+
+/**
+ * Retrieve the tutor-mode exchanges of the given users, newest first.
+ *
+ * @param {Object} params
+ * @param {Array<string | ObjectId>} params.users - The IDs of the users.
+ * @param {boolean} [params.flaggedOnly] - Only return exchanges that moderation flagged.
+ * @param {Date} [params.before] - Only return exchanges recorded before this date.
+ * @param {number} params.limit - The maximum number of exchanges.
+ * @returns {Promise<MongoTutorAudit[]>} The exchanges as plain objects.
+ */
+const getTutorAudits = async function ({ users, flaggedOnly, before, limit }) {
+  if (!users.length) {
+    return [];
+  }
+  const filter = { user: { $in: users } };
+  if (flaggedOnly) {
+    filter.$or = [{ inputFlagged: true }, { outputFlagged: true }];
+  }
+  if (before) {
+    filter.createdAt = { $lt: before };
+  }
+  return await TutorAudit.find(filter).sort({ createdAt: -1 }).limit(limit).lean();
+};
+
+/**
+ * Delete all tutor-mode exchanges of a user.
+ *
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<void>}
+ */
+const deleteUserTutorAudits = async function (userId) {
+  await TutorAudit.deleteMany({ user: userId });
+};
+
+module.exports = {
+  TutorAudit,
+  createTutorAudit,
+  getTutorAudits,
+  deleteUserTutorAudits,
+};
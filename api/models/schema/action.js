@@ -8,7 +8,7 @@ const AuthSchema = new Schema(
     custom_auth_header: String,
     type: {
       type: String,
-      enum: ['service_http', 'oauth', 'none'],
+      enum: ['service_http', 'oauth', 'client_credentials', 'none'],
     },
     authorization_content_type: String,
     authorization_url: String,
@@ -51,6 +51,7 @@ const actionSchema = new Schema({
     // json_schema: Schema.Types.Mixed,
     privacy_policy_url: String,
     raw_spec: String,
+    server_url: String,
     oauth_client_id: String, // private, encrypted
     oauth_client_secret: String, // private, encrypted
   },
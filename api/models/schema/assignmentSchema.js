@@ -0,0 +1,66 @@
+const { Schema } = require('mongoose');
+
+/**
+ * @typedef {Object} MongoAssignment
+ * @property {ObjectId} [_id] - MongoDB Document ID
+ * @property {ObjectId} classId - The class the quiz is assigned to
+ * @property {string} title - The assignment title
+ * @property {TQuiz} quiz - The assigned quiz, including its answer key
+ * @property {string} conversationId - The conversation the quiz was generated in
+ * @property {string} messageId - The message the quiz was taken from
+ * @property {Date} dueAt - Submissions are rejected after this date
+ * @property {ObjectId} createdBy - The teacher who assigned the quiz
+ * @property {string} [graderAgentId] - Agent that grades short answers
+ * @property {boolean} protectSolutions - Whether tutor mode withholds the solutions from students
+ * @property {Date} [createdAt] - Date when the assignment was created (added by timestamps)
+ * @property {Date} [updatedAt] - Date when the assignment was last updated (added by timestamps)
+ */
+
+const assignmentSchema = new Schema(
+  {
+    classId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Class',
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    quiz: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    conversationId: {
+      type: String,
+      required: true,
+    },
+    messageId: {
+      type: String,
+      required: true,
+    },
+    dueAt: {
+      type: Date,
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    graderAgentId: {
+      type: String,
+    },
+    protectSolutions: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+module.exports = assignmentSchema;
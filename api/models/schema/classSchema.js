@@ -0,0 +1,99 @@
+const { Schema } = require('mongoose');
+
+/**
+ * @typedef {Object} MongoClassMaterial
+ * @property {ObjectId} [_id] - MongoDB Document ID
+ * @property {string} shareId - The shared link ID of the conversation snapshot
+ * @property {string} conversationId - The shared conversation ID
+ * @property {string} title - The material title
+ * @property {ObjectId} sharedBy - The teacher who shared the material
+ * @property {Date} [createdAt] - Date when the material was shared
+ */
+
+/**
+ * @typedef {Object} MongoClass
+ * @property {ObjectId} [_id] - MongoDB Document ID
+ * @property {string} name - The name of the class
+ * @property {string} [description] - The class description
+ * @property {ObjectId[]} teachers - Users who own and manage the class
+ * @property {ObjectId[]} students - Users who joined the class
+ * @property {string} joinCode - Code students use to join the class
+ * @property {ObjectId[]} promptGroupIds - Prompt groups shared with the class
+ * @property {string[]} agentIds - Agents shared with the class
+ * @property {MongoClassMaterial[]} materials - Generated materials shared with the class
+ * @property {Date} [createdAt] - Date when the class was created (added by timestamps)
+ * @property {Date} [updatedAt] - Date when the class was last updated (added by timestamps)
+ */
+
+const classMaterialSchema = new Schema(
+  {
+    shareId: {
+      type: String,
+      required: true,
+    },
+    conversationId: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      default: 'Untitled',
+    },
+    sharedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+const classSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    teachers: {
+      type: [Schema.Types.ObjectId],
+      ref: 'User',
+      index: true,
+      default: [],
+    },
+    students: {
+      type: [Schema.Types.ObjectId],
+      ref: 'User',
+      index: true,
+      default: [],
+    },
+    joinCode: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    promptGroupIds: {
+      type: [Schema.Types.ObjectId],
+      ref: 'PromptGroup',
+      default: [],
+    },
+    agentIds: {
+      type: [String],
+      ref: 'Agent',
+      default: [],
+    },
+    materials: {
+      type: [classMaterialSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+module.exports = classSchema;
@@ -37,6 +37,12 @@ const convoSchema = mongoose.Schema(
     files: {
       type: [String],
     },
+    /** Curriculum standard codes from the Teacher Tool that started the conversation */
+    standards: {
+      type: [String],
+      default: undefined,
+      index: true,
+    },
     expiredAt: {
       type: Date,
     },
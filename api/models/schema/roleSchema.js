@@ -48,6 +48,16 @@ const roleSchema = new mongoose.Schema({
       default: true,
     },
   },
+  [PermissionTypes.TEACHER_TOOLS]: {
+    [Permissions.USE]: {
+      type: Boolean,
+      default: true,
+    },
+    TOOLS: {
+      type: mongoose.Schema.Types.Mixed,
+      default: {},
+    },
+  },
 });
 
 const Role = mongoose.model('Role', roleSchema);
@@ -0,0 +1,91 @@
+const { Schema } = require('mongoose');
+const { QuestionGrader, SubmissionStatus, QuestionResultStatus } = require('librechat-data-provider');
+
+/**
+ * @typedef {Object} MongoSubmission
+ * @property {ObjectId} [_id] - MongoDB Document ID
+ * @property {ObjectId} assignmentId - The submitted assignment
+ * @property {ObjectId} user - The student who submitted
+ * @property {TQuizResponse[]} responses - Responses in question order
+ * @property {TQuestionResult[]} results - Grading results in question order
+ * @property {number} score - Total points awarded
+ * @property {number} maxScore - Total points available
+ * @property {SubmissionStatus} status - Whether any question still awaits grading
+ * @property {Date} [gradedAt] - Date when the last question was graded
+ * @property {Date} [createdAt] - Date when the submission was made (added by timestamps)
+ * @property {Date} [updatedAt] - Date when the submission was last updated (added by timestamps)
+ */
+
+const questionResultSchema = new Schema(
+  {
+    points: {
+      type: Number,
+      required: true,
+    },
+    maxPoints: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(QuestionResultStatus),
+      required: true,
+    },
+    gradedBy: {
+      type: String,
+      enum: Object.values(QuestionGrader),
+    },
+    feedback: {
+      type: String,
+    },
+  },
+  { _id: false },
+);
+
+const submissionSchema = new Schema(
+  {
+    assignmentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Assignment',
+      required: true,
+      index: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    responses: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    results: {
+      type: [questionResultSchema],
+      default: [],
+    },
+    score: {
+      type: Number,
+      default: 0,
+    },
+    maxScore: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: Object.values(SubmissionStatus),
+      default: SubmissionStatus.SUBMITTED,
+    },
+    gradedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+submissionSchema.index({ assignmentId: 1, user: 1 }, { unique: true });
+
+module.exports = submissionSchema;
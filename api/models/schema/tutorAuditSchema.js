@@ -0,0 +1,76 @@
+const { Schema } = require('mongoose');
+
+/**
+ * @typedef {Object} MongoTutorAudit
+ * @property {ObjectId} [_id] - MongoDB Document ID
+ * @property {ObjectId} user - The user whose conversation ran in tutor mode
+ * @property {string} [conversationId] - The conversation of the exchange; absent when a new conversation's first message was blocked
+ * @property {string} messageId - The user's message
+ * @property {string} [responseMessageId] - The response, absent when the message was blocked
+ * @property {string} endpoint - The endpoint of the conversation
+ * @property {string} [model] - The model of the conversation
+ * @property {string} [spec] - The model spec of the conversation
+ * @property {string} text - The user's message text
+ * @property {string} [responseText] - The response text, before any moderation refusal replaced it
+ * @property {boolean} inputFlagged - Whether moderation flagged the user's message
+ * @property {boolean} outputFlagged - Whether moderation flagged, and replaced, the response
+ * @property {ObjectId[]} protectedAssignmentIds - Protected assignments included in the instructions
+ * @property {Date} [createdAt] - Date when the exchange was recorded (added by timestamps)
+ * @property {Date} [updatedAt] - Date when the entry was last updated (added by timestamps)
+ */
+
+const tutorAuditSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    conversationId: {
+      type: String,
+    },
+    messageId: {
+      type: String,
+      required: true,
+    },
+    responseMessageId: {
+      type: String,
+    },
+    endpoint: {
+      type: String,
+      required: true,
+    },
+    model: {
+      type: String,
+    },
+    spec: {
+      type: String,
+    },
+    text: {
+      type: String,
+      default: '',
+    },
+    responseText: {
+      type: String,
+    },
+    inputFlagged: {
+      type: Boolean,
+      default: false,
+    },
+    outputFlagged: {
+      type: Boolean,
+      default: false,
+    },
+    protectedAssignmentIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Assignment' }],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+tutorAuditSchema.index({ user: 1, createdAt: -1 });
+
+module.exports = tutorAuditSchema;
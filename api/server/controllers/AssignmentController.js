@@ -0,0 +1,461 @@
+const {
+  ContentTypes,
+  SystemRoles,
+  QuestionGrader,
+  extractQuiz,
+  toAssignedQuiz,
+  gradeQuizResponses,
+  applyQuestionGrades,
+  tQuizResponsesSchema,
+  tSubmissionGradesSchema,
+} = require('librechat-data-provider');
+const {
+  createSubmission,
+  createAssignment,
+  updateAssignment,
+  deleteAssignment,
+  getSubmissionById,
+  getUserSubmission,
+  getUserSubmissions,
+  getClassAssignments,
+  updateSubmissionResults,
+  getAssignmentSubmissions,
+  countAssignmentSubmissions,
+} = require('~/models/Assignment');
+const {
+  getClassById,
+  isClassMember,
+  isClassTeacher,
+  getUserClasses,
+  getClassMembers,
+} = require('~/models/Class');
+const { gradeSubmissionWithAgent } = require('~/server/services/GradingService');
+const { getMessage } = require('~/models/Message');
+const { getAgent, loadAgent } = require('~/models/Agent');
+const { logger } = require('~/config');
+
+/**
+ * Finds the quiz block in a message's text or text content parts.
+ * @param {TMessage} message
+ * @returns {TQuiz | null}
+ */
+const getMessageQuiz = (message) => {
+  const texts = [message.text ?? ''];
+  for (const part of message.content ?? []) {
+    if (part?.type === ContentTypes.TEXT) {
+      texts.push(typeof part.text === 'string' ? part.text : part.text?.value ?? '');
+    }
+  }
+  for (const text of texts) {
+    const quiz = extractQuiz(text);
+    if (quiz) {
+      return quiz;
+    }
+  }
+  return null;
+};
+
+/**
+ * @param {MongoSubmission} submission
+ * @param {TClassMember} [user]
+ * @returns {TAssignmentSubmission}
+ */
+const formatSubmission = (submission, user) => ({
+  _id: submission._id.toString(),
+  assignmentId: submission.assignmentId.toString(),
+  user: user ?? { id: submission.user.toString() },
+  responses: submission.responses,
+  results: submission.results,
+  score: submission.score,
+  maxScore: submission.maxScore,
+  status: submission.status,
+  submittedAt: submission.createdAt,
+  gradedAt: submission.gradedAt,
+});
+
+/**
+ * Formats an assignment for the requesting user; the answer key is only sent to teachers.
+ * @param {MongoAssignment} assignment
+ * @param {Object} options
+ * @param {MongoClass} options.classDoc - The assignment's class.
+ * @param {boolean} options.isTeacher - Whether the user teaches the class.
+ * @param {boolean} [options.includeQuiz] - Whether to include the quiz content.
+ * @param {MongoSubmission | null} [options.submission] - The requesting student's submission.
+ * @param {number} [options.submissionCount] - The number of submissions.
+ * @returns {TAssignment}
+ */
+const formatAssignment = (
+  assignment,
+  { classDoc, isTeacher, includeQuiz = false, submission, submissionCount },
+) => ({
+  _id: assignment._id.toString(),
+  classId: assignment.classId.toString(),
+  className: classDoc.name,
+  title: assignment.title,
+  dueAt: assignment.dueAt,
+  questionCount: assignment.quiz.questions.length,
+  isTeacher,
+  protectSolutions: assignment.protectSolutions === true,
+  createdAt: assignment.createdAt,
+  assignedQuiz: includeQuiz ? toAssignedQuiz(assignment.quiz) : undefined,
+  quiz: includeQuiz && isTeacher ? assignment.quiz : undefined,
+  graderAgentId: isTeacher ? assignment.graderAgentId : undefined,
+  conversationId: isTeacher ? assignment.conversationId : undefined,
+  submission: submission ? formatSubmission(submission) : undefined,
+  submissionCount: isTeacher ? submissionCount ?? 0 : undefined,
+});
+
+/**
+ * Whether the user can manage the class's assignments.
+ * @param {MongoClass} classDoc
+ * @param {ServerRequest['user']} user
+ * @returns {boolean}
+ */
+const canManageClass = (classDoc, user) =>
+  user.role === SystemRoles.ADMIN || isClassTeacher(classDoc, user.id);
+
+/**
+ * Runs agent grading after the response was sent, logging failures.
+ * @param {ServerRequest} req
+ * @param {MongoAssignment} assignment
+ * @param {MongoSubmission} submission
+ */
+const gradeInBackground = (req, assignment, submission) => {
+  gradeSubmissionWithAgent({ req, assignment, submission }).catch((error) => {
+    logger.error(
+      `[gradeInBackground] Error grading submission ${submission._id} with agent`,
+      error,
+    );
+  });
+};
+
+/**
+ * Lists the assignments of the user's classes, soonest due first.
+ * @route GET /api/assignments
+ * @param {TAssignmentListParams} req.query
+ * @returns {TAssignmentListResponse}
+ */
+const getAssignmentsHandler = async (req, res) => {
+  try {
+    const { classId } = req.query;
+    const classes = (await getUserClasses(req.user.id)).filter(
+      (classDoc) => classId == null || classDoc._id.toString() === classId,
+    );
+    const classesById = new Map(classes.map((classDoc) => [classDoc._id.toString(), classDoc]));
+    const assignments = await getClassAssignments(classes.map((classDoc) => classDoc._id));
+
+    const taughtIds = [];
+    const attendedIds = [];
+    for (const assignment of assignments) {
+      const classDoc = classesById.get(assignment.classId.toString());
+      (isClassTeacher(classDoc, req.user.id) ? taughtIds : attendedIds).push(assignment._id);
+    }
+
+    const [counts, submissions] = await Promise.all([
+      countAssignmentSubmissions(taughtIds),
+      getUserSubmissions(req.user.id, attendedIds),
+    ]);
+    const submissionsById = new Map(
+      submissions.map((submission) => [submission.assignmentId.toString(), submission]),
+    );
+
+    res.status(200).json(
+      assignments.map((assignment) => {
+        const id = assignment._id.toString();
+        const classDoc = classesById.get(assignment.classId.toString());
+        return formatAssignment(assignment, {
+          classDoc,
+          isTeacher: isClassTeacher(classDoc, req.user.id),
+          submission: submissionsById.get(id),
+          submissionCount: counts.get(id),
+        });
+      }),
+    );
+  } catch (error) {
+    logger.error('[/assignments] Error listing assignments', error);
+    res.status(500).json({ message: 'Error listing assignments' });
+  }
+};
+
+/**
+ * @route GET /api/assignments/:assignmentId
+ * @returns {TAssignment} The assignment with its quiz; students get their own submission.
+ */
+const getAssignmentHandler = async (req, res) => {
+  try {
+    const { assignment, class: classDoc } = req;
+    const isTeacher = canManageClass(classDoc, req.user);
+    const submission = isTeacher ? null : await getUserSubmission(assignment._id, req.user.id);
+    res.status(200).json(
+      formatAssignment(assignment, { classDoc, isTeacher, includeQuiz: true, submission }),
+    );
+  } catch (error) {
+    logger.error('[/assignments/:assignmentId] Error getting assignment', error);
+    res.status(500).json({ message: 'Error getting assignment' });
+  }
+};
+
+/**
+ * Assigns the quiz of one of the user's messages to a class they teach.
+ * @route POST /api/assignments
+ * @param {TCreateAssignmentRequest} req.body
+ * @returns {TAssignment} The created assignment.
+ */
+const createAssignmentHandler = async (req, res) => {
+  const { classId, conversationId, messageId, dueAt, title, graderAgentId, protectSolutions } =
+    req.body ?? {};
+  const dueDate = new Date(dueAt);
+  if (!dueAt || Number.isNaN(dueDate.getTime()) || dueDate <= new Date()) {
+    return res.status(400).json({ message: 'The due date must be in the future' });
+  }
+
+  try {
+    const classDoc = await getClassById(classId);
+    if (!classDoc || !canManageClass(classDoc, req.user)) {
+      return res.status(404).json({ message: 'Class not found' });
+    }
+
+    const message = messageId ? await getMessage({ user: req.user.id, messageId }) : null;
+    if (!message || message.conversationId !== conversationId) {
+      return res.status(404).json({ message: 'Message not found' });
+    }
+    const quiz = getMessageQuiz(message);
+    if (!quiz) {
+      return res.status(400).json({ message: 'The message does not contain a quiz' });
+    }
+
+    if (graderAgentId) {
+      const exists = (await getAgent({ id: graderAgentId })) != null;
+      if (!exists || !(await loadAgent({ req, agent_id: graderAgentId }))) {
+        return res.status(404).json({ message: 'Grader agent not found' });
+      }
+    }
+
+    const assignment = await createAssignment({
+      classId: classDoc._id,
+      title: `${title ?? ''}`.trim() || quiz.title,
+      quiz,
+      conversationId,
+      messageId,
+      dueAt: dueDate,
+      createdBy: req.user.id,
+      graderAgentId: graderAgentId || undefined,
+      protectSolutions: protectSolutions === true,
+    });
+    res
+      .status(201)
+      .json(formatAssignment(assignment, { classDoc, isTeacher: true, includeQuiz: true }));
+  } catch (error) {
+    logger.error('[/assignments] Error creating assignment', error);
+    res.status(500).json({ message: 'Error creating assignment' });
+  }
+};
+
+/**
+ * @route PATCH /api/assignments/:assignmentId
+ * @param {TUpdateAssignmentRequest} req.body
+ * @returns {TAssignment} The updated assignment.
+ */
+const updateAssignmentHandler = async (req, res) => {
+  const { protectSolutions } = req.body ?? {};
+  if (typeof protectSolutions !== 'boolean') {
+    return res.status(400).json({ message: 'Invalid assignment update' });
+  }
+
+  try {
+    const assignment = await updateAssignment(req.assignment._id, { protectSolutions });
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+    const counts = await countAssignmentSubmissions([assignment._id]);
+    res.status(200).json(
+      formatAssignment(assignment, {
+        classDoc: req.class,
+        isTeacher: true,
+        includeQuiz: true,
+        submissionCount: counts.get(assignment._id.toString()),
+      }),
+    );
+  } catch (error) {
+    logger.error('[/assignments/:assignmentId] Error updating assignment', error);
+    res.status(500).json({ message: 'Error updating assignment' });
+  }
+};
+
+/**
+ * @route DELETE /api/assignments/:assignmentId
+ * @returns {TDeleteAssignmentResponse}
+ */
+const deleteAssignmentHandler = async (req, res) => {
+  try {
+    await deleteAssignment(req.assignment._id);
+    res.status(200).json({ assignmentId: req.assignment._id.toString() });
+  } catch (error) {
+    logger.error('[/assignments/:assignmentId] Error deleting assignment', error);
+    res.status(500).json({ message: 'Error deleting assignment' });
+  }
+};
+
+/**
+ * Submits a student's responses once, before the due date. Objective questions are graded
+ * immediately; short answers that don't match the answer key are graded by the grader agent.
+ * @route POST /api/assignments/:assignmentId/submissions
+ * @param {{ responses: TQuizResponse[] }} req.body
+ * @returns {TAssignment} The assignment with the student's submission.
+ */
+const submitAssignmentHandler = async (req, res) => {
+  const { assignment, class: classDoc } = req;
+  if (!isClassMember(classDoc, req.user.id) || isClassTeacher(classDoc, req.user.id)) {
+    return res.status(403).json({ message: 'Only students of this class can submit' });
+  }
+  if (new Date(assignment.dueAt) < new Date()) {
+    return res.status(400).json({ message: 'This assignment is past due' });
+  }
+
+  const parsed = tQuizResponsesSchema.safeParse(req.body?.responses);
+  if (!parsed.success || parsed.data.length > assignment.quiz.questions.length) {
+    return res.status(400).json({ message: 'Invalid responses' });
+  }
+
+  try {
+    const submission = await createSubmission({
+      assignmentId: assignment._id,
+      user: req.user.id,
+      responses: parsed.data,
+      results: gradeQuizResponses(assignment.quiz, parsed.data),
+    });
+    if (!submission) {
+      return res.status(409).json({ message: 'You already submitted this assignment' });
+    }
+
+    res.status(201).json(
+      formatAssignment(assignment, {
+        classDoc,
+        isTeacher: false,
+        includeQuiz: true,
+        submission,
+      }),
+    );
+    gradeInBackground(req, assignment, submission);
+  } catch (error) {
+    logger.error('[/assignments/:assignmentId/submissions] Error submitting assignment', error);
+    res.status(500).json({ message: 'Error submitting assignment' });
+  }
+};
+
+/**
+ * @route GET /api/assignments/:assignmentId/results
+ * @returns {TAssignmentResultsResponse} The class roster and every submission.
+ */
+const getResultsHandler = async (req, res) => {
+  try {
+    const { assignment, class: classDoc } = req;
+    const [students, submissions] = await Promise.all([
+      getClassMembers(classDoc.students),
+      getAssignmentSubmissions(assignment._id),
+    ]);
+    const studentsById = new Map(students.map((student) => [student.id, student]));
+    const submitters = submissions
+      .map((submission) => submission.user.toString())
+      .filter((id) => !studentsById.has(id));
+    /* Students who left the class keep their submissions */
+    const formerStudents = await getClassMembers(submitters);
+    for (const student of formerStudents) {
+      studentsById.set(student.id, student);
+    }
+
+    res.status(200).json({
+      assignment: formatAssignment(assignment, {
+        classDoc,
+        isTeacher: true,
+        includeQuiz: true,
+        submissionCount: submissions.length,
+      }),
+      students,
+      submissions: submissions.map((submission) =>
+        formatSubmission(submission, studentsById.get(submission.user.toString())),
+      ),
+    });
+  } catch (error) {
+    logger.error('[/assignments/:assignmentId/results] Error getting results', error);
+    res.status(500).json({ message: 'Error getting results' });
+  }
+};
+
+/**
+ * Loads `req.params.submissionId` of `req.assignment` into `req.submission`.
+ * @returns {Promise<MongoSubmission | null>}
+ */
+const loadSubmission = async (req, res) => {
+  const submission = await getSubmissionById(req.params.submissionId);
+  if (!submission || submission.assignmentId.toString() !== req.assignment._id.toString()) {
+    res.status(404).json({ message: 'Submission not found' });
+    return null;
+  }
+  return submission;
+};
+
+/**
+ * Overrides the grades of a submission's questions.
+ * @route PATCH /api/assignments/:assignmentId/submissions/:submissionId
+ * @param {{ grades: TSubmissionGrade[] }} req.body
+ * @returns {TAssignmentSubmission} The updated submission.
+ */
+const gradeSubmissionHandler = async (req, res) => {
+  const parsed = tSubmissionGradesSchema.safeParse(req.body?.grades);
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid grades' });
+  }
+
+  try {
+    const submission = await loadSubmission(req, res);
+    if (!submission) {
+      return;
+    }
+    const results = applyQuestionGrades(submission.results, parsed.data, QuestionGrader.TEACHER);
+    const updated = await updateSubmissionResults(submission._id, results);
+    const [user] = await getClassMembers([updated.user]);
+    res.status(200).json(formatSubmission(updated, user));
+  } catch (error) {
+    logger.error('[/assignments/:assignmentId/submissions] Error grading submission', error);
+    res.status(500).json({ message: 'Error grading submission' });
+  }
+};
+
+/**
+ * Has the grader agent grade a submission's pending short answers.
+ * @route POST /api/assignments/:assignmentId/submissions/:submissionId/agent-grade
+ * @returns {TAssignmentSubmission} The submission, updated when the agent graded it.
+ */
+const agentGradeSubmissionHandler = async (req, res) => {
+  if (!req.assignment.graderAgentId) {
+    return res.status(400).json({ message: 'This assignment has no grader agent' });
+  }
+
+  try {
+    const submission = await loadSubmission(req, res);
+    if (!submission) {
+      return;
+    }
+    const updated =
+      (await gradeSubmissionWithAgent({ req, assignment: req.assignment, submission })) ??
+      submission;
+    const [user] = await getClassMembers([updated.user]);
+    res.status(200).json(formatSubmission(updated, user));
+  } catch (error) {
+    logger.error('[/assignments/:assignmentId/submissions] Error grading with agent', error);
+    res.status(500).json({ message: 'Error grading with agent' });
+  }
+};
+
+module.exports = {
+  getAssignmentsHandler,
+  getAssignmentHandler,
+  createAssignmentHandler,
+  updateAssignmentHandler,
+  deleteAssignmentHandler,
+  submitAssignmentHandler,
+  getResultsHandler,
+  gradeSubmissionHandler,
+  agentGradeSubmissionHandler,
+};
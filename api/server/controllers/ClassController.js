@@ -0,0 +1,341 @@
+const { SystemRoles } = require('librechat-data-provider');
+const {
+  createClass,
+  updateClass,
+  deleteClass,
+  getClassById,
+  getUserClasses,
+  addClassTeacher,
+  joinClassByCode,
+  addClassMaterial,
+  removeClassMember,
+  updateClassShares,
+  regenerateJoinCode,
+  isClassTeacher,
+  removeClassMaterial,
+  getClassMembers,
+} = require('~/models/Class');
+const { getSharedLink, createSharedLink } = require('~/models/Share');
+const { deleteClassAssignments } = require('~/models/Assignment');
+const { PromptGroup } = require('~/models/schema/promptSchema');
+const { getConvo } = require('~/models/Conversation');
+const { getAgent } = require('~/models/Agent');
+const { findUser } = require('~/models');
+const { logger } = require('~/config');
+
+const CLASS_TEACHER_ROLES = [SystemRoles.TEACHER, SystemRoles.ADMIN];
+
+/**
+ * Formats a class for the requesting user; the roster and join code are only sent to teachers.
+ * @param {MongoClass} classDoc
+ * @param {ServerRequest['user']} user
+ * @returns {Promise<TClass>}
+ */
+const formatClass = async (classDoc, user) => {
+  const isTeacher = isClassTeacher(classDoc, user.id) || user.role === SystemRoles.ADMIN;
+  const [teachers, students] = await Promise.all([
+    getClassMembers(classDoc.teachers),
+    isTeacher ? getClassMembers(classDoc.students) : undefined,
+  ]);
+
+  return {
+    _id: classDoc._id.toString(),
+    name: classDoc.name,
+    description: classDoc.description,
+    teachers,
+    students,
+    joinCode: isTeacher ? classDoc.joinCode : undefined,
+    promptGroupIds: classDoc.promptGroupIds.map((id) => id.toString()),
+    agentIds: classDoc.agentIds,
+    materials: classDoc.materials.map((material) => ({
+      ...material,
+      _id: material._id.toString(),
+      sharedBy: material.sharedBy.toString(),
+    })),
+    isTeacher,
+    createdAt: classDoc.createdAt,
+    updatedAt: classDoc.updatedAt,
+  };
+};
+
+/**
+ * @route GET /api/classes
+ * @returns {TClassListResponse} The classes the user teaches or attends.
+ */
+const getClassesHandler = async (req, res) => {
+  try {
+    const classes = await getUserClasses(req.user.id);
+    res.status(200).json(await Promise.all(classes.map((doc) => formatClass(doc, req.user))));
+  } catch (error) {
+    logger.error('[/classes] Error listing classes', error);
+    res.status(500).json({ message: 'Error listing classes' });
+  }
+};
+
+/**
+ * @route GET /api/classes/:classId
+ * @returns {TClass} The class.
+ */
+const getClassHandler = async (req, res) => {
+  try {
+    res.status(200).json(await formatClass(req.class, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId] Error getting class', error);
+    res.status(500).json({ message: 'Error getting class' });
+  }
+};
+
+/**
+ * @route POST /api/classes
+ * @param {TCreateClassRequest} req.body
+ * @returns {TClass} The created class.
+ */
+const createClassHandler = async (req, res) => {
+  const name = `${req.body?.name ?? ''}`.trim();
+  if (!name) {
+    return res.status(400).json({ message: 'Class name is required' });
+  }
+
+  try {
+    const classDoc = await createClass({
+      name,
+      description: req.body.description,
+      teacherId: req.user.id,
+    });
+    res.status(201).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes] Error creating class', error);
+    res.status(500).json({ message: 'Error creating class' });
+  }
+};
+
+/**
+ * @route PATCH /api/classes/:classId
+ * @param {TUpdateClassRequest} req.body
+ * @returns {TClass} The updated class.
+ */
+const updateClassHandler = async (req, res) => {
+  const updates = {};
+  if (req.body?.name != null) {
+    updates.name = `${req.body.name}`.trim();
+    if (!updates.name) {
+      return res.status(400).json({ message: 'Class name is required' });
+    }
+  }
+  if (req.body?.description != null) {
+    updates.description = `${req.body.description}`;
+  }
+
+  try {
+    const classDoc = await updateClass(req.class._id, updates);
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId] Error updating class', error);
+    res.status(500).json({ message: 'Error updating class' });
+  }
+};
+
+/**
+ * @route DELETE /api/classes/:classId
+ * @returns {TDeleteClassResponse}
+ */
+const deleteClassHandler = async (req, res) => {
+  try {
+    await deleteClassAssignments(req.class._id);
+    await deleteClass(req.class._id);
+    res.status(200).json({ classId: req.class._id.toString() });
+  } catch (error) {
+    logger.error('[/classes/:classId] Error deleting class', error);
+    res.status(500).json({ message: 'Error deleting class' });
+  }
+};
+
+/**
+ * @route POST /api/classes/join
+ * @param {TJoinClassRequest} req.body
+ * @returns {TClass} The joined class.
+ */
+const joinClassHandler = async (req, res) => {
+  try {
+    const classDoc = await joinClassByCode(req.user.id, req.body?.joinCode);
+    if (!classDoc) {
+      return res.status(404).json({ message: 'Invalid join code' });
+    }
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/join] Error joining class', error);
+    res.status(500).json({ message: 'Error joining class' });
+  }
+};
+
+/**
+ * @route POST /api/classes/:classId/join-code
+ * @returns {TClass} The class with its new join code.
+ */
+const regenerateJoinCodeHandler = async (req, res) => {
+  try {
+    const classDoc = await regenerateJoinCode(req.class._id);
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId/join-code] Error regenerating join code', error);
+    res.status(500).json({ message: 'Error regenerating join code' });
+  }
+};
+
+/**
+ * @route POST /api/classes/:classId/teachers
+ * @param {{ email: string }} req.body
+ * @returns {TClass} The updated class.
+ */
+const addTeacherHandler = async (req, res) => {
+  try {
+    const email = `${req.body?.email ?? ''}`.trim().toLowerCase();
+    const teacher = email ? await findUser({ email }, '_id role') : null;
+    if (!teacher || !CLASS_TEACHER_ROLES.includes(teacher.role)) {
+      return res.status(404).json({ message: 'No teacher found with that email' });
+    }
+    const classDoc = await addClassTeacher(req.class._id, teacher._id);
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId/teachers] Error adding teacher', error);
+    res.status(500).json({ message: 'Error adding teacher' });
+  }
+};
+
+/**
+ * Removes a member from the class. Teachers may remove anyone; students may only leave.
+ * @route DELETE /api/classes/:classId/members/:userId
+ * @returns {TClass} The updated class.
+ */
+const removeMemberHandler = async (req, res) => {
+  const { userId } = req.params;
+  const isSelf = userId === req.user.id;
+  if (
+    !isSelf &&
+    req.user.role !== SystemRoles.ADMIN &&
+    !isClassTeacher(req.class, req.user.id)
+  ) {
+    return res.status(403).json({ message: 'Only teachers of this class can do that' });
+  }
+  if (isClassTeacher(req.class, userId) && req.class.teachers.length === 1) {
+    return res.status(400).json({ message: 'A class needs at least one teacher' });
+  }
+
+  try {
+    const classDoc = await removeClassMember(req.class._id, userId);
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId/members] Error removing member', error);
+    res.status(500).json({ message: 'Error removing member' });
+  }
+};
+
+/**
+ * Shares prompt groups and agents with the class. Only resources the user authored can be shared.
+ * @route PATCH /api/classes/:classId/shares
+ * @param {TUpdateClassSharesRequest} req.body
+ * @returns {TClass} The updated class.
+ */
+const updateSharesHandler = async (req, res) => {
+  const toIds = (value) => (Array.isArray(value) ? value.map(String) : undefined);
+  const promptGroupIds = toIds(req.body?.promptGroupIds);
+  const agentIds = toIds(req.body?.agentIds);
+  const isAdmin = req.user.role === SystemRoles.ADMIN;
+
+  try {
+    if (promptGroupIds?.length) {
+      const query = { _id: { $in: promptGroupIds }, author: req.user.id };
+      if (isAdmin) {
+        delete query.author;
+      }
+      if ((await PromptGroup.countDocuments(query)) !== new Set(promptGroupIds).size) {
+        return res.status(403).json({ message: 'You can only share your own prompts' });
+      }
+    }
+
+    if (agentIds?.length) {
+      for (const id of new Set(agentIds)) {
+        const query = { id, author: req.user.id };
+        if (isAdmin) {
+          delete query.author;
+        }
+        if (!(await getAgent(query))) {
+          return res.status(403).json({ message: 'You can only share your own agents' });
+        }
+      }
+    }
+
+    const classDoc = await updateClassShares(req.class._id, {
+      promptGroupIds,
+      agentIds,
+      removePromptGroupIds: toIds(req.body?.removePromptGroupIds),
+      removeAgentIds: toIds(req.body?.removeAgentIds),
+    });
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId/shares] Error updating class shares', error);
+    res.status(500).json({ message: 'Error updating class shares' });
+  }
+};
+
+/**
+ * Shares one of the user's conversations (e.g. a generated quiz or lesson plan) with the class,
+ * reusing the conversation's shared link when it already has one.
+ * @route POST /api/classes/:classId/materials
+ * @param {{ conversationId: string }} req.body
+ * @returns {TClass} The updated class.
+ */
+const addMaterialHandler = async (req, res) => {
+  const { conversationId } = req.body ?? {};
+  try {
+    const convo = conversationId ? await getConvo(req.user.id, conversationId) : null;
+    if (!convo) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    const existing = await getSharedLink(req.user.id, conversationId);
+    const { shareId } = existing.success
+      ? existing
+      : await createSharedLink(req.user.id, conversationId);
+
+    const classDoc = await addClassMaterial(req.class._id, {
+      shareId,
+      conversationId,
+      title: convo.title || 'Untitled',
+      sharedBy: req.user.id,
+    });
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId/materials] Error sharing material', error);
+    res.status(500).json({ message: 'Error sharing material' });
+  }
+};
+
+/**
+ * @route DELETE /api/classes/:classId/materials/:materialId
+ * @returns {TClass} The updated class.
+ */
+const removeMaterialHandler = async (req, res) => {
+  try {
+    const classDoc = await removeClassMaterial(req.class._id, req.params.materialId);
+    res.status(200).json(await formatClass(classDoc, req.user));
+  } catch (error) {
+    logger.error('[/classes/:classId/materials] Error removing material', error);
+    res.status(500).json({ message: 'Error removing material' });
+  }
+};
+
+module.exports = {
+  getClassesHandler,
+  getClassHandler,
+  createClassHandler,
+  updateClassHandler,
+  deleteClassHandler,
+  joinClassHandler,
+  regenerateJoinCodeHandler,
+  addTeacherHandler,
+  removeMemberHandler,
+  updateSharesHandler,
+  addMaterialHandler,
+  removeMaterialHandler,
+};
@@ -0,0 +1,314 @@
+const { CacheKeys } = require('librechat-data-provider');
+const loadCustomConfig = require('~/server/services/Config/loadCustomConfig');
+const { getMCPUserVars, respondToToolApproval } = require('~/server/services/MCP');
+const { logger, getMCPManager } = require('~/config');
+const { getLogStores } = require('~/cache');
+
+/**
+ * Returns the options to reach an MCP server on behalf of the user, or `null` if the user's role
+ * may not use the server or the server needs values the user has not provided.
+ * @param {ServerRequest} req
+ * @param {MCPManager} mcpManager
+ * @param {string} serverName
+ */
+async function getRequestOptions(req, mcpManager, serverName) {
+  const userId = req.user.id;
+  if (!mcpManager.isServerAllowed(serverName, req.user.role)) {
+    return null;
+  }
+  if (!mcpManager.isUserScopedServer(serverName)) {
+    return { serverName, userId };
+  }
+  const { customUserVars, missing } = await getMCPUserVars(userId, serverName);
+  if (missing.length > 0) {
+    return null;
+  }
+  return { serverName, userId, customUserVars };
+}
+
+/**
+ * Collects an item list from every MCP server the user can reach; servers that fail are skipped.
+ * @template T
+ * @param {ServerRequest} req
+ * @param {(mcpManager: MCPManager, options: { serverName: string }) => Promise<T[]>} listItems
+ * @returns {Promise<Array<T & { serverName: string }>>}
+ */
+async function listFromServers(req, listItems) {
+  const mcpManager = await getMCPManager();
+  const results = await Promise.all(
+    mcpManager.getServerNames().map(async (serverName) => {
+      try {
+        const options = await getRequestOptions(req, mcpManager, serverName);
+        if (!options) {
+          return [];
+        }
+        const items = await listItems(mcpManager, options);
+        return items.map((item) => ({ ...item, serverName }));
+      } catch (error) {
+        logger.warn(`[MCP][${serverName}] Error listing server items`, error);
+        return [];
+      }
+    }),
+  );
+  return results.flat();
+}
+
+/**
+ * Lists the resources of all MCP servers the user can reach.
+ * @route GET /api/mcp/resources
+ * @returns {TMCPResource[]} 200 - The resources, with their server name.
+ */
+const getResourcesHandler = async (req, res) => {
+  try {
+    const resources = await listFromServers(req, (mcpManager, options) =>
+      mcpManager.listResources(options),
+    );
+    res.status(200).json(
+      resources.map(({ serverName, uri, name, description, mimeType }) => ({
+        serverName,
+        uri,
+        name,
+        description,
+        mimeType,
+      })),
+    );
+  } catch (error) {
+    logger.error('[getResourcesHandler]', error);
+    res.status(500).json({ message: 'Error listing MCP resources' });
+  }
+};
+
+/**
+ * Reads the text contents of an MCP resource.
+ * @route POST /api/mcp/resources/read
+ * @param {TReadMCPResourceRequest} req.body - The server name and resource URI.
+ * @returns {TMCPResourceContents} 200 - The resource's text contents.
+ */
+const readResourceHandler = async (req, res) => {
+  try {
+    const { serverName, uri } = req.body;
+    if (typeof serverName !== 'string' || typeof uri !== 'string') {
+      return res.status(400).json({ message: 'Invalid resource request' });
+    }
+
+    const mcpManager = await getMCPManager();
+    if (!mcpManager.isServerAllowed(serverName, req.user.role)) {
+      return res.status(404).json({ message: 'MCP server not found' });
+    }
+    const options = await getRequestOptions(req, mcpManager, serverName);
+    if (!options) {
+      return res.status(400).json({ message: 'MCP server values have not been provided' });
+    }
+
+    const contents = await mcpManager.readResource({ ...options, uri });
+    const textContents = contents.filter((content) => typeof content.text === 'string');
+    if (textContents.length === 0) {
+      return res.status(400).json({ message: 'The resource has no text contents' });
+    }
+
+    res.status(200).json({
+      serverName,
+      uri,
+      mimeType: textContents[0].mimeType,
+      text: textContents.map((content) => content.text).join('\n\n'),
+    });
+  } catch (error) {
+    logger.error('[readResourceHandler]', error);
+    res.status(500).json({ message: 'Error reading MCP resource' });
+  }
+};
+
+/**
+ * Lists the prompts of all MCP servers the user can reach.
+ * @route GET /api/mcp/prompts
+ * @returns {TMCPPrompt[]} 200 - The prompts, with their server name and arguments.
+ */
+const getPromptsHandler = async (req, res) => {
+  try {
+    const prompts = await listFromServers(req, (mcpManager, options) =>
+      mcpManager.listPrompts(options),
+    );
+    res.status(200).json(
+      prompts.map(({ serverName, name, description, arguments: promptArguments }) => ({
+        serverName,
+        name,
+        description,
+        arguments: promptArguments?.map((arg) => ({
+          name: arg.name,
+          description: arg.description,
+          required: arg.required,
+        })),
+      })),
+    );
+  } catch (error) {
+    logger.error('[getPromptsHandler]', error);
+    res.status(500).json({ message: 'Error listing MCP prompts' });
+  }
+};
+
+/**
+ * Gets an MCP prompt with its arguments filled in, as text to send.
+ * @route POST /api/mcp/prompts/get
+ * @param {TGetMCPPromptRequest} req.body - The server name, prompt name and argument values.
+ * @returns {TGetMCPPromptResponse} 200 - The text of the prompt messages.
+ */
+const getPromptHandler = async (req, res) => {
+  try {
+    const { serverName, name, arguments: promptArguments } = req.body;
+    if (typeof serverName !== 'string' || typeof name !== 'string') {
+      return res.status(400).json({ message: 'Invalid prompt request' });
+    }
+
+    const mcpManager = await getMCPManager();
+    if (!mcpManager.isServerAllowed(serverName, req.user.role)) {
+      return res.status(404).json({ message: 'MCP server not found' });
+    }
+    const options = await getRequestOptions(req, mcpManager, serverName);
+    if (!options) {
+      return res.status(400).json({ message: 'MCP server values have not been provided' });
+    }
+
+    const prompt = await mcpManager.getPrompt({ ...options, name, promptArguments });
+    const text = prompt.messages
+      .map(({ content }) => {
+        if (content.type === 'text') {
+          return content.text;
+        }
+        if (content.type === 'resource' && typeof content.resource.text === 'string') {
+          return content.resource.text;
+        }
+        return '';
+      })
+      .filter(Boolean)
+      .join('\n\n');
+
+    res.status(200).json({ serverName, name, description: prompt.description, text });
+  } catch (error) {
+    logger.error('[getPromptHandler]', error);
+    res.status(500).json({ message: 'Error getting MCP prompt' });
+  }
+};
+
+/** Clears the cached tools, which include the tools of MCP servers */
+async function clearToolsCache() {
+  await getLogStores(CacheKeys.CONFIG_STORE).delete(CacheKeys.TOOLS);
+}
+
+/**
+ * Lists every configured MCP server with its health.
+ * @route GET /api/mcp/servers
+ * @returns {TMCPServerStatus[]} 200 - The state, last error, capabilities and usage of each server.
+ */
+const getServerStatusesHandler = async (req, res) => {
+  try {
+    const mcpManager = await getMCPManager();
+    res.status(200).json(mcpManager.getServerStatuses());
+  } catch (error) {
+    logger.error('[getServerStatusesHandler]', error);
+    res.status(500).json({ message: 'Error listing MCP servers' });
+  }
+};
+
+/**
+ * Creates a handler applying an action to an MCP server, responding with the server's status.
+ * @param {'reconnect' | 'disconnect'} action
+ * @returns {(req: ServerRequest, res: ServerResponse) => Promise<void>}
+ */
+const createServerActionHandler = (action) => async (req, res) => {
+  const { serverName } = req.params;
+  try {
+    const mcpManager = await getMCPManager();
+    if (!mcpManager.getServerNames().includes(serverName)) {
+      return res.status(404).json({ message: 'MCP server not found' });
+    }
+
+    logger.info(`[MCP][${serverName}] ${action} requested by user ${req.user.id}`);
+    try {
+      if (action === 'reconnect') {
+        await mcpManager.reconnectServer(serverName);
+      } else {
+        await mcpManager.disconnectServer(serverName);
+      }
+    } finally {
+      await clearToolsCache();
+    }
+    res.status(200).json(mcpManager.getServerStatus(serverName));
+  } catch (error) {
+    logger.error(`[MCP][${serverName}] Error during ${action}`, error);
+    res.status(500).json({ message: `Error during MCP server ${action}` });
+  }
+};
+
+/**
+ * Reconnects an MCP server and updates its tools.
+ * @route POST /api/mcp/servers/:serverName/reconnect
+ * @returns {TMCPServerStatus} 200 - The server's status once reconnected.
+ */
+const reconnectServerHandler = createServerActionHandler('reconnect');
+
+/**
+ * Disconnects an MCP server, including the users' connections to it.
+ * @route POST /api/mcp/servers/:serverName/disconnect
+ * @returns {TMCPServerStatus} 200 - The server's status once disconnected.
+ */
+const disconnectServerHandler = createServerActionHandler('disconnect');
+
+/**
+ * Reloads `mcpServers` and `mcpSettings` from the config file without restarting.
+ * @route POST /api/mcp/reload
+ * @returns {TMCPReloadResponse} 200 - The added, updated and removed servers, and all statuses.
+ */
+const reloadServersHandler = async (req, res) => {
+  try {
+    const config = await loadCustomConfig();
+    if (!config) {
+      return res.status(400).json({ message: 'The config file could not be loaded' });
+    }
+
+    const mcpManager = await getMCPManager();
+    logger.info(`[MCP] Reload requested by user ${req.user.id}`);
+    const result = await mcpManager.reloadServers(config.mcpServers ?? {}, config.mcpSettings);
+    await clearToolsCache();
+    res.status(200).json({ ...result, servers: mcpManager.getServerStatuses() });
+  } catch (error) {
+    logger.error('[reloadServersHandler]', error);
+    res.status(500).json({ message: 'Error reloading MCP servers' });
+  }
+};
+
+/**
+ * Approves or denies a tool call awaiting the user's approval, resuming the agent run.
+ * @route POST /api/mcp/approvals/:approvalId
+ * @param {boolean} req.body.approved - Whether the user approves the tool call.
+ * @returns {TMCPToolApprovalResponse} 200 - The approval and the user's response.
+ */
+const respondToToolApprovalHandler = async (req, res) => {
+  const { approvalId } = req.params;
+  const { approved } = req.body;
+  if (typeof approved !== 'boolean') {
+    return res.status(400).json({ message: 'Invalid approval response' });
+  }
+
+  try {
+    const found = await respondToToolApproval({ userId: req.user.id, approvalId, approved });
+    if (!found) {
+      return res.status(404).json({ message: 'The tool call is not awaiting approval' });
+    }
+    res.status(200).json({ approvalId, approved });
+  } catch (error) {
+    logger.error('[respondToToolApprovalHandler]', error);
+    res.status(500).json({ message: 'Error responding to the tool call approval' });
+  }
+};
+
+module.exports = {
+  getResourcesHandler,
+  readResourceHandler,
+  getPromptsHandler,
+  getPromptHandler,
+  getServerStatusesHandler,
+  reconnectServerHandler,
+  disconnectServerHandler,
+  reloadServersHandler,
+  respondToToolApprovalHandler,
+};
@@ -1,4 +1,4 @@
-const { CacheKeys, AuthType } = require('librechat-data-provider');
+const { CacheKeys, AuthType, Constants } = require('librechat-data-provider');
 const { addOpenAPISpecs } = require('~/app/clients/tools/util/addOpenAPISpecs');
 const { getCustomConfig } = require('~/server/services/Config');
 const { availableTools } = require('~/app/clients/tools');
@@ -20,6 +20,27 @@ const filterUniquePlugins = (plugins) => {
   });
 };
 
+/**
+ * Filters out the MCP tools the user's role may not use; the cached tools are shared by all users.
+ *
+ * @param {TPlugin[]} tools The list of tools to filter.
+ * @param {string} [role] The user's role.
+ * @returns {Promise<TPlugin[]>} The list of tools available to the role.
+ */
+const filterToolsByRole = async (tools, role) => {
+  if (!tools.some((tool) => tool.pluginKey.includes(Constants.mcp_delimiter))) {
+    return tools;
+  }
+  const mcpManager = await getMCPManager();
+  return tools.filter((tool) => {
+    if (!tool.pluginKey.includes(Constants.mcp_delimiter)) {
+      return true;
+    }
+    const [toolName, serverName] = tool.pluginKey.split(Constants.mcp_delimiter);
+    return mcpManager.isToolAvailable(serverName, toolName, role);
+  });
+};
+
 /**
  * Determines if a plugin is authenticated by checking if all required authentication fields have non-empty values.
  * Supports alternate authentication fields, allowing validation against multiple possible environment variables.
@@ -101,7 +122,7 @@ const getAvailableTools = async (req, res) => {
     const cache = getLogStores(CacheKeys.CONFIG_STORE);
     const cachedTools = await cache.get(CacheKeys.TOOLS);
     if (cachedTools) {
-      res.status(200).json(cachedTools);
+      res.status(200).json(await filterToolsByRole(cachedTools, req.user?.role));
       return;
     }
 
@@ -132,7 +153,7 @@ const getAvailableTools = async (req, res) => {
     );
 
     await cache.set(CacheKeys.TOOLS, tools);
-    res.status(200).json(tools);
+    res.status(200).json(await filterToolsByRole(tools, req.user?.role));
   } catch (error) {
     res.status(500).json({ message: error.message });
   }
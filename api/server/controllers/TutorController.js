@@ -0,0 +1,77 @@
+const { SystemRoles } = require('librechat-data-provider');
+const { getClassById, getClassMembers, isClassTeacher } = require('~/models/Class');
+const { getTutorAudits } = require('~/models/TutorAudit');
+const { logger } = require('~/config');
+
+/** Number of audit entries returned per page */
+const AUDIT_PAGE_SIZE = 25;
+
+/**
+ * Lists the tutor-mode exchanges of a class's students, newest first.
+ * @route GET /api/tutor/audit
+ * @param {string} req.query.classId - The class whose students to list.
+ * @param {string} [req.query.userId] - Restricts the entries to one student.
+ * @param {string} [req.query.flaggedOnly] - `'true'` to only list flagged exchanges.
+ * @param {string} [req.query.cursor] - The `nextCursor` of the previous page.
+ * @returns {TTutorAuditResponse} 200 - A page of audit entries.
+ */
+const getTutorAuditHandler = async (req, res) => {
+  try {
+    const { classId, userId, flaggedOnly, cursor } = req.query;
+    const before = cursor ? new Date(cursor) : undefined;
+    if (typeof classId !== 'string' || (before && Number.isNaN(before.getTime()))) {
+      return res.status(400).json({ message: 'Invalid audit query' });
+    }
+
+    const classDoc = await getClassById(classId);
+    if (
+      !classDoc ||
+      (req.user.role !== SystemRoles.ADMIN && !isClassTeacher(classDoc, req.user.id))
+    ) {
+      return res.status(404).json({ message: 'Class not found' });
+    }
+
+    const students = classDoc.students
+      .map((id) => id.toString())
+      .filter((id) => !userId || id === userId);
+    const entries = await getTutorAudits({
+      users: students,
+      flaggedOnly: flaggedOnly === 'true',
+      before,
+      limit: AUDIT_PAGE_SIZE,
+    });
+
+    const members = await getClassMembers([...new Set(entries.map((e) => e.user.toString()))]);
+    const membersById = new Map(members.map((member) => [member.id, member]));
+
+    res.status(200).json({
+      entries: entries.map((entry) => ({
+        _id: entry._id.toString(),
+        user: membersById.get(entry.user.toString()) ?? { id: entry.user.toString() },
+        conversationId: entry.conversationId,
+        messageId: entry.messageId,
+        responseMessageId: entry.responseMessageId,
+        endpoint: entry.endpoint,
+        model: entry.model,
+        spec: entry.spec,
+        text: entry.text,
+        responseText: entry.responseText,
+        inputFlagged: entry.inputFlagged === true,
+        outputFlagged: entry.outputFlagged === true,
+        protectedAssignmentIds: entry.protectedAssignmentIds.map((id) => id.toString()),
+        createdAt: entry.createdAt,
+      })),
+      nextCursor:
+        entries.length === AUDIT_PAGE_SIZE
+          ? entries[entries.length - 1].createdAt.toISOString()
+          : null,
+    });
+  } catch (error) {
+    logger.error('[/tutor/audit] Error listing tutor audit entries', error);
+    res.status(500).json({ message: 'Error listing tutor audit entries' });
+  }
+};
+
+module.exports = {
+  getTutorAuditHandler,
+};
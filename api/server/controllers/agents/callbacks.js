@@ -1,4 +1,10 @@
-const { Tools, StepTypes, imageGenTools, FileContext } = require('librechat-data-provider');
+const {
+  Tools,
+  StepTypes,
+  FileContext,
+  imageGenTools,
+  imageMimeTypes,
+} = require('librechat-data-provider');
 const {
   EnvVar,
   Providers,
@@ -9,7 +15,7 @@ const {
   ChatModelStreamHandler,
 } = require('@librechat/agents');
 const { processCodeOutput } = require('~/server/services/Files/Code/process');
-const { saveBase64Image } = require('~/server/services/Files/process');
+const { saveBase64File, saveBase64Image } = require('~/server/services/Files/process');
 const { loadAuthValues } = require('~/app/clients/tools/util');
 const { logger, sendEvent } = require('~/config');
 
@@ -105,10 +111,17 @@ class ModelEndHandler {
  * @param {ContentAggregator} options.aggregateContent - The options object.
  * @param {ToolEndCallback} options.toolEndCallback - Callback to use when tool ends.
  * @param {Array<UsageMetadata>} options.collectedUsage - The list of collected usage metadata.
+ * @param {boolean} [options.holdMessageDeltas] - Only aggregates the message text, e.g. until it passes moderation.
  * @returns {Record<string, t.EventHandler>} The default handlers.
  * @throws {Error} If the request is not found.
  */
-function getDefaultHandlers({ res, aggregateContent, toolEndCallback, collectedUsage }) {
+function getDefaultHandlers({
+  res,
+  aggregateContent,
+  toolEndCallback,
+  collectedUsage,
+  holdMessageDeltas = false,
+}) {
   if (!res || !aggregateContent) {
     throw new Error(
       `[getDefaultHandlers] Missing required options: res: ${!res}, aggregateContent: ${!aggregateContent}`,
@@ -191,6 +204,10 @@ function getDefaultHandlers({ res, aggregateContent, toolEndCallback, collectedU
        * @param {GraphRunnableConfig['configurable']} [metadata] The runnable metadata.
        */
       handle: (event, data, metadata) => {
+        if (holdMessageDeltas) {
+          aggregateContent({ event, data });
+          return;
+        }
         if (metadata?.last_agent_index === metadata?.agent_index) {
           sendEvent(res, { event, data });
         } else if (!metadata?.hide_sequential_outputs) {
@@ -252,6 +269,65 @@ function createToolEndCallback({ req, res, artifactPromises }) {
       return;
     }
 
+    if (output.artifact.raw_response != null) {
+      /** @type {TActionResponseAttachment} */
+      const attachment = {
+        type: 'action_response',
+        raw_response: output.artifact.raw_response,
+        messageId: metadata.run_id,
+        toolCallId: output.tool_call_id,
+        conversationId: metadata.thread_id,
+      };
+      if (res.headersSent) {
+        res.write(`event: attachment\ndata: ${JSON.stringify(attachment)}\n\n`);
+      }
+      artifactPromises.push(Promise.resolve(attachment));
+      return;
+    }
+
+    if (output.artifact.attachments) {
+      /** @type {MCPAttachment[]} */
+      const attachments = output.artifact.attachments;
+      for (const attachment of attachments) {
+        artifactPromises.push(
+          (async () => {
+            const { filename, mimeType, data } = attachment;
+            let file;
+            if (imageMimeTypes.test(mimeType)) {
+              file = await saveBase64Image(`data:${mimeType};base64,${data}`, {
+                req,
+                filename: `${output.tool_call_id}-${filename}`,
+                endpoint: metadata.provider,
+                context: FileContext.image_generation,
+              });
+            } else {
+              file = await saveBase64File(data, {
+                req,
+                filename,
+                type: mimeType,
+                context: FileContext.message_attachment,
+              });
+            }
+            const fileMetadata = Object.assign(file, {
+              messageId: metadata.run_id,
+              toolCallId: output.tool_call_id,
+              conversationId: metadata.thread_id,
+            });
+            if (!res.headersSent) {
+              return fileMetadata;
+            }
+
+            res.write(`event: attachment\ndata: ${JSON.stringify(fileMetadata)}\n\n`);
+            return fileMetadata;
+          })().catch((error) => {
+            logger.error('Error saving tool attachment:', error);
+            return null;
+          }),
+        );
+      }
+      return;
+    }
+
     if (output.artifact.content) {
       /** @type {FormattedContent[]} */
       const content = output.artifact.content;
@@ -0,0 +1,80 @@
+const { StepTypes } = require('librechat-data-provider');
+const { GraphEvents } = require('@librechat/agents');
+const { getDefaultHandlers } = require('./callbacks');
+const { sendEvent } = require('~/config');
+
+jest.mock('~/config', () => ({
+  logger: { error: jest.fn(), warn: jest.fn() },
+  sendEvent: jest.fn(),
+}));
+jest.mock('~/server/services/Files/Code/process', () => ({ processCodeOutput: jest.fn() }));
+jest.mock('~/server/services/Files/process', () => ({
+  saveBase64File: jest.fn(),
+  saveBase64Image: jest.fn(),
+}));
+jest.mock('~/app/clients/tools/util', () => ({ loadAuthValues: jest.fn() }));
+
+describe('getDefaultHandlers', () => {
+  const res = {};
+  const metadata = { agent_index: 0, last_agent_index: 0 };
+  const messageDelta = {
+    id: 'step_1',
+    delta: { content: [{ type: 'text', text: 'Unmoderated answer' }] },
+  };
+  const toolCallDelta = {
+    id: 'step_2',
+    delta: { type: StepTypes.TOOL_CALLS, tool_calls: [{ name: 'search', args: '' }] },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('streams message deltas', () => {
+    const aggregateContent = jest.fn();
+    const handlers = getDefaultHandlers({ res, aggregateContent, collectedUsage: [] });
+
+    handlers[GraphEvents.ON_MESSAGE_DELTA].handle(
+      GraphEvents.ON_MESSAGE_DELTA,
+      messageDelta,
+      metadata,
+    );
+
+    expect(sendEvent).toHaveBeenCalledWith(res, {
+      event: GraphEvents.ON_MESSAGE_DELTA,
+      data: messageDelta,
+    });
+    expect(aggregateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('only aggregates held message deltas, still streaming tool calls', () => {
+    const aggregateContent = jest.fn();
+    const handlers = getDefaultHandlers({
+      res,
+      aggregateContent,
+      collectedUsage: [],
+      holdMessageDeltas: true,
+    });
+
+    handlers[GraphEvents.ON_MESSAGE_DELTA].handle(
+      GraphEvents.ON_MESSAGE_DELTA,
+      messageDelta,
+      metadata,
+    );
+    handlers[GraphEvents.ON_RUN_STEP_DELTA].handle(
+      GraphEvents.ON_RUN_STEP_DELTA,
+      toolCallDelta,
+      metadata,
+    );
+
+    expect(aggregateContent).toHaveBeenCalledWith({
+      event: GraphEvents.ON_MESSAGE_DELTA,
+      data: messageDelta,
+    });
+    expect(sendEvent).toHaveBeenCalledTimes(1);
+    expect(sendEvent).toHaveBeenCalledWith(res, {
+      event: GraphEvents.ON_RUN_STEP_DELTA,
+      data: toolCallDelta,
+    });
+  });
+});
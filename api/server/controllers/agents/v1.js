@@ -18,6 +18,7 @@ const { uploadImageBuffer, filterFile } = require('~/server/services/Files/proce
 const { getStrategyFunctions } = require('~/server/services/Files/strategies');
 const { updateAction, getActions } = require('~/models/Action');
 const { getProjectByName } = require('~/models/Project');
+const { isSharedWithUserClasses } = require('~/models/Class');
 const { updateAgentProjects } = require('~/models/Agent');
 const { deleteFileByFilter } = require('~/models/File');
 const { logger } = require('~/config');
@@ -95,7 +96,11 @@ const getAgentHandler = async (req, res) => {
       };
     }
 
-    const agent = await getAgent(query);
+    let agent = await getAgent(query);
+
+    if (!agent && (await isSharedWithUserClasses(author, 'agentIds', id))) {
+      agent = await getAgent({ id });
+    }
 
     if (!agent) {
       return res.status(404).json({ error: 'Agent not found' });
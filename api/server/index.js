@@ -108,6 +108,11 @@ const startServer = async () => {
   app.use('/api/roles', routes.roles);
   app.use('/api/agents', routes.agents);
   app.use('/api/banner', routes.banner);
+  app.use('/api/standards', routes.standards);
+  app.use('/api/classes', routes.classes);
+  app.use('/api/assignments', routes.assignments);
+  app.use('/api/tutor', routes.tutor);
+  app.use('/api/mcp', routes.mcp);
   app.use('/api/bedrock', routes.bedrock);
 
   app.use('/api/tags', routes.tags);
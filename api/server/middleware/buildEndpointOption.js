@@ -12,6 +12,7 @@ const custom = require('~/server/services/Endpoints/custom');
 const google = require('~/server/services/Endpoints/google');
 const { getConvoFiles } = require('~/models/Conversation');
 const { handleError } = require('~/server/utils');
+const tutorMode = require('./tutorMode');
 
 const buildFunction = {
   [EModelEndpoint.openAI]: openAI.buildOptions,
@@ -99,7 +100,7 @@ async function buildEndpointOption(req, res, next) {
       // hold the promise
       req.body.endpointOption.attachments = processFiles(req.body.files);
     }
-    next();
+    await tutorMode(req, res, next);
   } catch (error) {
     return handleError(res, { text: 'Error building endpoint option' });
   }
@@ -15,6 +15,7 @@ const requireJwtAuth = require('./requireJwtAuth');
 const validateModel = require('./validateModel');
 const moderateText = require('./moderateText');
 const setHeaders = require('./setHeaders');
+const tutorMode = require('./tutorMode');
 const validate = require('./validate');
 const limiters = require('./limiters');
 const uaParser = require('./uaParser');
@@ -29,6 +30,7 @@ module.exports = {
   ...roles,
   noIndex,
   checkBan,
+  tutorMode,
   uaParser,
   setHeaders,
   moderateText,
@@ -1,5 +1,5 @@
-const axios = require('axios');
 const { ErrorTypes } = require('librechat-data-provider');
+const { isTextFlagged } = require('~/server/services/ModerationService');
 const denyRequest = require('./denyRequest');
 const { logger } = require('~/config');
 
@@ -7,22 +7,7 @@ async function moderateText(req, res, next) {
   if (process.env.OPENAI_MODERATION === 'true') {
     try {
       const { text } = req.body;
-
-      const response = await axios.post(
-        process.env.OPENAI_MODERATION_REVERSE_PROXY || 'https://api.openai.com/v1/moderations',
-        {
-          input: text,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${process.env.OPENAI_MODERATION_API_KEY}`,
-          },
-        },
-      );
-
-      const results = response.data.results;
-      const flagged = results.some((result) => result.flagged);
+      const flagged = await isTextFlagged(text);
 
       if (flagged) {
         const type = ErrorTypes.MODERATION;
@@ -0,0 +1,54 @@
+const { ErrorTypes, isAssistantsEndpoint } = require('librechat-data-provider');
+const {
+  getTutorModeConfig,
+  prepareTutorRequest,
+  recordTutorExchange,
+} = require('~/server/services/TutorService');
+const { isTextFlagged } = require('~/server/services/ModerationService');
+const { handleError } = require('~/server/utils');
+const denyRequest = require('./denyRequest');
+const { logger } = require('~/config');
+
+/**
+ * Enforces tutor mode for the user's role or the conversation's model spec: adds the tutor
+ * instructions and moderates the user's message. Must run after the endpoint option is built;
+ * the response is moderated and audited by the client before it is saved.
+ */
+async function tutorMode(req, res, next) {
+  const { endpoint, endpointOption, text } = req.body;
+  const config = getTutorModeConfig(req, endpointOption?.spec);
+  if (!config) {
+    return next();
+  }
+
+  if (isAssistantsEndpoint(endpoint)) {
+    return handleError(res, { text: 'Tutor mode is not available for assistants' });
+  }
+
+  await prepareTutorRequest(req, config);
+  if (!config.moderation) {
+    return next();
+  }
+
+  let flagged;
+  try {
+    flagged = await isTextFlagged(text);
+  } catch (error) {
+    logger.error('[tutorMode] Error moderating tutor message', error);
+    return await denyRequest(req, res, 'error in moderation check');
+  }
+
+  if (flagged) {
+    recordTutorExchange(req, {
+      conversationId: req.body.conversationId ?? undefined,
+      messageId: req.body.messageId,
+      text,
+      inputFlagged: true,
+    });
+    return await denyRequest(req, res, { type: ErrorTypes.MODERATION });
+  }
+
+  next();
+}
+
+module.exports = tutorMode;
@@ -0,0 +1,78 @@
+const express = require('express');
+const { SystemRoles } = require('librechat-data-provider');
+const {
+  getResultsHandler,
+  getAssignmentHandler,
+  getAssignmentsHandler,
+  gradeSubmissionHandler,
+  createAssignmentHandler,
+  updateAssignmentHandler,
+  deleteAssignmentHandler,
+  submitAssignmentHandler,
+  agentGradeSubmissionHandler,
+} = require('~/server/controllers/AssignmentController');
+const { getClassById, isClassMember, isClassTeacher } = require('~/models/Class');
+const { getAssignmentById } = require('~/models/Assignment');
+const { requireJwtAuth } = require('~/server/middleware');
+const { logger } = require('~/config');
+
+const router = express.Router();
+
+/**
+ * Loads `req.params.assignmentId` into `req.assignment` and its class into `req.class`;
+ * responds with 404 when the assignment doesn't exist or the user isn't a class member.
+ */
+const loadAssignment = async (req, res, next) => {
+  try {
+    const assignment = await getAssignmentById(req.params.assignmentId);
+    const classDoc = assignment ? await getClassById(assignment.classId.toString()) : null;
+    if (
+      !classDoc ||
+      (req.user.role !== SystemRoles.ADMIN && !isClassMember(classDoc, req.user.id))
+    ) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+    req.assignment = assignment;
+    req.class = classDoc;
+    next();
+  } catch (error) {
+    logger.error('[loadAssignment] Error loading assignment', error);
+    res.status(500).json({ message: 'Error loading assignment' });
+  }
+};
+
+/**
+ * Requires the user to teach the class of `req.assignment`; must run after `loadAssignment`.
+ */
+const checkAssignmentTeacher = (req, res, next) => {
+  if (req.user.role !== SystemRoles.ADMIN && !isClassTeacher(req.class, req.user.id)) {
+    return res.status(403).json({ message: 'Forbidden' });
+  }
+  next();
+};
+
+router.use(requireJwtAuth);
+
+router.get('/', getAssignmentsHandler);
+router.post('/', createAssignmentHandler);
+
+router.get('/:assignmentId', loadAssignment, getAssignmentHandler);
+router.patch('/:assignmentId', loadAssignment, checkAssignmentTeacher, updateAssignmentHandler);
+router.delete('/:assignmentId', loadAssignment, checkAssignmentTeacher, deleteAssignmentHandler);
+router.get('/:assignmentId/results', loadAssignment, checkAssignmentTeacher, getResultsHandler);
+
+router.post('/:assignmentId/submissions', loadAssignment, submitAssignmentHandler);
+router.patch(
+  '/:assignmentId/submissions/:submissionId',
+  loadAssignment,
+  checkAssignmentTeacher,
+  gradeSubmissionHandler,
+);
+router.post(
+  '/:assignmentId/submissions/:submissionId/agent-grade',
+  loadAssignment,
+  checkAssignmentTeacher,
+  agentGradeSubmissionHandler,
+);
+
+module.exports = router;
@@ -0,0 +1,88 @@
+const express = require('express');
+const { SystemRoles } = require('librechat-data-provider');
+const {
+  getClassHandler,
+  joinClassHandler,
+  addTeacherHandler,
+  getClassesHandler,
+  addMaterialHandler,
+  createClassHandler,
+  updateClassHandler,
+  deleteClassHandler,
+  removeMemberHandler,
+  updateSharesHandler,
+  removeMaterialHandler,
+  regenerateJoinCodeHandler,
+} = require('~/server/controllers/ClassController');
+const { getClassById, isClassMember, isClassTeacher } = require('~/models/Class');
+const { requireJwtAuth } = require('~/server/middleware');
+const { logger } = require('~/config');
+
+const router = express.Router();
+
+/**
+ * Only teachers and admins can create classes.
+ */
+const checkClassCreate = (req, res, next) => {
+  if (req.user.role !== SystemRoles.TEACHER && req.user.role !== SystemRoles.ADMIN) {
+    return res.status(403).json({ message: 'Forbidden' });
+  }
+  next();
+};
+
+/**
+ * Loads `req.params.classId` into `req.class`;
+ * responds with 404 when the class doesn't exist or the user isn't a member.
+ */
+const loadClass = async (req, res, next) => {
+  try {
+    const classDoc = await getClassById(req.params.classId);
+    if (
+      !classDoc ||
+      (req.user.role !== SystemRoles.ADMIN && !isClassMember(classDoc, req.user.id))
+    ) {
+      return res.status(404).json({ message: 'Class not found' });
+    }
+    req.class = classDoc;
+    next();
+  } catch (error) {
+    logger.error('[loadClass] Error loading class', error);
+    res.status(500).json({ message: 'Error loading class' });
+  }
+};
+
+/**
+ * Requires the user to teach `req.class`; must run after `loadClass`.
+ */
+const checkClassTeacher = (req, res, next) => {
+  if (req.user.role !== SystemRoles.ADMIN && !isClassTeacher(req.class, req.user.id)) {
+    return res.status(403).json({ message: 'Forbidden' });
+  }
+  next();
+};
+
+router.use(requireJwtAuth);
+
+router.get('/', getClassesHandler);
+router.post('/', checkClassCreate, createClassHandler);
+router.post('/join', joinClassHandler);
+
+router.get('/:classId', loadClass, getClassHandler);
+router.patch('/:classId', loadClass, checkClassTeacher, updateClassHandler);
+router.delete('/:classId', loadClass, checkClassTeacher, deleteClassHandler);
+
+router.post('/:classId/join-code', loadClass, checkClassTeacher, regenerateJoinCodeHandler);
+router.post('/:classId/teachers', loadClass, checkClassTeacher, addTeacherHandler);
+/* Students may remove themselves; the handler checks other removals */
+router.delete('/:classId/members/:userId', loadClass, removeMemberHandler);
+
+router.patch('/:classId/shares', loadClass, checkClassTeacher, updateSharesHandler);
+router.post('/:classId/materials', loadClass, checkClassTeacher, addMaterialHandler);
+router.delete(
+  '/:classId/materials/:materialId',
+  loadClass,
+  checkClassTeacher,
+  removeMaterialHandler,
+);
+
+module.exports = router;
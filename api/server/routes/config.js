@@ -36,6 +36,14 @@ router.get('/', async function (req, res) {
 
   const ldap = getLdapConfig();
 
+  /** Tutor instructions stay server-side */
+  const { tutorMode: tutorConfig } = req.app.locals;
+  const tutorMode = tutorConfig && {
+    roles: tutorConfig.roles,
+    modelSpecs: tutorConfig.modelSpecs,
+    audit: tutorConfig.audit,
+  };
+
   try {
     /** @type {TStartupConfig} */
     const payload = {
@@ -76,6 +84,8 @@ router.get('/', async function (req, res) {
       helpAndFaqURL: process.env.HELP_AND_FAQ_URL || 'https://librechat.ai',
       interface: req.app.locals.interfaceConfig,
       modelSpecs: req.app.locals.modelSpecs,
+      teacherTools: req.app.locals.teacherTools,
+      tutorMode,
       sharedLinksEnabled,
       publicSharedLinksEnabled,
       analyticsGtmId: process.env.ANALYTICS_GTM_ID,
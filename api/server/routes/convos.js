@@ -40,8 +40,14 @@ router.get('/', async (req, res) => {
   } else {
     tags = undefined;
   }
+  let standards;
+  if (req.query.standards) {
+    standards = Array.isArray(req.query.standards) ? req.query.standards : [req.query.standards];
+  }
 
-  res.status(200).send(await getConvosByPage(req.user.id, pageNumber, pageSize, isArchived, tags));
+  res
+    .status(200)
+    .send(await getConvosByPage(req.user.id, pageNumber, pageSize, isArchived, tags, standards));
 });
 
 router.get('/:conversationId', async (req, res) => {
@@ -26,6 +26,11 @@ const keys = require('./keys');
 const user = require('./user');
 const ask = require('./ask');
 const banner = require('./banner');
+const standards = require('./standards');
+const classes = require('./classes');
+const assignments = require('./assignments');
+const tutor = require('./tutor');
+const mcp = require('./mcp');
 
 module.exports = {
   ask,
@@ -56,4 +61,9 @@ module.exports = {
   categories,
   staticRoute,
   banner,
+  standards,
+  classes,
+  assignments,
+  tutor,
+  mcp,
 };
@@ -0,0 +1,65 @@
+const express = require('express');
+const {
+  getPromptHandler,
+  getPromptsHandler,
+  readResourceHandler,
+  getResourcesHandler,
+  reloadServersHandler,
+  reconnectServerHandler,
+  disconnectServerHandler,
+  getServerStatusesHandler,
+  respondToToolApprovalHandler,
+} = require('~/server/controllers/MCPController');
+const { sendOAuthSuccessPage } = require('~/server/utils/oauth');
+const { logger, getFlowStateManager } = require('~/config');
+const { checkAdmin, requireJwtAuth } = require('~/server/middleware');
+const { getLogStores } = require('~/cache');
+
+const router = express.Router();
+
+/**
+ * Handles the OAuth callback of an MCP server and completes the user's sign-in flow,
+ * which resumes the tool call waiting for it.
+ *
+ * @route GET /mcp/:serverName/oauth/callback
+ * @param {string} req.query.code - The authorization code returned by the server.
+ * @param {string} req.query.state - The state identifying the sign-in flow.
+ * @returns {void} Sends a success page once the tokens are received.
+ */
+router.get('/:serverName/oauth/callback', async (req, res) => {
+  const { serverName } = req.params;
+  const { code, state, error } = req.query;
+  if (error) {
+    logger.warn(`[MCP][${serverName}] OAuth sign-in was denied: ${error}`);
+    return res.status(400).send('Authentication was denied.');
+  }
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    return res.status(400).send('Missing code or state parameter');
+  }
+
+  try {
+    const [flowManager, { completeOAuthFlow }] = await Promise.all([
+      getFlowStateManager(getLogStores),
+      import('librechat-mcp'),
+    ]);
+    await completeOAuthFlow({ code, state, flowManager });
+    sendOAuthSuccessPage(res);
+  } catch (err) {
+    logger.error(`[MCP][${serverName}] Error in OAuth callback:`, err);
+    res.status(400).send('Authentication failed. Please try again.');
+  }
+});
+
+router.use(requireJwtAuth);
+
+router.get('/resources', getResourcesHandler);
+router.post('/resources/read', readResourceHandler);
+router.get('/prompts', getPromptsHandler);
+router.post('/prompts/get', getPromptHandler);
+router.post('/approvals/:approvalId', respondToToolApprovalHandler);
+router.get('/servers', checkAdmin, getServerStatusesHandler);
+router.post('/servers/:serverName/reconnect', checkAdmin, reconnectServerHandler);
+router.post('/servers/:serverName/disconnect', checkAdmin, disconnectServerHandler);
+router.post('/reload', checkAdmin, reloadServersHandler);
+
+module.exports = router;
@@ -14,6 +14,7 @@ const {
   // updatePromptLabels,
   makePromptProduction,
 } = require('~/models/Prompt');
+const { isSharedWithUserClasses } = require('~/models/Class');
 const { requireJwtAuth, generateCheckAccess } = require('~/server/middleware');
 const { logger } = require('~/config');
 
@@ -49,11 +50,14 @@ router.get('/groups/:groupId', async (req, res) => {
     $or: [{ projectIds: { $exists: true, $ne: [], $not: { $size: 0 } } }, { author }],
   };
 
-  if (req.user.role === SystemRoles.ADMIN) {
-    delete query.$or;
-  }
-
   try {
+    if (
+      req.user.role === SystemRoles.ADMIN ||
+      (await isSharedWithUserClasses(req.user.id, 'promptGroupIds', groupId))
+    ) {
+      delete query.$or;
+    }
+
     const group = await getPromptGroup(query);
 
     if (!group) {
@@ -1,5 +1,6 @@
 const express = require('express');
 const {
+  teacherToolsPermissionsSchema,
   promptPermissionsSchema,
   agentPermissionsSchema,
   PermissionTypes,
@@ -106,4 +107,39 @@ router.put('/:roleName/agents', checkAdmin, async (req, res) => {
   }
 });
 
+/**
+ * PUT /api/roles/:roleName/teacher-tools
+ * Update Teacher Tools permissions for a specific role
+ */
+router.put('/:roleName/teacher-tools', checkAdmin, async (req, res) => {
+  const { roleName: _r } = req.params;
+  // TODO: TEMP, use a better parsing for roleName
+  const roleName = _r.toUpperCase();
+  /** @type {TRole['TEACHER_TOOLS']} */
+  const updates = req.body;
+
+  try {
+    const parsedUpdates = teacherToolsPermissionsSchema.partial().parse(updates);
+
+    const role = await getRoleByName(roleName);
+    if (!role) {
+      return res.status(404).send({ message: 'Role not found' });
+    }
+
+    const mergedUpdates = {
+      [PermissionTypes.TEACHER_TOOLS]: {
+        ...role[PermissionTypes.TEACHER_TOOLS],
+        ...parsedUpdates,
+      },
+    };
+
+    const updatedRole = await updateRoleByName(roleName, mergedUpdates);
+    res.status(200).send(updatedRole);
+  } catch (error) {
+    return res
+      .status(400)
+      .send({ message: 'Invalid teacher tools permissions.', error: error.errors });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,31 @@
+const express = require('express');
+const { PermissionTypes, Permissions } = require('librechat-data-provider');
+const { searchStandards } = require('~/server/services/StandardsService');
+const { requireJwtAuth, generateCheckAccess } = require('~/server/middleware');
+
+const router = express.Router();
+const checkTeacherToolsAccess = generateCheckAccess(PermissionTypes.TEACHER_TOOLS, [
+  Permissions.USE,
+]);
+
+router.use(requireJwtAuth);
+router.use(checkTeacherToolsAccess);
+
+/**
+ * Searches the curriculum standards catalog.
+ * @route GET /api/standards
+ * @param {string} [req.query.search] - Text to match against standard codes and descriptions.
+ * @param {string} [req.query.framework] - Restricts results to a framework.
+ * @param {string} [req.query.subject] - Restricts results to a subject.
+ * @param {string} [req.query.grade] - Restricts results to a grade.
+ * @param {number} [req.query.limit] - Maximum number of results.
+ * @returns {TStandardsResponse} 200 - The matching standards.
+ */
+router.get('/', (req, res) => {
+  const { search, framework, subject, grade, limit } = req.query;
+  res.status(200).json(
+    searchStandards(req.app.locals.standards, { search, framework, subject, grade, limit }),
+  );
+});
+
+module.exports = router;
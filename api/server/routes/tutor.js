@@ -0,0 +1,22 @@
+const express = require('express');
+const { getTutorAuditHandler } = require('~/server/controllers/TutorController');
+const { requireJwtAuth } = require('~/server/middleware');
+
+const router = express.Router();
+
+/**
+ * Responds with 404 unless tutor mode is configured with its audit trail.
+ */
+const checkTutorAudit = (req, res, next) => {
+  if (!req.app.locals.tutorMode?.audit) {
+    return res.status(404).json({ message: 'Tutor audit is not enabled' });
+  }
+  next();
+};
+
+router.use(requireJwtAuth);
+router.use(checkTutorAudit);
+
+router.get('/audit', getTutorAuditHandler);
+
+module.exports = router;
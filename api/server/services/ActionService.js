@@ -1,23 +1,29 @@
+const path = require('path');
 const jwt = require('jsonwebtoken');
 const { nanoid } = require('nanoid');
 const { tool } = require('@langchain/core/tools');
-const { GraphEvents, sleep } = require('@librechat/agents');
+const { Constants: AgentConstants, GraphEvents, sleep } = require('@librechat/agents');
 const {
   Time,
   CacheKeys,
   StepTypes,
   Constants,
+  FileSources,
   AuthTypeEnum,
   actionDelimiter,
+  trimActionResponse,
+  checkOpenAIStorage,
   isImageVisionTool,
   actionDomainSeparator,
 } = require('librechat-data-provider');
-const { refreshAccessToken } = require('~/server/services/TokenService');
+const { refreshAccessToken, getClientCredentialsToken } = require('~/server/services/TokenService');
+const { getStrategyFunctions } = require('~/server/services/Files/strategies');
 const { isActionDomainAllowed } = require('~/server/services/domains');
 const { logger, getFlowStateManager, sendEvent } = require('~/config');
 const { encryptV2, decryptV2 } = require('~/server/utils/crypto');
 const { getActions, deleteActions } = require('~/models/Action');
 const { deleteAssistant } = require('~/models/Assistant');
+const { getFiles } = require('~/models/File');
 const { findToken } = require('~/models/Token');
 const { logAxiosError } = require('~/utils');
 const { getLogStores } = require('~/cache');
@@ -26,6 +32,61 @@ const JWT_SECRET = process.env.JWT_SECRET;
 const toolNameRegex = /^[a-zA-Z0-9_-]+$/;
 const replaceSeparatorRegex = new RegExp(actionDomainSeparator, 'g');
 
+/**
+ * Whether the action authenticates with OAuth client credentials, needing them to be encrypted.
+ * @param {AuthTypeEnum} [type]
+ * @returns {boolean}
+ */
+const isOAuthType = (type) =>
+  type === AuthTypeEnum.OAuth || type === AuthTypeEnum.ClientCredentials;
+
+/**
+ * Whether an OAuth token expires within a minute, so that it is refreshed before requests fail.
+ * @param {Date} expiresAt
+ * @returns {boolean}
+ */
+const isTokenExpiring = (expiresAt) => expiresAt.getTime() - Date.now() < Time.ONE_MINUTE;
+
+/**
+ * Adds the time tokens expire at, as their results are shared with concurrent tool calls.
+ * @template {{ expires_in?: number }} T
+ * @param {T} tokens
+ * @returns {T & { expires_at: number }}
+ */
+const withExpiry = (tokens) => ({
+  ...tokens,
+  expires_at: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+});
+
+/**
+ * Requests tokens once for concurrent tool calls. Completed flows keep their result for the
+ * flow TTL, so tokens of an earlier flow that are about to expire are requested again,
+ * in a flow keyed by their expiry.
+ * @template {{ expires_at: number }} T
+ * @param {string} flowId
+ * @param {string} type
+ * @param {() => Promise<T>} requestTokens
+ * @returns {Promise<T>}
+ */
+async function requestTokensOnce(flowId, type, requestTokens) {
+  const flowManager = await getFlowStateManager(getLogStores);
+  let requested = false;
+  const handler = async () => {
+    requested = true;
+    return await requestTokens();
+  };
+
+  let tokens = await flowManager.createFlowWithHandler(flowId, type, handler);
+  while (!requested && isTokenExpiring(new Date(tokens.expires_at))) {
+    tokens = await flowManager.createFlowWithHandler(
+      `${flowId}:${tokens.expires_at}`,
+      type,
+      handler,
+    );
+  }
+  return tokens;
+}
+
 /**
  * Validates tool name against regex pattern and updates if necessary.
  * @param {object} params - The parameters for the function.
@@ -119,6 +180,60 @@ async function loadActionSets(searchParams) {
   return await getActions(searchParams, true);
 }
 
+/**
+ * Loads one of the user's files to upload with an action request.
+ * @param {ServerRequest} req
+ * @param {string} file_id
+ * @returns {Promise<import('librechat-data-provider').ActionFile>}
+ */
+async function loadActionFile(req, file_id) {
+  const [file] = await getFiles({ file_id, user: req.user.id });
+  if (!file) {
+    throw new Error(`File not found: ${file_id}`);
+  }
+
+  const { getDownloadStream } = getStrategyFunctions(file.source);
+  if (!getDownloadStream || checkOpenAIStorage(file.source)) {
+    throw new Error(`File "${file.filename}" cannot be uploaded from ${file.source} storage`);
+  }
+
+  let filepath = file.filepath;
+  if (file.source === FileSources.local) {
+    const { uploads, publicPath } = req.app.locals.paths;
+    filepath = filepath.startsWith('/uploads/')
+      ? path.join(uploads, filepath.slice('/uploads/'.length))
+      : path.join(publicPath, filepath);
+  }
+
+  const stream = await getDownloadStream(filepath);
+  const chunks = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return { filename: file.filename, type: file.type, data: Buffer.concat(chunks) };
+}
+
+/**
+ * Loads the files uploaded by a multipart action request, from the file IDs the model set on its file fields.
+ * @param {ServerRequest} req
+ * @param {ActionRequest} requestBuilder
+ * @param {Record<string, unknown>} toolInput
+ * @returns {Promise<Record<string, import('librechat-data-provider').ActionFile[]>>}
+ */
+async function loadActionFiles(req, requestBuilder, toolInput) {
+  /** @type {Record<string, import('librechat-data-provider').ActionFile[]>} */
+  const files = {};
+  for (const field of requestBuilder.fileFields ?? []) {
+    const value = toolInput[field];
+    if (value == null || value === '') {
+      continue;
+    }
+    const fileIds = Array.isArray(value) ? value : [value];
+    files[field] = await Promise.all(fileIds.map((file_id) => loadActionFile(req, file_id)));
+  }
+  return files;
+}
+
 /**
  * Creates a general tool for an entire action set.
  *
@@ -158,6 +273,9 @@ async function createActionTool({
       const metadata = action.metadata;
       const executor = requestBuilder.createExecutor();
       const preparedExecutor = executor.setParams(toolInput);
+      if (requestBuilder.fileFields?.length) {
+        preparedExecutor.setFiles(await loadActionFiles(req, requestBuilder, toolInput));
+      }
 
       if (metadata.auth && metadata.auth.type !== AuthTypeEnum.None) {
         try {
@@ -245,31 +363,34 @@ async function createActionTool({
             );
             const [tokenData, refreshTokenData] = await Promise.all(tokenPromises);
 
-            if (tokenData) {
-              // Valid token exists, add it to metadata for setAuth
+            const applyStoredToken = async () => {
               metadata.oauth_access_token = await decryptV2(tokenData.token);
               if (refreshTokenData) {
                 metadata.oauth_refresh_token = await decryptV2(refreshTokenData.token);
               }
               metadata.oauth_token_expires_at = tokenData.expiresAt.toISOString();
-            } else if (!refreshTokenData) {
-              // No tokens exist, need to authenticate
-              await requestLogin();
+            };
+            const hasValidToken = tokenData != null && tokenData.expiresAt > new Date();
+
+            if (tokenData && !isTokenExpiring(tokenData.expiresAt)) {
+              // Valid token exists, add it to metadata for setAuth
+              await applyStoredToken();
             } else if (refreshTokenData) {
-              // Refresh token is still valid, use it to get new access token
+              // Refresh the token before it expires, once for concurrent tool calls
               try {
                 const refresh_token = await decryptV2(refreshTokenData.token);
                 const refreshTokens = async () =>
-                  await refreshAccessToken({
-                    identifier,
-                    refresh_token,
-                    userId: req.user.id,
-                    client_url: metadata.auth.client_url,
-                    encrypted_oauth_client_id: encrypted.oauth_client_id,
-                    encrypted_oauth_client_secret: encrypted.oauth_client_secret,
-                  });
-                const flowManager = await getFlowStateManager(getLogStores);
-                const refreshData = await flowManager.createFlowWithHandler(
+                  withExpiry(
+                    await refreshAccessToken({
+                      identifier,
+                      refresh_token,
+                      userId: req.user.id,
+                      client_url: metadata.auth.client_url,
+                      encrypted_oauth_client_id: encrypted.oauth_client_id,
+                      encrypted_oauth_client_secret: encrypted.oauth_client_secret,
+                    }),
+                  );
+                const refreshData = await requestTokensOnce(
                   `${identifier}:refresh`,
                   'oauth_refresh',
                   refreshTokens,
@@ -278,15 +399,48 @@ async function createActionTool({
                 if (refreshData.refresh_token) {
                   metadata.oauth_refresh_token = refreshData.refresh_token;
                 }
-                const expiresAt = new Date(Date.now() + refreshData.expires_in * 1000);
-                metadata.oauth_token_expires_at = expiresAt.toISOString();
+                metadata.oauth_token_expires_at = new Date(refreshData.expires_at).toISOString();
               } catch (error) {
-                logger.error('Failed to refresh token, requesting new login:', error);
-                await requestLogin();
+                if (!hasValidToken) {
+                  logger.error('Failed to refresh token, requesting new login:', error);
+                  await requestLogin();
+                } else {
+                  logger.warn('Failed to refresh token, using it until it expires:', error);
+                  await applyStoredToken();
+                }
               }
+            } else if (hasValidToken) {
+              await applyStoredToken();
             } else {
+              // No tokens exist, need to authenticate
               await requestLogin();
             }
+          } else if (metadata.auth.type === AuthTypeEnum.ClientCredentials) {
+            const tokenData = await findToken({ userId: req.user.id, type: 'oauth', identifier });
+            if (tokenData && !isTokenExpiring(tokenData.expiresAt)) {
+              metadata.oauth_access_token = await decryptV2(tokenData.token);
+              metadata.oauth_token_expires_at = tokenData.expiresAt.toISOString();
+            } else {
+              const requestToken = async () =>
+                withExpiry(
+                  await getClientCredentialsToken({
+                    identifier,
+                    userId: req.user.id,
+                    client_url: metadata.auth.client_url,
+                    scope: metadata.auth.scope,
+                    token_exchange_method: metadata.auth.token_exchange_method,
+                    encrypted_oauth_client_id: encrypted.oauth_client_id,
+                    encrypted_oauth_client_secret: encrypted.oauth_client_secret,
+                  }),
+                );
+              const tokens = await requestTokensOnce(
+                `${identifier}:client_credentials`,
+                'oauth_client_credentials',
+                requestToken,
+              );
+              metadata.oauth_access_token = tokens.access_token;
+              metadata.oauth_token_expires_at = new Date(tokens.expires_at).toISOString();
+            }
           }
 
           await preparedExecutor.setAuth(metadata);
@@ -302,11 +456,12 @@ async function createActionTool({
       }
 
       const response = await preparedExecutor.execute();
-
-      if (typeof response.data === 'object') {
-        return JSON.stringify(response.data);
+      const { output, raw } = trimActionResponse(response.data, requestBuilder.responseConfig);
+      if (!name) {
+        return output;
       }
-      return response.data;
+      /** The raw response is shown next to the trimmed one in the tool call */
+      return [output, raw != null ? { raw_response: raw } : undefined];
     } catch (error) {
       const logMessage = `API call to ${action.metadata.domain} failed`;
       logAxiosError({ message: logMessage, error });
@@ -319,6 +474,7 @@ async function createActionTool({
       name: name.replace(replaceSeparatorRegex, '_'),
       description: description || '',
       schema: zodSchema,
+      responseFormat: AgentConstants.CONTENT_AND_ARTIFACT,
     });
   }
 
@@ -344,7 +500,7 @@ async function encryptMetadata(metadata) {
   }
 
   // OAuth
-  else if (metadata.auth && metadata.auth.type === AuthTypeEnum.OAuth) {
+  else if (metadata.auth && isOAuthType(metadata.auth.type)) {
     if (metadata.oauth_client_id) {
       encryptedMetadata.oauth_client_id = await encryptV2(metadata.oauth_client_id);
     }
@@ -373,7 +529,7 @@ async function decryptMetadata(metadata) {
   }
 
   // OAuth
-  else if (metadata.auth && metadata.auth.type === AuthTypeEnum.OAuth) {
+  else if (metadata.auth && isOAuthType(metadata.auth.type)) {
     if (metadata.oauth_client_id) {
       decryptedMetadata.oauth_client_id = await decryptV2(metadata.oauth_client_id);
     }
@@ -1,7 +1,47 @@
-const { Constants, EModelEndpoint, actionDomainSeparator } = require('librechat-data-provider');
-const { domainParser } = require('./ActionService');
+const {
+  Constants,
+  AuthTypeEnum,
+  EModelEndpoint,
+  actionDomainSeparator,
+} = require('librechat-data-provider');
+const { refreshAccessToken, getClientCredentialsToken } = require('~/server/services/TokenService');
+const { domainParser, createActionTool } = require('./ActionService');
+const { getFlowStateManager, sendEvent } = require('~/config');
+const { findToken } = require('~/models/Token');
 
 jest.mock('keyv');
+jest.mock('jsonwebtoken', () => ({ sign: jest.fn(() => 'state-token') }));
+jest.mock('@librechat/agents', () => ({
+  ...jest.requireActual('@librechat/agents'),
+  sleep: jest.fn(),
+}));
+jest.mock('~/config', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  sendEvent: jest.fn(),
+  getFlowStateManager: jest.fn(),
+}));
+jest.mock('~/models/Token', () => ({
+  findToken: jest.fn(),
+}));
+jest.mock('~/server/services/TokenService', () => ({
+  refreshAccessToken: jest.fn(),
+  getClientCredentialsToken: jest.fn(),
+}));
+jest.mock('~/server/utils/crypto', () => ({
+  encryptV2: jest.fn(async (value) => value),
+  decryptV2: jest.fn(async (value) => value),
+}));
+jest.mock('~/server/services/domains', () => ({
+  isActionDomainAllowed: jest.fn().mockResolvedValue(true),
+}));
+jest.mock('~/server/services/Files/strategies', () => ({
+  getStrategyFunctions: jest.fn(),
+}));
+jest.mock('~/server/utils', () => ({
+  ...jest.requireActual('~/server/utils/handleText'),
+  math: jest.requireActual('~/server/utils/math'),
+  removePorts: jest.requireActual('~/server/utils/removePorts'),
+}));
 jest.mock('~/server/services/Config', () => ({
   getCustomConfig: jest.fn(),
 }));
@@ -197,3 +237,168 @@ describe('domainParser', () => {
     expect(result).toEqual(invalidBase64Domain);
   });
 });
+
+describe('createActionTool authentication', () => {
+  const config = { toolCall: { id: 'call1', name: 'getItems', stepId: 'step1' } };
+  /** Completed flows keep their result like the flow TTL does; failed flows can be retried */
+  const flowResults = new Map();
+  const flowManager = {
+    createFlowWithHandler: jest.fn((flowId, type, handler) => {
+      const key = `${type}:${flowId}`;
+      if (!flowResults.has(key)) {
+        const result = handler();
+        flowResults.set(key, result);
+        result.catch(() => flowResults.delete(key));
+      }
+      return flowResults.get(key);
+    }),
+    createFlow: jest.fn(),
+  };
+
+  const minutesFromNow = (minutes) => new Date(Date.now() + minutes * 60 * 1000);
+
+  /** @param {{ access?: object, refresh?: object }} tokens */
+  const mockStoredTokens = ({ access, refresh }) => {
+    findToken.mockImplementation(async ({ type }) => (type === 'oauth_refresh' ? refresh : access));
+  };
+
+  const createTool = async (auth) => {
+    const executor = {
+      setParams: jest.fn(),
+      setAuth: jest.fn(),
+      execute: jest.fn().mockResolvedValue({ data: { ok: true } }),
+    };
+    executor.setParams.mockReturnValue(executor);
+    const actionTool = await createActionTool({
+      req: { user: { id: 'user1' } },
+      res: {},
+      action: {
+        action_id: 'action1',
+        metadata: {
+          domain: 'example.com',
+          auth,
+          oauth_client_id: 'client-id',
+          oauth_client_secret: 'client-secret',
+        },
+      },
+      requestBuilder: { createExecutor: () => executor },
+    });
+    /** @returns {Promise<string | undefined>} The access token the request was sent with */
+    const call = async () => {
+      await actionTool._call({}, config);
+      return executor.setAuth.mock.calls.at(-1)?.[0].oauth_access_token;
+    };
+    return { call, executor };
+  };
+
+  const oauth = {
+    type: AuthTypeEnum.OAuth,
+    authorization_url: 'https://example.com/authorize',
+    client_url: 'https://example.com/token',
+    scope: 'read',
+  };
+  const clientCredentials = {
+    type: AuthTypeEnum.ClientCredentials,
+    client_url: 'https://example.com/token',
+    scope: 'read',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    refreshAccessToken.mockReset();
+    getClientCredentialsToken.mockReset();
+    flowResults.clear();
+    getFlowStateManager.mockResolvedValue(flowManager);
+  });
+
+  it('refreshes an expiring token once for concurrent tool calls', async () => {
+    mockStoredTokens({
+      access: { token: 'stored-access', expiresAt: minutesFromNow(0.5) },
+      refresh: { token: 'refresh-token' },
+    });
+    refreshAccessToken.mockResolvedValue({ access_token: 'refreshed', expires_in: 3600 });
+
+    const first = await createTool(oauth);
+    const second = await createTool(oauth);
+    const tokens = await Promise.all([first.call(), second.call()]);
+
+    expect(tokens).toEqual(['refreshed', 'refreshed']);
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(refreshAccessToken).toHaveBeenCalledWith(
+      expect.objectContaining({ refresh_token: 'refresh-token', identifier: 'user1:action1' }),
+    );
+  });
+
+  it('refreshes again instead of reusing refreshed tokens that are expiring', async () => {
+    mockStoredTokens({
+      access: { token: 'stored-access', expiresAt: minutesFromNow(0.5) },
+      refresh: { token: 'refresh-token' },
+    });
+    refreshAccessToken
+      .mockResolvedValueOnce({ access_token: 'short-lived', expires_in: 30 })
+      .mockResolvedValueOnce({ access_token: 'refreshed', expires_in: 3600 });
+
+    const { call } = await createTool(oauth);
+    expect(await call()).toBe('short-lived');
+    expect(await call()).toBe('refreshed');
+    expect(refreshAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the stored token until it expires when the refresh fails, then requests login', async () => {
+    refreshAccessToken.mockRejectedValue(new Error('Error refreshing OAuth tokens'));
+    flowManager.createFlow.mockResolvedValue({
+      access_token: 'logged-in',
+      refresh_token: 'new-refresh-token',
+      expires_in: 3600,
+    });
+
+    mockStoredTokens({
+      access: { token: 'stored-access', expiresAt: minutesFromNow(0.5) },
+      refresh: { token: 'refresh-token' },
+    });
+    const { call } = await createTool(oauth);
+    expect(await call()).toBe('stored-access');
+    expect(flowManager.createFlow).not.toHaveBeenCalled();
+
+    mockStoredTokens({
+      access: { token: 'stored-access', expiresAt: minutesFromNow(-1) },
+      refresh: { token: 'refresh-token' },
+    });
+    expect(await call()).toBe('logged-in');
+    expect(refreshAccessToken).toHaveBeenCalledTimes(2);
+    expect(flowManager.createFlow).toHaveBeenCalledTimes(1);
+    expect(flowManager.createFlowWithHandler).toHaveBeenCalledWith(
+      'user1:action1:login',
+      'oauth_login',
+      expect.any(Function),
+    );
+    expect(sendEvent).toHaveBeenCalled();
+  });
+
+  it('reuses a stored client credentials token that is not about to expire', async () => {
+    mockStoredTokens({ access: { token: 'stored-access', expiresAt: minutesFromNow(10) } });
+
+    const { call } = await createTool(clientCredentials);
+
+    expect(await call()).toBe('stored-access');
+    expect(getClientCredentialsToken).not.toHaveBeenCalled();
+    expect(flowManager.createFlowWithHandler).not.toHaveBeenCalled();
+  });
+
+  it('requests a client credentials token once for concurrent tool calls', async () => {
+    mockStoredTokens({ access: { token: 'stored-access', expiresAt: minutesFromNow(0.5) } });
+    getClientCredentialsToken.mockResolvedValue({ access_token: 'requested', expires_in: 3600 });
+
+    const first = await createTool(clientCredentials);
+    const second = await createTool(clientCredentials);
+    const tokens = await Promise.all([first.call(), second.call()]);
+
+    expect(tokens).toEqual(['requested', 'requested']);
+    expect(getClientCredentialsToken).toHaveBeenCalledTimes(1);
+    expect(flowManager.createFlowWithHandler).toHaveBeenCalledWith(
+      'user1:action1:client_credentials',
+      'oauth_client_credentials',
+      expect.any(Function),
+    );
+  });
+});
@@ -7,7 +7,11 @@ const handleRateLimits = require('./Config/handleRateLimits');
 const { loadDefaultInterface } = require('./start/interface');
 const { azureConfigSetup } = require('./start/azureOpenAI');
 const { processModelSpecs } = require('./start/modelSpecs');
+const { processTeacherTools } = require('./start/teacherTools');
+const { processTutorMode } = require('./start/tutorMode');
+const { loadStandards } = require('./StandardsService');
 const { loadAndFormatTools } = require('./ToolService');
+const { getMCPOAuthOptions } = require('./MCP');
 const { agentsConfigSetup } = require('./start/agents');
 const { initializeRoles } = require('~/models/Role');
 const { getMCPManager } = require('~/config');
@@ -48,7 +52,11 @@ const AppService = async (app) => {
 
   if (config.mcpServers != null) {
     const mcpManager = await getMCPManager();
-    await mcpManager.initializeMCP(config.mcpServers);
+    await mcpManager.initializeMCP(
+      config.mcpServers,
+      config.mcpSettings,
+      await getMCPOAuthOptions(),
+    );
     await mcpManager.mapAvailableTools(availableTools);
   }
 
@@ -121,11 +129,16 @@ const AppService = async (app) => {
     }
   });
 
+  const modelSpecs = processModelSpecs(endpoints, config.modelSpecs);
+
   app.locals = {
     ...defaultLocals,
     fileConfig: config?.fileConfig,
     secureImageLinks: config?.secureImageLinks,
-    modelSpecs: processModelSpecs(endpoints, config.modelSpecs),
+    modelSpecs,
+    teacherTools: processTeacherTools(endpoints, modelSpecs, config.teacherTools),
+    standards: await loadStandards(config.teacherTools?.standards),
+    tutorMode: processTutorMode(modelSpecs, config.tutorMode),
     ...endpointLocals,
   };
 };
@@ -105,6 +105,8 @@ describe('AppService', () => {
         presets: true,
       }),
       modelSpecs: undefined,
+      teacherTools: undefined,
+      tutorMode: undefined,
       availableTools: {
         ExampleTool: {
           type: 'function',
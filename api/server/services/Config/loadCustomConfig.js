@@ -114,6 +114,10 @@ https://www.librechat.ai/docs/configuration/stt_tts`);
     customConfig.modelSpecs = result.data.modelSpecs;
   }
 
+  if (result.data.teacherTools) {
+    customConfig.teacherTools = result.data.teacherTools;
+  }
+
   return customConfig;
 }
 
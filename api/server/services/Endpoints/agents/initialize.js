@@ -14,6 +14,7 @@ const initOpenAI = require('~/server/services/Endpoints/openAI/initialize');
 const initCustom = require('~/server/services/Endpoints/custom/initialize');
 const initGoogle = require('~/server/services/Endpoints/google/initialize');
 const { getCustomEndpointConfig } = require('~/server/services/Config');
+const { isTutorStreamHeld } = require('~/server/services/TutorService');
 const { loadAgentTools } = require('~/server/services/ToolService');
 const AgentClient = require('~/server/controllers/agents/client');
 const { getModelMaxTokens } = require('~/utils');
@@ -163,6 +164,7 @@ const initializeClient = async ({ req, res, endpointOption }) => {
     aggregateContent,
     toolEndCallback,
     collectedUsage,
+    holdMessageDeltas: isTutorStreamHeld(req),
   });
 
   if (!endpointOption.agent) {
@@ -235,4 +237,4 @@ const initializeClient = async ({ req, res, endpointOption }) => {
   return { client };
 };
 
-module.exports = { initializeClient };
+module.exports = { initializeClient, initializeAgentOptions };
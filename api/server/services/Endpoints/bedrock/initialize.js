@@ -5,6 +5,7 @@ const {
   getResponseSender,
 } = require('librechat-data-provider');
 const { getDefaultHandlers } = require('~/server/controllers/agents/callbacks');
+const { isTutorStreamHeld } = require('~/server/services/TutorService');
 const getOptions = require('~/server/services/Endpoints/bedrock/options');
 const AgentClient = require('~/server/controllers/agents/client');
 const { getModelMaxTokens } = require('~/utils');
@@ -17,7 +18,12 @@ const initializeClient = async ({ req, res, endpointOption }) => {
   /** @type {Array<UsageMetadata>} */
   const collectedUsage = [];
   const { contentParts, aggregateContent } = createContentAggregator();
-  const eventHandlers = getDefaultHandlers({ res, aggregateContent, collectedUsage });
+  const eventHandlers = getDefaultHandlers({
+    res,
+    aggregateContent,
+    collectedUsage,
+    holdMessageDeltas: isTutorStreamHeld(req),
+  });
 
   /** @type {Agent} */
   const agent = {
@@ -838,6 +838,42 @@ async function saveBase64Image(
   );
 }
 
+/**
+ * Saves base64-encoded contents, such as a binary MCP resource, with the configured file strategy.
+ *
+ * @param {string} data - The base64-encoded contents.
+ * @param {Object} params - The parameters for the function.
+ * @param {ServerRequest} params.req - The request object from Express.
+ * @param {string} params.filename - The name of the file.
+ * @param {string} params.type - The MIME type of the contents.
+ * @param {FileContext} params.context - The context of the file.
+ * @returns {Promise<MongoFile>} The created file.
+ */
+async function saveBase64File(data, { req, filename, type, context }) {
+  const file_id = v4();
+  const buffer = Buffer.from(data, 'base64');
+  const source = req.app.locals.fileStrategy;
+  const { saveBuffer } = getStrategyFunctions(source);
+  const filepath = await saveBuffer({
+    userId: req.user.id,
+    fileName: `${file_id}__${filename}`,
+    buffer,
+  });
+  return await createFile(
+    {
+      type,
+      source,
+      context,
+      file_id,
+      filepath,
+      filename,
+      user: req.user.id,
+      bytes: buffer.length,
+    },
+    true,
+  );
+}
+
 /**
  * Filters a file based on its size and the endpoint origin.
  *
@@ -912,6 +948,7 @@ module.exports = {
   filterFile,
   processFiles,
   processFileURL,
+  saveBase64File,
   saveBase64Image,
   processImageFile,
   uploadImageBuffer,
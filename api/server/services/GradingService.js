@@ -0,0 +1,120 @@
+const { HumanMessage } = require('@langchain/core/messages');
+const {
+  QuestionGrader,
+  QuestionResultStatus,
+  applyQuestionGrades,
+  parseSubmissionGrades,
+  buildShortAnswerGradingPrompt,
+} = require('librechat-data-provider');
+const { initializeAgentOptions } = require('~/server/services/Endpoints/agents/initialize');
+const { getSubmissionById, updateSubmissionResults } = require('~/models/Assignment');
+const { createRun } = require('~/server/controllers/agents/run');
+const { getAgent } = require('~/models/Agent');
+const { logger } = require('~/config');
+
+const GRADING_TIMEOUT_MS = 120000;
+
+/**
+ * Returns the indices of the questions that still await grading.
+ * @param {MongoSubmission} submission
+ * @returns {number[]}
+ */
+const getPendingIndices = (submission) =>
+  submission.results.flatMap((result, index) =>
+    result.status === QuestionResultStatus.PENDING ? [index] : [],
+  );
+
+/**
+ * Returns the text of a run message.
+ * @param {BaseMessage | undefined} message
+ * @returns {string}
+ */
+const getMessageText = (message) => {
+  const content = message?.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content.map((part) => (part?.type === 'text' ? part.text : '')).join('');
+};
+
+/**
+ * Has the assignment's grader agent grade a submission's pending short answers against the answer key.
+ * Questions a teacher grades while the agent runs keep the teacher's grade.
+ *
+ * @param {Object} params
+ * @param {ServerRequest} params.req - The request that triggered grading; only `user` and `app` are used.
+ * @param {MongoAssignment} params.assignment - The assignment, including its answer key.
+ * @param {MongoSubmission} params.submission - The submission to grade.
+ * @returns {Promise<MongoSubmission | null>} The updated submission, or `null` if nothing was graded.
+ */
+async function gradeSubmissionWithAgent({ req, assignment, submission }) {
+  const pendingIndices = getPendingIndices(submission);
+  if (!pendingIndices.length || !assignment.graderAgentId) {
+    return null;
+  }
+
+  const agent = await getAgent({ id: assignment.graderAgentId });
+  if (!agent) {
+    logger.warn(
+      `[gradeSubmissionWithAgent] Grader agent ${assignment.graderAgentId} not found for assignment ${assignment._id}`,
+    );
+    return null;
+  }
+
+  /* Grading runs without tools, and may outlive the request that triggered it */
+  const gradingReq = { user: req.user, app: req.app, body: {} };
+  const agentConfig = await initializeAgentOptions({
+    req: gradingReq,
+    agent: { ...agent, tools: [] },
+  });
+
+  const abortController = new AbortController();
+  const timeout = setTimeout(() => abortController.abort(), GRADING_TIMEOUT_MS);
+  try {
+    const run = await createRun({
+      agent: agentConfig,
+      signal: abortController.signal,
+      streaming: false,
+      streamUsage: false,
+    });
+    const prompt = buildShortAnswerGradingPrompt(
+      assignment.quiz,
+      submission.responses,
+      pendingIndices,
+    );
+    await run.processStream(
+      { messages: [new HumanMessage(prompt)] },
+      {
+        configurable: { thread_id: submission._id.toString() },
+        signal: abortController.signal,
+        streamMode: 'values',
+        version: 'v2',
+      },
+    );
+
+    const messages = run.getRunMessages() ?? [];
+    const grades = parseSubmissionGrades(getMessageText(messages[messages.length - 1]));
+    if (!grades) {
+      logger.warn(
+        `[gradeSubmissionWithAgent] Grader agent returned no valid grades for submission ${submission._id}`,
+      );
+      return null;
+    }
+
+    const latest = (await getSubmissionById(submission._id.toString())) ?? submission;
+    const stillPending = new Set(getPendingIndices(latest));
+    const results = applyQuestionGrades(
+      latest.results,
+      grades.filter((grade) => stillPending.has(grade.index)),
+      QuestionGrader.AGENT,
+    );
+    return await updateSubmissionResults(submission._id, results);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+module.exports = { gradeSubmissionWithAgent };
@@ -0,0 +1,158 @@
+const { AIMessage } = require('@langchain/core/messages');
+const {
+  QuizQuestionTypes,
+  QuestionGrader,
+  QuestionResultStatus,
+  gradeQuizResponses,
+} = require('librechat-data-provider');
+const { initializeAgentOptions } = require('~/server/services/Endpoints/agents/initialize');
+const { getSubmissionById, updateSubmissionResults } = require('~/models/Assignment');
+const { createRun } = require('~/server/controllers/agents/run');
+const { getAgent } = require('~/models/Agent');
+const { gradeSubmissionWithAgent } = require('./GradingService');
+
+jest.mock('~/config', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('~/server/services/Endpoints/agents/initialize', () => ({
+  initializeAgentOptions: jest.fn(async ({ agent }) => agent),
+}));
+
+jest.mock('~/models/Assignment', () => ({
+  getSubmissionById: jest.fn(),
+  updateSubmissionResults: jest.fn(async (_id, results) => ({ _id, results })),
+}));
+
+jest.mock('~/server/controllers/agents/run', () => ({
+  createRun: jest.fn(),
+}));
+
+jest.mock('~/models/Agent', () => ({
+  getAgent: jest.fn(),
+}));
+
+const quiz = {
+  title: 'Plant Biology',
+  questions: [
+    {
+      type: QuizQuestionTypes.TRUE_FALSE,
+      question: 'Plants release oxygen.',
+      answer: true,
+    },
+    {
+      type: QuizQuestionTypes.SHORT_ANSWER,
+      question: 'What gas do plants absorb?',
+      answer: 'Carbon dioxide',
+      points: 2,
+    },
+    {
+      type: QuizQuestionTypes.SHORT_ANSWER,
+      question: 'Where does photosynthesis happen?',
+      answer: 'In the chloroplasts',
+    },
+  ],
+};
+
+const responses = [true, 'The gas we breathe out', 'Leaves'];
+const assignment = { _id: 'assignment-1', quiz, graderAgentId: 'agent_grader' };
+const req = { user: { id: 'student-1' }, app: { locals: {} }, body: { responses } };
+
+const mockRun = (output) => {
+  const run = {
+    processStream: jest.fn(),
+    getRunMessages: jest.fn(() => [new AIMessage(output)]),
+  };
+  createRun.mockResolvedValue(run);
+  return run;
+};
+
+describe('gradeSubmissionWithAgent', () => {
+  let submission;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    submission = { _id: 'submission-1', responses, results: gradeQuizResponses(quiz, responses) };
+    getSubmissionById.mockResolvedValue(submission);
+    getAgent.mockResolvedValue({ id: 'agent_grader', provider: 'openAI', tools: ['web_search'] });
+  });
+
+  it('grades pending short answers with the grader agent', async () => {
+    const run = mockRun(
+      '[{ "index": 1, "points": 2, "feedback": "Correct, that is carbon dioxide." }, { "index": 2, "points": 0.5 }]',
+    );
+
+    const updated = await gradeSubmissionWithAgent({ req, assignment, submission });
+
+    expect(initializeAgentOptions).toHaveBeenCalledWith({
+      req: { user: req.user, app: req.app, body: {} },
+      agent: expect.objectContaining({ id: 'agent_grader', tools: [] }),
+    });
+    const [{ messages }] = run.processStream.mock.calls[0];
+    expect(messages[0].content).toContain('The gas we breathe out');
+    expect(updateSubmissionResults).toHaveBeenCalledWith('submission-1', expect.any(Array));
+    expect(updated.results[0]).toBe(submission.results[0]);
+    expect(updated.results[1]).toMatchObject({
+      points: 2,
+      status: QuestionResultStatus.CORRECT,
+      gradedBy: QuestionGrader.AGENT,
+      feedback: 'Correct, that is carbon dioxide.',
+    });
+    expect(updated.results[2]).toMatchObject({
+      points: 0.5,
+      status: QuestionResultStatus.PARTIAL,
+    });
+  });
+
+  it('keeps grades a teacher gave while the agent was running', async () => {
+    mockRun('[{ "index": 1, "points": 0 }, { "index": 2, "points": 1 }]');
+    const teacherResult = {
+      points: 2,
+      maxPoints: 2,
+      status: QuestionResultStatus.CORRECT,
+      gradedBy: QuestionGrader.TEACHER,
+    };
+    getSubmissionById.mockResolvedValue({
+      ...submission,
+      results: submission.results.map((result, idx) => (idx === 1 ? teacherResult : result)),
+    });
+
+    const updated = await gradeSubmissionWithAgent({ req, assignment, submission });
+
+    expect(updated.results[1]).toEqual(teacherResult);
+    expect(updated.results[2]).toMatchObject({ points: 1, gradedBy: QuestionGrader.AGENT });
+  });
+
+  it('ignores grades for questions that were not pending', async () => {
+    mockRun('[{ "index": 0, "points": 0 }]');
+
+    const updated = await gradeSubmissionWithAgent({ req, assignment, submission });
+
+    expect(updated.results).toEqual(submission.results);
+  });
+
+  it('does nothing without a grader agent or pending questions', async () => {
+    expect(
+      await gradeSubmissionWithAgent({
+        req,
+        assignment: { ...assignment, graderAgentId: undefined },
+        submission,
+      }),
+    ).toBeNull();
+
+    const graded = { ...submission, results: gradeQuizResponses(quiz, [true, 'Carbon dioxide']) };
+    expect(await gradeSubmissionWithAgent({ req, assignment, submission: graded })).toBeNull();
+    expect(createRun).not.toHaveBeenCalled();
+  });
+
+  it('leaves the submission pending when the agent returns invalid grades', async () => {
+    mockRun('I am unable to grade these answers.');
+
+    expect(await gradeSubmissionWithAgent({ req, assignment, submission })).toBeNull();
+    expect(updateSubmissionResults).not.toHaveBeenCalled();
+  });
+});
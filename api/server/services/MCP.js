@@ -1,25 +1,301 @@
 const { z } = require('zod');
+const { v4 } = require('uuid');
 const { tool } = require('@langchain/core/tools');
-const { Constants: AgentConstants, Providers } = require('@librechat/agents');
+const { AIMessage, HumanMessage, SystemMessage } = require('@langchain/core/messages');
+const { Constants: AgentConstants, Providers, GraphEvents } = require('@librechat/agents');
 const {
+  Time,
+  CacheKeys,
   Constants,
+  StepTypes,
   ContentTypes,
   isAssistantsEndpoint,
   convertJsonSchemaToZod,
 } = require('librechat-data-provider');
-const { logger, getMCPManager } = require('~/config');
+const { logger, getMCPManager, getFlowStateManager, sendEvent } = require('~/config');
+const { getUserPluginAuthValue } = require('~/server/services/PluginService');
+const { createRun } = require('~/server/controllers/agents/run');
+const { findToken, handleOAuthToken } = require('~/models/Token');
+const { spendTokens } = require('~/models/spendTokens');
+const { decryptV2 } = require('~/server/utils/crypto');
+const { getLogStores } = require('~/cache');
+
+/** Flow type of tool calls awaiting the user's approval */
+const MCP_TOOL_APPROVAL_FLOW = 'mcp_tool_approval';
+
+/**
+ * Returns the flow ID of a tool call's approval, scoped to the user so only they can respond to it.
+ * @param {string} userId
+ * @param {string} approvalId - The ID of the tool call's run step.
+ */
+const getApprovalFlowId = (userId, approvalId) => `${userId}:${approvalId}`;
+
+/**
+ * Stores the users' MCP OAuth tokens encrypted, like the tokens of actions.
+ * @type {import('librechat-mcp').MCPTokenMethods}
+ */
+const mcpTokenMethods = {
+  findToken: async (query) => {
+    const tokenData = await findToken(query);
+    if (!tokenData || tokenData.expiresAt < new Date()) {
+      return null;
+    }
+    return { token: await decryptV2(tokenData.token), expiresAt: tokenData.expiresAt };
+  },
+  storeToken: async ({ userId, type, identifier, token, expiresIn }) => {
+    await handleOAuthToken({ userId, type, identifier, token, expiresIn });
+  },
+};
+
+/**
+ * Returns the options used to sign in to MCP servers with OAuth.
+ * @returns {Promise<import('librechat-mcp').MCPOAuthOptions>}
+ */
+async function getMCPOAuthOptions() {
+  return {
+    flowManager: await getFlowStateManager(getLogStores),
+    tokenMethods: mcpTokenMethods,
+    getRedirectUri: (serverName) =>
+      `${process.env.DOMAIN_CLIENT}/api/mcp/${encodeURIComponent(serverName)}/oauth/callback`,
+    /** Tools of servers signed in to after startup are not in the cached tools yet */
+    onToolsUpdated: () => getLogStores(CacheKeys.CONFIG_STORE).delete(CacheKeys.TOOLS),
+  };
+}
+
+/**
+ * Loads the user's values of an MCP server's `customUserVars`, provided through the tool authentication form.
+ *
+ * @param {string} userId - The user's ID.
+ * @param {string} serverName - The MCP server name.
+ * @returns {Promise<{ customUserVars: Record<string, string>, missing: string[] }>} The values by variable name,
+ * and the titles of the variables without a value.
+ */
+async function getMCPUserVars(userId, serverName) {
+  const [mcpManager, { getUserVarAuthField }] = await Promise.all([
+    getMCPManager(),
+    import('librechat-mcp'),
+  ]);
+  /** @type {Record<string, string>} */
+  const customUserVars = {};
+  const missing = [];
+  for (const [varName, userVar] of Object.entries(mcpManager.getCustomUserVars(serverName))) {
+    const authField = getUserVarAuthField(serverName, varName);
+    const value = await getUserPluginAuthValue(userId, authField, false);
+    if (value) {
+      customUserVars[varName] = value;
+    } else {
+      missing.push(userVar.title);
+    }
+  }
+  return { customUserVars, missing };
+}
+
+/**
+ * Pauses a tool call until the user approves or denies its exact arguments in the chat.
+ * Tool calls not answered in time are denied.
+ *
+ * @param {Object} params
+ * @param {ServerResponse} params.res - The response, to show the approval prompt on the tool call.
+ * @param {{ id: string; delta: AgentToolCallDelta }} params.data - The run step delta of the tool call.
+ * @param {string} params.userId - The user's ID.
+ * @param {string} params.serverName - The MCP server name.
+ * @param {string} params.toolName - The tool name.
+ * @param {Object | string} params.toolInput - The arguments of the tool call.
+ * @param {string} [params.approvalId] - Defaults to the ID of the tool call's run step.
+ * @param {AgentToolCallDelta['approval']['kind']} [params.kind] - `sampling` to approve a sampling request of the server instead.
+ * @param {AbortSignal} [params.signal] - Stops waiting for the approval, e.g. when the run is aborted.
+ * @returns {Promise<boolean>} Whether the user approved the tool call.
+ */
+async function requestToolApproval({
+  res,
+  data,
+  userId,
+  serverName,
+  toolName,
+  toolInput,
+  approvalId = data.id,
+  kind,
+  signal,
+}) {
+  const flowManager = await getFlowStateManager(getLogStores);
+  const flowId = getApprovalFlowId(userId, approvalId);
+  data.delta.approval = {
+    id: approvalId,
+    kind,
+    args: typeof toolInput === 'string' ? toolInput : JSON.stringify(toolInput, null, 2),
+    expires_at: Date.now() + Time.TWO_MINUTES,
+  };
+  sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+
+  try {
+    const approved = await flowManager.createFlow(
+      flowId,
+      MCP_TOOL_APPROVAL_FLOW,
+      { serverName, toolName },
+      signal,
+    );
+    return approved === true;
+  } catch (error) {
+    logger.warn(`[MCP][${serverName}] Approval of ${toolName} was not received`, error);
+    return false;
+  } finally {
+    data.delta.approval = undefined;
+    sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+  }
+}
+
+/**
+ * Responds to a tool call awaiting the user's approval, resuming it.
+ *
+ * @param {Object} params
+ * @param {string} params.userId - The user's ID.
+ * @param {string} params.approvalId - The ID of the approval, sent with the tool call.
+ * @param {boolean} params.approved - Whether the user approved the tool call.
+ * @returns {Promise<boolean>} Whether a pending tool call was found.
+ */
+async function respondToToolApproval({ userId, approvalId, approved }) {
+  const flowManager = await getFlowStateManager(getLogStores);
+  const flowId = getApprovalFlowId(userId, approvalId);
+  const flowState = await flowManager.getFlowState(flowId, MCP_TOOL_APPROVAL_FLOW);
+  if (flowState?.status !== 'PENDING') {
+    return false;
+  }
+  return flowManager.completeFlow(flowId, MCP_TOOL_APPROVAL_FLOW, approved);
+}
+
+/**
+ * Shows the messages of a sampling request as the user is asked to confirm them, without image data.
+ * @param {import('librechat-mcp').SamplingRequest} request
+ * @returns {string}
+ */
+function formatSamplingRequest({ systemPrompt, messages, maxTokens }) {
+  const formatted = messages.map(({ role, content }) => ({
+    role,
+    content: content.type === 'text' ? content.text : `(Image of type ${content.mimeType})`,
+  }));
+  return JSON.stringify({ systemPrompt, messages: formatted, maxTokens }, null, 2);
+}
+
+/**
+ * Converts the messages of a sampling request to LangChain messages.
+ * @param {import('librechat-mcp').SamplingRequest} request
+ * @returns {BaseMessage[]}
+ */
+function toSamplingMessages({ systemPrompt, messages }) {
+  const result = systemPrompt ? [new SystemMessage(systemPrompt)] : [];
+  for (const { role, content } of messages) {
+    if (role === 'assistant') {
+      result.push(new AIMessage(content.type === 'text' ? content.text : ''));
+    } else if (content.type === 'text') {
+      result.push(new HumanMessage(content.text));
+    } else {
+      const url = `data:${content.mimeType};base64,${content.data}`;
+      result.push(new HumanMessage({ content: [{ type: 'image_url', image_url: { url } }] }));
+    }
+  }
+  return result;
+}
+
+/**
+ * Creates the handler of the sampling requests an MCP server makes while one of its tools runs.
+ * Once the user confirms a request on the tool call, its messages are completed with the agent's model,
+ * which the conversation is configured with; the server's model preferences are not used.
+ *
+ * @param {Object} params
+ * @param {ServerRequest} params.req - The request, with the user spending the tokens.
+ * @param {ServerResponse} params.res - The response, to show the confirmation prompt on the tool call.
+ * @param {Agent} params.agent - The agent calling the tool.
+ * @param {{ id: string; delta: AgentToolCallDelta }} params.data - The run step delta of the tool call.
+ * @param {string} params.serverName - The MCP server name.
+ * @param {string} params.toolName - The tool name.
+ * @param {string} [params.conversationId] - The conversation the tokens are spent in.
+ * @param {AbortSignal} [params.signal] - Aborts the completion with the run.
+ * @returns {import('librechat-mcp').SamplingHandler}
+ */
+function createSamplingHandler({
+  req,
+  res,
+  agent,
+  data,
+  serverName,
+  toolName,
+  conversationId,
+  signal,
+}) {
+  const userId = req.user.id;
+  return async (request) => {
+    const approved = await requestToolApproval({
+      res,
+      data,
+      userId,
+      serverName,
+      toolName,
+      toolInput: formatSamplingRequest(request),
+      approvalId: `${data.id}_${v4()}`,
+      kind: 'sampling',
+      signal,
+    });
+    if (!approved) {
+      throw new Error('The user declined the sampling request');
+    }
+
+    const run = await createRun({
+      agent: { ...agent, tools: [] },
+      signal,
+      streaming: false,
+      streamUsage: false,
+    });
+    const isGoogle = agent.provider === Providers.GOOGLE || agent.provider === Providers.VERTEXAI;
+    const model = run.Graph.getNewModel({
+      clientOptions: isGoogle
+        ? { maxOutputTokens: request.maxTokens }
+        : { maxTokens: request.maxTokens },
+    });
+    /** @type {import('@langchain/core/messages').AIMessage} */
+    const message = await model.invoke(toSamplingMessages(request), { signal });
+    const modelName = agent.model_parameters.model;
+
+    const usage = message.usage_metadata;
+    if (usage) {
+      try {
+        await spendTokens(
+          { user: userId, conversationId, model: modelName, context: 'mcp_sampling' },
+          { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens },
+        );
+      } catch (error) {
+        logger.error(`[MCP][${serverName}] Error spending the tokens of a sampling request`, error);
+      }
+    }
+
+    let text = message.content;
+    if (typeof text !== 'string') {
+      text = text
+        .filter((part) => part.type === ContentTypes.TEXT)
+        .map((part) => part.text)
+        .join('');
+    }
+    return {
+      role: 'assistant',
+      model: modelName,
+      content: { type: 'text', text },
+      stopReason: 'endTurn',
+    };
+  };
+}
 
 /**
  * Creates a general tool for an entire action set.
  *
  * @param {Object} params - The parameters for loading action sets.
  * @param {ServerRequest} params.req - The name of the tool.
+ * @param {ServerResponse} [params.res] - The response, to prompt the user to sign in to OAuth servers.
  * @param {string} params.toolKey - The toolKey for the tool.
  * @param {import('@librechat/agents').Providers | EModelEndpoint} params.provider - The provider for the tool.
  * @param {string} params.model - The model for the tool.
+ * @param {Agent} [params.agent] - The agent calling the tool, whose model answers the server's sampling requests.
  * @returns { Promise<typeof tool | { _call: (toolInput: Object | string) => unknown}> } An object with `_call` method to execute the tool input.
  */
-async function createMCPTool({ req, toolKey, provider }) {
+async function createMCPTool({ req, res, toolKey, provider, agent }) {
   const toolDefinition = req.app.locals.availableTools[toolKey]?.function;
   if (!toolDefinition) {
     logger.error(`Tool ${toolKey} not found in available tools`);
@@ -37,19 +313,119 @@ async function createMCPTool({ req, toolKey, provider }) {
   }
 
   const [toolName, serverName] = toolKey.split(Constants.mcp_delimiter);
-  /** @type {(toolInput: Object | string) => Promise<unknown>} */
-  const _call = async (toolInput) => {
+  const mcpManager = await getMCPManager();
+  if (!mcpManager.isToolAvailable(serverName, toolName, req.user?.role)) {
+    logger.warn(`Tool ${toolKey} is not available to the user's role`);
+    return null;
+  }
+
+  /** @type {(toolInput: Object | string, config?: GraphRunnableConfig) => Promise<unknown>} */
+  const _call = async (toolInput, config) => {
     try {
-      const mcpManager = await getMCPManager();
-      const result = await mcpManager.callTool(serverName, toolName, provider, toolInput);
+      const userId = req.user?.id;
+      /** @type {Record<string, string> | undefined} */
+      let customUserVars;
+      if (mcpManager.isUserScopedServer(serverName)) {
+        const userVars = await getMCPUserVars(userId, serverName);
+        if (userVars.missing.length > 0) {
+          return `${toolName} requires values that have not been provided: ${userVars.missing.join(', ')}. The user can add them by removing and re-adding the tool.`;
+        }
+        customUserVars = userVars.customUserVars;
+      }
+
+      const { args: _args, stepId, ...toolCall } = config?.toolCall ?? {};
+      /** @type {{ id: string; delta: AgentToolCallDelta }} */
+      const data = {
+        id: stepId,
+        delta: { type: StepTypes.TOOL_CALLS, tool_calls: [{ ...toolCall, args: '' }] },
+      };
+      /** Shows the sign-in prompt of the server on the tool call */
+      const oauthStart = async (authURL) => {
+        data.delta.auth = authURL;
+        data.delta.expires_at = Date.now() + Time.TWO_MINUTES;
+        sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+        logger.debug(`[MCP][${serverName}] Sent OAuth login request to client`, { userId });
+      };
+      const oauthEnd = async () => {
+        data.delta.auth = undefined;
+        data.delta.expires_at = undefined;
+        sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+      };
+      const canPromptUser = res != null && stepId != null;
+
+      if (mcpManager.requiresApproval(serverName, toolName)) {
+        if (!canPromptUser) {
+          return `${toolName} requires the user's approval, which cannot be requested here.`;
+        }
+        const approved = await requestToolApproval({
+          res,
+          data,
+          userId,
+          serverName,
+          toolName,
+          toolInput,
+          signal: config?.signal,
+        });
+        if (!approved) {
+          logger.debug(`[MCP][${serverName}] ${toolName} was not approved`, { userId });
+          return `The user did not approve the ${toolName} tool call, so it was not run.`;
+        }
+      }
+
+      /** @type {import('librechat-mcp').SamplingHandler | undefined} */
+      let createMessage;
+      if (agent != null && canPromptUser) {
+        createMessage = createSamplingHandler({
+          req,
+          res,
+          agent,
+          data,
+          serverName,
+          toolName,
+          conversationId: config?.configurable?.thread_id,
+          signal: config?.signal,
+        });
+      }
+
+      /** Shows the progress the server reports on the tool call */
+      const onProgress = ({ progress, total }) => {
+        data.delta.progress_update = { progress, total };
+        sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+      };
+
+      const result = await mcpManager.callTool({
+        serverName,
+        toolName,
+        provider,
+        toolArguments: toolInput,
+        userId,
+        customUserVars,
+        oauthStart: canPromptUser ? oauthStart : undefined,
+        oauthEnd: canPromptUser ? oauthEnd : undefined,
+        createMessage,
+        signal: config?.signal,
+        onProgress: canPromptUser ? onProgress : undefined,
+      });
       if (isAssistantsEndpoint(provider) && Array.isArray(result)) {
         return result[0];
       }
       if (isGoogle && Array.isArray(result[0]) && result[0][0]?.type === ContentTypes.TEXT) {
-        return [result[0][0].text, result[1]];
+        const text = result[0]
+          .filter((part) => part.type === ContentTypes.TEXT)
+          .map((part) => part.text)
+          .join('\n\n');
+        return [text, result[1]];
       }
       return result;
     } catch (error) {
+      if (config?.signal?.aborted) {
+        logger.debug(`[MCP][${serverName}] ${toolName} was cancelled`);
+        return `${toolName} MCP server tool call was cancelled.`;
+      }
+      if (error?.name === 'MCPToolTimeoutError') {
+        logger.warn(`[MCP][${serverName}] ${error.message}`);
+        return `${toolName} MCP server tool call timed out, and was cancelled.`;
+      }
       logger.error(`${toolName} MCP server tool call failed`, error);
       return `${toolName} MCP server tool call failed.`;
     }
@@ -67,4 +443,7 @@ async function createMCPTool({ req, toolKey, provider }) {
 
 module.exports = {
   createMCPTool,
+  getMCPUserVars,
+  respondToToolApproval,
+  getMCPOAuthOptions,
 };
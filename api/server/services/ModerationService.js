@@ -0,0 +1,26 @@
+const axios = require('axios');
+
+/**
+ * Checks text against the OpenAI moderation API.
+ * @param {string} text - The text to moderate.
+ * @returns {Promise<boolean>} Whether any moderation category was flagged.
+ * @throws {Error} If the moderation request fails.
+ */
+async function isTextFlagged(text) {
+  const response = await axios.post(
+    process.env.OPENAI_MODERATION_REVERSE_PROXY || 'https://api.openai.com/v1/moderations',
+    {
+      input: text,
+    },
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${process.env.OPENAI_MODERATION_API_KEY}`,
+      },
+    },
+  );
+
+  return response.data.results.some((result) => result.flagged);
+}
+
+module.exports = { isTextFlagged };
@@ -0,0 +1,208 @@
+const fs = require('fs').promises;
+const path = require('path');
+const { tStandardSchema } = require('librechat-data-provider');
+const { logger } = require('~/config');
+
+const projectRoot = path.resolve(__dirname, '..', '..', '..');
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Parses CSV text into rows of fields, supporting quoted fields with escaped quotes and line breaks.
+ * @param {string} text - The CSV text.
+ * @returns {string[][]} The parsed rows.
+ */
+function parseCSV(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim().length > 0));
+}
+
+/**
+ * Converts standards CSV text into raw standard objects, using the header row as keys.
+ * @param {string} text - CSV text with a `code,description[,framework,subject,grade]` header.
+ * @returns {Record<string, string>[]} The raw entries.
+ */
+function parseStandardsCSV(text) {
+  const [header, ...rows] = parseCSV(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return rows.map((fields) =>
+    keys.reduce((entry, key, index) => {
+      const value = fields[index]?.trim();
+      if (key && value) {
+        entry[key] = value;
+      }
+      return entry;
+    }, {}),
+  );
+}
+
+/**
+ * Loads the curriculum standards catalog from the configured JSON and CSV files.
+ * Invalid entries are skipped; when codes repeat, the first occurrence wins.
+ * @param {TCustomConfig['teacherTools']['standards'] | undefined} [standardsConfig] - The standards configuration.
+ * @returns {Promise<TStandard[] | undefined>} The catalog, if any standards were loaded.
+ */
+async function loadStandards(standardsConfig) {
+  if (!standardsConfig?.files?.length) {
+    return undefined;
+  }
+
+  /** @type {Map<string, TStandard>} */
+  const catalog = new Map();
+
+  for (const file of standardsConfig.files) {
+    const filePath = path.resolve(projectRoot, file);
+    let entries;
+    try {
+      const text = await fs.readFile(filePath, 'utf8');
+      if (path.extname(filePath).toLowerCase() === '.csv') {
+        entries = parseStandardsCSV(text);
+      } else {
+        const data = JSON.parse(text);
+        entries = Array.isArray(data) ? data : data?.standards;
+      }
+    } catch (error) {
+      logger.error(`[loadStandards] Failed to load standards file "${file}"`, error);
+      continue;
+    }
+
+    if (!Array.isArray(entries)) {
+      logger.warn(`[loadStandards] Standards file "${file}" does not contain a list of standards`);
+      continue;
+    }
+
+    let invalid = 0;
+    for (const entry of entries) {
+      const result = tStandardSchema.safeParse(entry);
+      if (!result.success) {
+        invalid++;
+        continue;
+      }
+      if (!catalog.has(result.data.code)) {
+        catalog.set(result.data.code, result.data);
+      }
+    }
+
+    if (invalid > 0) {
+      logger.warn(`[loadStandards] Skipped ${invalid} invalid entries in "${file}"`);
+    }
+  }
+
+  if (!catalog.size) {
+    return undefined;
+  }
+
+  logger.info(`[loadStandards] Loaded ${catalog.size} curriculum standards`);
+  return Array.from(catalog.values());
+}
+
+/**
+ * Searches the standards catalog. Every search term must appear in the code or description;
+ * codes that start with the search text are ranked first.
+ * @param {TStandard[] | undefined} standards - The loaded catalog.
+ * @param {TStandardsQueryParams} [params] - The search parameters.
+ * @returns {TStandardsResponse} The matching standards and total match count.
+ */
+function searchStandards(standards, params = {}) {
+  if (!standards?.length) {
+    return { standards: [], total: 0 };
+  }
+
+  const search = (params.search ?? '').trim().toLowerCase();
+  const terms = search.split(/\s+/).filter(Boolean);
+  const equalsFilter = (value, filter) =>
+    !filter || (value ?? '').toLowerCase() === String(filter).trim().toLowerCase();
+
+  const matches = standards.filter((standard) => {
+    if (
+      !equalsFilter(standard.framework, params.framework) ||
+      !equalsFilter(standard.subject, params.subject) ||
+      !equalsFilter(standard.grade, params.grade)
+    ) {
+      return false;
+    }
+    const haystack = `${standard.code} ${standard.description}`.toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+
+  if (search) {
+    matches.sort(
+      (a, b) =>
+        Number(b.code.toLowerCase().startsWith(search)) -
+        Number(a.code.toLowerCase().startsWith(search)),
+    );
+  }
+
+  const limit = Math.min(Math.max(parseInt(params.limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  return { standards: matches.slice(0, limit), total: matches.length };
+}
+
+/**
+ * Sanitizes standard codes submitted with a chat request, keeping only codes from the catalog.
+ * @param {unknown} codes - The submitted codes.
+ * @param {TStandard[] | undefined} standards - The loaded catalog.
+ * @returns {string[] | undefined} The valid, unique codes, if any.
+ */
+function filterStandardCodes(codes, standards) {
+  if (!Array.isArray(codes) || !standards?.length) {
+    return undefined;
+  }
+
+  const known = new Set(standards.map((standard) => standard.code));
+  const valid = [...new Set(codes)].filter((code) => typeof code === 'string' && known.has(code));
+  return valid.length ? valid : undefined;
+}
+
+module.exports = {
+  loadStandards,
+  searchStandards,
+  parseStandardsCSV,
+  filterStandardCodes,
+};
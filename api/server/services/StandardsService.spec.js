@@ -0,0 +1,157 @@
+const fs = require('fs').promises;
+const { logger } = require('~/config');
+const {
+  loadStandards,
+  searchStandards,
+  parseStandardsCSV,
+  filterStandardCodes,
+} = require('./StandardsService');
+
+jest.mock('~/config', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const standardsCSV = `code,description,framework,subject,grade
+MS-LS1-6,"Construct a scientific explanation for the role of photosynthesis in the cycling of matter",NGSS,Science,6-8
+CCSS.MATH.CONTENT.7.RP.A.1,"Compute unit rates associated with ratios of fractions, including ratios of lengths",Common Core,Math,7
+,Missing code,NGSS,Science,6-8
+`;
+
+const standardsJSON = JSON.stringify({
+  standards: [
+    {
+      code: 'CCSS.ELA-LITERACY.RL.7.1',
+      description: 'Cite several pieces of textual evidence to support analysis of the text',
+      framework: 'Common Core',
+      subject: 'ELA',
+      grade: '7',
+    },
+    { code: 'MS-LS1-6', description: 'Duplicate code from another file' },
+  ],
+});
+
+const catalog = [
+  {
+    code: 'MS-LS1-6',
+    description: 'Construct a scientific explanation for the role of photosynthesis',
+    framework: 'NGSS',
+    grade: '6-8',
+  },
+  {
+    code: 'MS-LS2-3',
+    description: 'Develop a model to describe the cycling of matter among living things',
+    framework: 'NGSS',
+    grade: '6-8',
+  },
+  {
+    code: 'CCSS.MATH.CONTENT.7.RP.A.1',
+    description: 'Compute unit rates associated with ratios of fractions',
+    framework: 'Common Core',
+    grade: '7',
+  },
+];
+
+describe('parseStandardsCSV', () => {
+  it('maps rows to the header and handles quoted commas and quotes', () => {
+    const entries = parseStandardsCSV(
+      '\uFEFFCode,Description\r\nA.1,"Say ""hello"", then wave"\r\n\r\nA.2,Plain',
+    );
+    expect(entries).toEqual([
+      { code: 'A.1', description: 'Say "hello", then wave' },
+      { code: 'A.2', description: 'Plain' },
+    ]);
+  });
+
+  it('returns an empty list for empty input', () => {
+    expect(parseStandardsCSV('')).toEqual([]);
+  });
+});
+
+describe('loadStandards', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns undefined when no files are configured', async () => {
+    expect(await loadStandards(undefined)).toBeUndefined();
+    expect(await loadStandards({ files: [] })).toBeUndefined();
+  });
+
+  it('merges CSV and JSON files, skipping invalid and duplicate entries', async () => {
+    jest.spyOn(fs, 'readFile').mockImplementation(async (filePath) => {
+      if (filePath.endsWith('ngss.csv')) {
+        return standardsCSV;
+      }
+      return standardsJSON;
+    });
+
+    const standards = await loadStandards({ files: ['standards/ngss.csv', 'standards/ela.json'] });
+
+    expect(standards.map((standard) => standard.code)).toEqual([
+      'MS-LS1-6',
+      'CCSS.MATH.CONTENT.7.RP.A.1',
+      'CCSS.ELA-LITERACY.RL.7.1',
+    ]);
+    expect(standards[0]).toEqual({
+      code: 'MS-LS1-6',
+      description: 'Construct a scientific explanation for the role of photosynthesis in the cycling of matter',
+      framework: 'NGSS',
+      subject: 'Science',
+      grade: '6-8',
+    });
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[loadStandards] Skipped 1 invalid entries in "standards/ngss.csv"',
+    );
+  });
+
+  it('logs and skips files that cannot be read', async () => {
+    jest.spyOn(fs, 'readFile').mockRejectedValue(new Error('ENOENT'));
+
+    expect(await loadStandards({ files: ['missing.json'] })).toBeUndefined();
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
+
+describe('searchStandards', () => {
+  it('returns an empty result without a catalog', () => {
+    expect(searchStandards(undefined, { search: 'photosynthesis' })).toEqual({
+      standards: [],
+      total: 0,
+    });
+  });
+
+  it('matches every search term against codes and descriptions', () => {
+    const result = searchStandards(catalog, { search: 'cycling matter' });
+    expect(result.standards.map((standard) => standard.code)).toEqual(['MS-LS2-3']);
+    expect(result.total).toBe(1);
+  });
+
+  it('ranks code prefix matches first', () => {
+    const result = searchStandards(catalog, { search: 'ms-ls2' });
+    expect(result.standards[0].code).toBe('MS-LS2-3');
+  });
+
+  it('applies framework and grade filters and limits results', () => {
+    const result = searchStandards(catalog, { framework: 'ngss', grade: '6-8', limit: '1' });
+    expect(result.standards).toHaveLength(1);
+    expect(result.total).toBe(2);
+  });
+});
+
+describe('filterStandardCodes', () => {
+  it('keeps unique codes that exist in the catalog', () => {
+    expect(
+      filterStandardCodes(['MS-LS1-6', 'UNKNOWN', 'MS-LS1-6', 42, 'MS-LS2-3'], catalog),
+    ).toEqual(['MS-LS1-6', 'MS-LS2-3']);
+  });
+
+  it('returns undefined for invalid input or an empty catalog', () => {
+    expect(filterStandardCodes('MS-LS1-6', catalog)).toBeUndefined();
+    expect(filterStandardCodes(['MS-LS1-6'], undefined)).toBeUndefined();
+    expect(filterStandardCodes(['UNKNOWN'], catalog)).toBeUndefined();
+  });
+});
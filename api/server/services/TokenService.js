@@ -1,4 +1,5 @@
 const axios = require('axios');
+const { TokenExchangeMethodEnum } = require('librechat-data-provider');
 const { handleOAuthToken } = require('~/models/Token');
 const { decryptV2 } = require('~/server/utils/crypto');
 const { logAxiosError } = require('~/utils');
@@ -164,7 +165,75 @@ const getAccessToken = async ({
   }
 };
 
+/**
+ * Requests an access token with the client credentials grant, for service-to-service APIs,
+ * and stores it in the database.
+ * @param {object} fields
+ * @param {string} fields.userId - The ID of the user.
+ * @param {string} fields.identifier - The identifier for the token.
+ * @param {string} fields.client_url - The token URL of the OAuth provider.
+ * @param {string} [fields.scope] - The scope to request.
+ * @param {TokenExchangeMethodEnum} [fields.token_exchange_method] - How the client authenticates.
+ * @param {string} fields.encrypted_oauth_client_id - The client ID for the OAuth provider.
+ * @param {string} fields.encrypted_oauth_client_secret - The client secret for the OAuth provider.
+ * @returns {Promise<{
+ *  access_token: string,
+ *  expires_in: number,
+ * }>}
+ */
+const getClientCredentialsToken = async ({
+  userId,
+  identifier,
+  client_url,
+  scope,
+  token_exchange_method,
+  encrypted_oauth_client_id,
+  encrypted_oauth_client_secret,
+}) => {
+  try {
+    const oauth_client_id = await decryptV2(encrypted_oauth_client_id);
+    const oauth_client_secret = await decryptV2(encrypted_oauth_client_secret);
+    const params = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (scope) {
+      params.set('scope', scope);
+    }
+
+    const headers = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (token_exchange_method === TokenExchangeMethodEnum.BasicAuthHeader) {
+      const credentials = `${encodeURIComponent(oauth_client_id)}:${encodeURIComponent(oauth_client_secret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      params.set('client_id', oauth_client_id);
+      params.set('client_secret', oauth_client_secret);
+    }
+
+    const response = await axios({
+      method: 'POST',
+      url: client_url,
+      headers,
+      data: params.toString(),
+    });
+    await processAccessTokens(response.data, {
+      userId,
+      identifier,
+    });
+    logger.debug(`Client credentials token obtained for ${identifier}`);
+    return response.data;
+  } catch (error) {
+    const message = 'Error requesting client credentials token';
+    logAxiosError({
+      message,
+      error,
+    });
+    throw new Error(message);
+  }
+};
+
 module.exports = {
   getAccessToken,
   refreshAccessToken,
+  getClientCredentialsToken,
 };
@@ -0,0 +1,84 @@
+const axios = require('axios');
+const { TokenExchangeMethodEnum } = require('librechat-data-provider');
+const { getClientCredentialsToken } = require('./TokenService');
+const { handleOAuthToken } = require('~/models/Token');
+
+jest.mock('axios');
+jest.mock('~/models/Token', () => ({
+  handleOAuthToken: jest.fn(),
+}));
+jest.mock('~/server/utils/crypto', () => ({
+  decryptV2: jest.fn(async (value) => value.replace('encrypted:', '')),
+}));
+jest.mock('~/utils', () => ({
+  logAxiosError: jest.fn(),
+}));
+jest.mock('~/config', () => ({
+  logger: { debug: jest.fn(), error: jest.fn() },
+}));
+
+describe('getClientCredentialsToken', () => {
+  const fields = {
+    userId: 'user1',
+    identifier: 'user1:action1',
+    client_url: 'https://example.com/token',
+    scope: 'read write',
+    encrypted_oauth_client_id: 'encrypted:client id',
+    encrypted_oauth_client_secret: 'encrypted:secret',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    axios.mockResolvedValue({ data: { access_token: 'token', expires_in: 3600 } });
+  });
+
+  it('sends the client credentials in a Basic header for `basic_auth_header`', async () => {
+    await getClientCredentialsToken({
+      ...fields,
+      token_exchange_method: TokenExchangeMethodEnum.BasicAuthHeader,
+    });
+
+    const [{ headers, data }] = axios.mock.calls[0];
+    const credentials = Buffer.from('client%20id:secret').toString('base64');
+    expect(headers.Authorization).toBe(`Basic ${credentials}`);
+    expect(Object.fromEntries(new URLSearchParams(data))).toEqual({
+      grant_type: 'client_credentials',
+      scope: 'read write',
+    });
+  });
+
+  it('sends the client credentials in the body otherwise', async () => {
+    await getClientCredentialsToken({
+      ...fields,
+      token_exchange_method: TokenExchangeMethodEnum.DefaultPost,
+    });
+
+    const [{ url, headers, data }] = axios.mock.calls[0];
+    expect(url).toBe(fields.client_url);
+    expect(headers.Authorization).toBeUndefined();
+    expect(Object.fromEntries(new URLSearchParams(data))).toEqual({
+      grant_type: 'client_credentials',
+      scope: 'read write',
+      client_id: 'client id',
+      client_secret: 'secret',
+    });
+  });
+
+  it('stores the token and reports failed requests', async () => {
+    await expect(getClientCredentialsToken(fields)).resolves.toEqual({
+      access_token: 'token',
+      expires_in: 3600,
+    });
+    expect(handleOAuthToken).toHaveBeenCalledWith({
+      identifier: fields.identifier,
+      token: 'token',
+      expiresIn: 3600,
+      userId: fields.userId,
+    });
+
+    axios.mockRejectedValueOnce(new Error('Request failed with status code 401'));
+    await expect(getClientCredentialsToken(fields)).rejects.toThrow(
+      'Error requesting client credentials token',
+    );
+  });
+});
@@ -348,7 +348,11 @@ async function processRequiredActions(client, requiredActions) {
             `Invalid spec: user: ${client.req.user.id} | thread_id: ${requiredActions[0].thread_id} | run_id: ${requiredActions[0].run_id}`,
           );
         }
-        const { requestBuilders } = openapiToFunction(validationResult.spec);
+        const { requestBuilders } = openapiToFunction(
+          validationResult.spec,
+          false,
+          actionSet.metadata.server_url,
+        );
         ActionToolMap[actionSet.metadata.domain] = requestBuilders;
         builders = requestBuilders;
       }
@@ -451,6 +455,7 @@ async function loadAgentTools({ req, res, agent, tool_resources, openAIApiKey })
     tools: _agentTools,
     options: {
       req,
+      res,
       openAIApiKey,
       tool_resources,
       processFileURL,
@@ -539,6 +544,7 @@ async function loadAgentTools({ req, res, agent, tool_resources, openAIApiKey })
       const { requestBuilders, functionSignatures, zodSchemas } = openapiToFunction(
         validationResult.spec,
         true,
+        actionSet.metadata.server_url,
       );
       const functionName = toolName.replace(`${actionDelimiter}${currentDomain}`, '');
       const functionSig = functionSignatures.find((sig) => sig.name === functionName);
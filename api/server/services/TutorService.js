@@ -0,0 +1,198 @@
+const {
+  ContentTypes,
+  isAgentsEndpoint,
+  isTutorModeActive,
+  toProtectedAssignment,
+  tutorModerationRefusal,
+  buildTutorInstructions,
+} = require('librechat-data-provider');
+const { getProtectedAssignments } = require('~/models/Assignment');
+const { getUserClasses, isClassTeacher } = require('~/models/Class');
+const { isTextFlagged } = require('./ModerationService');
+const { createTutorAudit } = require('~/models/TutorAudit');
+const { logger } = require('~/config');
+
+/** Caps the questions added to the tutor instructions */
+const MAX_PROTECTED_ASSIGNMENTS = 10;
+
+/**
+ * Returns the tutor-mode configuration that applies to a chat request, if any.
+ * @param {ServerRequest} req
+ * @param {string | undefined} spec - The model spec of the conversation.
+ * @returns {TCustomConfig['tutorMode'] | null}
+ */
+function getTutorModeConfig(req, spec) {
+  const config = req.app.locals.tutorMode;
+  return isTutorModeActive(config, { role: req.user.role, spec }) ? config : null;
+}
+
+/**
+ * Retrieves the protected assignments of the classes a user attends.
+ * @param {string} userId
+ * @returns {Promise<MongoAssignment[]>}
+ */
+async function getStudentProtectedAssignments(userId) {
+  const classes = await getUserClasses(userId);
+  const classIds = classes
+    .filter((classDoc) => !isClassTeacher(classDoc, userId))
+    .map((classDoc) => classDoc._id);
+  return await getProtectedAssignments(classIds, MAX_PROTECTED_ASSIGNMENTS);
+}
+
+/**
+ * Prepends the tutor instructions to the conversation's instructions; for agents,
+ * to the instructions of the primary agent.
+ * @param {string} endpoint
+ * @param {Object} endpointOption - The built endpoint option of the request.
+ * @param {string} instructions
+ */
+function applyTutorInstructions(endpoint, endpointOption, instructions) {
+  const prepend = (existing) => [instructions, existing].filter(Boolean).join('\n\n');
+
+  if (isAgentsEndpoint(endpoint)) {
+    endpointOption.agent = Promise.resolve(endpointOption.agent).then(
+      (agent) => agent && { ...agent, instructions: prepend(agent.instructions) },
+    );
+    return;
+  }
+
+  endpointOption.promptPrefix = prepend(endpointOption.promptPrefix);
+}
+
+/**
+ * Prepares a chat request for tutor mode: builds the tutor instructions, including the
+ * questions of the student's protected assignments, and records the tutor context on `req.tutorMode`.
+ * @param {ServerRequest} req - The request, after its endpoint option was built.
+ * @param {TCustomConfig['tutorMode']} config
+ * @returns {Promise<void>}
+ */
+async function prepareTutorRequest(req, config) {
+  const { endpoint, endpointOption } = req.body;
+  const assignments = await getStudentProtectedAssignments(req.user.id);
+  const instructions = buildTutorInstructions({
+    instructions: config.instructions,
+    protectedAssignments: assignments.map((assignment) =>
+      toProtectedAssignment(assignment.title, assignment.quiz),
+    ),
+  });
+
+  req.tutorMode = {
+    config,
+    spec: endpointOption.spec,
+    promptPrefix: endpointOption.promptPrefix,
+    protectedAssignmentIds: assignments.map((assignment) => assignment._id),
+  };
+  applyTutorInstructions(endpoint, endpointOption, instructions);
+}
+
+/**
+ * Returns conversation save options without the tutor instructions, so they are
+ * neither shown to the user nor added again on the next request.
+ * @param {ServerRequest} req - The request, prepared by `prepareTutorRequest`.
+ * @param {Object} saveOptions - The client's conversation save options.
+ * @returns {Object}
+ */
+function getTutorSaveOptions(req, saveOptions) {
+  if (!saveOptions || !('promptPrefix' in saveOptions)) {
+    return saveOptions;
+  }
+  return { ...saveOptions, promptPrefix: req.tutorMode.promptPrefix };
+}
+
+/**
+ * Whether the response of a tutor-mode request is held back until it passes moderation,
+ * instead of streaming its text as it is generated.
+ * @param {ServerRequest | undefined} req
+ * @returns {boolean}
+ */
+function isTutorStreamHeld(req) {
+  return req?.tutorMode?.config.moderation === true;
+}
+
+/**
+ * Returns the text of a response message, including the text parts of its content.
+ * @param {TMessage} message
+ * @returns {string}
+ */
+const getResponseText = (message) => {
+  if (!Array.isArray(message.content)) {
+    return message.text ?? '';
+  }
+  return message.content
+    .filter((part) => part?.type === ContentTypes.TEXT)
+    .map((part) => (typeof part.text === 'string' ? part.text : (part.text?.value ?? '')))
+    .join('\n');
+};
+
+/**
+ * Records a tutor-mode exchange in the audit trail, logging failures.
+ * @param {ServerRequest} req
+ * @param {Partial<MongoTutorAudit>} entry
+ */
+function recordTutorExchange(req, entry) {
+  if (!req.tutorMode?.config.audit) {
+    return;
+  }
+  const { endpoint, model, endpointOption } = req.body;
+  createTutorAudit({
+    user: req.user.id,
+    endpoint,
+    model: model ?? endpointOption?.model_parameters?.model,
+    spec: req.tutorMode.spec,
+    protectedAssignmentIds: req.tutorMode.protectedAssignmentIds,
+    ...entry,
+  }).catch((error) => {
+    logger.error('[recordTutorExchange] Error recording tutor audit entry', error);
+  });
+}
+
+/**
+ * Moderates a tutor-mode response before it is saved, replacing flagged responses with a
+ * refusal, then records the exchange with the original response for review.
+ * Its text was not streamed (see `isTutorStreamHeld`), so users only receive the reviewed response.
+ * Moderation errors are treated as flagged.
+ * @param {Object} params
+ * @param {ServerRequest} params.req - The request, prepared by `prepareTutorRequest`.
+ * @param {TMessage} params.userMessage
+ * @param {TMessage} params.responseMessage - Updated in place when flagged.
+ * @returns {Promise<void>}
+ */
+async function reviewTutorResponse({ req, userMessage, responseMessage }) {
+  const { config } = req.tutorMode;
+  const responseText = getResponseText(responseMessage);
+
+  let outputFlagged = false;
+  if (config.moderation && responseText.trim().length > 0) {
+    try {
+      outputFlagged = await isTextFlagged(responseText);
+    } catch (error) {
+      logger.error('[reviewTutorResponse] Error moderating tutor response', error);
+      outputFlagged = true;
+    }
+  }
+
+  if (outputFlagged) {
+    responseMessage.text = tutorModerationRefusal;
+    if (Array.isArray(responseMessage.content)) {
+      responseMessage.content = [{ type: ContentTypes.TEXT, text: tutorModerationRefusal }];
+    }
+  }
+
+  recordTutorExchange(req, {
+    conversationId: responseMessage.conversationId,
+    messageId: userMessage.messageId,
+    responseMessageId: responseMessage.messageId,
+    text: userMessage.text,
+    responseText,
+    outputFlagged,
+  });
+}
+
+module.exports = {
+  getTutorModeConfig,
+  getTutorSaveOptions,
+  isTutorStreamHeld,
+  prepareTutorRequest,
+  recordTutorExchange,
+  reviewTutorResponse,
+};
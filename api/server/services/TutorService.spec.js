@@ -0,0 +1,183 @@
+const {
+  ContentTypes,
+  EModelEndpoint,
+  QuizQuestionTypes,
+  tutorModerationRefusal,
+  defaultTutorInstructions,
+} = require('librechat-data-provider');
+const { getProtectedAssignments } = require('~/models/Assignment');
+const { createTutorAudit } = require('~/models/TutorAudit');
+const { getUserClasses } = require('~/models/Class');
+const { isTextFlagged } = require('./ModerationService');
+const {
+  getTutorModeConfig,
+  getTutorSaveOptions,
+  prepareTutorRequest,
+  reviewTutorResponse,
+} = require('./TutorService');
+
+jest.mock('~/config', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('~/models/Assignment', () => ({
+  getProtectedAssignments: jest.fn(async () => []),
+}));
+
+jest.mock('~/models/Class', () => ({
+  getUserClasses: jest.fn(async () => []),
+  isClassTeacher: (classDoc, userId) => classDoc.teachers.includes(userId),
+}));
+
+jest.mock('~/models/TutorAudit', () => ({
+  createTutorAudit: jest.fn(async (data) => data),
+}));
+
+jest.mock('./ModerationService', () => ({
+  isTextFlagged: jest.fn(async () => false),
+}));
+
+const config = {
+  roles: ['STUDENT'],
+  modelSpecs: ['tutor'],
+  moderation: true,
+  audit: true,
+};
+
+const createReq = ({ endpoint = EModelEndpoint.openAI, endpointOption = {}, role } = {}) => ({
+  app: { locals: { tutorMode: config } },
+  user: { id: 'student1', role },
+  body: { endpoint, model: 'gpt-4o', endpointOption },
+});
+
+describe('TutorService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTutorModeConfig', () => {
+    it('applies to configured roles and model specs only', () => {
+      expect(getTutorModeConfig(createReq({ role: 'STUDENT' }))).toBe(config);
+      expect(getTutorModeConfig(createReq({ role: 'USER' }), 'tutor')).toBe(config);
+      expect(getTutorModeConfig(createReq({ role: 'USER' }), 'general')).toBeNull();
+    });
+  });
+
+  describe('prepareTutorRequest', () => {
+    it('prepends the instructions without persisting them to the conversation', async () => {
+      const req = createReq({ endpointOption: { promptPrefix: 'Answer in French.' } });
+      await prepareTutorRequest(req, config);
+
+      expect(req.body.endpointOption.promptPrefix).toBe(
+        `${defaultTutorInstructions}\n\nAnswer in French.`,
+      );
+      expect(getTutorSaveOptions(req, { model: 'gpt-4o', promptPrefix: 'x' })).toEqual({
+        model: 'gpt-4o',
+        promptPrefix: 'Answer in French.',
+      });
+      expect(getTutorSaveOptions(req, { model: 'gpt-4o' })).toEqual({ model: 'gpt-4o' });
+    });
+
+    it('lists the questions of protected assignments from attended classes only', async () => {
+      getUserClasses.mockResolvedValueOnce([
+        { _id: 'class1', teachers: ['teacher1'] },
+        { _id: 'class2', teachers: ['student1'] },
+      ]);
+      getProtectedAssignments.mockResolvedValueOnce([
+        {
+          _id: 'assignment1',
+          title: 'Fractions',
+          quiz: {
+            title: 'Fractions',
+            questions: [
+              { type: QuizQuestionTypes.SHORT_ANSWER, question: '1/2 + 1/4?', answer: '3/4' },
+            ],
+          },
+        },
+      ]);
+
+      const req = createReq({
+        endpoint: EModelEndpoint.agents,
+        endpointOption: { agent: Promise.resolve({ id: 'agent1', instructions: 'Be brief.' }) },
+      });
+      await prepareTutorRequest(req, config);
+
+      expect(getProtectedAssignments).toHaveBeenCalledWith(['class1'], expect.any(Number));
+      expect(req.tutorMode.protectedAssignmentIds).toEqual(['assignment1']);
+
+      const agent = await req.body.endpointOption.agent;
+      expect(agent.instructions).toContain('1. 1/2 + 1/4?');
+      expect(agent.instructions).not.toContain('3/4');
+      expect(agent.instructions.endsWith('Be brief.')).toBe(true);
+    });
+  });
+
+  describe('reviewTutorResponse', () => {
+    const userMessage = { messageId: 'm1', text: 'Help me' };
+
+    it('records the exchange of an unflagged response', async () => {
+      const req = createReq();
+      await prepareTutorRequest(req, config);
+      const responseMessage = { messageId: 'm2', conversationId: 'c1', text: 'What do you know?' };
+
+      await reviewTutorResponse({ req, userMessage, responseMessage });
+
+      expect(responseMessage.text).toBe('What do you know?');
+      expect(createTutorAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user: 'student1',
+          conversationId: 'c1',
+          messageId: 'm1',
+          responseMessageId: 'm2',
+          responseText: 'What do you know?',
+          outputFlagged: false,
+        }),
+      );
+    });
+
+    it('replaces flagged responses and keeps the original for the audit', async () => {
+      isTextFlagged.mockResolvedValueOnce(true);
+      const req = createReq();
+      await prepareTutorRequest(req, config);
+      const responseMessage = {
+        messageId: 'm2',
+        text: '',
+        content: [{ type: ContentTypes.TEXT, text: 'Unsafe text' }],
+      };
+
+      await reviewTutorResponse({ req, userMessage, responseMessage });
+
+      expect(responseMessage.text).toBe(tutorModerationRefusal);
+      expect(responseMessage.content).toEqual([
+        { type: ContentTypes.TEXT, text: tutorModerationRefusal },
+      ]);
+      expect(createTutorAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ responseText: 'Unsafe text', outputFlagged: true }),
+      );
+    });
+
+    it('treats moderation errors as flagged', async () => {
+      isTextFlagged.mockRejectedValueOnce(new Error('Network error'));
+      const req = createReq();
+      await prepareTutorRequest(req, config);
+      const responseMessage = { messageId: 'm2', text: 'Some answer' };
+
+      await reviewTutorResponse({ req, userMessage, responseMessage });
+
+      expect(responseMessage.text).toBe(tutorModerationRefusal);
+    });
+
+    it('does not record exchanges when the audit is disabled', async () => {
+      const req = createReq();
+      await prepareTutorRequest(req, { ...config, audit: false });
+
+      await reviewTutorResponse({ req, userMessage, responseMessage: { text: 'Hi' } });
+
+      expect(createTutorAudit).not.toHaveBeenCalled();
+    });
+  });
+});
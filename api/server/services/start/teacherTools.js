@@ -0,0 +1,76 @@
+const { EModelEndpoint } = require('librechat-data-provider');
+const { normalizeEndpointName } = require('~/server/utils');
+const { logger } = require('~/config');
+
+/**
+ * Sets up Teacher Tools from the config (`librechat.yaml`) file.
+ * Tools whose target references an unknown endpoint or model spec are skipped.
+ * @param {TCustomConfig['endpoints']} [endpoints] - The loaded custom configuration for endpoints.
+ * @param {TCustomConfig['modelSpecs'] | undefined} [modelSpecs] - The processed model specs, if any.
+ * @param {TCustomConfig['teacherTools'] | undefined} [_teacherTools] - The loaded custom configuration for teacher tools.
+ * @returns {TCustomConfig['teacherTools'] | undefined} The processed teacher tools, if any.
+ */
+function processTeacherTools(endpoints, modelSpecs, _teacherTools) {
+  if (!_teacherTools) {
+    return undefined;
+  }
+
+  /** @type {TCustomConfig['teacherTools']['list']} */
+  const teacherTools = [];
+  const customEndpoints = endpoints?.[EModelEndpoint.custom] ?? [];
+  const specNames = new Set((modelSpecs?.list ?? []).map((spec) => spec.name));
+
+  for (const tool of _teacherTools.list) {
+    const { target } = tool;
+
+    if (target.modelSpec != null) {
+      if (!specNames.has(target.modelSpec)) {
+        logger.warn(
+          `Teacher tool "${tool.id}" was skipped: Model spec "${target.modelSpec}" not found in \`modelSpecs.list\`.`,
+        );
+        continue;
+      }
+      teacherTools.push(tool);
+      continue;
+    }
+
+    if (target.agent_id != null) {
+      teacherTools.push({
+        ...tool,
+        target: { ...target, endpoint: EModelEndpoint.agents },
+      });
+      continue;
+    }
+
+    if (EModelEndpoint[target.endpoint] && target.endpoint !== EModelEndpoint.custom) {
+      teacherTools.push(tool);
+      continue;
+    }
+
+    const normalizedName = normalizeEndpointName(target.endpoint);
+    const endpoint = customEndpoints.find(
+      (customEndpoint) => normalizedName === normalizeEndpointName(customEndpoint.name),
+    );
+
+    if (!endpoint) {
+      logger.warn(
+        `Teacher tool "${tool.id}" was skipped: Endpoint "${target.endpoint}" not found in configuration. The \`endpoint\` value must exactly match either a system-defined endpoint or a custom endpoint defined by the user.`,
+      );
+      continue;
+    }
+
+    teacherTools.push({
+      ...tool,
+      target: { ...target, endpoint: normalizedName },
+    });
+  }
+
+  if (!teacherTools.length) {
+    return undefined;
+  }
+
+  /** The standards catalog is served from `/api/standards`, so its file paths are not exposed */
+  return { list: teacherTools };
+}
+
+module.exports = { processTeacherTools };
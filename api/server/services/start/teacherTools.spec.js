@@ -0,0 +1,145 @@
+const {
+  EModelEndpoint,
+  TeacherToolFieldTypes,
+  teacherToolsConfigSchema,
+  TeacherToolResponseFormats,
+} = require('librechat-data-provider');
+const { processTeacherTools } = require('./teacherTools');
+const { logger } = require('~/config');
+
+jest.mock('~/config', () => ({
+  logger: { warn: jest.fn() },
+}));
+jest.mock('~/server/utils', () => ({
+  normalizeEndpointName: jest.requireActual('~/server/utils/handleText').normalizeEndpointName,
+}));
+
+/** Parses teacher tools the way `loadCustomConfig` does, applying the schema defaults */
+const parseTools = (list) => teacherToolsConfigSchema.parse({ list });
+
+const createTool = (id, target) => ({
+  id,
+  title: `Tool ${id}`,
+  fields: [{ name: 'topic', label: 'Topic' }],
+  promptTemplate: 'Write about {{topic}}',
+  target,
+});
+
+describe('processTeacherTools', () => {
+  const endpoints = {
+    [EModelEndpoint.custom]: [{ name: 'ollama' }, { name: 'Mistral' }],
+  };
+  const modelSpecs = { list: [{ name: 'lesson-planner' }] };
+
+  it('returns undefined when no teacher tools are configured', () => {
+    expect(processTeacherTools(endpoints, modelSpecs, undefined)).toBeUndefined();
+  });
+
+  it('keeps tools with the schema defaults for fields and response formats', () => {
+    const teacherTools = parseTools([
+      createTool('quiz', { endpoint: EModelEndpoint.openAI, model: 'gpt-4o' }),
+    ]);
+
+    const result = processTeacherTools(endpoints, modelSpecs, teacherTools);
+
+    expect(result.list).toHaveLength(1);
+    expect(result.list[0]).toMatchObject({
+      id: 'quiz',
+      responseFormat: TeacherToolResponseFormats.MARKDOWN,
+      fields: [{ name: 'topic', type: TeacherToolFieldTypes.TEXT, required: false }],
+      target: { endpoint: EModelEndpoint.openAI, model: 'gpt-4o' },
+    });
+  });
+
+  it('keeps configured values over the schema defaults', () => {
+    const teacherTools = parseTools([
+      {
+        ...createTool('rubric', { modelSpec: 'lesson-planner' }),
+        fields: [
+          {
+            name: 'level',
+            label: 'Level',
+            type: TeacherToolFieldTypes.SELECT,
+            required: true,
+            options: [{ label: 'Grade 5', value: '5' }],
+          },
+        ],
+        responseFormat: TeacherToolResponseFormats.RUBRIC,
+      },
+    ]);
+
+    const [tool] = processTeacherTools(endpoints, modelSpecs, teacherTools).list;
+
+    expect(tool.responseFormat).toBe(TeacherToolResponseFormats.RUBRIC);
+    expect(tool.fields[0]).toMatchObject({ type: TeacherToolFieldTypes.SELECT, required: true });
+    expect(tool.target).toEqual({ modelSpec: 'lesson-planner' });
+  });
+
+  it('resolves agent and custom endpoint targets', () => {
+    const teacherTools = parseTools([
+      createTool('agent', { agent_id: 'agent_123' }),
+      createTool('ollama', { endpoint: 'Ollama', model: 'llama3' }),
+      createTool('mistral', { endpoint: 'Mistral', model: 'mistral-large' }),
+    ]);
+
+    const result = processTeacherTools(endpoints, modelSpecs, teacherTools);
+
+    expect(result.list.map(({ target }) => target)).toEqual([
+      { agent_id: 'agent_123', endpoint: EModelEndpoint.agents },
+      { endpoint: 'ollama', model: 'llama3' },
+      { endpoint: 'Mistral', model: 'mistral-large' },
+    ]);
+  });
+
+  it('skips tools targeting unknown model specs or endpoints', () => {
+    const teacherTools = parseTools([
+      createTool('valid', { endpoint: EModelEndpoint.anthropic, model: 'claude' }),
+      createTool('missing-spec', { modelSpec: 'unknown-spec' }),
+      createTool('missing-endpoint', { endpoint: 'unknown', model: 'model' }),
+    ]);
+
+    const result = processTeacherTools(endpoints, modelSpecs, teacherTools);
+
+    expect(result.list.map(({ id }) => id)).toEqual(['valid']);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('"missing-spec"'));
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('"missing-endpoint"'));
+  });
+
+  it('returns undefined when every tool is skipped', () => {
+    const teacherTools = parseTools([createTool('missing-spec', { modelSpec: 'unknown-spec' })]);
+
+    expect(processTeacherTools(endpoints, undefined, teacherTools)).toBeUndefined();
+  });
+
+  it.each([
+    ['a target without a model', [createTool('tool', { endpoint: EModelEndpoint.openAI })]],
+    [
+      'duplicate tool ids',
+      [createTool('tool', { agent_id: 'a' }), createTool('tool', { agent_id: 'b' })],
+    ],
+    [
+      'a select field without options',
+      [
+        {
+          ...createTool('tool', { agent_id: 'a' }),
+          fields: [{ name: 'level', label: 'Level', type: TeacherToolFieldTypes.SELECT }],
+        },
+      ],
+    ],
+    [
+      'duplicate field names',
+      [
+        {
+          ...createTool('tool', { agent_id: 'a' }),
+          fields: [
+            { name: 'topic', label: 'Topic' },
+            { name: 'topic', label: 'Other topic' },
+          ],
+        },
+      ],
+    ],
+  ])('rejects configs with %s', (_, list) => {
+    expect(teacherToolsConfigSchema.safeParse({ list }).success).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+const { SystemRoles } = require('librechat-data-provider');
+const { logger } = require('~/config');
+
+/**
+ * Sets up tutor mode from the config (`librechat.yaml`) file.
+ * Unknown roles and model specs are skipped.
+ * @param {TCustomConfig['modelSpecs'] | undefined} [modelSpecs] - The processed model specs, if any.
+ * @param {TCustomConfig['tutorMode'] | undefined} [_tutorMode] - The loaded custom configuration for tutor mode.
+ * @returns {TCustomConfig['tutorMode'] | undefined} The processed tutor mode configuration, if any.
+ */
+function processTutorMode(modelSpecs, _tutorMode) {
+  if (!_tutorMode) {
+    return undefined;
+  }
+
+  const systemRoles = new Set(Object.values(SystemRoles));
+  const roles = _tutorMode.roles.filter((role) => {
+    if (systemRoles.has(role)) {
+      return true;
+    }
+    logger.warn(`Tutor mode role "${role}" was skipped: Role not found.`);
+    return false;
+  });
+
+  const specNames = new Set((modelSpecs?.list ?? []).map((spec) => spec.name));
+  const specs = _tutorMode.modelSpecs.filter((spec) => {
+    if (specNames.has(spec)) {
+      return true;
+    }
+    logger.warn(
+      `Tutor mode model spec "${spec}" was skipped: Model spec not found in \`modelSpecs.list\`.`,
+    );
+    return false;
+  });
+
+  if (!roles.length && !specs.length) {
+    logger.warn('Tutor mode was disabled: No valid `roles` or `modelSpecs` configured.');
+    return undefined;
+  }
+
+  if (specs.length && !modelSpecs?.enforce) {
+    logger.warn(
+      'Tutor mode model specs are only enforced when `modelSpecs.enforce` is `true`; users can otherwise chat without a model spec. Use `tutorMode.roles` to enforce tutor mode by role.',
+    );
+  }
+
+  if (_tutorMode.moderation && !process.env.OPENAI_MODERATION_API_KEY) {
+    logger.warn(
+      'Tutor mode moderation requires `OPENAI_MODERATION_API_KEY`; tutor-mode messages will be rejected until it is set.',
+    );
+  }
+
+  return { ..._tutorMode, roles, modelSpecs: specs };
+}
+
+module.exports = { processTutorMode };
@@ -650,6 +650,216 @@
  * @memberof typedefs
  */
 
+/**
+ * @exports TStandard
+ * @typedef {import('librechat-data-provider').TStandard} TStandard
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TStandardsQueryParams
+ * @typedef {import('librechat-data-provider').TStandardsQueryParams} TStandardsQueryParams
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TStandardsResponse
+ * @typedef {import('librechat-data-provider').TStandardsResponse} TStandardsResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TClass
+ * @typedef {import('librechat-data-provider').TClass} TClass
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TClassMember
+ * @typedef {import('librechat-data-provider').TClassMember} TClassMember
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TClassListResponse
+ * @typedef {import('librechat-data-provider').TClassListResponse} TClassListResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TCreateClassRequest
+ * @typedef {import('librechat-data-provider').TCreateClassRequest} TCreateClassRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TUpdateClassRequest
+ * @typedef {import('librechat-data-provider').TUpdateClassRequest} TUpdateClassRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TJoinClassRequest
+ * @typedef {import('librechat-data-provider').TJoinClassRequest} TJoinClassRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TUpdateClassSharesRequest
+ * @typedef {import('librechat-data-provider').TUpdateClassSharesRequest} TUpdateClassSharesRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TDeleteClassResponse
+ * @typedef {import('librechat-data-provider').TDeleteClassResponse} TDeleteClassResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TQuiz
+ * @typedef {import('librechat-data-provider').TQuiz} TQuiz
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TQuizResponse
+ * @typedef {import('librechat-data-provider').TQuizResponse} TQuizResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TQuestionResult
+ * @typedef {import('librechat-data-provider').TQuestionResult} TQuestionResult
+ * @memberof typedefs
+ */
+
+/**
+ * @exports SubmissionStatus
+ * @typedef {import('librechat-data-provider').SubmissionStatus} SubmissionStatus
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TAssignment
+ * @typedef {import('librechat-data-provider').TAssignment} TAssignment
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TAssignmentSubmission
+ * @typedef {import('librechat-data-provider').TAssignmentSubmission} TAssignmentSubmission
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TAssignmentListParams
+ * @typedef {import('librechat-data-provider').TAssignmentListParams} TAssignmentListParams
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TAssignmentListResponse
+ * @typedef {import('librechat-data-provider').TAssignmentListResponse} TAssignmentListResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TCreateAssignmentRequest
+ * @typedef {import('librechat-data-provider').TCreateAssignmentRequest} TCreateAssignmentRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TAssignmentResultsResponse
+ * @typedef {import('librechat-data-provider').TAssignmentResultsResponse} TAssignmentResultsResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TSubmissionGrade
+ * @typedef {import('librechat-data-provider').TSubmissionGrade} TSubmissionGrade
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TDeleteAssignmentResponse
+ * @typedef {import('librechat-data-provider').TDeleteAssignmentResponse} TDeleteAssignmentResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TUpdateAssignmentRequest
+ * @typedef {import('librechat-data-provider').TUpdateAssignmentRequest} TUpdateAssignmentRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TTutorAuditEntry
+ * @typedef {import('librechat-data-provider').TTutorAuditEntry} TTutorAuditEntry
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TTutorAuditResponse
+ * @typedef {import('librechat-data-provider').TTutorAuditResponse} TTutorAuditResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TMCPResource
+ * @typedef {import('librechat-data-provider').TMCPResource} TMCPResource
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TReadMCPResourceRequest
+ * @typedef {import('librechat-data-provider').TReadMCPResourceRequest} TReadMCPResourceRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TMCPResourceContents
+ * @typedef {import('librechat-data-provider').TMCPResourceContents} TMCPResourceContents
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TMCPPrompt
+ * @typedef {import('librechat-data-provider').TMCPPrompt} TMCPPrompt
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TGetMCPPromptRequest
+ * @typedef {import('librechat-data-provider').TGetMCPPromptRequest} TGetMCPPromptRequest
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TGetMCPPromptResponse
+ * @typedef {import('librechat-data-provider').TGetMCPPromptResponse} TGetMCPPromptResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TMCPServerStatus
+ * @typedef {import('librechat-data-provider').TMCPServerStatus} TMCPServerStatus
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TMCPReloadResponse
+ * @typedef {import('librechat-data-provider').TMCPReloadResponse} TMCPReloadResponse
+ * @memberof typedefs
+ */
+
+/**
+ * @exports TMCPToolApprovalResponse
+ * @typedef {import('librechat-data-provider').TMCPToolApprovalResponse} TMCPToolApprovalResponse
+ * @memberof typedefs
+ */
+
 /**
  * @exports TPlugin
  * @typedef {import('librechat-data-provider').TPlugin} TPlugin
@@ -835,6 +1045,12 @@
  * @memberof typedefs
  */
 
+/**
+ * @exports TActionResponseAttachment
+ * @typedef {import('librechat-data-provider').TActionResponseAttachment} TActionResponseAttachment
+ * @memberof typedefs
+ */
+
 /**
  * @exports AssistantCreateParams
  * @typedef {import('librechat-data-provider').AssistantCreateParams} AssistantCreateParams
@@ -997,6 +1213,12 @@
  * @memberof typedefs
  */
 
+/**
+ * @exports MCPAttachment
+ * @typedef {import('librechat-mcp').MCPAttachment} MCPAttachment
+ * @memberof typedefs
+ */
+
 /**
  * Represents details of the message creation by the run step, including the ID of the created message.
  *
@@ -283,6 +283,14 @@ export type TGenButtonProps = {
   onClick: TOnClick;
 };
 
+export type TPendingTeacherTool = {
+  toolId: string;
+  endpoint: string;
+  text: string;
+  /** Curriculum standard codes to store on the resulting conversation */
+  standards?: string[];
+};
+
 export type TAskProps = {
   text: string;
   overrideConvoId?: string;
@@ -291,6 +299,7 @@ export type TAskProps = {
   conversationId?: string | null;
   messageId?: string | null;
   clientTimestamp?: string;
+  standards?: string[];
 };
 
 export type TOptions = {
@@ -460,6 +469,9 @@ export type MentionOption = OptionWithIcon & {
 export type PromptOption = MentionOption & {
   id: string;
 };
+export type MCPResourceOption = MentionOption & {
+  resource: t.TMCPResource;
+};
 
 export type TOptionSettings = {
   showExamples?: boolean;
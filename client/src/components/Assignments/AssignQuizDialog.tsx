@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import { QuizQuestionTypes } from 'librechat-data-provider';
+import type { TQuiz } from 'librechat-data-provider';
+import {
+  useGetClassesQuery,
+  useGetStartupConfig,
+  useListAgentsQuery,
+  useCreateAssignmentMutation,
+} from '~/data-provider';
+import { Button, Checkbox, Input, Label, OGDialog, OGDialogTrigger } from '~/components/ui';
+import { useChatContext, useMessageContext, useToastContext } from '~/Providers';
+import OGDialogTemplate from '~/components/ui/OGDialogTemplate';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+type AssignQuizDialogProps = {
+  quiz: TQuiz;
+};
+
+const inputClassName =
+  'bg-surface-secondary text-text-primary border-border-medium focus:border-border-heavy';
+
+const selectClassName = cn('w-full rounded-md border px-2 py-2 text-sm', inputClassName);
+
+/** Formats a date for a `datetime-local` input, in local time */
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export default function AssignQuizDialog({ quiz }: AssignQuizDialogProps) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { messageId } = useMessageContext();
+  const { conversation } = useChatContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [classId, setClassId] = useState('');
+  const [title, setTitle] = useState(quiz.title);
+  const [dueAt, setDueAt] = useState('');
+  const [graderAgentId, setGraderAgentId] = useState('');
+  const [protectSolutions, setProtectSolutions] = useState(false);
+  const { data: startupConfig } = useGetStartupConfig();
+
+  const hasShortAnswers = quiz.questions.some(
+    (question) => question.type === QuizQuestionTypes.SHORT_ANSWER,
+  );
+
+  const { data: classes = [] } = useGetClassesQuery({ enabled: isOpen });
+  const teacherClasses = useMemo(() => classes.filter((item) => item.isTeacher), [classes]);
+  const { data: agents = [] } = useListAgentsQuery(undefined, {
+    select: (res) => res.data,
+    enabled: isOpen && hasShortAnswers,
+  });
+
+  const createMutation = useCreateAssignmentMutation({
+    onSuccess: () => {
+      showToast({ status: 'success', message: localize('com_ui_assignment_created') });
+    },
+    onError: () => {
+      showToast({ status: 'error', message: localize('com_ui_assignment_create_error') });
+    },
+  });
+
+  const conversationId = conversation?.conversationId ?? '';
+  const isValid =
+    classId.length > 0 &&
+    dueAt.length > 0 &&
+    new Date(dueAt).getTime() > Date.now() &&
+    conversationId.length > 0 &&
+    !!messageId;
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setTitle(quiz.title);
+      setDueAt(toLocalInputValue(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)));
+    }
+  };
+
+  const handleAssign = () => {
+    if (!isValid) {
+      return;
+    }
+    createMutation.mutate({
+      classId,
+      conversationId,
+      messageId,
+      dueAt: new Date(dueAt).toISOString(),
+      title: title.trim() || undefined,
+      graderAgentId: graderAgentId || undefined,
+      protectSolutions: startupConfig?.tutorMode != null ? protectSolutions : undefined,
+    });
+  };
+
+  return (
+    <OGDialog open={isOpen} onOpenChange={handleOpenChange}>
+      <OGDialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-1">
+          <ClipboardCheck className="h-4 w-4" />
+          {localize('com_ui_assignment_assign')}
+        </Button>
+      </OGDialogTrigger>
+      <OGDialogTemplate
+        title={localize('com_ui_assignment_assign_quiz')}
+        className="max-w-[500px]"
+        main={
+          <div className="space-y-4">
+            {!teacherClasses.length && (
+              <p className="text-sm text-text-secondary">
+                {localize('com_ui_assignment_no_classes')}
+              </p>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="assignment-class" className="text-sm text-text-primary">
+                {localize('com_ui_class')}
+              </Label>
+              <select
+                id="assignment-class"
+                value={classId}
+                onChange={(e) => setClassId(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="" disabled>
+                  {localize('com_ui_select')}
+                </option>
+                {teacherClasses.map((item) => (
+                  <option key={item._id} value={item._id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="assignment-title" className="text-sm text-text-primary">
+                {localize('com_ui_title')}
+              </Label>
+              <Input
+                id="assignment-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="assignment-due" className="text-sm text-text-primary">
+                {localize('com_ui_assignment_due_date')}
+              </Label>
+              <Input
+                id="assignment-due"
+                type="datetime-local"
+                value={dueAt}
+                min={toLocalInputValue(new Date())}
+                onChange={(e) => setDueAt(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            {hasShortAnswers && (
+              <div className="space-y-1">
+                <Label htmlFor="assignment-grader" className="text-sm text-text-primary">
+                  {localize('com_ui_assignment_grader_agent')}
+                </Label>
+                <select
+                  id="assignment-grader"
+                  value={graderAgentId}
+                  onChange={(e) => setGraderAgentId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">{localize('com_ui_assignment_grade_manually')}</option>
+                  {agents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>
+                      {agent.name ?? agent.id}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-text-secondary">
+                  {localize('com_ui_assignment_grader_agent_info')}
+                </p>
+              </div>
+            )}
+            {startupConfig?.tutorMode != null && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="assignment-protect-solutions"
+                    checked={protectSolutions}
+                    onCheckedChange={(checked) => setProtectSolutions(checked === true)}
+                  />
+                  <Label
+                    htmlFor="assignment-protect-solutions"
+                    className="text-sm text-text-primary"
+                  >
+                    {localize('com_ui_assignment_protect_solutions')}
+                  </Label>
+                </div>
+                <p className="text-xs text-text-secondary">
+                  {localize('com_ui_assignment_protect_solutions_info')}
+                </p>
+              </div>
+            )}
+          </div>
+        }
+        selection={{
+          selectHandler: handleAssign,
+          selectClasses: cn(
+            'bg-green-500 hover:bg-green-600 text-white',
+            !isValid && 'pointer-events-none opacity-50',
+          ),
+          selectText: localize('com_ui_assignment_assign'),
+          isLoading: createMutation.isLoading,
+        }}
+      />
+    </OGDialog>
+  );
+}
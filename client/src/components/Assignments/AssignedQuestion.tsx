@@ -0,0 +1,163 @@
+import { memo } from 'react';
+import { QuizQuestionTypes, QuestionResultStatus } from 'librechat-data-provider';
+import type {
+  TQuizResponse,
+  TQuestionResult,
+  TAssignedQuizQuestion,
+} from 'librechat-data-provider';
+import { Textarea } from '~/components/ui';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+type AssignedQuestionProps = {
+  index: number;
+  question: TAssignedQuizQuestion;
+  response?: TQuizResponse;
+  /** Omit to render the response read-only */
+  onChange?: (response: TQuizResponse) => void;
+  result?: TQuestionResult;
+};
+
+const optionLabel = (idx: number) => String.fromCharCode(65 + idx);
+
+const inputClassName =
+  'bg-surface-secondary text-text-primary border-border-medium focus:border-border-heavy';
+
+const choiceClassName = (isSelected: boolean) =>
+  cn(
+    'flex w-full items-start gap-2 rounded-lg border px-3 py-2 text-left text-sm transition-colors',
+    'border-border-medium text-text-primary enabled:hover:bg-surface-hover disabled:cursor-default',
+    isSelected && 'border-border-heavy bg-surface-tertiary font-medium',
+  );
+
+const resultClassName: Record<QuestionResultStatus, string> = {
+  [QuestionResultStatus.CORRECT]: 'text-green-600',
+  [QuestionResultStatus.PARTIAL]: 'text-yellow-600',
+  [QuestionResultStatus.INCORRECT]: 'text-red-500',
+  [QuestionResultStatus.PENDING]: 'text-text-secondary',
+};
+
+const AssignedQuestion = memo(
+  ({ index, question, response, onChange, result }: AssignedQuestionProps) => {
+    const localize = useLocalize();
+    const readOnly = onChange == null;
+    const resultLabel =
+      result?.status === QuestionResultStatus.PENDING
+        ? localize('com_ui_assignment_pending')
+        : localize('com_ui_assignment_points_var', { 0: result?.points, 1: result?.maxPoints });
+
+    const renderInput = () => {
+      switch (question.type) {
+        case QuizQuestionTypes.MULTIPLE_CHOICE:
+          return (
+            <div className="space-y-2">
+              {question.options.map((option, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  disabled={readOnly}
+                  aria-pressed={response === idx}
+                  onClick={() => onChange?.(idx)}
+                  className={choiceClassName(response === idx)}
+                >
+                  <span className="font-semibold">{optionLabel(idx)}.</span>
+                  <span>{option}</span>
+                </button>
+              ))}
+            </div>
+          );
+        case QuizQuestionTypes.TRUE_FALSE:
+          return (
+            <div className="grid grid-cols-2 gap-2">
+              {[true, false].map((value) => (
+                <button
+                  key={String(value)}
+                  type="button"
+                  disabled={readOnly}
+                  aria-pressed={response === value}
+                  onClick={() => onChange?.(value)}
+                  className={choiceClassName(response === value)}
+                >
+                  {value ? localize('com_ui_quiz_true') : localize('com_ui_quiz_false')}
+                </button>
+              ))}
+            </div>
+          );
+        case QuizQuestionTypes.SHORT_ANSWER:
+          return (
+            <Textarea
+              value={typeof response === 'string' ? response : ''}
+              readOnly={readOnly}
+              placeholder={localize('com_ui_quiz_your_answer')}
+              aria-label={localize('com_ui_quiz_your_answer')}
+              onChange={(e) => onChange?.(e.target.value)}
+              className={cn(inputClassName, 'min-h-[80px]')}
+            />
+          );
+        case QuizQuestionTypes.MATCHING: {
+          const matches = Array.isArray(response) ? response : [];
+          return (
+            <div className="space-y-2">
+              {question.prompts.map((prompt, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-sm text-text-primary">
+                  <span className="w-1/2">{prompt}</span>
+                  <select
+                    value={matches[idx] ?? ''}
+                    disabled={readOnly}
+                    aria-label={prompt}
+                    onChange={(e) => {
+                      const next = question.prompts.map((_, i) => matches[i] ?? '');
+                      next[idx] = e.target.value;
+                      onChange?.(next);
+                    }}
+                    className={cn('w-1/2 rounded-md border px-2 py-1', inputClassName)}
+                  >
+                    <option value="" disabled>
+                      {localize('com_ui_select')}
+                    </option>
+                    {question.choices.map((choice) => (
+                      <option key={choice} value={choice}>
+                        {choice}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          );
+        }
+        default:
+          return null;
+      }
+    };
+
+    return (
+      <div className="space-y-3 rounded-xl border border-border-medium bg-surface-primary p-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="text-xs font-medium uppercase text-text-secondary">
+              {localize('com_ui_quiz_question_var', { 0: index + 1 })}
+            </div>
+            <div className="mt-1 text-sm font-medium text-text-primary">{question.question}</div>
+          </div>
+          {result != null && (
+            <div className={cn('shrink-0 text-sm font-medium', resultClassName[result.status])}>
+              {resultLabel}
+            </div>
+          )}
+        </div>
+
+        {renderInput()}
+
+        {result?.feedback != null && result.feedback.length > 0 && (
+          <div className="rounded-lg bg-surface-secondary p-3 text-sm text-text-primary">
+            <span className="font-semibold">{localize('com_ui_assignment_feedback')}: </span>
+            {result.feedback}
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+
+export default AssignedQuestion;
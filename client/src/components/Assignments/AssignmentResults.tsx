@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Trash2 } from 'lucide-react';
+import { SubmissionStatus } from 'librechat-data-provider';
+import type { TAssignment } from 'librechat-data-provider';
+import {
+  Button,
+  Label,
+  Table,
+  Switch,
+  TableRow,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  OGDialog,
+  OGDialogTrigger,
+} from '~/components/ui';
+import {
+  useGetStartupConfig,
+  useDeleteAssignmentMutation,
+  useUpdateAssignmentMutation,
+  useGetAssignmentResultsQuery,
+} from '~/data-provider';
+import { formatScore, summarizeAssignment, cn } from '~/utils';
+import OGDialogTemplate from '~/components/ui/OGDialogTemplate';
+import { useToastContext } from '~/Providers';
+import SubmissionGrader from './SubmissionGrader';
+import { useLocalize } from '~/hooks';
+import { Spinner } from '~/components/svg';
+
+type AssignmentResultsProps = {
+  assignment: TAssignment;
+};
+
+const formatPercent = (value: number | null) => (value == null ? '—' : `${value}%`);
+
+export default function AssignmentResults({ assignment }: AssignmentResultsProps) {
+  const localize = useLocalize();
+  const navigate = useNavigate();
+  const { showToast } = useToastContext();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: startupConfig } = useGetStartupConfig();
+  const { data, isLoading } = useGetAssignmentResultsQuery(assignment._id);
+
+  const updateMutation = useUpdateAssignmentMutation({
+    onError: () => {
+      showToast({ status: 'error', message: localize('com_ui_assignment_update_error') });
+    },
+  });
+
+  const deleteMutation = useDeleteAssignmentMutation({
+    onSuccess: () => {
+      showToast({ status: 'success', message: localize('com_ui_assignment_deleted') });
+      navigate('/c/new');
+    },
+    onError: () => {
+      showToast({ status: 'error', message: localize('com_ui_assignment_delete_error') });
+    },
+  });
+
+  const submissions = useMemo(() => data?.submissions ?? [], [data]);
+  const summary = useMemo(
+    () => summarizeAssignment(submissions, assignment.questionCount),
+    [submissions, assignment.questionCount],
+  );
+  const submissionsByUser = useMemo(
+    () => new Map(submissions.map((submission) => [submission.user.id, submission])),
+    [submissions],
+  );
+  const rows = useMemo(() => {
+    const students = data?.students ?? [];
+    const studentIds = new Set(students.map((student) => student.id));
+    const formerStudents = submissions
+      .map((submission) => submission.user)
+      .filter((user) => !studentIds.has(user.id));
+    return [...students, ...formerStudents];
+  }, [data, submissions]);
+
+  const quiz = data?.assignment.quiz;
+  const selected = submissions.find((submission) => submission._id === selectedId);
+
+  if (isLoading) {
+    return <Spinner className="m-4 mx-auto h-6 w-6 text-text-primary" />;
+  }
+
+  if (!data || !quiz) {
+    return (
+      <div className="text-sm text-text-secondary">
+        {localize('com_ui_assignment_results_error')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        {[
+          {
+            label: localize('com_ui_assignment_submitted_count'),
+            value: `${summary.submittedCount} / ${data.students.length}`,
+          },
+          {
+            label: localize('com_ui_assignment_average_score'),
+            value: formatPercent(summary.averagePercent),
+          },
+          {
+            label: localize('com_ui_assignment_awaiting_grading'),
+            value: summary.pendingCount,
+          },
+        ].map((stat) => (
+          <div key={stat.label} className="rounded-xl border border-border-medium p-4">
+            <div className="text-xs uppercase text-text-secondary">{stat.label}</div>
+            <div className="mt-1 text-2xl font-semibold text-text-primary">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-base font-semibold text-text-primary">
+          {localize('com_ui_assignment_questions')}
+        </h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{localize('com_ui_assignment_question')}</TableHead>
+              <TableHead>{localize('com_ui_assignment_average_score')}</TableHead>
+              <TableHead>{localize('com_ui_assignment_awaiting_grading')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.questions.map((question) => (
+              <TableRow key={question.index}>
+                <TableCell className="max-w-md truncate">
+                  {question.index + 1}. {quiz.questions[question.index]?.question}
+                </TableCell>
+                <TableCell>{formatPercent(question.averagePercent)}</TableCell>
+                <TableCell>{question.pendingCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-base font-semibold text-text-primary">
+          {localize('com_ui_assignment_students')}
+        </h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{localize('com_ui_name')}</TableHead>
+              <TableHead>{localize('com_ui_assignment_status')}</TableHead>
+              <TableHead>{localize('com_ui_assignment_score')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((student) => {
+              const submission = submissionsByUser.get(student.id);
+              let status = localize('com_ui_assignment_not_submitted');
+              if (submission?.status === SubmissionStatus.GRADED) {
+                status = localize('com_ui_assignment_graded');
+              } else if (submission != null) {
+                status = localize('com_ui_assignment_awaiting_grading');
+              }
+              return (
+                <TableRow
+                  key={student.id}
+                  onClick={() => submission && setSelectedId(submission._id)}
+                  className={cn(
+                    submission != null && 'cursor-pointer',
+                    submission != null && submission._id === selectedId && 'bg-surface-active-alt',
+                  )}
+                >
+                  <TableCell>{student.name ?? student.username ?? student.email}</TableCell>
+                  <TableCell>{status}</TableCell>
+                  <TableCell>{submission ? formatScore(submission) : '—'}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </section>
+
+      {selected != null && (
+        <section className="border-t border-border-light pt-4">
+          <SubmissionGrader assignment={data.assignment} quiz={quiz} submission={selected} />
+        </section>
+      )}
+
+      <div className="flex items-center justify-end gap-4 border-t border-border-light pt-4">
+        {startupConfig?.tutorMode != null && (
+          <div className="mr-auto flex items-center gap-2">
+            <Switch
+              id="assignment-protect-solutions"
+              checked={assignment.protectSolutions}
+              disabled={updateMutation.isLoading}
+              onCheckedChange={(protectSolutions) =>
+                updateMutation.mutate({ assignmentId: assignment._id, data: { protectSolutions } })
+              }
+            />
+            <Label htmlFor="assignment-protect-solutions" className="text-sm text-text-primary">
+              {localize('com_ui_assignment_protect_solutions')}
+            </Label>
+          </div>
+        )}
+        <OGDialog>
+          <OGDialogTrigger asChild>
+            <Button type="button" variant="destructive" className="gap-1">
+              <Trash2 className="h-4 w-4" />
+              {localize('com_ui_assignment_delete')}
+            </Button>
+          </OGDialogTrigger>
+          <OGDialogTemplate
+            showCloseButton={false}
+            title={localize('com_ui_assignment_delete')}
+            className="max-w-[450px]"
+            main={
+              <Label className="text-left text-sm font-medium">
+                {localize('com_ui_assignment_delete_confirm')}
+              </Label>
+            }
+            selection={{
+              selectHandler: () => deleteMutation.mutate(assignment._id),
+              selectClasses: 'bg-red-700 hover:bg-red-800 text-white',
+              selectText: localize('com_ui_delete'),
+            }}
+          />
+        </OGDialog>
+      </div>
+    </div>
+  );
+}
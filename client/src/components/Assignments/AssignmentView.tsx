@@ -0,0 +1,65 @@
+import { useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { useGetAssignmentQuery } from '~/data-provider';
+import { useCustomLink, useLocalize } from '~/hooks';
+import AssignmentResults from './AssignmentResults';
+import SubmissionReview from './SubmissionReview';
+import { Spinner } from '~/components/svg';
+import TakeQuiz from './TakeQuiz';
+
+export default function AssignmentView() {
+  const localize = useLocalize();
+  const { assignmentId = '' } = useParams();
+  const chatLinkHandler = useCustomLink('/c/new');
+  const { data: assignment, isLoading } = useGetAssignmentQuery(assignmentId);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <Spinner className="m-4 mx-auto h-6 w-6 text-text-primary" />;
+    }
+    if (!assignment || !assignment.assignedQuiz) {
+      return (
+        <div className="text-sm text-text-secondary">{localize('com_ui_assignment_not_found')}</div>
+      );
+    }
+    if (assignment.isTeacher) {
+      return <AssignmentResults assignment={assignment} />;
+    }
+    if (assignment.submission) {
+      return <SubmissionReview quiz={assignment.assignedQuiz} submission={assignment.submission} />;
+    }
+    if (new Date(assignment.dueAt).getTime() <= Date.now()) {
+      return (
+        <div className="text-sm text-text-secondary">{localize('com_ui_assignment_past_due')}</div>
+      );
+    }
+    return <TakeQuiz assignment={assignment} quiz={assignment.assignedQuiz} />;
+  };
+
+  return (
+    <div className="flex h-screen w-full flex-col overflow-y-auto bg-surface-primary">
+      <div className="mx-auto w-full max-w-3xl space-y-6 p-4">
+        <a
+          href="/"
+          onClick={chatLinkHandler}
+          className="flex items-center gap-1 text-sm text-text-secondary hover:text-text-primary"
+        >
+          <ArrowLeft className="icon-xs" aria-hidden="true" />
+          {localize('com_ui_back_to_chat')}
+        </a>
+        {assignment != null && (
+          <div>
+            <h1 className="text-2xl font-semibold text-text-primary">{assignment.title}</h1>
+            <div className="text-sm text-text-secondary">
+              {assignment.className} ·{' '}
+              {localize('com_ui_assignment_due_var', {
+                0: new Date(assignment.dueAt).toLocaleString(),
+              })}
+            </div>
+          </div>
+        )}
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
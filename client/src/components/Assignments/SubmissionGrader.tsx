@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bot } from 'lucide-react';
+import { QuestionResultStatus, toAssignedQuiz } from 'librechat-data-provider';
+import type {
+  TQuiz,
+  TAssignment,
+  TSubmissionGrade,
+  TAssignmentSubmission,
+} from 'librechat-data-provider';
+import { useGradeSubmissionMutation, useAgentGradeSubmissionMutation } from '~/data-provider';
+import { Button, Input, Label, Textarea } from '~/components/ui';
+import { formatQuizAnswer, formatScore, cn } from '~/utils';
+import { useToastContext } from '~/Providers';
+import AssignedQuestion from './AssignedQuestion';
+import { useLocalize } from '~/hooks';
+
+type SubmissionGraderProps = {
+  assignment: TAssignment;
+  quiz: TQuiz;
+  submission: TAssignmentSubmission;
+};
+
+type GradeDraft = {
+  points: string;
+  feedback: string;
+};
+
+const inputClassName =
+  'bg-surface-secondary text-text-primary border-border-medium focus:border-border-heavy';
+
+const toDrafts = (submission: TAssignmentSubmission): GradeDraft[] =>
+  submission.results.map((result) => ({
+    points: result.status === QuestionResultStatus.PENDING ? '' : String(result.points),
+    feedback: result.feedback ?? '',
+  }));
+
+export default function SubmissionGrader({ assignment, quiz, submission }: SubmissionGraderProps) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [drafts, setDrafts] = useState<GradeDraft[]>(() => toDrafts(submission));
+  const assignedQuiz = useMemo(() => toAssignedQuiz(quiz), [quiz]);
+  const labels = { true: localize('com_ui_quiz_true'), false: localize('com_ui_quiz_false') };
+
+  useEffect(() => {
+    setDrafts(toDrafts(submission));
+  }, [submission]);
+
+  const gradeMutation = useGradeSubmissionMutation({
+    onSuccess: () => {
+      showToast({ status: 'success', message: localize('com_ui_assignment_grades_saved') });
+    },
+    onError: () => {
+      showToast({ status: 'error', message: localize('com_ui_assignment_grades_error') });
+    },
+  });
+
+  const agentGradeMutation = useAgentGradeSubmissionMutation({
+    onSuccess: (updated) => {
+      const isPending = updated.results.some(
+        (result) => result.status === QuestionResultStatus.PENDING,
+      );
+      showToast({
+        status: isPending ? 'warning' : 'success',
+        message: isPending
+          ? localize('com_ui_assignment_agent_grade_incomplete')
+          : localize('com_ui_assignment_agent_graded'),
+      });
+    },
+    onError: () => {
+      showToast({ status: 'error', message: localize('com_ui_assignment_agent_grade_error') });
+    },
+  });
+
+  const hasPending = submission.results.some(
+    (result) => result.status === QuestionResultStatus.PENDING,
+  );
+
+  /** Only questions whose points or feedback changed are sent as overrides */
+  const grades = useMemo(
+    () =>
+      drafts.reduce<TSubmissionGrade[]>((acc, draft, index) => {
+        const result = submission.results[index];
+        const points = Number(draft.points);
+        if (result == null || draft.points.trim() === '' || Number.isNaN(points)) {
+          return acc;
+        }
+        const isPending = result.status === QuestionResultStatus.PENDING;
+        if (!isPending && points === result.points && draft.feedback === (result.feedback ?? '')) {
+          return acc;
+        }
+        acc.push({ index, points, feedback: draft.feedback || undefined });
+        return acc;
+      }, []),
+    [drafts, submission.results],
+  );
+
+  const updateDraft = (index: number, update: Partial<GradeDraft>) => {
+    setDrafts((prev) =>
+      prev.map((draft, idx) => (idx === index ? { ...draft, ...update } : draft)),
+    );
+  };
+
+  const variables = { assignmentId: assignment._id, submissionId: submission._id };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">
+            {submission.user.name ?? submission.user.username ?? submission.user.email}
+          </h3>
+          <div className="text-sm text-text-secondary">
+            {localize('com_ui_assignment_score_var', { 0: formatScore(submission) })}
+          </div>
+        </div>
+        {hasPending && assignment.graderAgentId != null && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            disabled={agentGradeMutation.isLoading}
+            onClick={() => agentGradeMutation.mutate(variables)}
+          >
+            <Bot className="h-4 w-4" />
+            {localize('com_ui_assignment_grade_with_agent')}
+          </Button>
+        )}
+      </div>
+
+      {assignedQuiz.questions.map((question, index) => {
+        const result = submission.results[index];
+        const original = quiz.questions[index];
+        return (
+          <div key={index} className="space-y-2">
+            <AssignedQuestion
+              index={index}
+              question={question}
+              response={submission.responses[index]}
+              result={result}
+            />
+            <div className="space-y-2 rounded-xl border border-border-light p-3">
+              <div className="text-sm text-text-secondary">
+                <span className="font-semibold">{localize('com_ui_assignment_answer_key')}: </span>
+                {formatQuizAnswer(original, labels)}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`points-${index}`} className="text-sm text-text-primary">
+                  {localize('com_ui_assignment_points')}
+                </Label>
+                <Input
+                  id={`points-${index}`}
+                  type="number"
+                  min={0}
+                  max={result?.maxPoints}
+                  step="any"
+                  value={drafts[index]?.points ?? ''}
+                  onChange={(e) => updateDraft(index, { points: e.target.value })}
+                  className={cn(inputClassName, 'w-24')}
+                />
+                <span className="text-sm text-text-secondary">/ {result?.maxPoints}</span>
+              </div>
+              <Textarea
+                value={drafts[index]?.feedback ?? ''}
+                placeholder={localize('com_ui_assignment_feedback')}
+                aria-label={localize('com_ui_assignment_feedback')}
+                onChange={(e) => updateDraft(index, { feedback: e.target.value })}
+                className={cn(inputClassName, 'min-h-[60px]')}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="submit"
+          disabled={!grades.length || gradeMutation.isLoading}
+          onClick={() => gradeMutation.mutate({ ...variables, grades })}
+        >
+          {localize('com_ui_assignment_save_grades')}
+        </Button>
+      </div>
+    </div>
+  );
+}
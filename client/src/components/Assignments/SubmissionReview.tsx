@@ -0,0 +1,43 @@
+import type { TAssignedQuiz, TAssignmentSubmission } from 'librechat-data-provider';
+import { SubmissionStatus } from 'librechat-data-provider';
+import AssignedQuestion from './AssignedQuestion';
+import { formatScore } from '~/utils';
+import { useLocalize } from '~/hooks';
+
+type SubmissionReviewProps = {
+  quiz: TAssignedQuiz;
+  submission: TAssignmentSubmission;
+};
+
+/** A student's read-only view of their graded (or partially graded) submission */
+export default function SubmissionReview({ quiz, submission }: SubmissionReviewProps) {
+  const localize = useLocalize();
+  const isGraded = submission.status === SubmissionStatus.GRADED;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-xl border border-border-medium bg-surface-secondary p-4">
+        <div className="text-sm font-medium text-text-primary">
+          {isGraded
+            ? localize('com_ui_assignment_score_var', { 0: formatScore(submission) })
+            : localize('com_ui_assignment_awaiting_grading_note')}
+        </div>
+        <div className="text-sm text-text-secondary">
+          {localize('com_ui_assignment_submitted_at_var', {
+            0: new Date(submission.submittedAt).toLocaleString(),
+          })}
+        </div>
+      </div>
+
+      {quiz.questions.map((question, index) => (
+        <AssignedQuestion
+          key={index}
+          index={index}
+          question={question}
+          response={submission.responses[index]}
+          result={submission.results[index]}
+        />
+      ))}
+    </div>
+  );
+}
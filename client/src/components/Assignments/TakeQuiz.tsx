@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { LocalStorageKeys } from 'librechat-data-provider';
+import type { TAssignment, TAssignedQuiz, TQuizResponse } from 'librechat-data-provider';
+import type { ClipboardEvent, MouseEvent } from 'react';
+import { Button, OGDialog, OGDialogTrigger, Label } from '~/components/ui';
+import OGDialogTemplate from '~/components/ui/OGDialogTemplate';
+import { useSubmitAssignmentMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import AssignedQuestion from './AssignedQuestion';
+import { useLocalize } from '~/hooks';
+
+type TakeQuizProps = {
+  assignment: TAssignment;
+  quiz: TAssignedQuiz;
+};
+
+const isAnswered = (response: TQuizResponse | undefined) => {
+  if (response == null) {
+    return false;
+  }
+  if (typeof response === 'string') {
+    return response.trim().length > 0;
+  }
+  if (Array.isArray(response)) {
+    return response.some((value) => value.length > 0);
+  }
+  return true;
+};
+
+const loadDraft = (key: string): TQuizResponse[] => {
+  try {
+    const draft = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(draft) ? draft : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Returns `length` responses, using `null` for unanswered questions */
+const padResponses = (responses: TQuizResponse[], length: number): TQuizResponse[] =>
+  Array.from({ length }, (_, idx) => responses[idx] ?? null);
+
+/** Blocks copying questions out of, and pasting answers into, the quiz */
+const preventDefault = (e: ClipboardEvent | MouseEvent) => e.preventDefault();
+
+export default function TakeQuiz({ assignment, quiz }: TakeQuizProps) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const draftKey = `${LocalStorageKeys.ASSIGNMENT_DRAFT}${assignment._id}`;
+  const [responses, setResponses] = useState<TQuizResponse[]>(() => loadDraft(draftKey));
+
+  const submitMutation = useSubmitAssignmentMutation({
+    onSuccess: () => {
+      localStorage.removeItem(draftKey);
+      showToast({ status: 'success', message: localize('com_ui_assignment_submitted') });
+    },
+    onError: () => {
+      showToast({ status: 'error', message: localize('com_ui_assignment_submit_error') });
+    },
+  });
+
+  useEffect(() => {
+    localStorage.setItem(draftKey, JSON.stringify(responses));
+  }, [draftKey, responses]);
+
+  const handleChange = useCallback((index: number, response: TQuizResponse) => {
+    setResponses((prev) => {
+      const next = padResponses(prev, Math.max(prev.length, index + 1));
+      next[index] = response;
+      return next;
+    });
+  }, []);
+
+  const unansweredCount = useMemo(
+    () => quiz.questions.filter((_, idx) => !isAnswered(responses[idx])).length,
+    [quiz.questions, responses],
+  );
+
+  const handleSubmit = () => {
+    submitMutation.mutate({
+      assignmentId: assignment._id,
+      responses: padResponses(responses, quiz.questions.length),
+    });
+  };
+
+  return (
+    <div
+      className="select-none space-y-4"
+      onCopy={preventDefault}
+      onCut={preventDefault}
+      onPaste={preventDefault}
+      onContextMenu={preventDefault}
+    >
+      {quiz.instructions != null && quiz.instructions.length > 0 && (
+        <p className="text-sm text-text-secondary">{quiz.instructions}</p>
+      )}
+
+      {quiz.questions.map((question, index) => (
+        <AssignedQuestion
+          key={index}
+          index={index}
+          question={question}
+          response={responses[index]}
+          onChange={(response) => handleChange(index, response)}
+        />
+      ))}
+
+      <div className="flex items-center justify-end gap-3">
+        <span className="text-sm text-text-secondary">
+          {localize('com_ui_assignment_answered_var', {
+            0: quiz.questions.length - unansweredCount,
+            1: quiz.questions.length,
+          })}
+        </span>
+        <OGDialog>
+          <OGDialogTrigger asChild>
+            <Button type="button" variant="submit" disabled={submitMutation.isLoading}>
+              {localize('com_ui_submit')}
+            </Button>
+          </OGDialogTrigger>
+          <OGDialogTemplate
+            showCloseButton={false}
+            title={localize('com_ui_assignment_submit_confirm')}
+            className="max-w-[450px]"
+            main={
+              <Label className="text-left text-sm font-medium">
+                {unansweredCount > 0
+                  ? localize('com_ui_assignment_unanswered_var', { 0: unansweredCount })
+                  : localize('com_ui_assignment_submit_final')}
+              </Label>
+            }
+            selection={{
+              selectHandler: handleSubmit,
+              selectClasses: 'bg-green-500 hover:bg-green-600 text-white',
+              selectText: localize('com_ui_submit'),
+            }}
+          />
+        </OGDialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { default as AssignmentView } from './AssignmentView';
+export { default as AssignQuizDialog } from './AssignQuizDialog';
@@ -19,6 +19,7 @@ import {
   useHandleKeyUp,
   useQueryParams,
   useSubmitMessage,
+  usePendingTeacherTool,
 } from '~/hooks';
 import { cn, removeFocusRings, checkIfScrollable } from '~/utils';
 import FileFormWrapper from './Files/FileFormWrapper';
@@ -40,6 +41,7 @@ const ChatForm = ({ index = 0 }) => {
   const submitButtonRef = useRef<HTMLButtonElement>(null);
   const textAreaRef = useRef<HTMLTextAreaElement | null>(null);
   useQueryParams({ textAreaRef });
+  usePendingTeacherTool(index);
 
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isScrollable, setIsScrollable] = useState(false);
@@ -173,6 +175,7 @@ const ChatForm = ({ index = 0 }) => {
               commandChar="+"
               placeholder="com_ui_add_model_preset"
               includeAssistants={false}
+              includeMCPResources={false}
             />
           )}
           {showMentionPopover && (
@@ -1,14 +1,18 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { FileText, Library } from 'lucide-react';
+import { useSetRecoilState } from 'recoil';
 import { AutoSizer, List } from 'react-virtualized';
 import { EModelEndpoint } from 'librechat-data-provider';
 import type { SetterOrUpdater } from 'recoil';
-import type { MentionOption, ConvoGenerator } from '~/common';
+import type { MentionOption, ConvoGenerator, MCPResourceOption } from '~/common';
+import { useAssistantsMapContext, useChatContext, useToastContext } from '~/Providers';
+import { useMCPResourcesQuery, useReadMCPResourceMutation } from '~/data-provider';
+import { removeCharIfLast, formatMCPResourceContext } from '~/utils';
 import useSelectMention from '~/hooks/Input/useSelectMention';
-import { useAssistantsMapContext } from '~/Providers';
 import useMentions from '~/hooks/Input/useMentions';
 import { useLocalize, useCombobox } from '~/hooks';
-import { removeCharIfLast } from '~/utils';
 import MentionItem from './MentionItem';
+import store from '~/store';
 
 const ROW_HEIGHT = 40;
 
@@ -19,6 +23,7 @@ export default function Mention({
   commandChar = '@',
   placeholder = 'com_ui_mention',
   includeAssistants = true,
+  includeMCPResources = true,
 }: {
   setShowMentionPopover: SetterOrUpdater<boolean>;
   newConversation: ConvoGenerator;
@@ -26,9 +31,13 @@ export default function Mention({
   commandChar?: string;
   placeholder?: string;
   includeAssistants?: boolean;
+  includeMCPResources?: boolean;
 }) {
   const localize = useLocalize();
+  const { index } = useChatContext();
+  const { showToast } = useToastContext();
   const assistantMap = useAssistantsMapContext();
+  const setActivePrompt = useSetRecoilState(store.activePromptByIndex(index));
   const {
     options,
     presets,
@@ -46,10 +55,41 @@ export default function Mention({
     newConversation,
   });
 
+  const { data: mcpResourceOptions = [] } = useMCPResourcesQuery<MCPResourceOption[]>({
+    enabled: includeMCPResources,
+    select: (resources) =>
+      resources.map((resource) => ({
+        type: 'mcp_resource',
+        value: `${resource.serverName}:${resource.uri}`,
+        label: resource.name,
+        description: `${resource.serverName} · ${resource.description ?? resource.uri}`,
+        icon: <FileText className="icon-md" />,
+        resource,
+      })),
+  });
+  const readResource = useReadMCPResourceMutation();
+
+  /** MCP resources are listed under one entry, to keep them apart from models and agents */
+  const mentionOptions = useMemo<MentionOption[]>(() => {
+    if (!mcpResourceOptions.length) {
+      return options;
+    }
+    return [
+      {
+        type: 'mcp_resources',
+        value: 'mcp_resources',
+        label: localize('com_ui_mcp_resources'),
+        description: localize('com_ui_mcp_resources_description'),
+        icon: <Library className="icon-md" />,
+      },
+      ...options,
+    ];
+  }, [options, mcpResourceOptions.length, localize]);
+
   const [activeIndex, setActiveIndex] = useState(0);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
-  const [inputOptions, setInputOptions] = useState<MentionOption[]>(options);
+  const [inputOptions, setInputOptions] = useState<MentionOption[]>(mentionOptions);
 
   const { open, setOpen, searchValue, setSearchValue, matches } = useCombobox({
     value: '',
@@ -72,7 +112,30 @@ export default function Mention({
       }
     };
 
-    if (mention.type === 'endpoint' && mention.value === EModelEndpoint.agents) {
+    const attachResource = ({ resource }: MCPResourceOption) => {
+      setSearchValue('');
+      setOpen(false);
+      setShowMentionPopover(false);
+      if (textAreaRef.current) {
+        removeCharIfLast(textAreaRef.current, commandChar);
+      }
+      /** The popover unmounts on selection, so the result is awaited instead of mutate callbacks */
+      readResource
+        .mutateAsync({ serverName: resource.serverName, uri: resource.uri })
+        .then((contents) => setActivePrompt(formatMCPResourceContext(resource, contents)))
+        .catch(() =>
+          showToast({ message: localize('com_ui_mcp_resource_error'), status: 'error' }),
+        );
+    };
+
+    if (mention.type === 'mcp_resources') {
+      setSearchValue('');
+      setInputOptions(mcpResourceOptions);
+      setActiveIndex(0);
+      inputRef.current?.focus();
+    } else if (mention.type === 'mcp_resource') {
+      attachResource(mention as MCPResourceOption);
+    } else if (mention.type === 'endpoint' && mention.value === EModelEndpoint.agents) {
       setSearchValue('');
       setInputOptions(agentsList ?? []);
       setActiveIndex(0);
@@ -105,10 +168,10 @@ export default function Mention({
 
   useEffect(() => {
     if (!open) {
-      setInputOptions(options);
+      setInputOptions(mentionOptions);
       setActiveIndex(0);
     }
-  }, [open, options]);
+  }, [open, mentionOptions]);
 
   useEffect(() => {
     return () => {
@@ -181,7 +244,7 @@ export default function Mention({
               setActiveIndex((prevIndex) => (prevIndex - 1 + matches.length) % matches.length);
             } else if (e.key === 'Enter' || e.key === 'Tab') {
               const mentionOption = matches[activeIndex] as MentionOption | undefined;
-              if (mentionOption?.type === 'endpoint') {
+              if (mentionOption?.type === 'endpoint' || mentionOption?.type === 'mcp_resources') {
                 e.preventDefault();
               } else if (e.key === 'Enter') {
                 e.preventDefault();
@@ -1,20 +1,26 @@
 import { useState, useRef, useEffect, useMemo, memo, useCallback } from 'react';
+import { Server } from 'lucide-react';
 import { AutoSizer, List } from 'react-virtualized';
 import { useSetRecoilState, useRecoilValue } from 'recoil';
 import { PermissionTypes, Permissions } from 'librechat-data-provider';
-import type { TPromptGroup } from 'librechat-data-provider';
+import type { TMCPPrompt, TPromptGroup } from 'librechat-data-provider';
 import type { PromptOption } from '~/common';
 import { removeCharIfLast, mapPromptGroups, detectVariables } from '~/utils';
+import { useGetAllPromptGroups, useMCPPromptsQuery, useGetMCPPromptMutation } from '~/data-provider';
+import MCPPromptDialog from '~/components/Prompts/Groups/MCPPromptDialog';
 import VariableDialog from '~/components/Prompts/Groups/VariableDialog';
 import CategoryIcon from '~/components/Prompts/Groups/CategoryIcon';
 import { useLocalize, useCombobox, useHasAccess } from '~/hooks';
-import { useGetAllPromptGroups } from '~/data-provider';
+import { useToastContext } from '~/Providers';
 import { Spinner } from '~/components/svg';
 import MentionItem from './MentionItem';
 import store from '~/store';
 
 const commandChar = '/';
 
+/** Prefix of the option IDs of MCP prompts, which share the list with prompt groups */
+const mcpPromptPrefix = 'mcp:';
+
 const PopoverContainer = memo(
   ({
     index,
@@ -22,12 +28,16 @@ const PopoverContainer = memo(
     isVariableDialogOpen,
     variableGroup,
     setVariableDialogOpen,
+    mcpPrompt,
+    setMCPPrompt,
   }: {
     index: number;
     children: React.ReactNode;
     isVariableDialogOpen: boolean;
     variableGroup: TPromptGroup | null;
     setVariableDialogOpen: (isOpen: boolean) => void;
+    mcpPrompt: TMCPPrompt | null;
+    setMCPPrompt: (prompt: TMCPPrompt | null) => void;
   }) => {
     const showPromptsPopover = useRecoilValue(store.showPromptsPopoverFamily(index));
     return (
@@ -38,6 +48,11 @@ const PopoverContainer = memo(
           onClose={() => setVariableDialogOpen(false)}
           group={variableGroup}
         />
+        <MCPPromptDialog
+          open={mcpPrompt != null}
+          onClose={() => setMCPPrompt(null)}
+          prompt={mcpPrompt}
+        />
       </>
     );
   },
@@ -83,19 +98,46 @@ function PromptsCommand({
     },
   });
 
+  const { data: mcpData } = useMCPPromptsQuery({
+    enabled: hasAccess,
+    select: (mcpPrompts) => {
+      const mcpPromptsMap: Record<string, TMCPPrompt | undefined> = {};
+      const options = mcpPrompts.map((prompt) => {
+        const id = `${mcpPromptPrefix}${prompt.serverName}:${prompt.name}`;
+        mcpPromptsMap[id] = prompt;
+        return {
+          id,
+          value: prompt.name,
+          label: `${prompt.name} (${prompt.serverName})${
+            (prompt.description?.length ?? 0) > 0 ? `: ${prompt.description}` : ''
+          }`,
+          icon: <Server className="h-5 w-5" />,
+        };
+      });
+      return { mcpPromptsMap, mcpPromptOptions: options };
+    },
+  });
+  const { showToast } = useToastContext();
+  const getMCPPrompt = useGetMCPPromptMutation();
+
   const [activeIndex, setActiveIndex] = useState(0);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [isVariableDialogOpen, setVariableDialogOpen] = useState(false);
   const [variableGroup, setVariableGroup] = useState<TPromptGroup | null>(null);
+  const [mcpPrompt, setMCPPrompt] = useState<TMCPPrompt | null>(null);
   const setShowPromptsPopover = useSetRecoilState(store.showPromptsPopoverFamily(index));
 
-  const prompts = useMemo(() => data?.promptGroups, [data]);
+  const prompts = useMemo(
+    () => [...(data?.promptGroups ?? []), ...(mcpData?.mcpPromptOptions ?? [])],
+    [data, mcpData],
+  );
   const promptsMap = useMemo(() => data?.promptsMap, [data]);
+  const mcpPromptsMap = useMemo(() => mcpData?.mcpPromptsMap, [mcpData]);
 
   const { open, setOpen, searchValue, setSearchValue, matches } = useCombobox({
     value: '',
-    options: prompts ?? [],
+    options: prompts,
   });
 
   const handleSelect = useCallback(
@@ -112,6 +154,29 @@ function PromptsCommand({
         removeCharIfLast(textAreaRef.current, commandChar);
       }
 
+      if (mention.id.startsWith(mcpPromptPrefix)) {
+        const prompt = mcpPromptsMap?.[mention.id];
+        if (!prompt) {
+          return;
+        }
+        if (prompt.arguments?.length) {
+          if (e && e.key === 'Tab') {
+            e.preventDefault();
+          }
+          setMCPPrompt(prompt);
+          return;
+        }
+        getMCPPrompt.mutate(
+          { serverName: prompt.serverName, name: prompt.name },
+          {
+            onSuccess: (result) => submitPrompt(result.text),
+            onError: () =>
+              showToast({ message: localize('com_ui_mcp_prompt_error'), status: 'error' }),
+          },
+        );
+        return;
+      }
+
       const group = promptsMap?.[mention.id];
       if (!group) {
         return;
@@ -129,7 +194,18 @@ function PromptsCommand({
         submitPrompt(group.productionPrompt?.prompt ?? '');
       }
     },
-    [setSearchValue, setOpen, setShowPromptsPopover, textAreaRef, promptsMap, submitPrompt],
+    [
+      setSearchValue,
+      setOpen,
+      setShowPromptsPopover,
+      textAreaRef,
+      promptsMap,
+      mcpPromptsMap,
+      getMCPPrompt,
+      showToast,
+      localize,
+      submitPrompt,
+    ],
   );
 
   useEffect(() => {
@@ -194,6 +270,8 @@ function PromptsCommand({
       isVariableDialogOpen={isVariableDialogOpen}
       variableGroup={variableGroup}
       setVariableDialogOpen={setVariableDialogOpen}
+      mcpPrompt={mcpPrompt}
+      setMCPPrompt={setMCPPrompt}
     >
       <div className="absolute bottom-14 z-10 w-full space-y-2">
         <div className="popover border-token-border-light rounded-2xl border bg-surface-tertiary-alt p-2 shadow-lg">
@@ -0,0 +1,123 @@
+import { useMemo } from 'react';
+import { Image as ImageIcon, Link } from 'lucide-react';
+import { useLocalize } from '~/hooks';
+
+type MCPOutputBlock =
+  | { type: 'text'; text: string }
+  | { type: 'json'; json: string }
+  | { type: 'image'; text: string }
+  | { type: 'resource'; uri: string; mimeType?: string; text: string };
+
+const resourcePrefix = 'Resource URI: ';
+const typePrefix = 'Type: ';
+const imageNote = /^\(Image of type [^)]+\)$/;
+
+/** Parses a text block the MCP parsers wrote for the model */
+function parseText(text: string): MCPOutputBlock {
+  if (text.startsWith(resourcePrefix)) {
+    const [uriLine, ...lines] = text.split('\n');
+    let mimeType: string | undefined;
+    if (lines[0]?.startsWith(typePrefix)) {
+      mimeType = lines.shift()?.slice(typePrefix.length);
+    }
+    return {
+      type: 'resource',
+      uri: uriLine.slice(resourcePrefix.length),
+      mimeType,
+      text: lines.join('\n').trim(),
+    };
+  }
+  if (imageNote.test(text)) {
+    return { type: 'image', text };
+  }
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return { type: 'json', json: JSON.stringify(JSON.parse(trimmed), null, 2) };
+    } catch {
+      return { type: 'text', text };
+    }
+  }
+  return { type: 'text', text };
+}
+
+/** Splits the tool output, a JSON array of content blocks or plain text, into blocks */
+function parseOutput(output: string): MCPOutputBlock[] {
+  try {
+    const content = JSON.parse(output);
+    if (Array.isArray(content)) {
+      return content.map((part) =>
+        part?.type === 'text' && typeof part.text === 'string'
+          ? parseText(part.text)
+          : { type: 'json', json: JSON.stringify(part, null, 2) },
+      );
+    }
+  } catch {
+    return [parseText(output)];
+  }
+  return [parseText(output)];
+}
+
+function isWebURL(uri: string) {
+  return uri.startsWith('https://') || uri.startsWith('http://');
+}
+
+/** Renders MCP tool output as distinct text, JSON, image and resource blocks */
+export default function MCPToolOutput({ output }: { output: string }) {
+  const localize = useLocalize();
+  const blocks = useMemo(() => parseOutput(output), [output]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {blocks.map((block, index) => {
+        if (block.type === 'json') {
+          return (
+            <code key={index} className="!whitespace-pre-wrap">
+              {block.json}
+            </code>
+          );
+        }
+        if (block.type === 'image') {
+          return (
+            <div key={index} className="flex items-center gap-1.5 italic text-text-secondary">
+              <ImageIcon className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+              {block.text}
+            </div>
+          );
+        }
+        if (block.type === 'resource') {
+          return (
+            <div key={index} className="flex flex-col gap-1">
+              <div className="flex items-center gap-1.5 break-all">
+                <Link className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+                {isWebURL(block.uri) ? (
+                  <a
+                    href={block.uri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="!text-blue-400 hover:underline"
+                  >
+                    {block.uri}
+                  </a>
+                ) : (
+                  <span>{block.uri}</span>
+                )}
+              </div>
+              {block.mimeType != null && block.mimeType && (
+                <div className="text-text-secondary">
+                  {localize('com_ui_mcp_resource_type', { 0: block.mimeType })}
+                </div>
+              )}
+              {block.text && <div className="whitespace-pre-wrap">{block.text}</div>}
+            </div>
+          );
+        }
+        return (
+          <div key={index} className="whitespace-pre-wrap break-words">
+            {block.text}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
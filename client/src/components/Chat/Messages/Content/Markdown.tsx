@@ -15,8 +15,19 @@ import {
   useCodeBlockContext,
 } from '~/Providers';
 import { Artifact, artifactPlugin } from '~/components/Artifacts/Artifact';
-import { langSubset, preprocessLaTeX, handleDoubleClick } from '~/utils';
+import {
+  parseQuiz,
+  parseRubric,
+  QUIZ_BLOCK_LANGUAGE,
+  parseRubricFeedback,
+  RUBRIC_BLOCK_LANGUAGE,
+  RUBRIC_FEEDBACK_BLOCK_LANGUAGE,
+} from 'librechat-data-provider';
+import { langSubset, preprocessLaTeX, handleDoubleClick, extractContent } from '~/utils';
 import CodeBlock from '~/components/Messages/Content/CodeBlock';
+import RubricFeedback from '~/components/Messages/Content/RubricFeedback';
+import Rubric from '~/components/Messages/Content/Rubric';
+import Quiz from '~/components/Messages/Content/Quiz';
 import { useFileDownload } from '~/data-provider';
 import useLocalize from '~/hooks/useLocalize';
 import store from '~/store';
@@ -32,6 +43,21 @@ export const code: React.ElementType = memo(({ className, children }: TCodeProps
   const lang = match && match[1];
   const isMath = lang === 'math';
   const isSingleLine = typeof children === 'string' && children.split('\n').length === 1;
+  const quiz = useMemo(
+    () => (lang === QUIZ_BLOCK_LANGUAGE ? parseQuiz(extractContent(children)) : null),
+    [lang, children],
+  );
+  const rubric = useMemo(
+    () => (lang === RUBRIC_BLOCK_LANGUAGE ? parseRubric(extractContent(children)) : null),
+    [lang, children],
+  );
+  const rubricFeedback = useMemo(
+    () =>
+      lang === RUBRIC_FEEDBACK_BLOCK_LANGUAGE
+        ? parseRubricFeedback(extractContent(children))
+        : null,
+    [lang, children],
+  );
 
   const { getNextIndex, resetCounter } = useCodeBlockContext();
   const blockIndex = useRef(getNextIndex(isMath || isSingleLine)).current;
@@ -42,6 +68,12 @@ export const code: React.ElementType = memo(({ className, children }: TCodeProps
 
   if (isMath) {
     return <>{children}</>;
+  } else if (quiz) {
+    return <Quiz quiz={quiz} />;
+  } else if (rubric) {
+    return <Rubric rubric={rubric} />;
+  } else if (rubricFeedback) {
+    return <RubricFeedback feedback={rubricFeedback} />;
   } else if (isSingleLine) {
     return (
       <code onDoubleClick={handleDoubleClick} className={className}>
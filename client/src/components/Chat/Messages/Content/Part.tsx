@@ -83,6 +83,8 @@ const Part = memo(({ part, isSubmitting, attachments, showCursor, isCreatedByUse
           attachments={attachments}
           auth={toolCall.auth}
           expires_at={toolCall.expires_at}
+          approval={toolCall.approval}
+          progressUpdate={toolCall.progress_update}
         />
       );
     } else if (toolCall.type === ToolCallTypes.CODE_INTERPRETER) {
@@ -1,9 +1,56 @@
-import { imageExtRegex } from 'librechat-data-provider';
+import { Paperclip } from 'lucide-react';
+import { imageExtRegex, isActionResponseAttachment } from 'librechat-data-provider';
 import type { TAttachment, TFile, TAttachmentMetadata } from 'librechat-data-provider';
 import Image from '~/components/Chat/Messages/Content/Image';
+import { useAuthContext, useLocalize } from '~/hooks';
+import { useFileDownload } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+
+/** Downloads a saved file attachment, e.g. a binary resource returned by an MCP tool */
+function FileAttachment({ file_id, filename }: { file_id: string; filename: string }) {
+  const localize = useLocalize();
+  const { user } = useAuthContext();
+  const { showToast } = useToastContext();
+  const { refetch: downloadFile } = useFileDownload(user?.id ?? '', file_id);
+
+  const handleDownload = async (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    try {
+      const stream = await downloadFile();
+      if (stream.data == null || stream.data === '') {
+        console.error('Error downloading file: No data found');
+        showToast({
+          status: 'error',
+          message: localize('com_ui_download_error'),
+        });
+        return;
+      }
+      const link = document.createElement('a');
+      link.href = stream.data;
+      link.setAttribute('download', filename);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(stream.data);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleDownload}
+      className="my-1 flex w-fit items-center gap-1.5 rounded-lg border border-border-medium px-2 py-1 text-sm text-text-primary hover:bg-surface-hover"
+    >
+      <Paperclip className="h-3.5 w-3.5" aria-hidden="true" />
+      {filename}
+    </button>
+  );
+}
 
 export default function Attachment({ attachment }: { attachment?: TAttachment }) {
-  if (!attachment) {
+  if (!attachment || isActionResponseAttachment(attachment)) {
     return null;
   }
   const { width, height, filepath = null } = attachment as TFile & TAttachmentMetadata;
@@ -15,5 +62,9 @@ export default function Attachment({ attachment }: { attachment?: TAttachment })
       <Image altText={attachment.filename} imagePath={filepath} height={height} width={width} />
     );
   }
+  const { file_id } = attachment as TFile;
+  if (file_id) {
+    return <FileAttachment file_id={file_id} filename={attachment.filename} />;
+  }
   return null;
 }
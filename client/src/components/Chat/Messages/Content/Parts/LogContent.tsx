@@ -1,7 +1,12 @@
 import { isAfter } from 'date-fns';
 import React, { useMemo } from 'react';
-import { imageExtRegex } from 'librechat-data-provider';
-import type { TFile, TAttachment, TAttachmentMetadata } from 'librechat-data-provider';
+import { imageExtRegex, isActionResponseAttachment } from 'librechat-data-provider';
+import type {
+  TFile,
+  TAttachment,
+  TAttachmentMetadata,
+  TActionResponseAttachment,
+} from 'librechat-data-provider';
 import Image from '~/components/Chat/Messages/Content/Image';
 import { useLocalize } from '~/hooks';
 import LogLink from './LogLink';
@@ -12,6 +17,8 @@ interface LogContentProps {
   attachments?: TAttachment[];
 }
 
+type FileAttachment = Exclude<TAttachment, TActionResponseAttachment>;
+
 type ImageAttachment = TFile &
   TAttachmentMetadata & {
     height: number;
@@ -32,9 +39,12 @@ const LogContent: React.FC<LogContentProps> = ({ output = '', renderImages, atta
 
   const { imageAttachments, nonImageAttachments } = useMemo(() => {
     const imageAtts: ImageAttachment[] = [];
-    const nonImageAtts: TAttachment[] = [];
+    const nonImageAtts: FileAttachment[] = [];
 
     attachments?.forEach((attachment) => {
+      if (isActionResponseAttachment(attachment)) {
+        return;
+      }
       const { width, height, filepath = null } = attachment as TFile & TAttachmentMetadata;
       const isImage =
         imageExtRegex.test(attachment.filename) &&
@@ -54,7 +64,7 @@ const LogContent: React.FC<LogContentProps> = ({ output = '', renderImages, atta
     };
   }, [attachments, renderImages]);
 
-  const renderAttachment = (file: TAttachment) => {
+  const renderAttachment = (file: FileAttachment) => {
     const now = new Date();
     const expiresAt = typeof file.expiresAt === 'number' ? new Date(file.expiresAt) : null;
     const isExpired = expiresAt ? isAfter(now, expiresAt) : false;
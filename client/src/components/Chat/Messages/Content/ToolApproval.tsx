@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import type { Agents } from 'librechat-data-provider';
+import { useMCPToolApprovalMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components/ui';
+import { useLocalize } from '~/hooks';
+
+/**
+ * Asks the user to approve or deny the exact arguments of a paused tool call,
+ * or the messages its server requests the model to complete
+ */
+export default function ToolApproval({ approval }: { approval: Agents.ToolApproval }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [responded, setResponded] = useState(false);
+  const respond = useMCPToolApprovalMutation({
+    onSuccess: () => setResponded(true),
+    onError: () => showToast({ message: localize('com_ui_mcp_approval_error'), status: 'error' }),
+  });
+
+  if (responded) {
+    return null;
+  }
+
+  const onRespond = (approved: boolean) => respond.mutate({ approvalId: approval.id, approved });
+
+  return (
+    <div className="flex w-full flex-col gap-2.5 rounded-lg border border-border-medium bg-surface-primary p-3">
+      <p className="text-sm text-text-primary">
+        {localize(
+          approval.kind === 'sampling'
+            ? 'com_ui_mcp_sampling_required'
+            : 'com_ui_mcp_approval_required',
+        )}
+      </p>
+      <pre className="max-h-60 overflow-auto whitespace-pre-wrap break-words rounded bg-surface-secondary p-2 text-xs text-text-secondary">
+        {approval.args}
+      </pre>
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={respond.isLoading}
+          onClick={() => onRespond(false)}
+        >
+          <X className="h-3.5 w-3.5" />
+          {localize('com_ui_mcp_deny')}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          className="gap-1"
+          disabled={respond.isLoading}
+          onClick={() => onRespond(true)}
+        >
+          <Check className="h-3.5 w-3.5" />
+          {localize('com_ui_mcp_approve')}
+        </Button>
+      </div>
+    </div>
+  );
+}
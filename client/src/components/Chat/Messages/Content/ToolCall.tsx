@@ -1,14 +1,20 @@
 import { useMemo } from 'react';
 import * as Popover from '@radix-ui/react-popover';
 import { ShieldCheck, TriangleAlert } from 'lucide-react';
-import { actionDelimiter, actionDomainSeparator, Constants } from 'librechat-data-provider';
-import type { TAttachment } from 'librechat-data-provider';
+import {
+  Constants,
+  actionDelimiter,
+  actionDomainSeparator,
+  isActionResponseAttachment,
+} from 'librechat-data-provider';
+import type { Agents, TAttachment } from 'librechat-data-provider';
 import useLocalize from '~/hooks/useLocalize';
 import ProgressCircle from './ProgressCircle';
 import InProgressCall from './InProgressCall';
 import Attachment from './Parts/Attachment';
 import CancelledIcon from './CancelledIcon';
 import ProgressText from './ProgressText';
+import ToolApproval from './ToolApproval';
 import FinishedIcon from './FinishedIcon';
 import ToolPopover from './ToolPopover';
 import WrenchIcon from './WrenchIcon';
@@ -26,6 +32,8 @@ export default function ToolCall({
   output,
   attachments,
   auth,
+  approval,
+  progressUpdate,
 }: {
   initialProgress: number;
   isSubmitting: boolean;
@@ -35,6 +43,8 @@ export default function ToolCall({
   attachments?: TAttachment[];
   auth?: string;
   expires_at?: number;
+  approval?: Agents.ToolApproval;
+  progressUpdate?: Agents.ToolProgress;
 }) {
   const localize = useLocalize();
   const { function_name, domain, isMCPToolCall } = useMemo(() => {
@@ -80,6 +90,11 @@ export default function ToolCall({
     }
   }, [_args]) as string | undefined;
 
+  const actionResponse = useMemo(
+    () => attachments?.find(isActionResponseAttachment),
+    [attachments],
+  );
+
   const hasInfo = useMemo(
     () => (args?.length ?? 0) > 0 || (output?.length ?? 0) > 0,
     [args, output],
@@ -100,7 +115,13 @@ export default function ToolCall({
 
   const progress = useProgress(error === true ? 1 : initialProgress);
   const cancelled = (!isSubmitting && progress < 1) || error === true;
-  const offset = circumference - progress * circumference;
+  /** Reported progress moves the circle ahead of the estimate, without completing it */
+  const reportedProgress =
+    progressUpdate?.total != null && progressUpdate.total > 0
+      ? Math.min(progressUpdate.progress / progressUpdate.total, 0.95)
+      : 0;
+  const offset = circumference - Math.max(progress, reportedProgress) * circumference;
+  const pendingApproval = approval != null && progress < 1 && !cancelled;
 
   const renderIcon = () => {
     if (progress < 1 && authDomain.length > 0) {
@@ -135,6 +156,16 @@ export default function ToolCall({
     return cancelled ? <CancelledIcon /> : <FinishedIcon />;
   };
 
+  const getInProgressText = () => {
+    if (progressUpdate == null) {
+      return localize('com_assistants_running_action');
+    }
+    const { progress: reported, total } = progressUpdate;
+    return localize('com_ui_running_action_progress', {
+      0: total != null ? `${reported}/${total}` : reported,
+    });
+  };
+
   const getFinishedText = () => {
     if (cancelled) {
       return localize('com_ui_error');
@@ -155,9 +186,13 @@ export default function ToolCall({
           <div className="relative h-5 w-5 shrink-0">{renderIcon()}</div>
           <ProgressText
             progress={cancelled ? 1 : progress}
-            inProgressText={localize('com_assistants_running_action')}
+            inProgressText={getInProgressText()}
             authText={
-              !cancelled && authDomain.length > 0 ? localize('com_ui_requires_auth') : undefined
+              pendingApproval
+                ? localize('com_ui_mcp_awaiting_approval')
+                : !cancelled && authDomain.length > 0
+                  ? localize('com_ui_requires_auth')
+                  : undefined
             }
             finishedText={getFinishedText()}
             hasInput={hasInfo}
@@ -170,6 +205,8 @@ export default function ToolCall({
               domain={authDomain || (domain ?? '')}
               function_name={function_name}
               pendingAuth={authDomain.length > 0 && !cancelled && progress < 1}
+              isMCPToolCall={isMCPToolCall}
+              rawOutput={actionResponse?.raw_response}
             />
           )}
         </div>
@@ -182,7 +219,9 @@ export default function ToolCall({
                 target="_blank"
                 rel="noopener noreferrer"
               >
-                {localize('com_ui_sign_in_to_domain', { 0: authDomain })}
+                {localize('com_ui_sign_in_to_domain', {
+                  0: isMCPToolCall && domain != null ? domain : authDomain,
+                })}
               </a>
             </div>
             <p className="flex items-center text-xs text-text-secondary">
@@ -191,8 +230,11 @@ export default function ToolCall({
             </p>
           </div>
         )}
+        {pendingApproval && <ToolApproval approval={approval} />}
       </div>
-      {attachments?.map((attachment, index) => <Attachment attachment={attachment} key={index} />)}
+      {attachments
+        ?.filter((attachment) => !isActionResponseAttachment(attachment))
+        .map((attachment, index) => <Attachment attachment={attachment} key={index} />)}
     </Popover.Root>
   );
 }
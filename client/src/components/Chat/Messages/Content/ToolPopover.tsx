@@ -1,5 +1,8 @@
+import { useState } from 'react';
 import * as Popover from '@radix-ui/react-popover';
 import useLocalize from '~/hooks/useLocalize';
+import MCPToolOutput from './MCPToolOutput';
+import { cn } from '~/utils';
 
 export default function ToolPopover({
   input,
@@ -7,14 +10,20 @@ export default function ToolPopover({
   domain,
   function_name,
   pendingAuth,
+  isMCPToolCall,
+  rawOutput,
 }: {
   input: string;
   function_name: string;
   output?: string | null;
+  /** The raw response of an action, when the output returned to the model was trimmed */
+  rawOutput?: string;
   domain?: string;
   pendingAuth?: boolean;
+  isMCPToolCall?: boolean;
 }) {
   const localize = useLocalize();
+  const [showRaw, setShowRaw] = useState(false);
   const formatText = (text: string) => {
     try {
       return JSON.stringify(JSON.parse(text), null, 2);
@@ -53,12 +62,36 @@ export default function ToolPopover({
             </div>
             {output != null && output && (
               <>
-                <div className="mb-2 mt-2 text-sm font-medium text-text-primary">
+                <div className="mb-2 mt-2 flex items-center justify-between gap-2 text-sm font-medium text-text-primary">
                   {localize('com_ui_result')}
+                  {rawOutput != null && (
+                    <div className="flex gap-1 text-xs font-normal">
+                      {[false, true].map((raw) => (
+                        <button
+                          key={String(raw)}
+                          type="button"
+                          aria-pressed={showRaw === raw}
+                          onClick={() => setShowRaw(raw)}
+                          className={cn(
+                            'rounded px-1.5 py-0.5 text-text-secondary hover:bg-surface-hover',
+                            showRaw === raw && 'bg-surface-tertiary text-text-primary',
+                          )}
+                        >
+                          {localize(raw ? 'com_ui_raw_response' : 'com_ui_trimmed_response')}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className="bg-token-surface-secondary text-token-text-primary dark rounded-md text-xs">
                   <div className="max-h-32 overflow-y-auto rounded-md bg-surface-tertiary p-2">
-                    <code className="!whitespace-pre-wrap ">{formatText(output)}</code>
+                    {showRaw && rawOutput != null ? (
+                      <code className="!whitespace-pre-wrap">{formatText(rawOutput)}</code>
+                    ) : isMCPToolCall === true ? (
+                      <MCPToolOutput output={output} />
+                    ) : (
+                      <code className="!whitespace-pre-wrap ">{formatText(output)}</code>
+                    )}
                   </div>
                 </div>
               </>
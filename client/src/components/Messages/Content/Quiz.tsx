@@ -0,0 +1,133 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { Eye, EyeOff, Pencil } from 'lucide-react';
+import { SystemRoles, buildQuizQuestionRegenerationPrompt } from 'librechat-data-provider';
+import type { TQuiz, TQuizQuestion } from 'librechat-data-provider';
+import { useAuthContext, useLocalize, useSaveQuiz } from '~/hooks';
+import { AssignQuizDialog } from '~/components/Assignments';
+import { useChatContext } from '~/Providers';
+import { Button } from '~/components/ui';
+import QuizQuestion from './QuizQuestion';
+
+type QuizProps = {
+  quiz: TQuiz;
+};
+
+const Quiz = memo(({ quiz }: QuizProps) => {
+  const localize = useLocalize();
+  const saveQuiz = useSaveQuiz();
+  const { user } = useAuthContext();
+  const { ask, isSubmitting } = useChatContext();
+  const [draft, setDraft] = useState<TQuiz>(quiz);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showAnswerKey, setShowAnswerKey] = useState(false);
+  /** Editing and regeneration require an active chat, e.g. not a shared link */
+  const isInteractive = typeof ask === 'function';
+  const canAssign = user?.role === SystemRoles.TEACHER || user?.role === SystemRoles.ADMIN;
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(quiz);
+    }
+  }, [quiz, isEditing]);
+
+  const handleQuestionChange = useCallback((index: number, question: TQuizQuestion) => {
+    setDraft((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q, idx) => (idx === index ? question : q)),
+    }));
+  }, []);
+
+  const handleRegenerate = useCallback(
+    (index: number) => {
+      ask({ text: buildQuizQuestionRegenerationPrompt(quiz, index) });
+    },
+    [ask, quiz],
+  );
+
+  const handleSave = () => {
+    saveQuiz(draft);
+    setIsEditing(false);
+  };
+
+  const handleCancel = () => {
+    setDraft(quiz);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="not-prose my-2 space-y-4 rounded-xl border border-border-medium bg-surface-secondary p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">{draft.title}</h3>
+          {(draft.subject != null || draft.gradeLevel != null) && (
+            <div className="text-sm text-text-secondary">
+              {[draft.subject, draft.gradeLevel].filter(Boolean).join(' · ')}
+            </div>
+          )}
+        </div>
+        {!isEditing && (
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShowAnswerKey((prev) => !prev)}
+              className="gap-1"
+            >
+              {showAnswerKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              {showAnswerKey
+                ? localize('com_ui_quiz_hide_answer_key')
+                : localize('com_ui_quiz_show_answer_key')}
+            </Button>
+            {isInteractive && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setIsEditing(true)}
+                disabled={isSubmitting}
+                className="gap-1"
+              >
+                <Pencil className="h-4 w-4" />
+                {localize('com_ui_quiz_edit_answer_key')}
+              </Button>
+            )}
+            {isInteractive && canAssign && <AssignQuizDialog quiz={quiz} />}
+          </div>
+        )}
+      </div>
+
+      {draft.instructions != null && draft.instructions.length > 0 && (
+        <p className="text-sm text-text-secondary">{draft.instructions}</p>
+      )}
+
+      <div className="space-y-3">
+        {draft.questions.map((question, index) => (
+          <QuizQuestion
+            key={`${index}-${question.question}`}
+            index={index}
+            question={question}
+            showAnswer={showAnswerKey}
+            isEditing={isEditing}
+            canRegenerate={isInteractive && !isEditing && !isSubmitting}
+            onChange={(updated) => handleQuestionChange(index, updated)}
+            onRegenerate={handleRegenerate}
+          />
+        ))}
+      </div>
+
+      {isEditing && (
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={handleCancel}>
+            {localize('com_ui_cancel')}
+          </Button>
+          <Button type="button" variant="submit" size="sm" onClick={handleSave}>
+            {localize('com_ui_save')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default Quiz;
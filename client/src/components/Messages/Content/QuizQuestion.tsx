@@ -0,0 +1,329 @@
+import { memo, useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { QuizQuestionTypes } from 'librechat-data-provider';
+import type { TQuizQuestion } from 'librechat-data-provider';
+import { Input, Textarea } from '~/components/ui';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+type QuizQuestionProps = {
+  index: number;
+  question: TQuizQuestion;
+  showAnswer: boolean;
+  isEditing: boolean;
+  canRegenerate: boolean;
+  onChange: (question: TQuizQuestion) => void;
+  onRegenerate: (index: number) => void;
+};
+
+const optionLabel = (idx: number) => String.fromCharCode(65 + idx);
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const inputClassName =
+  'bg-surface-secondary text-text-primary border-border-medium focus:border-border-heavy';
+
+/** Deterministically orders the matching column so it differs from the answer order */
+const rotate = <T,>(items: T[]) => (items.length > 1 ? [...items.slice(1), items[0]] : items);
+
+const choiceClassName = (isSelected: boolean, isCorrect: boolean, showAnswer: boolean) =>
+  cn(
+    'flex w-full items-start gap-2 rounded-lg border px-3 py-2 text-left text-sm transition-colors',
+    'border-border-medium text-text-primary hover:bg-surface-hover',
+    isSelected && 'border-border-heavy bg-surface-tertiary',
+    showAnswer && isCorrect && 'border-green-500 bg-green-500/10',
+    showAnswer && isSelected && !isCorrect && 'border-red-500 bg-red-500/10',
+  );
+
+const QuizQuestion = memo(
+  ({
+    index,
+    question,
+    showAnswer,
+    isEditing,
+    canRegenerate,
+    onChange,
+    onRegenerate,
+  }: QuizQuestionProps) => {
+    const localize = useLocalize();
+    const [response, setResponse] = useState<string>('');
+    const [matches, setMatches] = useState<Record<number, string>>({});
+    const [revealed, setRevealed] = useState(false);
+    const isRevealed = showAnswer || revealed;
+
+    const matchingChoices = useMemo(
+      () =>
+        question.type === QuizQuestionTypes.MATCHING
+          ? rotate(question.pairs.map((pair) => pair.right))
+          : [],
+      [question],
+    );
+
+    const isResponseCorrect = useMemo(() => {
+      switch (question.type) {
+        case QuizQuestionTypes.MULTIPLE_CHOICE:
+          return response === String(question.answer);
+        case QuizQuestionTypes.TRUE_FALSE:
+          return response === String(question.answer);
+        case QuizQuestionTypes.SHORT_ANSWER:
+          return [question.answer, ...(question.acceptableAnswers ?? [])].some(
+            (answer) => normalize(answer) === normalize(response),
+          );
+        case QuizQuestionTypes.MATCHING:
+          return question.pairs.every((pair, idx) => matches[idx] === pair.right);
+        default:
+          return false;
+      }
+    }, [question, response, matches]);
+
+    const hasResponse =
+      question.type === QuizQuestionTypes.MATCHING
+        ? Object.keys(matches).length > 0
+        : response.length > 0;
+
+    const renderAnswerKey = () => {
+      switch (question.type) {
+        case QuizQuestionTypes.MULTIPLE_CHOICE:
+          return `${optionLabel(question.answer)}. ${question.options[question.answer]}`;
+        case QuizQuestionTypes.TRUE_FALSE:
+          return question.answer ? localize('com_ui_quiz_true') : localize('com_ui_quiz_false');
+        case QuizQuestionTypes.SHORT_ANSWER:
+          return [question.answer, ...(question.acceptableAnswers ?? [])].join(' / ');
+        case QuizQuestionTypes.MATCHING:
+          return question.pairs.map((pair) => `${pair.left} → ${pair.right}`).join('; ');
+        default:
+          return '';
+      }
+    };
+
+    const renderEditor = () => {
+      switch (question.type) {
+        case QuizQuestionTypes.MULTIPLE_CHOICE:
+          return (
+            <div className="space-y-1">
+              {question.options.map((option, idx) => (
+                <label key={idx} className="flex items-center gap-2 text-sm text-text-primary">
+                  <input
+                    type="radio"
+                    name={`quiz-answer-${index}`}
+                    checked={question.answer === idx}
+                    onChange={() => onChange({ ...question, answer: idx })}
+                  />
+                  <span>
+                    {optionLabel(idx)}. {option}
+                  </span>
+                </label>
+              ))}
+            </div>
+          );
+        case QuizQuestionTypes.TRUE_FALSE:
+          return (
+            <div className="flex gap-4">
+              {[true, false].map((value) => (
+                <label key={String(value)} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name={`quiz-answer-${index}`}
+                    checked={question.answer === value}
+                    onChange={() => onChange({ ...question, answer: value })}
+                  />
+                  {value ? localize('com_ui_quiz_true') : localize('com_ui_quiz_false')}
+                </label>
+              ))}
+            </div>
+          );
+        case QuizQuestionTypes.SHORT_ANSWER:
+          return (
+            <Input
+              value={question.answer}
+              aria-label={localize('com_ui_quiz_answer')}
+              onChange={(e) => onChange({ ...question, answer: e.target.value })}
+              className={inputClassName}
+            />
+          );
+        case QuizQuestionTypes.MATCHING:
+          return (
+            <div className="space-y-1">
+              {question.pairs.map((pair, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-sm">
+                  <span className="w-1/2">{pair.left}</span>
+                  <Input
+                    value={pair.right}
+                    aria-label={pair.left}
+                    onChange={(e) =>
+                      onChange({
+                        ...question,
+                        pairs: question.pairs.map((p, i) =>
+                          i === idx ? { ...p, right: e.target.value } : p,
+                        ),
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        default:
+          return null;
+      }
+    };
+
+    const renderResponse = () => {
+      switch (question.type) {
+        case QuizQuestionTypes.MULTIPLE_CHOICE:
+          return (
+            <div className="space-y-2">
+              {question.options.map((option, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  onClick={() => setResponse(String(idx))}
+                  className={choiceClassName(
+                    response === String(idx),
+                    question.answer === idx,
+                    isRevealed,
+                  )}
+                >
+                  <span className="font-semibold">{optionLabel(idx)}.</span>
+                  <span>{option}</span>
+                </button>
+              ))}
+            </div>
+          );
+        case QuizQuestionTypes.TRUE_FALSE:
+          return (
+            <div className="grid grid-cols-2 gap-2">
+              {[true, false].map((value) => (
+                <button
+                  key={String(value)}
+                  type="button"
+                  onClick={() => setResponse(String(value))}
+                  className={choiceClassName(
+                    response === String(value),
+                    question.answer === value,
+                    isRevealed,
+                  )}
+                >
+                  {value ? localize('com_ui_quiz_true') : localize('com_ui_quiz_false')}
+                </button>
+              ))}
+            </div>
+          );
+        case QuizQuestionTypes.SHORT_ANSWER:
+          return (
+            <Input
+              value={response}
+              placeholder={localize('com_ui_quiz_your_answer')}
+              onChange={(e) => setResponse(e.target.value)}
+              className={inputClassName}
+            />
+          );
+        case QuizQuestionTypes.MATCHING:
+          return (
+            <div className="space-y-2">
+              {question.pairs.map((pair, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-sm text-text-primary">
+                  <span className="w-1/2">{pair.left}</span>
+                  <select
+                    value={matches[idx] ?? ''}
+                    aria-label={pair.left}
+                    onChange={(e) => setMatches((prev) => ({ ...prev, [idx]: e.target.value }))}
+                    className={cn('w-1/2 rounded-md border px-2 py-1', inputClassName)}
+                  >
+                    <option value="" disabled>
+                      {localize('com_ui_select')}
+                    </option>
+                    {matchingChoices.map((choice) => (
+                      <option key={choice} value={choice}>
+                        {choice}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          );
+        default:
+          return null;
+      }
+    };
+
+    return (
+      <div className="space-y-3 rounded-xl border border-border-medium bg-surface-primary p-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="text-xs font-medium uppercase text-text-secondary">
+              {localize('com_ui_quiz_question_var', { 0: index + 1 })}
+              {question.points != null && ` · ${question.points}`}
+            </div>
+            <div className="mt-1 text-sm font-medium text-text-primary">{question.question}</div>
+          </div>
+          {canRegenerate && (
+            <button
+              type="button"
+              onClick={() => onRegenerate(index)}
+              className="rounded-md p-1 text-text-secondary hover:bg-surface-hover hover:text-text-primary"
+              title={localize('com_ui_quiz_regenerate_question')}
+              aria-label={localize('com_ui_quiz_regenerate_question')}
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        {isEditing ? renderEditor() : renderResponse()}
+
+        {!isEditing && !showAnswer && (
+          <button
+            type="button"
+            onClick={() => setRevealed((prev) => !prev)}
+            className="text-xs font-medium text-text-secondary underline-offset-2 hover:underline"
+          >
+            {revealed ? localize('com_ui_quiz_hide_answer') : localize('com_ui_quiz_show_answer')}
+          </button>
+        )}
+
+        {!isEditing && isRevealed && hasResponse && (
+          <div
+            className={cn(
+              'text-sm font-medium',
+              isResponseCorrect ? 'text-green-600' : 'text-red-500',
+            )}
+          >
+            {isResponseCorrect ? localize('com_ui_quiz_correct') : localize('com_ui_quiz_incorrect')}
+          </div>
+        )}
+
+        {(isRevealed || isEditing) && (
+          <div className="space-y-1 rounded-lg bg-surface-secondary p-3 text-sm text-text-primary">
+            {!isEditing && (
+              <div>
+                <span className="font-semibold">{localize('com_ui_quiz_answer')}: </span>
+                {renderAnswerKey()}
+              </div>
+            )}
+            {isEditing ? (
+              <Textarea
+                value={question.explanation ?? ''}
+                placeholder={localize('com_ui_quiz_explanation')}
+                onChange={(e) => onChange({ ...question, explanation: e.target.value })}
+                className={cn(inputClassName, 'min-h-[60px]')}
+              />
+            ) : (
+              question.explanation != null &&
+              question.explanation.length > 0 && (
+                <div>
+                  <span className="font-semibold">{localize('com_ui_quiz_explanation')}: </span>
+                  {question.explanation}
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+
+export default QuizQuestion;
@@ -0,0 +1,137 @@
+import { memo, useEffect, useState } from 'react';
+import download from 'downloadjs';
+import { Download, MessageSquareText, Pencil } from 'lucide-react';
+import { tRubricSchema, getRubricMaxPoints } from 'librechat-data-provider';
+import type { TRubric } from 'librechat-data-provider';
+import { rubricToCsv, getRubricExportFilename, cn } from '~/utils';
+import { useLocalize, useSaveRubric } from '~/hooks';
+import RubricFeedbackForm from './RubricFeedbackForm';
+import { useChatContext } from '~/Providers';
+import { Button } from '~/components/ui';
+import RubricTable from './RubricTable';
+
+type RubricProps = {
+  rubric: TRubric;
+};
+
+const Rubric = memo(({ rubric }: RubricProps) => {
+  const localize = useLocalize();
+  const saveRubric = useSaveRubric();
+  const { ask, isSubmitting } = useChatContext();
+  const [draft, setDraft] = useState<TRubric>(rubric);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showFeedbackForm, setShowFeedbackForm] = useState(false);
+  /** Editing and feedback require an active chat, e.g. not a shared link */
+  const isInteractive = typeof ask === 'function';
+  const isValid = tRubricSchema.safeParse(draft).success;
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDraft(rubric);
+    }
+  }, [rubric, isEditing]);
+
+  const handleSave = () => {
+    if (!isValid) {
+      return;
+    }
+    saveRubric(draft);
+    setIsEditing(false);
+  };
+
+  const handleCancel = () => {
+    setDraft(rubric);
+    setIsEditing(false);
+  };
+
+  const handleExport = () => {
+    const csv = rubricToCsv(rubric, { criterion: localize('com_ui_rubric_criterion') });
+    download(
+      new Blob([csv], { type: 'text/csv' }),
+      `${getRubricExportFilename(rubric.title)}.csv`,
+      'text/csv',
+    );
+  };
+
+  return (
+    <div className="not-prose my-2 space-y-4 rounded-xl border border-border-medium bg-surface-secondary p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">{draft.title}</h3>
+          <div className="text-sm text-text-secondary">
+            {[
+              draft.subject,
+              draft.gradeLevel,
+              localize('com_ui_rubric_total_points_var', { 0: getRubricMaxPoints(draft) }),
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </div>
+        </div>
+        {!isEditing && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              className="gap-1"
+            >
+              <Download className="h-4 w-4" />
+              {localize('com_ui_rubric_export_csv')}
+            </Button>
+            {isInteractive && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setIsEditing(true)}
+                disabled={isSubmitting}
+                className="gap-1"
+              >
+                <Pencil className="h-4 w-4" />
+                {localize('com_ui_rubric_edit')}
+              </Button>
+            )}
+            {isInteractive && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setShowFeedbackForm((prev) => !prev)}
+                className={cn('gap-1', showFeedbackForm && 'bg-surface-hover')}
+              >
+                <MessageSquareText className="h-4 w-4" />
+                {localize('com_ui_rubric_give_feedback')}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <RubricTable rubric={draft} isEditing={isEditing} onChange={setDraft} />
+
+      {isEditing && (
+        <div className="flex items-center justify-end gap-2">
+          {!isValid && (
+            <span className="mr-auto text-xs text-text-secondary">
+              {localize('com_ui_rubric_incomplete')}
+            </span>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={handleCancel}>
+            {localize('com_ui_cancel')}
+          </Button>
+          <Button type="button" variant="submit" size="sm" onClick={handleSave} disabled={!isValid}>
+            {localize('com_ui_save')}
+          </Button>
+        </div>
+      )}
+
+      {isInteractive && !isEditing && showFeedbackForm && (
+        <RubricFeedbackForm rubric={rubric} onSubmit={() => setShowFeedbackForm(false)} />
+      )}
+    </div>
+  );
+});
+
+export default Rubric;
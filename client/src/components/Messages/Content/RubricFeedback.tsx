@@ -0,0 +1,114 @@
+import { memo, useMemo } from 'react';
+import download from 'downloadjs';
+import { Download } from 'lucide-react';
+import { getRubricFeedbackTotals } from 'librechat-data-provider';
+import type { TRubricFeedback } from 'librechat-data-provider';
+import {
+  Button,
+  Table,
+  TableRow,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+} from '~/components/ui';
+import { rubricFeedbackToCsv, rubricFeedbackToPdf, getRubricExportFilename } from '~/utils';
+import type { TRubricExportLabels } from '~/utils';
+import { useLocalize } from '~/hooks';
+
+type RubricFeedbackProps = {
+  feedback: TRubricFeedback;
+};
+
+const RubricFeedback = memo(({ feedback }: RubricFeedbackProps) => {
+  const localize = useLocalize();
+  const totals = getRubricFeedbackTotals(feedback);
+
+  const labels = useMemo<TRubricExportLabels>(
+    () => ({
+      criterion: localize('com_ui_rubric_criterion'),
+      level: localize('com_ui_rubric_level'),
+      points: localize('com_ui_rubric_points'),
+      maxPoints: localize('com_ui_rubric_max_points'),
+      feedback: localize('com_ui_rubric_feedback'),
+      total: localize('com_ui_rubric_total'),
+      summary: localize('com_ui_rubric_summary'),
+      student: localize('com_ui_rubric_student'),
+    }),
+    [localize],
+  );
+
+  const filename = getRubricExportFilename(feedback.title, feedback.student);
+
+  const exportCsv = () => {
+    const csv = rubricFeedbackToCsv(feedback, labels);
+    download(new Blob([csv], { type: 'text/csv' }), `${filename}.csv`, 'text/csv');
+  };
+
+  const exportPdf = () => {
+    const pdf = rubricFeedbackToPdf(feedback, labels);
+    download(new Blob([pdf], { type: 'application/pdf' }), `${filename}.pdf`, 'application/pdf');
+  };
+
+  return (
+    <div className="not-prose my-2 space-y-4 rounded-xl border border-border-medium bg-surface-secondary p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">{feedback.title}</h3>
+          <div className="text-sm text-text-secondary">
+            {[
+              feedback.student,
+              localize('com_ui_rubric_score_var', { 0: totals.points, 1: totals.maxPoints }),
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={exportCsv} className="gap-1">
+            <Download className="h-4 w-4" />
+            {localize('com_ui_rubric_export_csv')}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={exportPdf} className="gap-1">
+            <Download className="h-4 w-4" />
+            {localize('com_ui_rubric_export_pdf')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-border-medium bg-surface-primary">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{labels.criterion}</TableHead>
+              <TableHead>{labels.level}</TableHead>
+              <TableHead>{labels.points}</TableHead>
+              <TableHead>{labels.feedback}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {feedback.scores.map((score, index) => (
+              <TableRow key={index}>
+                <TableCell className="align-top font-medium">{score.criterion}</TableCell>
+                <TableCell className="align-top">{score.level}</TableCell>
+                <TableCell className="whitespace-nowrap align-top">
+                  {score.points} / {score.maxPoints}
+                </TableCell>
+                <TableCell className="align-top text-sm">{score.feedback}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {feedback.summary != null && feedback.summary.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-sm font-semibold text-text-primary">{labels.summary}</h4>
+          <p className="whitespace-pre-wrap text-sm text-text-secondary">{feedback.summary}</p>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default RubricFeedback;
@@ -0,0 +1,104 @@
+import { useRef, useState } from 'react';
+import { Paperclip } from 'lucide-react';
+import { buildRubricFeedbackPrompt } from 'librechat-data-provider';
+import type { TRubric } from 'librechat-data-provider';
+import { Button, FileUpload, Input, Label, Textarea } from '~/components/ui';
+import { useFileHandling, useLocalize } from '~/hooks';
+import { useChatContext } from '~/Providers';
+import { cn } from '~/utils';
+
+type RubricFeedbackFormProps = {
+  rubric: TRubric;
+  onSubmit: () => void;
+};
+
+const inputClassName =
+  'bg-surface-secondary text-text-primary border-border-medium focus:border-border-heavy';
+
+/**
+ * Collects student work, pasted or uploaded as message attachments, and asks for
+ * per-criterion feedback on it in the current conversation.
+ */
+export default function RubricFeedbackForm({ rubric, onSubmit }: RubricFeedbackFormProps) {
+  const localize = useLocalize();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { ask, isSubmitting, filesLoading } = useChatContext();
+  const { handleFileChange, files } = useFileHandling();
+  const [student, setStudent] = useState('');
+  const [work, setWork] = useState('');
+
+  const fileCount = files.size;
+  const canSubmit = (work.trim().length > 0 || fileCount > 0) && !isSubmitting && !filesLoading;
+
+  const handleSubmit = () => {
+    if (!canSubmit) {
+      return;
+    }
+    ask({ text: buildRubricFeedbackPrompt(rubric, { work, student }) });
+    setWork('');
+    onSubmit();
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border-medium bg-surface-primary p-4">
+      <div className="space-y-1">
+        <Label htmlFor="rubric-student" className="text-sm text-text-primary">
+          {localize('com_ui_rubric_student')}
+        </Label>
+        <Input
+          id="rubric-student"
+          value={student}
+          onChange={(e) => setStudent(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="rubric-work" className="text-sm text-text-primary">
+          {localize('com_ui_rubric_student_work')}
+        </Label>
+        <Textarea
+          id="rubric-work"
+          value={work}
+          placeholder={localize('com_ui_rubric_student_work_placeholder')}
+          onChange={(e) => setWork(e.target.value)}
+          className={cn(inputClassName, 'min-h-[120px]')}
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <FileUpload ref={inputRef} handleFileChange={handleFileChange}>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            disabled={isSubmitting}
+            onClick={() => {
+              if (!inputRef.current) {
+                return;
+              }
+              inputRef.current.value = '';
+              inputRef.current.click();
+            }}
+          >
+            <Paperclip className="h-4 w-4" />
+            {localize('com_ui_rubric_upload_work')}
+          </Button>
+        </FileUpload>
+        {fileCount > 0 && (
+          <span className="text-xs text-text-secondary">
+            {localize('com_ui_rubric_files_attached_var', { 0: fileCount })}
+          </span>
+        )}
+        <Button
+          type="button"
+          variant="submit"
+          size="sm"
+          disabled={!canSubmit}
+          onClick={handleSubmit}
+        >
+          {localize('com_ui_rubric_get_feedback')}
+        </Button>
+      </div>
+    </div>
+  );
+}
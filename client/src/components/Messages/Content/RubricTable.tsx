@@ -0,0 +1,235 @@
+import { memo } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { TRubric, TRubricCriterion } from 'librechat-data-provider';
+import {
+  Input,
+  Table,
+  Textarea,
+  TableRow,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+} from '~/components/ui';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+type RubricTableProps = {
+  rubric: TRubric;
+  isEditing: boolean;
+  onChange: (rubric: TRubric) => void;
+};
+
+const inputClassName =
+  'bg-surface-secondary text-text-primary border-border-medium focus:border-border-heavy';
+
+const iconButtonClassName =
+  'rounded-md p-1 text-text-secondary hover:bg-surface-hover hover:text-text-primary';
+
+/** Minimum number of performance levels of a rubric */
+const MIN_LEVELS = 2;
+
+/** A criteria × performance-level table; when editing, every cell is an input */
+const RubricTable = memo(({ rubric, isEditing, onChange }: RubricTableProps) => {
+  const localize = useLocalize();
+
+  const updateCriterion = (index: number, update: Partial<TRubricCriterion>) => {
+    onChange({
+      ...rubric,
+      criteria: rubric.criteria.map((criterion, idx) =>
+        idx === index ? { ...criterion, ...update } : criterion,
+      ),
+    });
+  };
+
+  const updateDescriptor = (index: number, levelIndex: number, descriptor: string) => {
+    const descriptors = rubric.criteria[index].descriptors.map((value, idx) =>
+      idx === levelIndex ? descriptor : value,
+    );
+    updateCriterion(index, { descriptors });
+  };
+
+  const updateLevel = (levelIndex: number, update: { label?: string; points?: number }) => {
+    onChange({
+      ...rubric,
+      levels: rubric.levels.map((level, idx) =>
+        idx === levelIndex ? { ...level, ...update } : level,
+      ),
+    });
+  };
+
+  const addLevel = () => {
+    onChange({
+      ...rubric,
+      levels: [...rubric.levels, { label: '', points: 0 }],
+      criteria: rubric.criteria.map((criterion) => ({
+        ...criterion,
+        descriptors: [...criterion.descriptors, ''],
+      })),
+    });
+  };
+
+  const removeLevel = (levelIndex: number) => {
+    onChange({
+      ...rubric,
+      levels: rubric.levels.filter((_level, idx) => idx !== levelIndex),
+      criteria: rubric.criteria.map((criterion) => ({
+        ...criterion,
+        descriptors: criterion.descriptors.filter((_descriptor, idx) => idx !== levelIndex),
+      })),
+    });
+  };
+
+  const addCriterion = () => {
+    onChange({
+      ...rubric,
+      criteria: [...rubric.criteria, { name: '', descriptors: rubric.levels.map(() => '') }],
+    });
+  };
+
+  const removeCriterion = (index: number) => {
+    onChange({ ...rubric, criteria: rubric.criteria.filter((_criterion, idx) => idx !== index) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-xl border border-border-medium bg-surface-primary">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[160px]">{localize('com_ui_rubric_criterion')}</TableHead>
+              {rubric.levels.map((level, levelIndex) => (
+                <TableHead key={levelIndex} className="min-w-[160px] align-top">
+                  {isEditing ? (
+                    <div className="flex items-center gap-1 py-1">
+                      <Input
+                        value={level.label}
+                        placeholder={localize('com_ui_rubric_level')}
+                        aria-label={localize('com_ui_rubric_level')}
+                        onChange={(e) => updateLevel(levelIndex, { label: e.target.value })}
+                        className={cn(inputClassName, 'h-8')}
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={level.points}
+                        aria-label={localize('com_ui_rubric_points')}
+                        onChange={(e) =>
+                          updateLevel(levelIndex, { points: Math.max(Number(e.target.value), 0) })
+                        }
+                        className={cn(inputClassName, 'h-8 w-16')}
+                      />
+                      {rubric.levels.length > MIN_LEVELS && (
+                        <button
+                          type="button"
+                          onClick={() => removeLevel(levelIndex)}
+                          className={iconButtonClassName}
+                          aria-label={localize('com_ui_rubric_remove_level')}
+                          title={localize('com_ui_rubric_remove_level')}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ) : (
+                    <span>
+                      {level.label}{' '}
+                      <span className="font-normal text-text-secondary">
+                        ({localize('com_ui_rubric_points_var', { 0: level.points })})
+                      </span>
+                    </span>
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rubric.criteria.map((criterion, index) => (
+              <TableRow key={index}>
+                <TableCell className="align-top">
+                  {isEditing ? (
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={criterion.name}
+                          placeholder={localize('com_ui_rubric_criterion')}
+                          aria-label={localize('com_ui_rubric_criterion')}
+                          onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                          className={cn(inputClassName, 'h-8')}
+                        />
+                        {rubric.criteria.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => removeCriterion(index)}
+                            className={iconButtonClassName}
+                            aria-label={localize('com_ui_rubric_remove_criterion')}
+                            title={localize('com_ui_rubric_remove_criterion')}
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                      <Input
+                        value={criterion.description ?? ''}
+                        placeholder={localize('com_ui_description')}
+                        aria-label={localize('com_ui_description')}
+                        onChange={(e) =>
+                          updateCriterion(index, { description: e.target.value || undefined })
+                        }
+                        className={cn(inputClassName, 'h-8')}
+                      />
+                    </div>
+                  ) : (
+                    <div>
+                      <div className="font-medium text-text-primary">{criterion.name}</div>
+                      {criterion.description != null && (
+                        <div className="text-xs text-text-secondary">{criterion.description}</div>
+                      )}
+                    </div>
+                  )}
+                </TableCell>
+                {criterion.descriptors.map((descriptor, levelIndex) => (
+                  <TableCell key={levelIndex} className="align-top text-sm">
+                    {isEditing ? (
+                      <Textarea
+                        value={descriptor}
+                        aria-label={`${criterion.name} – ${rubric.levels[levelIndex]?.label ?? ''}`}
+                        onChange={(e) => updateDescriptor(index, levelIndex, e.target.value)}
+                        className={cn(inputClassName, 'min-h-[80px]')}
+                      />
+                    ) : (
+                      descriptor
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {isEditing && (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={addCriterion}
+            className="flex items-center gap-1 text-sm text-text-secondary hover:text-text-primary"
+          >
+            <Plus className="h-4 w-4" />
+            {localize('com_ui_rubric_add_criterion')}
+          </button>
+          <button
+            type="button"
+            onClick={addLevel}
+            className="flex items-center gap-1 text-sm text-text-secondary hover:text-text-primary"
+          >
+            <Plus className="h-4 w-4" />
+            {localize('com_ui_rubric_add_level')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default RubricTable;
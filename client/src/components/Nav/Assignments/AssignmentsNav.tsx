@@ -0,0 +1,85 @@
+import { type FC } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ClipboardList } from 'lucide-react';
+import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
+import type { TAssignment } from 'librechat-data-provider';
+import { useGetAssignmentsQuery } from '~/data-provider';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+type AssignmentsNavProps = {
+  isSmallScreen: boolean;
+  toggleNav: () => void;
+};
+
+const AssignmentsNav: FC<AssignmentsNavProps> = ({ isSmallScreen, toggleNav }) => {
+  const localize = useLocalize();
+  const navigate = useNavigate();
+  const { data: assignments = [] } = useGetAssignmentsQuery();
+
+  if (!assignments.length) {
+    return null;
+  }
+
+  const getStatus = (assignment: TAssignment) => {
+    if (assignment.isTeacher) {
+      return localize('com_ui_assignment_submissions_var', { 0: assignment.submissionCount ?? 0 });
+    }
+    if (assignment.submission) {
+      return localize('com_ui_assignment_submitted_status');
+    }
+    if (new Date(assignment.dueAt).getTime() <= Date.now()) {
+      return localize('com_ui_assignment_past_due_status');
+    }
+    return localize('com_ui_assignment_due_var', {
+      0: new Date(assignment.dueAt).toLocaleDateString(),
+    });
+  };
+
+  const handleSelect = (assignmentId: string) => {
+    navigate(`/d/assignments/${assignmentId}`);
+    if (isSmallScreen) {
+      toggleNav();
+    }
+  };
+
+  return (
+    <Menu as="div" className="group relative">
+      {({ open }) => (
+        <>
+          <MenuButton
+            className={cn(
+              'flex w-full items-center justify-start gap-3 rounded-md bg-transparent px-3 py-3 text-sm text-text-primary transition-colors duration-200 hover:bg-surface-active-alt',
+              open ? 'bg-surface-active-alt' : '',
+              isSmallScreen ? 'h-12' : '',
+            )}
+            data-testid="assignments-menu"
+          >
+            <ClipboardList className="h-4 w-4" />
+            {localize('com_ui_assignments')}
+          </MenuButton>
+          <MenuItems className="absolute left-0 top-full z-[100] mt-1 max-h-80 w-full overflow-y-auto rounded-lg bg-surface-active-alt p-1.5 shadow-lg outline-none">
+            {assignments.map((assignment) => (
+              <MenuItem key={assignment._id}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(assignment._id)}
+                  className="flex w-full flex-col items-start rounded-md px-2 py-1.5 text-left data-[focus]:bg-surface-hover"
+                >
+                  <span className="w-full truncate text-sm text-text-primary">
+                    {assignment.title}
+                  </span>
+                  <span className="w-full truncate text-xs text-text-secondary">
+                    {assignment.className} · {getStatus(assignment)}
+                  </span>
+                </button>
+              </MenuItem>
+            ))}
+          </MenuItems>
+        </>
+      )}
+    </Menu>
+  );
+};
+
+export default AssignmentsNav;
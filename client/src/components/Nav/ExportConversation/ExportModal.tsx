@@ -4,6 +4,7 @@ import type { TConversation } from 'librechat-data-provider';
 import { OGDialog, Button, Input, Label, Checkbox, Dropdown } from '~/components/ui';
 import OGDialogTemplate from '~/components/ui/OGDialogTemplate';
 import { useLocalize, useExportConversation } from '~/hooks';
+import { QuizExportTypes, isQuizExportType } from '~/utils';
 
 export default function ExportModal({
   open,
@@ -33,6 +34,9 @@ export default function ExportModal({
     { value: 'markdown', label: 'markdown (.md)' },
     { value: 'json', label: 'json (.json)' },
     { value: 'csv', label: 'csv (.csv)' },
+    { value: QuizExportTypes.QTI, label: 'QTI 2.1 quiz (.zip)' },
+    { value: QuizExportTypes.GIFT, label: 'Moodle GIFT quiz (.txt)' },
+    { value: QuizExportTypes.AIKEN, label: 'Aiken quiz (.txt)' },
   ];
 
   useEffect(() => {
@@ -51,7 +55,8 @@ export default function ExportModal({
 
   const _setType = (newType: string) => {
     const exportBranchesSupport = newType === 'json' || newType === 'csv' || newType === 'webpage';
-    const exportOptionsSupport = newType !== 'csv' && newType !== 'screenshot';
+    const exportOptionsSupport =
+      newType !== 'csv' && newType !== 'screenshot' && !isQuizExportType(newType);
 
     setExportBranches(exportBranchesSupport);
     setIncludeOptions(exportOptionsSupport);
@@ -59,7 +64,8 @@ export default function ExportModal({
   };
 
   const exportBranchesSupport = type === 'json' || type === 'csv' || type === 'webpage';
-  const exportOptionsSupport = type !== 'csv' && type !== 'screenshot';
+  const exportOptionsSupport =
+    type !== 'csv' && type !== 'screenshot' && !isQuizExportType(type);
 
   const { exportConversation } = useExportConversation({
     conversation,
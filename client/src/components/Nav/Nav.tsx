@@ -14,6 +14,8 @@ import { useConversationsInfiniteQuery } from '~/data-provider';
 import { Conversations } from '~/components/Conversations';
 import BookmarkNav from './Bookmarks/BookmarkNav';
 import TeacherTools from './TeacherTools/TeacherTools';
+import AssignmentsNav from './Assignments/AssignmentsNav';
+import TutorAuditNav from './Tutor/TutorAuditNav';
 import AccountSettings from './AccountSettings';
 import { useSearchContext } from '~/Providers';
 import { Spinner } from '~/components/svg';
@@ -180,6 +182,14 @@ const Nav = ({
                             isSmallScreen={isSmallScreen}
                             toggleNav={itemToggleNav}
                           />
+                          <AssignmentsNav
+                            isSmallScreen={isSmallScreen}
+                            toggleNav={itemToggleNav}
+                          />
+                          <TutorAuditNav
+                            isSmallScreen={isSmallScreen}
+                            toggleNav={itemToggleNav}
+                          />
                         </>
                       }
                     />
@@ -0,0 +1,196 @@
+import * as Ariakit from '@ariakit/react';
+import { useMemo, useEffect, useState } from 'react';
+import { ShieldEllipsis } from 'lucide-react';
+import { useForm, Controller } from 'react-hook-form';
+import { Permissions, SystemRoles, roleDefaults, PermissionTypes } from 'librechat-data-provider';
+import type { TTeacherTool, TTeacherToolsPermissions } from 'librechat-data-provider';
+import type { Control } from 'react-hook-form';
+import { OGDialog, OGDialogTitle, OGDialogContent, OGDialogTrigger } from '~/components/ui';
+import { useUpdateTeacherToolsPermissionsMutation } from '~/data-provider';
+import { Button, Switch, DropdownPopup } from '~/components/ui';
+import { useLocalize, useAuthContext } from '~/hooks';
+import { useToastContext } from '~/Providers';
+
+type FormValues = {
+  [Permissions.USE]: boolean;
+  TOOLS: Record<string, boolean>;
+};
+
+type SwitchControllerProps = {
+  name: `${Permissions.USE}` | `TOOLS.${string}`;
+  label: string;
+  control: Control<FormValues>;
+  disabled?: boolean;
+};
+
+const SwitchController: React.FC<SwitchControllerProps> = ({ name, label, control, disabled }) => (
+  <Controller
+    name={name}
+    control={control}
+    render={({ field }) => (
+      <label className="mb-4 flex cursor-pointer select-none items-center justify-between gap-2">
+        <span className={disabled === true ? 'text-text-secondary' : ''}>{label}</span>
+        <Switch
+          checked={field.value === true}
+          disabled={disabled}
+          onCheckedChange={field.onChange}
+          value={String(field.value)}
+        />
+      </label>
+    )}
+  />
+);
+
+/** Builds form values from a role's permissions; tools without an override are enabled */
+const getFormValues = (
+  permissions: Partial<TTeacherToolsPermissions> | undefined,
+  tools: TTeacherTool[],
+): FormValues => ({
+  [Permissions.USE]: permissions?.[Permissions.USE] === true,
+  TOOLS: Object.fromEntries(
+    tools.map((tool) => [tool.id, permissions?.TOOLS?.[tool.id] !== false]),
+  ),
+});
+
+const AdminSettings = ({ tools }: { tools: TTeacherTool[] }) => {
+  const localize = useLocalize();
+  const { user, roles } = useAuthContext();
+  const { showToast } = useToastContext();
+  const { mutate, isLoading } = useUpdateTeacherToolsPermissionsMutation({
+    onSuccess: () => {
+      showToast({ status: 'success', message: localize('com_ui_saved') });
+    },
+    onError: () => {
+      showToast({ status: 'error', message: localize('com_ui_error_save_admin_settings') });
+    },
+  });
+
+  const [isRoleMenuOpen, setIsRoleMenuOpen] = useState(false);
+  const [selectedRole, setSelectedRole] = useState<SystemRoles>(SystemRoles.TEACHER);
+
+  const permissions = useMemo(
+    () =>
+      roles?.[selectedRole]?.[PermissionTypes.TEACHER_TOOLS] ??
+      roleDefaults[selectedRole][PermissionTypes.TEACHER_TOOLS],
+    [roles, selectedRole],
+  );
+
+  const {
+    reset,
+    watch,
+    control,
+    handleSubmit,
+    formState: { isSubmitting },
+  } = useForm<FormValues>({
+    mode: 'onChange',
+    defaultValues: getFormValues(permissions, tools),
+  });
+
+  useEffect(() => {
+    reset(getFormValues(permissions, tools));
+  }, [permissions, tools, reset]);
+
+  if (user?.role !== SystemRoles.ADMIN) {
+    return null;
+  }
+
+  const canUse = watch(Permissions.USE);
+
+  const onSubmit = (data: FormValues) => {
+    mutate({
+      roleName: selectedRole,
+      updates: {
+        [Permissions.USE]: data[Permissions.USE],
+        TOOLS: { ...permissions.TOOLS, ...data.TOOLS },
+      },
+    });
+  };
+
+  const roleDropdownItems = [
+    SystemRoles.USER,
+    SystemRoles.TEACHER,
+    SystemRoles.STUDENT,
+    SystemRoles.ADMIN,
+  ].map((role) => ({
+    label: role,
+    onClick: () => {
+      setSelectedRole(role);
+    },
+  }));
+
+  return (
+    <OGDialog>
+      <OGDialogTrigger asChild>
+        <Button
+          size={'sm'}
+          variant={'outline'}
+          className="btn btn-neutral border-token-border-light relative h-9 w-full gap-1 rounded-lg font-medium"
+        >
+          <ShieldEllipsis className="cursor-pointer" aria-hidden="true" />
+          {localize('com_ui_admin_settings')}
+        </Button>
+      </OGDialogTrigger>
+      <OGDialogContent className="w-1/4 border-border-light bg-surface-primary text-text-primary">
+        <OGDialogTitle>{`${localize('com_ui_admin_settings')} - ${localize(
+          'com_ui_teacher_tools',
+        )}`}</OGDialogTitle>
+        <div className="p-2">
+          {/* Role selection dropdown */}
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{localize('com_ui_role_select')}:</span>
+            <DropdownPopup
+              menuId="teacher-tools-role-dropdown"
+              isOpen={isRoleMenuOpen}
+              setIsOpen={setIsRoleMenuOpen}
+              trigger={
+                <Ariakit.MenuButton className="inline-flex w-1/4 items-center justify-center rounded-lg border border-border-light bg-transparent px-2 py-1 text-text-primary transition-all ease-in-out hover:bg-surface-tertiary">
+                  {selectedRole}
+                </Ariakit.MenuButton>
+              }
+              items={roleDropdownItems}
+              itemClassName="items-center justify-center"
+              sameWidth={true}
+            />
+          </div>
+          {/* Permissions form */}
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="py-5">
+              <SwitchController
+                name={Permissions.USE}
+                label={localize('com_ui_teacher_tools_allow_use')}
+                control={control}
+              />
+              {tools.length > 0 && (
+                <div className="border-t border-border-light pt-4">
+                  <div className="mb-3 text-sm font-medium text-text-secondary">
+                    {localize('com_ui_teacher_tools_allowed')}
+                  </div>
+                  {tools.map((tool) => (
+                    <SwitchController
+                      key={tool.id}
+                      name={`TOOLS.${tool.id}`}
+                      label={tool.title}
+                      control={control}
+                      disabled={!canUse}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSubmitting || isLoading}
+                className="btn rounded bg-green-500 font-bold text-white transition-all hover:bg-green-600"
+              >
+                {localize('com_ui_save')}
+              </button>
+            </div>
+          </form>
+        </div>
+      </OGDialogContent>
+    </OGDialog>
+  );
+};
+
+export default AdminSettings;
@@ -0,0 +1,105 @@
+import { type FC, useState } from 'react';
+import { Check, Search, X } from 'lucide-react';
+import type { TStandard } from 'librechat-data-provider';
+import { useGetStandardsQuery } from '~/data-provider';
+import { useDebounce, useLocalize } from '~/hooks';
+import { Input } from '~/components/ui/Input';
+import { cn } from '~/utils';
+
+type StandardsPickerProps = {
+  selected: TStandard[];
+  onChange: (standards: TStandard[]) => void;
+  placeholder?: string;
+};
+
+const StandardsPicker: FC<StandardsPickerProps> = ({ selected, onChange, placeholder }) => {
+  const localize = useLocalize();
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search, 300);
+  const { data, isLoading } = useGetStandardsQuery({ search: debouncedSearch, limit: 25 });
+
+  const selectedCodes = new Set(selected.map((standard) => standard.code));
+  const results = data?.standards ?? [];
+
+  const toggleStandard = (standard: TStandard) => {
+    if (selectedCodes.has(standard.code)) {
+      onChange(selected.filter((item) => item.code !== standard.code));
+      return;
+    }
+    onChange([...selected, standard]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((standard) => (
+            <span
+              key={standard.code}
+              title={standard.description}
+              className="flex items-center gap-1 rounded-full border border-border-medium bg-surface-tertiary px-2 py-1 text-xs text-text-primary"
+            >
+              {standard.code}
+              <button
+                type="button"
+                onClick={() => toggleStandard(standard)}
+                className="rounded-full hover:bg-surface-hover"
+                aria-label={localize('com_ui_standards_remove', { 0: standard.code })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-text-secondary" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={placeholder ?? localize('com_ui_standards_search')}
+          className="bg-surface-secondary pl-9 text-text-primary border-border-medium focus:border-border-heavy"
+        />
+      </div>
+
+      <div
+        role="listbox"
+        aria-multiselectable="true"
+        className="max-h-[200px] overflow-y-auto rounded-md border border-border-medium"
+      >
+        {results.length === 0 && (
+          <div className="px-3 py-2 text-sm text-text-secondary">
+            {isLoading ? localize('com_ui_loading') : localize('com_ui_standards_no_results')}
+          </div>
+        )}
+        {results.map((standard) => {
+          const isSelected = selectedCodes.has(standard.code);
+          return (
+            <button
+              key={standard.code}
+              type="button"
+              role="option"
+              aria-selected={isSelected}
+              onClick={() => toggleStandard(standard)}
+              className={cn(
+                'flex w-full items-start gap-2 px-3 py-2 text-left text-sm hover:bg-surface-hover',
+                isSelected && 'bg-surface-tertiary',
+              )}
+            >
+              <Check
+                className={cn('mt-0.5 h-4 w-4 shrink-0', isSelected ? 'opacity-100' : 'opacity-0')}
+              />
+              <span>
+                <span className="font-medium text-text-primary">{standard.code}</span>
+                <span className="block text-text-secondary">{standard.description}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StandardsPicker;
@@ -0,0 +1,150 @@
+import { type FC, useState } from 'react';
+import { useRecoilValue } from 'recoil';
+import { ArrowLeft } from 'lucide-react';
+import { TeacherToolFieldTypes, formatStandardsForPrompt } from 'librechat-data-provider';
+import type { TStandard, TTeacherTool, TTeacherToolField } from 'librechat-data-provider';
+import type { TTeacherToolValues } from '~/utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/Select';
+import { Textarea } from '~/components/ui/Textarea';
+import { Button } from '~/components/ui/Button';
+import { Input } from '~/components/ui/Input';
+import { Label } from '~/components/ui/Label';
+import { useSubmitTeacherTool } from '~/hooks';
+import { cn, getTeacherToolDefaults } from '~/utils';
+import StandardsPicker from './StandardsPicker';
+import store from '~/store';
+
+interface TeacherToolFormProps {
+  tool: TTeacherTool;
+  onBack: () => void;
+  /** Called once the prompt is queued, so the dialog can close over the streaming chat */
+  onSubmit: () => void;
+}
+
+const fieldClassName = cn(
+  'bg-surface-secondary text-text-primary border-border-medium',
+  'focus:border-border-heavy focus:ring-1 focus:ring-border-heavy',
+);
+
+const ToolField: FC<{
+  field: TTeacherToolField;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ field, value, onChange }) => {
+  if (field.type === TeacherToolFieldTypes.SELECT) {
+    return (
+      <Select value={value} onValueChange={onChange} required={field.required}>
+        <SelectTrigger className="bg-surface-secondary text-text-primary border-border-medium">
+          <SelectValue placeholder={field.placeholder ?? field.label} />
+        </SelectTrigger>
+        <SelectContent
+          className="bg-surface-secondary text-text-primary border-border-medium max-h-[200px] overflow-y-auto"
+          position="popper"
+          sideOffset={5}
+        >
+          {(field.options ?? []).map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (field.type === TeacherToolFieldTypes.TEXTAREA) {
+    return (
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={field.placeholder}
+        className={cn(fieldClassName, 'min-h-[100px]')}
+        required={field.required}
+      />
+    );
+  }
+
+  const isNumber = field.type === TeacherToolFieldTypes.NUMBER;
+  return (
+    <Input
+      type={isNumber ? 'number' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={field.placeholder}
+      className={fieldClassName}
+      required={field.required}
+      min={isNumber ? field.min : undefined}
+      max={isNumber ? field.max : undefined}
+    />
+  );
+};
+
+export const TeacherToolForm: FC<TeacherToolFormProps> = ({ tool, onBack, onSubmit }) => {
+  const isSubmitting = useRecoilValue(store.isSubmittingFamily(0));
+  const { endpointOption, submitTool } = useSubmitTeacherTool(tool);
+  const [values, setValues] = useState<TTeacherToolValues>(() =>
+    getTeacherToolDefaults(tool.fields),
+  );
+  const [standards, setStandards] = useState<Record<string, TStandard[]>>({});
+
+  const handleStandardsChange = (field: TTeacherToolField, selected: TStandard[]) => {
+    setStandards((prev) => ({ ...prev, [field.name]: selected }));
+    setValues((prev) => ({ ...prev, [field.name]: formatStandardsForPrompt(selected) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const codes = Object.values(standards).flatMap((selected) => selected.map(({ code }) => code));
+    if (submitTool(values, codes.length ? [...new Set(codes)] : undefined)) {
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="space-y-6 overflow-y-auto px-1">
+      <div className="flex items-center gap-4 top-0 sticky py-2 z-10">
+        <Button variant="ghost" onClick={onBack} className="p-2 hover:bg-surface-hover">
+          <ArrowLeft className="h-4 w-4 text-text-primary" />
+        </Button>
+        <h2 className="text-xl font-semibold text-text-primary">{tool.title}</h2>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 pb-4">
+        {tool.fields.map((field) => (
+          <div key={field.name} className="space-y-2">
+            <Label className="text-sm text-text-secondary">
+              {field.label}
+              {field.required !== true && ' (Optional)'}
+            </Label>
+            {field.type === TeacherToolFieldTypes.STANDARDS ? (
+              <StandardsPicker
+                selected={standards[field.name] ?? []}
+                placeholder={field.placeholder}
+                onChange={(selected) => handleStandardsChange(field, selected)}
+              />
+            ) : (
+              <ToolField
+                field={field}
+                value={values[field.name] ?? ''}
+                onChange={(value) => setValues((prev) => ({ ...prev, [field.name]: value }))}
+              />
+            )}
+          </div>
+        ))}
+
+        <Button
+          type="submit"
+          className={cn(
+            'w-full bg-surface-primary hover:bg-surface-hover',
+            'text-text-primary transition-colors duration-200',
+          )}
+          disabled={isSubmitting || !endpointOption}
+        >
+          {isSubmitting ? 'Generating...' : 'Generate'}
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TeacherToolForm;
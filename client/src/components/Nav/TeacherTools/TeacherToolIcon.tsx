@@ -0,0 +1,40 @@
+import {
+  Table,
+  Sparkles,
+  BookOpen,
+  FileText,
+  Lightbulb,
+  ListChecks,
+  PencilRuler,
+  ClipboardList,
+  GraduationCap,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { cn } from '~/utils';
+
+const knownIcons: Record<string, LucideIcon | undefined> = {
+  'book-open': BookOpen,
+  'clipboard-list': ClipboardList,
+  'file-text': FileText,
+  'graduation-cap': GraduationCap,
+  lightbulb: Lightbulb,
+  'list-checks': ListChecks,
+  'pencil-ruler': PencilRuler,
+  sparkles: Sparkles,
+  table: Table,
+};
+
+export default function TeacherToolIcon({
+  icon,
+  className = '',
+}: {
+  icon?: string;
+  className?: string;
+}) {
+  if (icon != null && /^(https?:\/\/|\/)/.test(icon)) {
+    return <img src={icon} alt="" className={cn('h-5 w-5 object-contain', className)} />;
+  }
+
+  const Icon = (icon != null ? knownIcons[icon] : undefined) ?? GraduationCap;
+  return <Icon className={cn('h-5 w-5 text-text-primary', className)} />;
+}
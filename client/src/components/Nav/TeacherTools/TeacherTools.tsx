@@ -1,10 +1,13 @@
-import { type FC, useState } from 'react';
+import { type FC, useMemo, useState } from 'react';
 import { Menu, MenuButton } from '@headlessui/react';
 import { GraduationCap } from 'lucide-react';
+import { SystemRoles, PermissionTypes, hasTeacherToolAccess } from 'librechat-data-provider';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '~/components/ui/Dialog';
-import { QuizForm } from './QuizForm';
-import { LessonPlanForm } from './LessonPlanForm';
-import { AgentQuizForm } from './QuizForm_Agent';
+import { useGetStartupConfig } from '~/data-provider';
+import { useAuthContext, useLocalize } from '~/hooks';
+import TeacherToolIcon from './TeacherToolIcon';
+import TeacherToolForm from './TeacherToolForm';
+import AdminSettings from './AdminSettings';
 import { cn } from '~/utils';
 
 type TeacherToolsProps = {
@@ -12,47 +15,34 @@ type TeacherToolsProps = {
   toggleNav: () => void;
 };
 
-const tools = [
-  {
-    id: 'agentquiz' as const,
-    title: 'Agent Quiz Maker',
-    description: 'Create interactive quizzes and assessments for your students.',
-    icon: GraduationCap,
-  },
-  {
-    id: 'lesson' as const,
-    title: 'Lesson Planner',
-    description: 'Design and organize lesson plans with AI assistance.',
-    icon: GraduationCap,
-  },
-  {
-    id: 'quiz' as const,
-    title: 'Quiz Maker',
-    description: 'Use Agents Create interactive quizzes and assessments for your students.',
-    icon: GraduationCap,
-  },
-] as const;
-
-type ToolType = typeof tools[number]['id'];
-
 const TeacherTools: FC<TeacherToolsProps> = ({ isSmallScreen, toggleNav }) => {
+  const localize = useLocalize();
+  const { user, roles } = useAuthContext();
+  const { data: startupConfig } = useGetStartupConfig();
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTool, setActiveTool] = useState<ToolType | null>(null);
+  const [activeToolId, setActiveToolId] = useState<string | null>(null);
+
+  const allTools = useMemo(() => startupConfig?.teacherTools?.list ?? [], [startupConfig]);
+  const tools = useMemo(() => {
+    const permissions = roles?.[user?.role ?? '']?.[PermissionTypes.TEACHER_TOOLS];
+    return allTools.filter((tool) => hasTeacherToolAccess(permissions, tool.id));
+  }, [allTools, roles, user?.role]);
+  const activeTool = tools.find((tool) => tool.id === activeToolId);
 
   const handleClose = () => {
     setIsOpen(false);
-    setActiveTool(null);
+    setActiveToolId(null);
   };
 
   const handleBack = () => {
-    setActiveTool(null);
+    setActiveToolId(null);
   };
 
-  const getDialogTitle = () => {
-    if (activeTool === null) {return 'Teacher Tools';}
-    const tool = tools.find(t => t.id === activeTool);
-    return tool?.title ?? 'Teacher Tools';
-  };
+  /** Admins keep the menu so they can restore access from the admin settings */
+  const isAdmin = user?.role === SystemRoles.ADMIN;
+  if (!tools.length && !(isAdmin && allTools.length)) {
+    return null;
+  }
 
   return (
     <Menu as="div" className="group relative">
@@ -67,25 +57,25 @@ const TeacherTools: FC<TeacherToolsProps> = ({ isSmallScreen, toggleNav }) => {
             onClick={() => setIsOpen(true)}
           >
             <GraduationCap className="h-4 w-4" />
-            Teacher Tools
+            {localize('com_ui_teacher_tools')}
           </MenuButton>
 
           <Dialog open={isOpen} onOpenChange={handleClose}>
             <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto bg-surface-primary border-border-medium">
               <DialogHeader>
                 <DialogTitle className="text-xl font-semibold text-text-primary">
-                  {getDialogTitle()}
+                  {activeTool?.title ?? localize('com_ui_teacher_tools')}
                 </DialogTitle>
               </DialogHeader>
 
-              {activeTool === null ? (
+              {activeTool == null ? (
                 <div className="p-6 space-y-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {tools.map((tool) => (
                       <button
                         key={tool.id}
                         onClick={() => {
-                          setActiveTool(tool.id);
+                          setActiveToolId(tool.id);
                           if (isSmallScreen) {
                             toggleNav();
                           }
@@ -94,24 +84,30 @@ const TeacherTools: FC<TeacherToolsProps> = ({ isSmallScreen, toggleNav }) => {
                       >
                         <div className="flex items-center space-x-3 w-full">
                           <div className="rounded-lg bg-surface-tertiary p-2">
-                            <tool.icon className="h-5 w-5 text-text-primary" />
+                            <TeacherToolIcon icon={tool.icon} />
                           </div>
                           <h3 className="text-lg font-medium text-text-primary">
                             {tool.title}
                           </h3>
                         </div>
-                        <p className="text-sm text-text-secondary leading-relaxed text-left text-wrap">
-                          {tool.description}
-                        </p>
+                        {tool.description != null && (
+                          <p className="text-sm text-text-secondary leading-relaxed text-left text-wrap">
+                            {tool.description}
+                          </p>
+                        )}
                       </button>
                     ))}
                   </div>
+                  <AdminSettings tools={allTools} />
                 </div>
               ) : (
                 <div className="p-6">
-                  {activeTool === 'agentquiz' && <AgentQuizForm onBack={handleBack} />}
-                  {activeTool === 'lesson' && <LessonPlanForm onBack={handleBack} />}
-                  {activeTool === 'quiz' && <QuizForm onBack={handleBack} />}
+                  <TeacherToolForm
+                    key={activeTool.id}
+                    tool={activeTool}
+                    onBack={handleBack}
+                    onSubmit={handleClose}
+                  />
                 </div>
               )}
             </DialogContent>
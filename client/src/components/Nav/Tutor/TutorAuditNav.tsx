@@ -0,0 +1,48 @@
+import { type FC } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldCheck } from 'lucide-react';
+import { SystemRoles } from 'librechat-data-provider';
+import { useAuthContext, useLocalize } from '~/hooks';
+import { useGetStartupConfig } from '~/data-provider';
+import { cn } from '~/utils';
+
+type TutorAuditNavProps = {
+  isSmallScreen: boolean;
+  toggleNav: () => void;
+};
+
+const TutorAuditNav: FC<TutorAuditNavProps> = ({ isSmallScreen, toggleNav }) => {
+  const localize = useLocalize();
+  const navigate = useNavigate();
+  const { user } = useAuthContext();
+  const { data: startupConfig } = useGetStartupConfig();
+
+  const isTeacher = user?.role === SystemRoles.TEACHER || user?.role === SystemRoles.ADMIN;
+  if (startupConfig?.tutorMode?.audit !== true || !isTeacher) {
+    return null;
+  }
+
+  const handleClick = () => {
+    navigate('/d/tutor-audit');
+    if (isSmallScreen) {
+      toggleNav();
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={cn(
+        'flex w-full items-center justify-start gap-3 rounded-md bg-transparent px-3 py-3 text-sm text-text-primary transition-colors duration-200 hover:bg-surface-active-alt',
+        isSmallScreen ? 'h-12' : '',
+      )}
+      data-testid="tutor-audit-nav"
+    >
+      <ShieldCheck className="h-4 w-4" />
+      {localize('com_ui_tutor_audit')}
+    </button>
+  );
+};
+
+export default TutorAuditNav;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import * as DialogPrimitive from '@radix-ui/react-dialog';
+import type { TMCPPrompt } from 'librechat-data-provider';
+import {
+  OGDialog,
+  OGDialogTitle,
+  OGDialogContent,
+  TextareaAutosize,
+  Button,
+} from '~/components/ui';
+import { useLocalize, useSubmitMessage } from '~/hooks';
+import { useGetMCPPromptMutation } from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { cn, defaultTextProps } from '~/utils';
+import PromptVariables from '../PromptVariables';
+
+interface MCPPromptDialogProps extends Omit<DialogPrimitive.DialogProps, 'onOpenChange'> {
+  onClose: () => void;
+  prompt: TMCPPrompt | null;
+}
+
+/** Collects the arguments of an MCP prompt, then sends the prompt the server returns */
+const MCPPromptDialog: React.FC<MCPPromptDialogProps> = ({ open, onClose, prompt }) => {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { submitPrompt } = useSubmitMessage();
+  const getPrompt = useGetMCPPromptMutation();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+  }, [prompt]);
+
+  if (!prompt?.arguments?.length) {
+    return null;
+  }
+
+  const promptArguments = prompt.arguments;
+  const isComplete = promptArguments.every(
+    (arg) => arg.required !== true || (values[arg.name] ?? '').trim().length > 0,
+  );
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      onClose();
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isComplete) {
+      return;
+    }
+    getPrompt.mutate(
+      { serverName: prompt.serverName, name: prompt.name, arguments: values },
+      {
+        onSuccess: (data) => {
+          submitPrompt(data.text);
+          onClose();
+        },
+        onError: () => showToast({ message: localize('com_ui_mcp_prompt_error'), status: 'error' }),
+      },
+    );
+  };
+
+  return (
+    <OGDialog open={open} onOpenChange={handleOpenChange}>
+      <OGDialogContent className="max-w-full bg-white dark:border-gray-700 dark:bg-gray-850 dark:text-gray-300 md:max-w-3xl">
+        <OGDialogTitle>{prompt.name}</OGDialogTitle>
+        <div className="mx-auto w-full space-y-4 p-1">
+          <div className="text-sm text-text-secondary">
+            {[prompt.serverName, prompt.description].filter(Boolean).join(' · ')}
+          </div>
+          <PromptVariables
+            promptVariables={promptArguments.map((arg) => arg.name)}
+            showInfo={false}
+          />
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {promptArguments.map((arg) => (
+              <div key={arg.name} className="flex flex-col space-y-1">
+                <label htmlFor={`mcp-prompt-${arg.name}`} className="text-sm text-text-primary">
+                  {arg.name}
+                  {arg.required === true && <span className="text-red-500"> *</span>}
+                </label>
+                {arg.description != null && arg.description.length > 0 && (
+                  <span className="text-xs text-text-secondary">{arg.description}</span>
+                )}
+                <TextareaAutosize
+                  id={`mcp-prompt-${arg.name}`}
+                  value={values[arg.name] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [arg.name]: e.target.value }))}
+                  className={cn(defaultTextProps, 'rounded px-3 py-2 focus:bg-surface-tertiary')}
+                  placeholder={localize('com_ui_enter_var', { 0: arg.name })}
+                  maxRows={8}
+                />
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button type="submit" variant="submit" disabled={!isComplete || getPrompt.isLoading}>
+                {localize('com_ui_submit')}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </OGDialogContent>
+    </OGDialog>
+  );
+};
+
+export default MCPPromptDialog;
@@ -15,17 +15,20 @@ const specialVariableClasses =
   'bg-yellow-500/25 text-yellow-600 dark:border-yellow-500/50 dark:bg-transparent dark:text-yellow-500/90';
 
 const PromptVariables = ({
-  promptText,
+  promptText = '',
+  promptVariables,
   showInfo = true,
 }: {
-  promptText: string;
+  promptText?: string;
+  /** Variables defined elsewhere than in the text, e.g. the arguments of an MCP prompt */
+  promptVariables?: string[];
   showInfo?: boolean;
 }) => {
   const localize = useLocalize();
 
   const variables = useMemo(() => {
-    return extractUniqueVariables(promptText || '');
-  }, [promptText]);
+    return promptVariables ?? extractUniqueVariables(promptText || '');
+  }, [promptText, promptVariables]);
 
   return (
     <div className="rounded-xl border border-border-light bg-transparent p-4 shadow-md ">
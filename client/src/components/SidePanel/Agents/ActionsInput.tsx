@@ -1,9 +1,10 @@
 import debounce from 'lodash/debounce';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useFormContext } from 'react-hook-form';
 import {
   validateAndParseOpenAPISpec,
   openapiToFunction,
+  getServerUrls,
   AuthTypeEnum,
 } from 'librechat-data-provider';
 import type {
@@ -20,7 +21,7 @@ import { useUpdateAgentAction } from '~/data-provider';
 import { useToastContext } from '~/Providers';
 import useLocalize from '~/hooks/useLocalize';
 import { Spinner } from '~/components/svg';
-import { logger } from '~/utils';
+import { cn, logger } from '~/utils';
 
 const debouncedValidation = debounce(
   (input: string, callback: (result: ValidationResult) => void) => {
@@ -52,10 +53,16 @@ export default function ActionsInput({
   const { handleSubmit, reset } = useFormContext<ActionAuthForm>();
   const [validationResult, setValidationResult] = useState<null | ValidationResult>(null);
   const [inputValue, setInputValue] = useState('');
+  const [serverUrl, setServerUrl] = useState<string | undefined>(action?.metadata.server_url);
 
   const [data, setData] = useState<Spec[] | null>(null);
   const [functions, setFunctions] = useState<FunctionTool[] | null>(null);
 
+  const serverUrls = useMemo(
+    () => (validationResult?.spec ? getServerUrls(validationResult.spec) : []),
+    [validationResult],
+  );
+
   useEffect(() => {
     const rawSpec = action?.metadata.raw_spec ?? '';
     if (!rawSpec) {
@@ -70,7 +77,11 @@ export default function ActionsInput({
       return;
     }
 
-    const { functionSignatures, requestBuilders } = openapiToFunction(validationResult.spec);
+    const { functionSignatures, requestBuilders } = openapiToFunction(
+      validationResult.spec,
+      false,
+      serverUrl,
+    );
     const specs = Object.entries(requestBuilders).map(([name, props]) => {
       return {
         name,
@@ -81,9 +92,8 @@ export default function ActionsInput({
     });
 
     setData(specs);
-    setValidationResult(null);
     setFunctions(functionSignatures.map((f) => f.toObjectTool()));
-  }, [validationResult]);
+  }, [validationResult, serverUrl]);
 
   const updateAgentAction = useUpdateAgentAction({
     onSuccess(data) {
@@ -128,6 +138,7 @@ export default function ActionsInput({
       return;
     }
     metadata.domain = domain;
+    metadata.server_url = data[0].domain;
 
     const { type, saved_auth_fields } = authFormData;
 
@@ -148,12 +159,16 @@ export default function ActionsInput({
           custom_auth_header: authFormData.custom_auth_header,
         },
       };
-    } else if (saved_auth_fields && type === AuthTypeEnum.OAuth) {
+    } else if (
+      saved_auth_fields &&
+      (type === AuthTypeEnum.OAuth || type === AuthTypeEnum.ClientCredentials)
+    ) {
       metadata = {
         ...metadata,
         auth: {
           type,
-          authorization_url: authFormData.authorization_url,
+          authorization_url:
+            type === AuthTypeEnum.OAuth ? authFormData.authorization_url : undefined,
           client_url: authFormData.client_url,
           scope: authFormData.scope,
           token_exchange_method: authFormData.token_exchange_method,
@@ -240,7 +255,12 @@ export default function ActionsInput({
             {/* TODO: format input button */}
           </div>
           {validationResult && validationResult.message !== 'OpenAPI spec is valid.' && (
-            <div className="border-token-border-light border-t p-2 text-red-500">
+            <div
+              className={cn(
+                'border-token-border-light border-t p-2',
+                validationResult.status ? 'text-yellow-600' : 'text-red-500',
+              )}
+            >
               {validationResult.message.split('\n').map((line: string, i: number) => (
                 <div key={i}>{line}</div>
               ))}
@@ -248,6 +268,25 @@ export default function ActionsInput({
           )}
         </div>
       </div>
+      {serverUrls.length > 1 && (
+        <div className="my-2">
+          <label htmlFor="serverUrl" className="text-token-text-primary mb-1.5 block font-medium">
+            {localize('com_ui_server')}
+          </label>
+          <select
+            id="serverUrl"
+            value={serverUrls.includes(serverUrl ?? '') ? serverUrl : serverUrls[0]}
+            onChange={(e) => setServerUrl(e.target.value)}
+            className="border-token-border-medium h-9 w-full rounded-lg border bg-transparent px-2 py-0 text-sm"
+          >
+            {serverUrls.map((url) => (
+              <option key={url} value={url}>
+                {url}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
       {!!data && (
         <div className="my-2">
           <div className="flex items-center">
@@ -122,19 +122,16 @@ const AdminSettings = () => {
   };
 
   const roleDropdownItems = [
-    {
-      label: SystemRoles.USER,
-      onClick: () => {
-        setSelectedRole(SystemRoles.USER);
-      },
-    },
-    {
-      label: SystemRoles.ADMIN,
-      onClick: () => {
-        setSelectedRole(SystemRoles.ADMIN);
-      },
+    SystemRoles.USER,
+    SystemRoles.TEACHER,
+    SystemRoles.STUDENT,
+    SystemRoles.ADMIN,
+  ].map((role) => ({
+    label: role,
+    onClick: () => {
+      setSelectedRole(role);
     },
-  ];
+  }));
 
   return (
     <OGDialog>
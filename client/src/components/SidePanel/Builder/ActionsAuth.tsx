@@ -74,7 +74,7 @@ export default function ActionsAuth({ disableOAuth }: { disableOAuth?: boolean }
               role="radiogroup"
               aria-required="false"
               dir="ltr"
-              className="flex gap-4"
+              className="flex flex-wrap gap-4"
               style={{ outline: 'none' }}
             >
               <div className="flex items-center gap-2">
@@ -136,6 +136,23 @@ export default function ActionsAuth({ disableOAuth }: { disableOAuth?: boolean }
                   {localize('com_ui_oauth')}
                 </label>
               </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor=":rfe:" className="flex cursor-pointer items-center gap-1">
+                  <RadioGroup.Item
+                    type="button"
+                    role="radio"
+                    value={AuthTypeEnum.ClientCredentials}
+                    id=":rfe:"
+                    className={cn(
+                      'mr-1 flex h-5 w-5 items-center justify-center rounded-full border',
+                      'border-border-heavy bg-surface-primary',
+                    )}
+                  >
+                    <RadioGroup.Indicator className="h-2 w-2 rounded-full bg-text-primary" />
+                  </RadioGroup.Item>
+                  {localize('com_ui_client_credentials')}
+                </label>
+              </div>
             </RadioGroup.Root>
           </div>
           {type === 'none' ? null : type === 'service_http' ? <ApiKey /> : <OAuth />}
@@ -274,6 +291,7 @@ const OAuth = () => {
   const { register, watch, setValue } = useFormContext();
   const token_exchange_method = watch('token_exchange_method');
   const type = watch('type');
+  const isClientCredentials = type === AuthTypeEnum.ClientCredentials;
 
   const inputClasses = cn(
     'mb-2 h-9 w-full resize-none overflow-y-auto rounded-lg border px-3 py-2 text-sm',
@@ -299,15 +317,21 @@ const OAuth = () => {
         className={inputClasses}
         {...register('oauth_client_secret', { required: false })}
       />
-      <label className="mb-1 block text-sm font-medium">{localize('com_ui_auth_url')}</label>
-      <input
-        className={inputClasses}
-        {...register('authorization_url', { required: type === AuthTypeEnum.OAuth })}
-      />
+      {!isClientCredentials && (
+        <>
+          <label className="mb-1 block text-sm font-medium">{localize('com_ui_auth_url')}</label>
+          <input
+            className={inputClasses}
+            {...register('authorization_url', { required: type === AuthTypeEnum.OAuth })}
+          />
+        </>
+      )}
       <label className="mb-1 block text-sm font-medium">{localize('com_ui_token_url')}</label>
       <input
         className={inputClasses}
-        {...register('client_url', { required: type === AuthTypeEnum.OAuth })}
+        {...register('client_url', {
+          required: type === AuthTypeEnum.OAuth || isClientCredentials,
+        })}
       />
       <label className="mb-1 block text-sm font-medium">{localize('com_ui_scope')}</label>
       <input
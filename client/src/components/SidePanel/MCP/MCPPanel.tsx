@@ -0,0 +1,67 @@
+import { RefreshCw } from 'lucide-react';
+import {
+  useMCPServerStatusesQuery,
+  useMCPServerActionMutation,
+  useReloadMCPServersMutation,
+} from '~/data-provider';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components/ui';
+import { Spinner } from '~/components/svg';
+import MCPServerCard from './MCPServerCard';
+import { useLocalize } from '~/hooks';
+
+/** Lists the health of every MCP server, with actions to reconnect, disconnect and reload them */
+export default function MCPPanel() {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { data: servers = [], isLoading } = useMCPServerStatusesQuery();
+  const serverAction = useMCPServerActionMutation({
+    onError: () => showToast({ message: localize('com_ui_mcp_action_error'), status: 'error' }),
+  });
+  const reload = useReloadMCPServersMutation({
+    onSuccess: ({ added, updated, removed }) =>
+      showToast({
+        message: localize('com_ui_mcp_reload_success', {
+          0: added.length,
+          1: updated.length,
+          2: removed.length,
+        }),
+        status: 'success',
+      }),
+    onError: () => showToast({ message: localize('com_ui_mcp_reload_error'), status: 'error' }),
+  });
+
+  return (
+    <div className="h-auto max-w-full space-y-3 overflow-x-hidden py-2">
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={reload.isLoading}
+          onClick={() => reload.mutate()}
+        >
+          <RefreshCw className={reload.isLoading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+          {localize('com_ui_mcp_reload')}
+        </Button>
+      </div>
+      {isLoading && <Spinner className="mx-auto" />}
+      {!isLoading && servers.length === 0 && (
+        <div className="text-center text-sm text-text-secondary">
+          {localize('com_ui_mcp_no_servers')}
+        </div>
+      )}
+      {servers.map((server) => (
+        <MCPServerCard
+          key={server.serverName}
+          server={server}
+          isPending={
+            serverAction.isLoading && serverAction.variables?.serverName === server.serverName
+          }
+          onAction={(action) => serverAction.mutate({ serverName: server.serverName, action })}
+        />
+      ))}
+    </div>
+  );
+}
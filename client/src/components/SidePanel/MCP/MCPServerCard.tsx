@@ -0,0 +1,98 @@
+import { RotateCw, Unplug } from 'lucide-react';
+import type { TMCPConnectionState, TMCPServerStatus } from 'librechat-data-provider';
+import type { TranslationKeys } from '~/hooks';
+import { Button } from '~/components/ui';
+import { useLocalize } from '~/hooks';
+import { cn } from '~/utils';
+
+const stateLabels: Record<TMCPConnectionState, TranslationKeys> = {
+  connected: 'com_ui_mcp_state_connected',
+  connecting: 'com_ui_mcp_state_connecting',
+  disconnected: 'com_ui_mcp_state_disconnected',
+  error: 'com_ui_mcp_state_error',
+};
+
+const stateColors: Record<TMCPConnectionState, string> = {
+  connected: 'bg-green-500',
+  connecting: 'bg-yellow-500',
+  disconnected: 'bg-gray-400',
+  error: 'bg-red-500',
+};
+
+type MCPServerCardProps = {
+  server: TMCPServerStatus;
+  isPending: boolean;
+  onAction: (action: 'reconnect' | 'disconnect') => void;
+};
+
+export default function MCPServerCard({ server, isPending, onAction }: MCPServerCardProps) {
+  const localize = useLocalize();
+  const details = [
+    localize('com_ui_mcp_tools_var', { 0: server.toolCount }),
+    server.perUser && localize('com_ui_mcp_user_connections_var', { 0: server.userConnections }),
+    server.lastCallLatency != null &&
+      localize('com_ui_mcp_latency_var', { 0: server.lastCallLatency }),
+    server.reconnectAttempts > 0 &&
+      localize('com_ui_mcp_reconnect_attempts_var', { 0: server.reconnectAttempts }),
+    server.capabilities.length > 0 &&
+      localize('com_ui_mcp_capabilities_var', { 0: server.capabilities.join(', ') }),
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border-medium bg-surface-primary p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium text-text-primary" title={server.serverName}>
+            {server.serverName}
+          </div>
+          <div className="text-xs text-text-secondary">
+            {[server.type, server.perUser && localize('com_ui_mcp_per_user')]
+              .filter(Boolean)
+              .join(' · ')}
+          </div>
+        </div>
+        <span className="flex shrink-0 items-center gap-1.5 text-xs text-text-secondary">
+          <span
+            aria-hidden="true"
+            className={cn('h-2 w-2 rounded-full', stateColors[server.state])}
+          />
+          {localize(stateLabels[server.state])}
+        </span>
+      </div>
+      <ul className="space-y-0.5 text-xs text-text-secondary">
+        {details.map((detail) => (
+          <li key={String(detail)}>{detail}</li>
+        ))}
+      </ul>
+      {server.lastError != null && server.lastError.length > 0 && (
+        <div className="break-words rounded bg-surface-secondary px-2 py-1 text-xs text-red-500">
+          {server.lastError}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={isPending || (!server.perUser && server.state === 'disconnected')}
+          onClick={() => onAction('disconnect')}
+        >
+          <Unplug className="h-3.5 w-3.5" />
+          {localize('com_ui_mcp_disconnect')}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={isPending}
+          onClick={() => onAction('reconnect')}
+        >
+          <RotateCw className={cn('h-3.5 w-3.5', isPending && 'animate-spin')} />
+          {localize('com_ui_mcp_reconnect')}
+        </Button>
+      </div>
+    </div>
+  );
+}
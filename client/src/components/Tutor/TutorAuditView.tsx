@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import type { TTutorAuditEntry } from 'librechat-data-provider';
+import { useGetClassesQuery, useTutorAuditQuery } from '~/data-provider';
+import { useCustomLink, useLocalize } from '~/hooks';
+import { Button, Checkbox, Label } from '~/components/ui';
+import { Spinner } from '~/components/svg';
+import { cn } from '~/utils';
+
+const selectClassName =
+  'w-full rounded-md border border-border-medium bg-surface-secondary px-2 py-2 text-sm text-text-primary focus:border-border-heavy';
+
+function AuditEntry({ entry }: { entry: TTutorAuditEntry }) {
+  const localize = useLocalize();
+  const isFlagged = entry.inputFlagged || entry.outputFlagged;
+  let responseLabel = localize('com_ui_tutor_audit_response');
+  if (entry.outputFlagged) {
+    responseLabel = localize('com_ui_tutor_audit_response_replaced');
+  }
+
+  return (
+    <div
+      className={cn(
+        'space-y-2 rounded-xl border p-3',
+        isFlagged ? 'border-red-500/60' : 'border-border-light',
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-text-secondary">
+        <span className="font-semibold text-text-primary">
+          {entry.user.name ?? entry.user.username ?? entry.user.email ?? entry.user.id}
+        </span>
+        <span>
+          {[entry.spec ?? entry.model ?? entry.endpoint, new Date(entry.createdAt).toLocaleString()]
+            .filter(Boolean)
+            .join(' · ')}
+        </span>
+      </div>
+      <div className="text-sm">
+        <div className="text-xs font-semibold uppercase text-text-secondary">
+          {entry.inputFlagged
+            ? localize('com_ui_tutor_audit_message_blocked')
+            : localize('com_ui_tutor_audit_message')}
+        </div>
+        <p className="whitespace-pre-wrap text-text-primary">{entry.text}</p>
+      </div>
+      {entry.responseText != null && (
+        <div className="text-sm">
+          <div className="text-xs font-semibold uppercase text-text-secondary">{responseLabel}</div>
+          <p className="whitespace-pre-wrap text-text-primary">{entry.responseText}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function TutorAuditView() {
+  const localize = useLocalize();
+  const chatLinkHandler = useCustomLink('/c/new');
+  const [classId, setClassId] = useState('');
+  const [userId, setUserId] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const { data: classes = [] } = useGetClassesQuery();
+  const teacherClasses = useMemo(() => classes.filter((item) => item.isTeacher), [classes]);
+  const students = teacherClasses.find((item) => item._id === classId)?.students ?? [];
+
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = useTutorAuditQuery({
+    classId,
+    userId: userId || undefined,
+    flaggedOnly,
+  });
+  const entries = useMemo(() => data?.pages.flatMap((page) => page.entries) ?? [], [data]);
+
+  const renderEntries = () => {
+    if (!classId) {
+      return (
+        <div className="text-sm text-text-secondary">
+          {localize('com_ui_tutor_audit_select_class')}
+        </div>
+      );
+    }
+    if (isLoading) {
+      return <Spinner className="m-4 mx-auto h-6 w-6 text-text-primary" />;
+    }
+    if (!entries.length) {
+      return (
+        <div className="text-sm text-text-secondary">{localize('com_ui_tutor_audit_empty')}</div>
+      );
+    }
+    return (
+      <div className="space-y-3">
+        {entries.map((entry) => (
+          <AuditEntry key={entry._id} entry={entry} />
+        ))}
+        {hasNextPage === true && (
+          <div className="flex justify-center">
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isFetchingNextPage}
+              onClick={() => fetchNextPage()}
+            >
+              {localize('com_ui_tutor_audit_load_more')}
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-screen w-full flex-col overflow-y-auto bg-surface-primary">
+      <div className="mx-auto w-full max-w-3xl space-y-6 p-4">
+        <a
+          href="/"
+          onClick={chatLinkHandler}
+          className="flex items-center gap-1 text-sm text-text-secondary hover:text-text-primary"
+        >
+          <ArrowLeft className="icon-xs" aria-hidden="true" />
+          {localize('com_ui_back_to_chat')}
+        </a>
+        <div>
+          <h1 className="text-2xl font-semibold text-text-primary">
+            {localize('com_ui_tutor_audit')}
+          </h1>
+          <div className="text-sm text-text-secondary">{localize('com_ui_tutor_audit_info')}</div>
+        </div>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="tutor-audit-class" className="text-sm text-text-primary">
+              {localize('com_ui_class')}
+            </Label>
+            <select
+              id="tutor-audit-class"
+              value={classId}
+              onChange={(e) => {
+                setClassId(e.target.value);
+                setUserId('');
+              }}
+              className={selectClassName}
+            >
+              <option value="" disabled>
+                {localize('com_ui_select')}
+              </option>
+              {teacherClasses.map((item) => (
+                <option key={item._id} value={item._id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tutor-audit-student" className="text-sm text-text-primary">
+              {localize('com_ui_tutor_audit_student')}
+            </Label>
+            <select
+              id="tutor-audit-student"
+              value={userId}
+              disabled={!classId}
+              onChange={(e) => setUserId(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">{localize('com_ui_tutor_audit_all_students')}</option>
+              {students.map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.name ?? student.username ?? student.email}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="tutor-audit-flagged"
+            checked={flaggedOnly}
+            onCheckedChange={(checked) => setFlaggedOnly(checked === true)}
+          />
+          <Label htmlFor="tutor-audit-flagged" className="text-sm text-text-primary">
+            {localize('com_ui_tutor_audit_flagged_only')}
+          </Label>
+        </div>
+        {renderEntries()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { default as TutorAuditView } from './TutorAuditView';
@@ -0,0 +1,144 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { dataService, QueryKeys } from 'librechat-data-provider';
+import type { QueryClient, UseMutationResult } from '@tanstack/react-query';
+import type * as t from 'librechat-data-provider';
+
+/**
+ * ASSIGNMENTS
+ */
+
+/**
+ * Writes an updated submission to the cached results of its assignment
+ */
+const setSubmissionData = (queryClient: QueryClient, submission: t.TAssignmentSubmission) => {
+  queryClient.setQueryData<t.TAssignmentResultsResponse>(
+    [QueryKeys.assignmentResults, submission.assignmentId],
+    (results) =>
+      results && {
+        ...results,
+        submissions: results.submissions.map((item) =>
+          item._id === submission._id ? submission : item,
+        ),
+      },
+  );
+};
+
+/**
+ * Assign a quiz from a message to a class
+ */
+export const useCreateAssignmentMutation = (
+  options?: t.CreateAssignmentOptions,
+): UseMutationResult<t.TAssignment, unknown, t.TCreateAssignmentRequest> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (payload: t.TCreateAssignmentRequest) => dataService.createAssignment(payload),
+    {
+      ...options,
+      onSuccess: (assignment, variables, context) => {
+        queryClient.setQueryData<t.TAssignment>([QueryKeys.assignment, assignment._id], assignment);
+        queryClient.invalidateQueries([QueryKeys.assignments]);
+        options?.onSuccess?.(assignment, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Update an assignment's settings
+ */
+export const useUpdateAssignmentMutation = (
+  options?: t.UpdateAssignmentOptions,
+): UseMutationResult<t.TAssignment, unknown, t.TUpdateAssignmentVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TUpdateAssignmentVariables) => dataService.updateAssignment(variables),
+    {
+      ...options,
+      onSuccess: (assignment, variables, context) => {
+        queryClient.setQueryData<t.TAssignment>([QueryKeys.assignment, assignment._id], assignment);
+        queryClient.setQueryData<t.TAssignmentResultsResponse>(
+          [QueryKeys.assignmentResults, assignment._id],
+          (results) => results && { ...results, assignment },
+        );
+        queryClient.invalidateQueries([QueryKeys.assignments]);
+        options?.onSuccess?.(assignment, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Delete an assignment and its submissions
+ */
+export const useDeleteAssignmentMutation = (
+  options?: t.DeleteAssignmentOptions,
+): UseMutationResult<t.TDeleteAssignmentResponse, unknown, string> => {
+  const queryClient = useQueryClient();
+  return useMutation((assignmentId: string) => dataService.deleteAssignment(assignmentId), {
+    ...options,
+    onSuccess: (response, assignmentId, context) => {
+      queryClient.removeQueries([QueryKeys.assignment, assignmentId]);
+      queryClient.removeQueries([QueryKeys.assignmentResults, assignmentId]);
+      queryClient.invalidateQueries([QueryKeys.assignments]);
+      options?.onSuccess?.(response, assignmentId, context);
+    },
+  });
+};
+
+/**
+ * Submit a student's responses to an assignment
+ */
+export const useSubmitAssignmentMutation = (
+  options?: t.SubmitAssignmentOptions,
+): UseMutationResult<t.TAssignment, unknown, t.TSubmitAssignmentVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TSubmitAssignmentVariables) => dataService.submitAssignment(variables),
+    {
+      ...options,
+      onSuccess: (assignment, variables, context) => {
+        queryClient.setQueryData<t.TAssignment>([QueryKeys.assignment, assignment._id], assignment);
+        queryClient.invalidateQueries([QueryKeys.assignments]);
+        options?.onSuccess?.(assignment, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Override the grades of a submission's questions
+ */
+export const useGradeSubmissionMutation = (
+  options?: t.GradeSubmissionOptions,
+): UseMutationResult<t.TAssignmentSubmission, unknown, t.TGradeSubmissionVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TGradeSubmissionVariables) => dataService.gradeAssignmentSubmission(variables),
+    {
+      ...options,
+      onSuccess: (submission, variables, context) => {
+        setSubmissionData(queryClient, submission);
+        options?.onSuccess?.(submission, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Have the assignment's grader agent grade a submission's pending short answers
+ */
+export const useAgentGradeSubmissionMutation = (
+  options?: t.AgentGradeSubmissionOptions,
+): UseMutationResult<t.TAssignmentSubmission, unknown, t.TSubmissionVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TSubmissionVariables) => dataService.agentGradeAssignmentSubmission(variables),
+    {
+      ...options,
+      onSuccess: (submission, variables, context) => {
+        setSubmissionData(queryClient, submission);
+        options?.onSuccess?.(submission, variables, context);
+      },
+    },
+  );
+};
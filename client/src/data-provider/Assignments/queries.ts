@@ -0,0 +1,67 @@
+import { useRecoilValue } from 'recoil';
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import { useQuery } from '@tanstack/react-query';
+import type { QueryObserverResult, UseQueryOptions } from '@tanstack/react-query';
+import type t from 'librechat-data-provider';
+import store from '~/store';
+
+/**
+ * Hook for listing the assignments of the user's classes
+ */
+export const useGetAssignmentsQuery = (
+  params: t.TAssignmentListParams = {},
+  config?: UseQueryOptions<t.TAssignmentListResponse>,
+): QueryObserverResult<t.TAssignmentListResponse> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TAssignmentListResponse>(
+    [QueryKeys.assignments, params],
+    () => dataService.getAssignments(params),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+      enabled: (config?.enabled ?? true) === true && queriesEnabled,
+    },
+  );
+};
+
+/**
+ * Hook for retrieving an assignment with its quiz; students also get their submission
+ */
+export const useGetAssignmentQuery = (
+  assignmentId: string,
+  config?: UseQueryOptions<t.TAssignment>,
+): QueryObserverResult<t.TAssignment> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TAssignment>(
+    [QueryKeys.assignment, assignmentId],
+    () => dataService.getAssignment(assignmentId),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      retry: false,
+      ...config,
+      enabled: (config?.enabled ?? true) === true && !!assignmentId && queriesEnabled,
+    },
+  );
+};
+
+/**
+ * Hook for retrieving the class roster and all submissions of an assignment
+ */
+export const useGetAssignmentResultsQuery = (
+  assignmentId: string,
+  config?: UseQueryOptions<t.TAssignmentResultsResponse>,
+): QueryObserverResult<t.TAssignmentResultsResponse> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TAssignmentResultsResponse>(
+    [QueryKeys.assignmentResults, assignmentId],
+    () => dataService.getAssignmentResults(assignmentId),
+    {
+      refetchOnWindowFocus: false,
+      retry: false,
+      ...config,
+      enabled: (config?.enabled ?? true) === true && !!assignmentId && queriesEnabled,
+    },
+  );
+};
@@ -0,0 +1,212 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { dataService, QueryKeys } from 'librechat-data-provider';
+import type { QueryClient, UseMutationResult } from '@tanstack/react-query';
+import type * as t from 'librechat-data-provider';
+
+/**
+ * CLASSES
+ */
+
+/**
+ * Writes an updated class to the class and class list caches
+ */
+const setClassData = (queryClient: QueryClient, updatedClass: t.TClass) => {
+  queryClient.setQueryData<t.TClass>([QueryKeys.class, updatedClass._id], updatedClass);
+  queryClient.setQueryData<t.TClassListResponse>([QueryKeys.classes], (classes) => {
+    if (!classes) {
+      return classes;
+    }
+    const exists = classes.some((item) => item._id === updatedClass._id);
+    if (!exists) {
+      return [updatedClass, ...classes];
+    }
+    return classes.map((item) => (item._id === updatedClass._id ? updatedClass : item));
+  });
+};
+
+/**
+ * Create a class owned by the current user
+ */
+export const useCreateClassMutation = (
+  options?: t.CreateClassOptions,
+): UseMutationResult<t.TClass, unknown, t.TCreateClassRequest> => {
+  const queryClient = useQueryClient();
+  return useMutation((variables: t.TCreateClassRequest) => dataService.createClass(variables), {
+    ...options,
+    onSuccess: (updatedClass, variables, context) => {
+      setClassData(queryClient, updatedClass);
+      options?.onSuccess?.(updatedClass, variables, context);
+    },
+  });
+};
+
+/**
+ * Update a class's name or description
+ */
+export const useUpdateClassMutation = (
+  options?: t.UpdateClassOptions,
+): UseMutationResult<t.TClass, unknown, t.TUpdateClassVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation((variables: t.TUpdateClassVariables) => dataService.updateClass(variables), {
+    ...options,
+    onSuccess: (updatedClass, variables, context) => {
+      setClassData(queryClient, updatedClass);
+      options?.onSuccess?.(updatedClass, variables, context);
+    },
+  });
+};
+
+/**
+ * Join a class as a student using its join code
+ */
+export const useJoinClassMutation = (
+  options?: t.JoinClassOptions,
+): UseMutationResult<t.TClass, unknown, t.TJoinClassRequest> => {
+  const queryClient = useQueryClient();
+  return useMutation((variables: t.TJoinClassRequest) => dataService.joinClass(variables), {
+    ...options,
+    onSuccess: (updatedClass, variables, context) => {
+      setClassData(queryClient, updatedClass);
+      options?.onSuccess?.(updatedClass, variables, context);
+    },
+  });
+};
+
+/**
+ * Replace a class's join code, invalidating the previous one
+ */
+export const useRegenerateClassJoinCodeMutation = (
+  options?: t.ClassMutationOptions<string>,
+): UseMutationResult<t.TClass, unknown, string> => {
+  const queryClient = useQueryClient();
+  return useMutation((variables: string) => dataService.regenerateClassJoinCode(variables), {
+    ...options,
+    onSuccess: (updatedClass, variables, context) => {
+      setClassData(queryClient, updatedClass);
+      options?.onSuccess?.(updatedClass, variables, context);
+    },
+  });
+};
+
+/**
+ * Add a co-teacher to a class by email
+ */
+export const useAddClassTeacherMutation = (
+  options?: t.ClassMutationOptions<t.TAddClassTeacherVariables>,
+): UseMutationResult<t.TClass, unknown, t.TAddClassTeacherVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TAddClassTeacherVariables) => dataService.addClassTeacher(variables),
+    {
+      ...options,
+      onSuccess: (updatedClass, variables, context) => {
+        setClassData(queryClient, updatedClass);
+        options?.onSuccess?.(updatedClass, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Share and unshare prompt groups and agents with a class
+ */
+export const useUpdateClassSharesMutation = (
+  options?: t.ClassMutationOptions<t.TUpdateClassSharesVariables>,
+): UseMutationResult<t.TClass, unknown, t.TUpdateClassSharesVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TUpdateClassSharesVariables) => dataService.updateClassShares(variables),
+    {
+      ...options,
+      onSuccess: (updatedClass, variables, context) => {
+        setClassData(queryClient, updatedClass);
+        options?.onSuccess?.(updatedClass, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Share a conversation (e.g. a generated quiz or lesson plan) with a class
+ */
+export const useShareClassMaterialMutation = (
+  options?: t.ClassMutationOptions<t.TShareClassMaterialVariables>,
+): UseMutationResult<t.TClass, unknown, t.TShareClassMaterialVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TShareClassMaterialVariables) => dataService.shareClassMaterial(variables),
+    {
+      ...options,
+      onSuccess: (updatedClass, variables, context) => {
+        setClassData(queryClient, updatedClass);
+        options?.onSuccess?.(updatedClass, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Remove a shared material from a class
+ */
+export const useRemoveClassMaterialMutation = (
+  options?: t.ClassMutationOptions<t.TRemoveClassMaterialVariables>,
+): UseMutationResult<t.TClass, unknown, t.TRemoveClassMaterialVariables> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    (variables: t.TRemoveClassMaterialVariables) => dataService.removeClassMaterial(variables),
+    {
+      ...options,
+      onSuccess: (updatedClass, variables, context) => {
+        setClassData(queryClient, updatedClass);
+        options?.onSuccess?.(updatedClass, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Remove a member from a class; removing the current user leaves the class,
+ * so the caller should pass `isSelf` to drop it from the cache.
+ */
+export const useRemoveClassMemberMutation = (
+  options?: t.ClassMutationOptions<t.TRemoveClassMemberVariables & { isSelf?: boolean }>,
+): UseMutationResult<t.TClass, unknown, t.TRemoveClassMemberVariables & { isSelf?: boolean }> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    ({ classId, userId }: t.TRemoveClassMemberVariables & { isSelf?: boolean }) =>
+      dataService.removeClassMember({ classId, userId }),
+    {
+      ...options,
+      onSuccess: (updatedClass, variables, context) => {
+        if (variables.isSelf === true) {
+          queryClient.removeQueries([QueryKeys.class, variables.classId]);
+          queryClient.setQueryData<t.TClassListResponse>([QueryKeys.classes], (classes) =>
+            classes?.filter((item) => item._id !== variables.classId),
+          );
+        } else {
+          setClassData(queryClient, updatedClass);
+        }
+        options?.onSuccess?.(updatedClass, variables, context);
+      },
+    },
+  );
+};
+
+/**
+ * Delete a class
+ */
+export const useDeleteClassMutation = (
+  options?: t.DeleteClassOptions,
+): UseMutationResult<t.TDeleteClassResponse, unknown, string> => {
+  const queryClient = useQueryClient();
+  return useMutation((classId: string) => dataService.deleteClass(classId), {
+    ...options,
+    onSuccess: (response, classId, context) => {
+      queryClient.removeQueries([QueryKeys.class, classId]);
+      queryClient.setQueryData<t.TClassListResponse>([QueryKeys.classes], (classes) =>
+        classes?.filter((item) => item._id !== classId),
+      );
+      options?.onSuccess?.(response, classId, context);
+    },
+  });
+};
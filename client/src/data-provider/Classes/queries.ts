@@ -0,0 +1,38 @@
+import { useRecoilValue } from 'recoil';
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import { useQuery } from '@tanstack/react-query';
+import type { QueryObserverResult, UseQueryOptions } from '@tanstack/react-query';
+import type t from 'librechat-data-provider';
+import store from '~/store';
+
+/**
+ * Hook for listing the classes the user teaches or attends
+ */
+export const useGetClassesQuery = (
+  config?: UseQueryOptions<t.TClassListResponse>,
+): QueryObserverResult<t.TClassListResponse> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TClassListResponse>([QueryKeys.classes], () => dataService.getClasses(), {
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    ...config,
+    enabled: (config?.enabled ?? true) === true && queriesEnabled,
+  });
+};
+
+/**
+ * Hook for retrieving a single class, including its roster when the user teaches it
+ */
+export const useGetClassQuery = (
+  classId: string,
+  config?: UseQueryOptions<t.TClass>,
+): QueryObserverResult<t.TClass> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TClass>([QueryKeys.class, classId], () => dataService.getClass(classId), {
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+    retry: false,
+    ...config,
+    enabled: (config?.enabled ?? true) === true && !!classId && queriesEnabled,
+  });
+};
@@ -0,0 +1,97 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { dataService, QueryKeys } from 'librechat-data-provider';
+import type { UseMutationOptions, UseMutationResult } from '@tanstack/react-query';
+import type * as t from 'librechat-data-provider';
+
+/**
+ * Reads the text contents of an MCP resource
+ */
+export const useReadMCPResourceMutation = (
+  options?: UseMutationOptions<t.TMCPResourceContents, unknown, t.TReadMCPResourceRequest>,
+): UseMutationResult<t.TMCPResourceContents, unknown, t.TReadMCPResourceRequest> => {
+  return useMutation(
+    (payload: t.TReadMCPResourceRequest) => dataService.readMCPResource(payload),
+    options,
+  );
+};
+
+/**
+ * Gets an MCP prompt with its arguments filled in
+ */
+export const useGetMCPPromptMutation = (
+  options?: UseMutationOptions<t.TGetMCPPromptResponse, unknown, t.TGetMCPPromptRequest>,
+): UseMutationResult<t.TGetMCPPromptResponse, unknown, t.TGetMCPPromptRequest> => {
+  return useMutation(
+    (payload: t.TGetMCPPromptRequest) => dataService.getMCPPrompt(payload),
+    options,
+  );
+};
+
+/**
+ * Reconnects or disconnects an MCP server, updating its status and the available tools
+ */
+export const useMCPServerActionMutation = (
+  options?: UseMutationOptions<
+    t.TMCPServerStatus,
+    unknown,
+    { serverName: string; action: 'reconnect' | 'disconnect' }
+  >,
+): UseMutationResult<
+  t.TMCPServerStatus,
+  unknown,
+  { serverName: string; action: 'reconnect' | 'disconnect' }
+> => {
+  const queryClient = useQueryClient();
+  return useMutation(
+    ({ serverName, action }) =>
+      action === 'reconnect'
+        ? dataService.reconnectMCPServer(serverName)
+        : dataService.disconnectMCPServer(serverName),
+    {
+      ...options,
+      onSuccess: (status, variables, context) => {
+        queryClient.setQueryData<t.TMCPServerStatus[]>([QueryKeys.mcpServerStatuses], (statuses) =>
+          statuses?.map((item) => (item.serverName === status.serverName ? status : item)),
+        );
+        options?.onSuccess?.(status, variables, context);
+      },
+      onSettled: (...args) => {
+        queryClient.invalidateQueries([QueryKeys.mcpServerStatuses]);
+        queryClient.invalidateQueries([QueryKeys.tools]);
+        options?.onSettled?.(...args);
+      },
+    },
+  );
+};
+
+/**
+ * Reloads the MCP servers from the config file
+ */
+export const useReloadMCPServersMutation = (
+  options?: UseMutationOptions<t.TMCPReloadResponse, unknown, void>,
+): UseMutationResult<t.TMCPReloadResponse, unknown, void> => {
+  const queryClient = useQueryClient();
+  return useMutation(() => dataService.reloadMCPServers(), {
+    ...options,
+    onSuccess: (response, variables, context) => {
+      queryClient.setQueryData<t.TMCPServerStatus[]>(
+        [QueryKeys.mcpServerStatuses],
+        response.servers,
+      );
+      queryClient.invalidateQueries([QueryKeys.tools]);
+      options?.onSuccess?.(response, variables, context);
+    },
+  });
+};
+
+/**
+ * Approves or denies an MCP tool call awaiting the user's approval
+ */
+export const useMCPToolApprovalMutation = (
+  options?: UseMutationOptions<t.TMCPToolApprovalResponse, unknown, t.TMCPToolApprovalRequest>,
+): UseMutationResult<t.TMCPToolApprovalResponse, unknown, t.TMCPToolApprovalRequest> => {
+  return useMutation(
+    (payload: t.TMCPToolApprovalRequest) => dataService.respondToMCPToolApproval(payload),
+    options,
+  );
+};
@@ -0,0 +1,64 @@
+import { useRecoilValue } from 'recoil';
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import { useQuery } from '@tanstack/react-query';
+import type { QueryObserverResult, UseQueryOptions } from '@tanstack/react-query';
+import type t from 'librechat-data-provider';
+import store from '~/store';
+
+/**
+ * Hook for listing the resources of the MCP servers available to the user
+ */
+export const useMCPResourcesQuery = <TData = t.TMCPResource[]>(
+  config?: UseQueryOptions<t.TMCPResource[], unknown, TData>,
+): QueryObserverResult<TData> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TMCPResource[], unknown, TData>(
+    [QueryKeys.mcpResources],
+    () => dataService.getMCPResources(),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+      enabled: (config?.enabled ?? true) === true && queriesEnabled,
+    },
+  );
+};
+
+/**
+ * Hook for listing the prompts of the MCP servers available to the user
+ */
+export const useMCPPromptsQuery = <TData = t.TMCPPrompt[]>(
+  config?: UseQueryOptions<t.TMCPPrompt[], unknown, TData>,
+): QueryObserverResult<TData> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TMCPPrompt[], unknown, TData>(
+    [QueryKeys.mcpPrompts],
+    () => dataService.getMCPPrompts(),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+      enabled: (config?.enabled ?? true) === true && queriesEnabled,
+    },
+  );
+};
+
+/**
+ * Hook for the health of every MCP server, for admins
+ */
+export const useMCPServerStatusesQuery = <TData = t.TMCPServerStatus[]>(
+  config?: UseQueryOptions<t.TMCPServerStatus[], unknown, TData>,
+): QueryObserverResult<TData> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TMCPServerStatus[], unknown, TData>(
+    [QueryKeys.mcpServerStatuses],
+    () => dataService.getMCPServerStatuses(),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      refetchInterval: 15000,
+      ...config,
+      enabled: (config?.enabled ?? true) === true && queriesEnabled,
+    },
+  );
+};
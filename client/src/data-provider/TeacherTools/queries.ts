@@ -0,0 +1,25 @@
+import { useRecoilValue } from 'recoil';
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import { useQuery } from '@tanstack/react-query';
+import type { QueryObserverResult, UseQueryOptions } from '@tanstack/react-query';
+import type t from 'librechat-data-provider';
+import store from '~/store';
+
+export const useGetStandardsQuery = (
+  params: t.TStandardsQueryParams,
+  config?: UseQueryOptions<t.TStandardsResponse>,
+): QueryObserverResult<t.TStandardsResponse> => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  return useQuery<t.TStandardsResponse>(
+    [QueryKeys.standards, params],
+    () => dataService.getStandards(params),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      keepPreviousData: true,
+      staleTime: Infinity,
+      ...config,
+      enabled: (config?.enabled ?? true) === true && queriesEnabled,
+    },
+  );
+};
@@ -0,0 +1,26 @@
+import { useRecoilValue } from 'recoil';
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { UseInfiniteQueryOptions } from '@tanstack/react-query';
+import type t from 'librechat-data-provider';
+import store from '~/store';
+
+/**
+ * Hook for paging through the tutor-mode audit trail of a class, newest first
+ */
+export const useTutorAuditQuery = (
+  params: Omit<t.TTutorAuditParams, 'cursor'>,
+  config?: UseInfiniteQueryOptions<t.TTutorAuditResponse, unknown>,
+) => {
+  const queriesEnabled = useRecoilValue<boolean>(store.queriesEnabled);
+  const { classId, userId, flaggedOnly } = params;
+  return useInfiniteQuery<t.TTutorAuditResponse, unknown>({
+    queryKey: [QueryKeys.tutorAudit, { classId, userId, flaggedOnly }],
+    queryFn: ({ pageParam }) =>
+      dataService.getTutorAudit({ classId, userId, flaggedOnly, cursor: pageParam }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    refetchOnWindowFocus: false,
+    ...config,
+    enabled: (config?.enabled ?? true) === true && classId.length > 0 && queriesEnabled,
+  });
+};
@@ -1,10 +1,15 @@
 export * from './Auth';
 export * from './Agents';
+export * from './Assignments';
+export * from './Classes';
 export * from './Endpoints';
 export * from './Files';
+export * from './MCP';
 export * from './Messages';
 export * from './Misc';
+export * from './TeacherTools';
 export * from './Tools';
+export * from './Tutor';
 export * from './connection';
 export * from './mutations';
 export * from './prompts';
@@ -4,7 +4,12 @@ import type {
   QueryObserverResult,
   UseQueryOptions,
 } from '@tanstack/react-query';
-import { QueryKeys, dataService, promptPermissionsSchema } from 'librechat-data-provider';
+import {
+  QueryKeys,
+  dataService,
+  promptPermissionsSchema,
+  teacherToolsPermissionsSchema,
+} from 'librechat-data-provider';
 import type * as t from 'librechat-data-provider';
 
 export const useGetRole = (
@@ -91,3 +96,39 @@ export const useUpdateAgentPermissionsMutation = (
     },
   );
 };
+
+export const useUpdateTeacherToolsPermissionsMutation = (
+  options?: t.UpdateTeacherToolsPermOptions,
+): UseMutationResult<
+  t.UpdatePermResponse,
+  t.TError | undefined,
+  t.UpdateTeacherToolsPermVars,
+  unknown
+> => {
+  const queryClient = useQueryClient();
+  const { onMutate, onSuccess, onError } = options ?? {};
+  return useMutation(
+    (variables) => {
+      teacherToolsPermissionsSchema.partial().parse(variables.updates);
+      return dataService.updateTeacherToolsPermissions(variables);
+    },
+    {
+      onSuccess: (data, variables, context) => {
+        queryClient.invalidateQueries([QueryKeys.roles, variables.roleName]);
+        if (onSuccess != null) {
+          onSuccess(data, variables, context);
+        }
+      },
+      onError: (...args) => {
+        const error = args[0];
+        if (error != null) {
+          console.error('Failed to update teacher tools permissions:', error);
+        }
+        if (onError != null) {
+          onError(...args);
+        }
+      },
+      onMutate,
+    },
+  );
+};
@@ -41,6 +41,18 @@ const AuthContextProvider = ({
   const { data: adminRole = null } = useGetRole(SystemRoles.ADMIN, {
     enabled: !!(isAuthenticated && user?.role === SystemRoles.ADMIN),
   });
+  const { data: teacherRole = null } = useGetRole(SystemRoles.TEACHER, {
+    enabled: !!(
+      isAuthenticated &&
+      (user?.role === SystemRoles.TEACHER || user?.role === SystemRoles.ADMIN)
+    ),
+  });
+  const { data: studentRole = null } = useGetRole(SystemRoles.STUDENT, {
+    enabled: !!(
+      isAuthenticated &&
+      (user?.role === SystemRoles.STUDENT || user?.role === SystemRoles.ADMIN)
+    ),
+  });
 
   const navigate = useNavigate();
 
@@ -192,11 +204,13 @@ const AuthContextProvider = ({
       roles: {
         [SystemRoles.USER]: userRole,
         [SystemRoles.ADMIN]: adminRole,
+        [SystemRoles.TEACHER]: teacherRole,
+        [SystemRoles.STUDENT]: studentRole,
       },
       isAuthenticated,
     }),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [user, error, isAuthenticated, token, userRole, adminRole],
+    [user, error, isAuthenticated, token, userRole, adminRole, teacherRole, studentRole],
   );
 
   return <AuthContext.Provider value={memoedValue}>{children}</AuthContext.Provider>;
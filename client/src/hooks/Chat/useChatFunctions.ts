@@ -84,6 +84,7 @@ export default function useChatFunctions({
       parentMessageId = null,
       conversationId = null,
       messageId = null,
+      standards,
     },
     {
       editedText = null,
@@ -295,6 +296,7 @@ export default function useChatFunctions({
       isRegenerate,
       initialResponse,
       isTemporary,
+      standards,
     };
 
     if (isRegenerate) {
@@ -34,6 +34,7 @@ export default function useClearStates() {
           reset(store.showPlusPopoverFamily(key));
           reset(store.showPromptsPopoverFamily(key));
           reset(store.activePromptByIndex(key));
+          reset(store.pendingTeacherToolByIndex(key));
           reset(store.globalAudioURLFamily(key));
           reset(store.globalAudioFetchingFamily(key));
           reset(store.globalAudioPlayingFamily(key));
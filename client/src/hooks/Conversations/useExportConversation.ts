@@ -17,8 +17,21 @@ import type {
 } from 'librechat-data-provider';
 import useBuildMessageTree from '~/hooks/Messages/useBuildMessageTree';
 import { useScreenshot } from '~/hooks/ScreenshotContext';
-import { cleanupPreset, buildTree } from '~/utils';
+import {
+  buildTree,
+  quizToGift,
+  quizToAiken,
+  cleanupPreset,
+  findLatestQuiz,
+  QuizExportTypes,
+  isQuizExportType,
+  quizToQtiPackage,
+  getUnsupportedQuizQuestions,
+} from '~/utils';
 import { useParams } from 'react-router-dom';
+import { NotificationSeverity } from '~/common';
+import { useToastContext } from '~/Providers';
+import useLocalize from '../useLocalize';
 
 type ExportValues = {
   fieldName: string;
@@ -41,7 +54,9 @@ export default function useExportConversation({
   exportBranches: boolean | 'indeterminate';
   recursive: boolean | 'indeterminate';
 }) {
+  const localize = useLocalize();
   const queryClient = useQueryClient();
+  const { showToast } = useToastContext();
   const { captureScreenshot } = useScreenshot();
   const buildMessageTree = useBuildMessageTree();
 
@@ -363,6 +378,52 @@ export default function useExportConversation({
     });
   };
 
+  const exportQuiz = async (quizType: QuizExportTypes) => {
+    const messages = await buildMessageTree({
+      messageId: conversation?.conversationId,
+      message: null,
+      messages: getMessageTree(),
+      branches: false,
+      recursive: false,
+    });
+
+    const quiz = findLatestQuiz(
+      Array.isArray(messages) ? messages : [messages],
+      conversation?.title ?? undefined,
+    );
+    if (!quiz) {
+      showToast({
+        message: localize('com_ui_quiz_export_not_found'),
+        severity: NotificationSeverity.WARNING,
+      });
+      return;
+    }
+
+    const skipped = getUnsupportedQuizQuestions(quiz, quizType).length;
+    if (skipped > 0) {
+      showToast({
+        message: localize('com_ui_quiz_export_skipped', { 0: skipped }),
+        severity: NotificationSeverity.WARNING,
+      });
+    }
+    if (skipped === quiz.questions.length) {
+      return;
+    }
+
+    if (quizType === QuizExportTypes.QTI) {
+      const data = new Blob([quizToQtiPackage(quiz)], { type: 'application/zip' });
+      download(data, `${filename}.zip`, 'application/zip');
+      return;
+    }
+
+    exportFromJSON({
+      data: quizType === QuizExportTypes.GIFT ? quizToGift(quiz) : quizToAiken(quiz),
+      fileName: filename,
+      extension: 'txt',
+      exportType: exportFromJSON.types.txt,
+    });
+  };
+
   const exportConversation = () => {
     if (type === 'json') {
       exportJSON();
@@ -374,6 +435,8 @@ export default function useExportConversation({
       exportCSV();
     } else if (type == 'screenshot') {
       exportScreenshot();
+    } else if (isQuizExportType(type)) {
+      exportQuiz(type);
     }
   };
 
@@ -6,3 +6,5 @@ export { default as useMessageProcess } from './useMessageProcess';
 export { default as useMessageHelpers } from './useMessageHelpers';
 export { default as useCopyToClipboard } from './useCopyToClipboard';
 export { default as useMessageScrolling } from './useMessageScrolling';
+export { default as useSaveQuiz } from './useSaveQuiz';
+export { default as useSaveRubric } from './useSaveRubric';
@@ -0,0 +1,68 @@
+import { useCallback } from 'react';
+import { ContentTypes } from 'librechat-data-provider';
+import {
+  useUpdateMessageMutation,
+  useUpdateMessageContentMutation,
+} from 'librechat-data-provider/react-query';
+import { useChatContext, useMessageContext } from '~/Providers';
+
+/**
+ * Persists an edited structured block (e.g. a quiz) by rewriting the text of the current message,
+ * either its text or the content part the block was rendered from.
+ * @returns A function that saves the message text returned by `replace`.
+ */
+export default function useSaveMessageBlock() {
+  const { messageId, partIndex } = useMessageContext();
+  const { getMessages, setMessages, conversation } = useChatContext();
+  const conversationId = conversation?.conversationId ?? '';
+  const updateMessageMutation = useUpdateMessageMutation(conversationId);
+  const updateMessageContentMutation = useUpdateMessageContentMutation(conversationId);
+
+  return useCallback(
+    (replace: (text: string) => string) => {
+      const messages = getMessages();
+      const message = messages?.find((msg) => msg.messageId === messageId);
+      if (!messages || !message) {
+        return;
+      }
+
+      const part = partIndex != null ? message.content?.[partIndex] : undefined;
+      if (part?.type === ContentTypes.TEXT && partIndex != null) {
+        const partText = typeof part.text === 'string' ? part.text : part.text.value;
+        const text = replace(partText);
+        updateMessageContentMutation.mutate({ index: partIndex, conversationId, messageId, text });
+        const content = message.content?.map((contentPart, idx) => {
+          if (contentPart.type === ContentTypes.TEXT && idx === partIndex) {
+            return { ...contentPart, text };
+          }
+          return contentPart;
+        });
+        setMessages(
+          messages.map((msg) => (msg.messageId === messageId ? { ...msg, content } : msg)),
+        );
+        return;
+      }
+
+      const text = replace(message.text);
+      updateMessageMutation.mutate({
+        conversationId,
+        model: conversation?.model ?? '',
+        text,
+        messageId,
+      });
+      setMessages(
+        messages.map((msg) => (msg.messageId === messageId ? { ...msg, text } : msg)),
+      );
+    },
+    [
+      messageId,
+      partIndex,
+      getMessages,
+      setMessages,
+      conversationId,
+      conversation?.model,
+      updateMessageMutation,
+      updateMessageContentMutation,
+    ],
+  );
+}
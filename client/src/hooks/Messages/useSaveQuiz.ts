@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { replaceQuizBlock } from 'librechat-data-provider';
+import type { TQuiz } from 'librechat-data-provider';
+import useSaveMessageBlock from './useSaveMessageBlock';
+
+/**
+ * Persists an edited quiz by replacing the quiz block of the current message.
+ */
+export default function useSaveQuiz() {
+  const saveMessageBlock = useSaveMessageBlock();
+  return useCallback(
+    (quiz: TQuiz) => saveMessageBlock((text) => replaceQuizBlock(text, quiz)),
+    [saveMessageBlock],
+  );
+}
@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { replaceRubricBlock } from 'librechat-data-provider';
+import type { TRubric } from 'librechat-data-provider';
+import useSaveMessageBlock from './useSaveMessageBlock';
+
+/**
+ * Persists an edited rubric by replacing the rubric block of the current message.
+ */
+export default function useSaveRubric() {
+  const saveMessageBlock = useSaveMessageBlock();
+  return useCallback(
+    (rubric: TRubric) => saveMessageBlock((text) => replaceRubricBlock(text, rubric)),
+    [saveMessageBlock],
+  );
+}
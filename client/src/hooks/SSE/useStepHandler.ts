@@ -127,6 +127,8 @@ export default function useStepHandler({
         type: ToolCallTypes.TOOL_CALL,
         auth: contentPart.tool_call.auth,
         expires_at: contentPart.tool_call.expires_at,
+        approval: contentPart.tool_call.approval,
+        progress_update: contentPart.tool_call.progress_update,
       };
 
       if (finalUpdate) {
@@ -293,6 +295,10 @@ export default function useStepHandler({
               contentPart.tool_call.expires_at = runStepDelta.delta.expires_at;
             }
 
+            if (runStepDelta.delta.approval != null) {
+              contentPart.tool_call.approval = runStepDelta.delta.approval;
+            }
+
             updatedResponse = updateContent(updatedResponse, runStep.index, contentPart);
           });
 
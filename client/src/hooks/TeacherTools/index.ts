@@ -0,0 +1,2 @@
+export { default as useSubmitTeacherTool } from './useSubmitTeacherTool';
+export { default as usePendingTeacherTool } from './usePendingTeacherTool';
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { useRecoilState } from 'recoil';
+import { Constants } from 'librechat-data-provider';
+import { useChatContext } from '~/Providers';
+import store from '~/store';
+
+/**
+ * Sends a queued Teacher Tool prompt through the regular chat submission
+ * once the new conversation for the tool's target is active.
+ */
+export default function usePendingTeacherTool(index = 0) {
+  const { ask, conversation, isSubmitting } = useChatContext();
+  const [pendingTool, setPendingTool] = useRecoilState(store.pendingTeacherToolByIndex(index));
+
+  useEffect(() => {
+    if (!pendingTool || isSubmitting) {
+      return;
+    }
+    if (
+      conversation?.conversationId !== Constants.NEW_CONVO ||
+      conversation.endpoint !== pendingTool.endpoint
+    ) {
+      return;
+    }
+
+    setPendingTool(null);
+    ask({ text: pendingTool.text, standards: pendingTool.standards });
+  }, [ask, conversation, isSubmitting, pendingTool, setPendingTool]);
+}
@@ -0,0 +1,62 @@
+import { useCallback, useMemo } from 'react';
+import { useSetRecoilState } from 'recoil';
+import type { TTeacherTool } from 'librechat-data-provider';
+import type { TTeacherToolValues } from '~/utils';
+import { buildTeacherToolPrompt, resolveTeacherToolTarget, getMissingTeacherToolField } from '~/utils';
+import { useGetEndpointsQuery, useGetStartupConfig } from '~/data-provider';
+import { NotificationSeverity } from '~/common';
+import { useToastContext } from '~/Providers';
+import useLocalize from '~/hooks/useLocalize';
+import useNewConvo from '~/hooks/useNewConvo';
+import store from '~/store';
+
+/**
+ * Starts a new conversation on the tool's target and queues the filled prompt,
+ * which `usePendingTeacherTool` submits once the chat view has switched over.
+ */
+export default function useSubmitTeacherTool(tool: TTeacherTool, index = 0) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { newConversation } = useNewConvo(index);
+  const { data: startupConfig } = useGetStartupConfig();
+  const { data: endpointsConfig } = useGetEndpointsQuery();
+  const setPendingTool = useSetRecoilState(store.pendingTeacherToolByIndex(index));
+
+  const endpointOption = useMemo(
+    () => resolveTeacherToolTarget(tool, startupConfig?.modelSpecs?.list, endpointsConfig),
+    [tool, startupConfig?.modelSpecs?.list, endpointsConfig],
+  );
+
+  const submitTool = useCallback(
+    (values: TTeacherToolValues, standards?: string[]): boolean => {
+      if (!endpointOption) {
+        showToast({
+          message: localize('com_ui_teacher_tool_unavailable', { 0: tool.title }),
+          severity: NotificationSeverity.ERROR,
+        });
+        return false;
+      }
+
+      const missingField = getMissingTeacherToolField(tool.fields, values);
+      if (missingField != null) {
+        showToast({
+          message: localize('com_ui_teacher_tool_invalid_field', { 0: missingField }),
+          severity: NotificationSeverity.WARNING,
+        });
+        return false;
+      }
+
+      newConversation({ preset: endpointOption });
+      setPendingTool({
+        toolId: tool.id,
+        endpoint: endpointOption.endpoint,
+        text: buildTeacherToolPrompt(tool, values),
+        standards,
+      });
+      return true;
+    },
+    [tool, endpointOption, localize, showToast, newConversation, setPendingTool],
+  );
+
+  return { endpointOption, submitTool };
+}
@@ -13,6 +13,7 @@ export * from './Plugins';
 export * from './Prompts';
 export * from './Roles';
 export * from './SSE';
+export * from './TeacherTools';
 
 export * from './AuthContext';
 export * from './ThemeContext';
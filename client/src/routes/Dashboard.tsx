@@ -5,6 +5,8 @@ import {
   CreatePromptForm,
   EmptyPromptPreview,
 } from '~/components/Prompts';
+import { AssignmentView } from '~/components/Assignments';
+import { TutorAuditView } from '~/components/Tutor';
 import DashboardRoute from './Layouts/Dashboard';
 
 const dashboardRoutes = {
@@ -72,6 +74,14 @@ const dashboardRoutes = {
         },
       ],
     },
+    {
+      path: 'assignments/:assignmentId',
+      element: <AssignmentView />,
+    },
+    {
+      path: 'tutor-audit',
+      element: <TutorAuditView />,
+    },
     {
       path: '*',
       element: <Navigate to="/d/files" replace={true} />,
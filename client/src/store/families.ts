@@ -12,7 +12,7 @@ import {
 } from 'recoil';
 import { LocalStorageKeys, Constants } from 'librechat-data-provider';
 import type { TMessage, TPreset, TConversation, TSubmission } from 'librechat-data-provider';
-import type { TOptionSettings, ExtendedFile } from '~/common';
+import type { TOptionSettings, ExtendedFile, TPendingTeacherTool } from '~/common';
 import { useSetConvoContext } from '~/Providers/SetConvoContext';
 import { storeEndpointSettings, logger } from '~/utils';
 
@@ -194,6 +194,12 @@ const activePromptByIndex = atomFamily<string | undefined, string | number | nul
   default: undefined,
 });
 
+/** Teacher Tool prompt waiting to be sent once its new conversation is active */
+const pendingTeacherToolByIndex = atomFamily<TPendingTeacherTool | null, string | number | null>({
+  key: 'pendingTeacherToolByIndex',
+  default: null,
+});
+
 const showMentionPopoverFamily = atomFamily<boolean, string | number | null>({
   key: 'showMentionPopoverByIndex',
   default: false,
@@ -395,6 +401,7 @@ export default {
   globalAudioFetchingFamily,
   showPlusPopoverFamily,
   activePromptByIndex,
+  pendingTeacherToolByIndex,
   useClearSubmissionState,
   useClearLatestMessages,
   showPromptsPopoverFamily,
@@ -0,0 +1,117 @@
+import {
+  QuestionGrader,
+  SubmissionStatus,
+  QuizQuestionTypes,
+  QuestionResultStatus,
+} from 'librechat-data-provider';
+import type { TQuestionResult, TAssignmentSubmission } from 'librechat-data-provider';
+import { formatScore, formatQuizAnswer, summarizeAssignment } from './assignments';
+
+const result = (points: number, maxPoints = 1): TQuestionResult => ({
+  points,
+  maxPoints,
+  status: points >= maxPoints ? QuestionResultStatus.CORRECT : QuestionResultStatus.INCORRECT,
+  gradedBy: QuestionGrader.AUTO,
+});
+
+const pending: TQuestionResult = { points: 0, maxPoints: 2, status: QuestionResultStatus.PENDING };
+
+const submission = (
+  id: string,
+  results: TQuestionResult[],
+  status = SubmissionStatus.GRADED,
+): TAssignmentSubmission => ({
+  _id: id,
+  assignmentId: 'assignment-1',
+  user: { id: `user-${id}` },
+  responses: [],
+  results,
+  score: results.reduce((sum, item) => sum + item.points, 0),
+  maxScore: results.reduce((sum, item) => sum + item.maxPoints, 0),
+  status,
+  submittedAt: '2026-10-01T10:00:00.000Z',
+});
+
+describe('summarizeAssignment', () => {
+  it('averages graded submissions and questions, skipping pending results', () => {
+    const summary = summarizeAssignment(
+      [
+        submission('a', [result(1), result(2, 2)]),
+        submission('b', [result(0), result(1, 2)]),
+        submission('c', [result(1), pending], SubmissionStatus.SUBMITTED),
+      ],
+      2,
+    );
+
+    expect(summary).toEqual({
+      submittedCount: 3,
+      pendingCount: 1,
+      averagePercent: 67,
+      questions: [
+        { index: 0, averagePercent: 67, pendingCount: 0 },
+        { index: 1, averagePercent: 75, pendingCount: 1 },
+      ],
+    });
+  });
+
+  it('has no averages without graded submissions', () => {
+    const summary = summarizeAssignment([], 1);
+
+    expect(summary.averagePercent).toBeNull();
+    expect(summary.questions).toEqual([{ index: 0, averagePercent: null, pendingCount: 0 }]);
+  });
+});
+
+describe('formatScore', () => {
+  it('formats the score out of the maximum', () => {
+    expect(formatScore({ score: 7.5, maxScore: 10 })).toBe('7.5 / 10');
+  });
+});
+
+describe('formatQuizAnswer', () => {
+  const labels = { true: 'True', false: 'False' };
+
+  it('formats the answer of each question type', () => {
+    expect(
+      formatQuizAnswer(
+        {
+          type: QuizQuestionTypes.MULTIPLE_CHOICE,
+          question: 'What is 2 + 2?',
+          options: ['3', '4'],
+          answer: 1,
+        },
+        labels,
+      ),
+    ).toBe('B. 4');
+    expect(
+      formatQuizAnswer(
+        { type: QuizQuestionTypes.TRUE_FALSE, question: 'The sky is blue.', answer: false },
+        labels,
+      ),
+    ).toBe('False');
+    expect(
+      formatQuizAnswer(
+        {
+          type: QuizQuestionTypes.SHORT_ANSWER,
+          question: 'What gas do plants absorb?',
+          answer: 'Carbon dioxide',
+          acceptableAnswers: ['CO2'],
+        },
+        labels,
+      ),
+    ).toBe('Carbon dioxide / CO2');
+    expect(
+      formatQuizAnswer(
+        {
+          type: QuizQuestionTypes.MATCHING,
+          question: 'Match the capitals.',
+          pairs: [
+            { left: 'France', right: 'Paris' },
+            { left: 'Japan', right: 'Tokyo' },
+          ],
+        },
+        labels,
+      ),
+    ).toBe('France → Paris; Japan → Tokyo');
+  });
+});
@@ -0,0 +1,79 @@
+import { QuizQuestionTypes, QuestionResultStatus, SubmissionStatus } from 'librechat-data-provider';
+import type { TQuizQuestion, TAssignmentSubmission } from 'librechat-data-provider';
+
+export type TQuestionSummary = {
+  index: number;
+  /** Average share of points awarded across graded responses, from 0 to 100 */
+  averagePercent: number | null;
+  pendingCount: number;
+};
+
+export type TAssignmentSummary = {
+  submittedCount: number;
+  pendingCount: number;
+  /** Average score across fully graded submissions, from 0 to 100 */
+  averagePercent: number | null;
+  questions: TQuestionSummary[];
+};
+
+const toPercent = (points: number, maxPoints: number) =>
+  maxPoints > 0 ? (points / maxPoints) * 100 : 0;
+
+const average = (values: number[]) =>
+  values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+/** Summarizes the submissions of an assignment for the results dashboard */
+export function summarizeAssignment(
+  submissions: TAssignmentSubmission[],
+  questionCount: number,
+): TAssignmentSummary {
+  const graded = submissions.filter((submission) => submission.status === SubmissionStatus.GRADED);
+
+  const questions = Array.from({ length: questionCount }, (_, index): TQuestionSummary => {
+    const results = submissions
+      .map((submission) => submission.results[index])
+      .filter((result) => result != null);
+    const gradedResults = results.filter(
+      (result) => result.status !== QuestionResultStatus.PENDING,
+    );
+    return {
+      index,
+      averagePercent: average(
+        gradedResults.map((result) => toPercent(result.points, result.maxPoints)),
+      ),
+      pendingCount: results.length - gradedResults.length,
+    };
+  });
+
+  return {
+    submittedCount: submissions.length,
+    pendingCount: submissions.length - graded.length,
+    averagePercent: average(
+      graded.map((submission) => toPercent(submission.score, submission.maxScore)),
+    ),
+    questions,
+  };
+}
+
+/** Formats a submission score as "score / maxScore" */
+export const formatScore = (submission: Pick<TAssignmentSubmission, 'score' | 'maxScore'>) =>
+  `${submission.score} / ${submission.maxScore}`;
+
+/** Formats the answer key of a question for display next to a student's response */
+export function formatQuizAnswer(
+  question: TQuizQuestion,
+  labels: { true: string; false: string },
+): string {
+  switch (question.type) {
+    case QuizQuestionTypes.MULTIPLE_CHOICE:
+      return `${String.fromCharCode(65 + question.answer)}. ${question.options[question.answer] ?? ''}`;
+    case QuizQuestionTypes.TRUE_FALSE:
+      return question.answer ? labels.true : labels.false;
+    case QuizQuestionTypes.SHORT_ANSWER:
+      return [question.answer, ...(question.acceptableAnswers ?? [])].join(' / ');
+    case QuizQuestionTypes.MATCHING:
+      return question.pairs.map((pair) => `${pair.left} → ${pair.right}`).join('; ');
+    default:
+      return '';
+  }
+}
@@ -15,6 +15,12 @@ export * from './languages';
 export * from './endpoints';
 export * from './localStorage';
 export * from './promptGroups';
+export * from './quizExport';
+export * from './rubricExport';
+export * from './pdf';
+export * from './assignments';
+export * from './teacherTools';
+export * from './mcp';
 export { default as cn } from './cn';
 export { default as logger } from './logger';
 export { default as buildTree } from './buildTree';
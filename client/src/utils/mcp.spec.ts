@@ -0,0 +1,22 @@
+import { formatMCPResourceContext } from './mcp';
+
+describe('formatMCPResourceContext', () => {
+  it('wraps the resource text in a tag naming its source', () => {
+    const text = formatMCPResourceContext(
+      { name: 'Notes' },
+      { serverName: 'files', uri: 'file:///notes.md', text: '\n# Notes\n' },
+    );
+    expect(text).toBe(
+      '<resource name="Notes" server="files" uri="file:///notes.md">\n# Notes\n</resource>\n',
+    );
+  });
+
+  it('escapes quotes in attributes', () => {
+    const text = formatMCPResourceContext(
+      { name: 'Say "hi"' },
+      { serverName: 'files', uri: 'file:///a&b.md', text: 'hi' },
+    );
+    expect(text).toContain('name="Say &quot;hi&quot;"');
+    expect(text).toContain('uri="file:///a&amp;b.md"');
+  });
+});
@@ -0,0 +1,19 @@
+import type { TMCPResource, TMCPResourceContents } from 'librechat-data-provider';
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/**
+ * Wraps the contents of an MCP resource in a tag naming its source,
+ * so the model can tell the context apart from the rest of the message.
+ */
+export function formatMCPResourceContext(
+  resource: Pick<TMCPResource, 'name'>,
+  contents: TMCPResourceContents,
+): string {
+  const attributes = [
+    `name="${escapeAttribute(resource.name)}"`,
+    `server="${escapeAttribute(contents.serverName)}"`,
+    `uri="${escapeAttribute(contents.uri)}"`,
+  ];
+  return `<resource ${attributes.join(' ')}>\n${contents.text.trim()}\n</resource>\n`;
+}
@@ -0,0 +1,136 @@
+export type TPdfBlock = {
+  text: string;
+  bold?: boolean;
+  /** Font size in points, defaults to 11 */
+  size?: number;
+  /** Extra space above the block, in points */
+  spaceBefore?: number;
+};
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const DEFAULT_FONT_SIZE = 11;
+const LINE_HEIGHT = 1.35;
+/** Average Helvetica glyph width relative to the font size, used to wrap lines */
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+/** Unicode punctuation available in WinAnsiEncoding, the encoding of the standard fonts */
+const winAnsiCodes: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+/** Converts text to WinAnsi bytes, one character per byte, keeping line breaks; other characters become `?` */
+const toWinAnsi = (text: string) =>
+  Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    '), (char) => {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if (char === '\n') {
+      return char;
+    }
+    if (winAnsiCodes[char] != null) {
+      return String.fromCharCode(winAnsiCodes[char]);
+    }
+    return (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) ? char : '?';
+  }).join('');
+
+const escapePdfString = (text: string) => text.replace(/[\\()]/g, (char) => `\\${char}`);
+
+/** Wraps a paragraph into lines of at most `maxChars` characters, breaking long words */
+export function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > maxChars) {
+        if (line.length) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      if (!line.length) {
+        line = rest;
+      } else if (line.length + 1 + rest.length <= maxChars) {
+        line = `${line} ${rest}`;
+      } else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Lays out text blocks on Letter pages in Helvetica and serializes them as a PDF document.
+ * Only characters of WinAnsiEncoding are supported.
+ * @returns The PDF file bytes.
+ */
+export function createTextPdf(blocks: TPdfBlock[]): Uint8Array {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const size = block.size ?? DEFAULT_FONT_SIZE;
+    const lineHeight = size * LINE_HEIGHT;
+    const maxChars = Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * AVERAGE_GLYPH_WIDTH));
+    y -= block.spaceBefore ?? 0;
+
+    for (const line of wrapText(toWinAnsi(block.text), maxChars)) {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      if (line.length) {
+        const font = block.bold === true ? 'F2' : 'F1';
+        pages[pages.length - 1].push(
+          `BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapePdfString(line)}) Tj ET`,
+        );
+      }
+    }
+  }
+
+  const fontObjects = ['Helvetica', 'Helvetica-Bold'].map(
+    (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`,
+  );
+  /* Objects 1-4 are the catalog, page tree and fonts; each page adds a page and a content object */
+  const pageIds = pages.map((_page, idx) => 5 + idx * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...fontObjects,
+  ];
+  pages.forEach((lines, idx) => {
+    const content = lines.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[idx] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, idx) => {
+    const offset = pdf.length;
+    pdf += `${idx + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
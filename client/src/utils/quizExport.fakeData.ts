@@ -0,0 +1,121 @@
+import { QuizQuestionTypes, formatQuizBlock } from 'librechat-data-provider';
+import type { TQuiz } from 'librechat-data-provider';
+
+/** Quiz maker output with a trailing answer key section */
+export const answerKeyQuizText = `# Photosynthesis Check-in
+
+Here is a 3-question quiz for grade 7 science.
+
+**1. Which organelle carries out photosynthesis?**
+A) Mitochondria
+B) Chloroplast
+C) Nucleus
+D) Ribosome
+
+**2. Which gas do plants absorb during photosynthesis?**
+A) Oxygen
+B) Nitrogen
+C) Carbon dioxide
+D) Hydrogen
+
+3. Plants release oxygen as a by-product of photosynthesis.
+A) True
+B) False
+
+## Answer Key
+1. B
+2. C) Carbon dioxide
+3. A`;
+
+export const answerKeyQuiz: TQuiz = {
+  title: 'Photosynthesis Check-in',
+  questions: [
+    {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'Which organelle carries out photosynthesis?',
+      options: ['Mitochondria', 'Chloroplast', 'Nucleus', 'Ribosome'],
+      answer: 1,
+    },
+    {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'Which gas do plants absorb during photosynthesis?',
+      options: ['Oxygen', 'Nitrogen', 'Carbon dioxide', 'Hydrogen'],
+      answer: 2,
+    },
+    {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'Plants release oxygen as a by-product of photosynthesis.',
+      options: ['True', 'False'],
+      answer: 0,
+    },
+  ],
+};
+
+/** Quiz maker output with answers and explanations under each question */
+export const inlineAnswerQuizText = `Question 1: What is 7 × 8?
+a. 54
+b. 56
+c. 64
+d. 48
+Answer: b
+Explanation: 7 × 8 = 56.
+
+Question 2: The sum of the angles of a triangle is 180 degrees.
+Correct answer: True
+
+Question 3: What is the square root of 81?
+Answer: nine`;
+
+export const inlineAnswerQuiz: TQuiz = {
+  title: 'Math Warm-up',
+  questions: [
+    {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'What is 7 × 8?',
+      options: ['54', '56', '64', '48'],
+      answer: 1,
+      explanation: '7 × 8 = 56.',
+    },
+    {
+      type: QuizQuestionTypes.TRUE_FALSE,
+      question: 'The sum of the angles of a triangle is 180 degrees.',
+      answer: true,
+    },
+  ],
+};
+
+/** Structured quiz covering every question type, including characters formats must escape */
+export const structuredQuiz: TQuiz = {
+  title: 'Fractions & <Decimals>',
+  questions: [
+    {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'Which fraction equals 0.5? {pick one}',
+      options: ['1/3', '1/2 = 2/4', '3/4', '2/3'],
+      answer: 1,
+      explanation: 'Half of a whole: 1 ÷ 2 = 0.5',
+    },
+    {
+      type: QuizQuestionTypes.TRUE_FALSE,
+      question: '0.25 is greater than 1/5.',
+      answer: true,
+    },
+    {
+      type: QuizQuestionTypes.SHORT_ANSWER,
+      question: 'Write 3/4 as a decimal.',
+      answer: '0.75',
+      acceptableAnswers: ['.75'],
+    },
+    {
+      type: QuizQuestionTypes.MATCHING,
+      question: 'Match each fraction to its decimal.',
+      pairs: [
+        { left: '1/4', right: '0.25' },
+        { left: '1/10', right: '0.1' },
+        { left: '"2/5"', right: '0.4 (it\'s < 0.5)' },
+      ],
+    },
+  ],
+};
+
+export const structuredQuizText = `Sure! Here is your quiz.\n\n${formatQuizBlock(structuredQuiz)}`;
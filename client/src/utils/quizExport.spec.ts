@@ -0,0 +1,256 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { ContentTypes, QuizQuestionTypes } from 'librechat-data-provider';
+import type { TMessage, TQuiz, TQuizQuestion } from 'librechat-data-provider';
+import {
+  quizToGift,
+  quizToAiken,
+  parseQuizText,
+  findLatestQuiz,
+  QuizExportTypes,
+  quizToQtiPackage,
+  getUnsupportedQuizQuestions,
+} from './quizExport';
+import {
+  answerKeyQuiz,
+  structuredQuiz,
+  inlineAnswerQuiz,
+  answerKeyQuizText,
+  structuredQuizText,
+  inlineAnswerQuizText,
+} from './quizExport.fakeData';
+
+const unescapeGift = (text: string) =>
+  text.replace(/\\(.)/g, (_match, char: string) => (char === 'n' ? '\n' : char));
+
+/** Minimal GIFT reader covering the subset `quizToGift` writes */
+const readGift = (text: string): TQuiz => {
+  const [comment, ...blocks] = text.trim().split('\n\n');
+  const questions = blocks.map((block): TQuizQuestion => {
+    const match = /^::Q\d+:: ((?:\\.|[^\\{])*) \{\n([\s\S]*)\n\}$/.exec(block);
+    if (!match) {
+      throw new Error(`Invalid GIFT question: ${block}`);
+    }
+    const lines = match[2].split('\n').map((line) => line.replace(/^\t/, ''));
+    const feedback = lines.find((line) => line.startsWith('####'));
+    const answers = lines.filter((line) => !line.startsWith('####'));
+    const base = {
+      question: unescapeGift(match[1]),
+      ...(feedback != null ? { explanation: unescapeGift(feedback.slice(4)) } : {}),
+    };
+
+    if (answers[0] === 'TRUE' || answers[0] === 'FALSE') {
+      return { ...base, type: QuizQuestionTypes.TRUE_FALSE, answer: answers[0] === 'TRUE' };
+    }
+    if (answers.some((line) => line.startsWith('~'))) {
+      return {
+        ...base,
+        type: QuizQuestionTypes.MULTIPLE_CHOICE,
+        options: answers.map((line) => unescapeGift(line.slice(1))),
+        answer: answers.findIndex((line) => line.startsWith('=')),
+      };
+    }
+    if (answers.every((line) => /^=(?:\\.|[^\\])* -> /.test(line))) {
+      return {
+        ...base,
+        type: QuizQuestionTypes.MATCHING,
+        pairs: answers.map((line) => {
+          const [left, right] = line.slice(1).split(' -> ');
+          return { left: unescapeGift(left), right: unescapeGift(right) };
+        }),
+      };
+    }
+    const [answer, ...acceptableAnswers] = answers.map((line) => unescapeGift(line.slice(1)));
+    return {
+      ...base,
+      type: QuizQuestionTypes.SHORT_ANSWER,
+      answer,
+      ...(acceptableAnswers.length ? { acceptableAnswers } : {}),
+    };
+  });
+  return { title: comment.replace(/^\/\/ /, ''), questions };
+};
+
+/** Minimal Aiken reader; every question comes back as multiple choice */
+const readAiken = (text: string) =>
+  text
+    .trim()
+    .split('\n\n')
+    .map((block) => {
+      const [question, ...rest] = block.split('\n');
+      const answer = rest.pop()?.replace('ANSWER: ', '') ?? '';
+      return {
+        question,
+        options: rest.map((line) => line.slice(3)),
+        answer: answer.charCodeAt(0) - 65,
+      };
+    });
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const textOf = (element: Element | null | undefined) => element?.textContent ?? '';
+
+/** Reads a QTI 2.1 package back into a quiz (explanations and points are not exported) */
+const readQtiPackage = (data: Uint8Array) => {
+  const files = unzipSync(data);
+  const manifest = parseXml(strFromU8(files['imsmanifest.xml']));
+  const test = parseXml(strFromU8(files['assessment.xml']));
+  const itemHrefs = Array.from(test.getElementsByTagName('assessmentItemRef')).map(
+    (ref) => ref.getAttribute('href') ?? '',
+  );
+
+  const questions = itemHrefs.map((href): TQuizQuestion => {
+    const item = parseXml(strFromU8(files[href]));
+    const correct = Array.from(
+      item.getElementsByTagName('correctResponse')[0].getElementsByTagName('value'),
+    ).map(textOf);
+    const choices = Array.from(item.getElementsByTagName('simpleChoice'));
+
+    if (item.getElementsByTagName('matchInteraction').length) {
+      const associable = Array.from(item.getElementsByTagName('simpleAssociableChoice'));
+      const choiceText = (identifier: string) =>
+        textOf(associable.find((choice) => choice.getAttribute('identifier') === identifier));
+      return {
+        type: QuizQuestionTypes.MATCHING,
+        question: textOf(item.getElementsByTagName('prompt')[0]),
+        pairs: correct.map((pair) => {
+          const [left, right] = pair.split(' ');
+          return { left: choiceText(left), right: choiceText(right) };
+        }),
+      };
+    }
+    if (item.getElementsByTagName('textEntryInteraction').length) {
+      const accepted = Array.from(item.getElementsByTagName('mapEntry'))
+        .map((entry) => entry.getAttribute('mapKey') ?? '')
+        .filter((key) => key !== correct[0]);
+      return {
+        type: QuizQuestionTypes.SHORT_ANSWER,
+        question: textOf(item.getElementsByTagName('p')[0]),
+        answer: correct[0],
+        ...(accepted.length ? { acceptableAnswers: accepted } : {}),
+      };
+    }
+    const question = textOf(item.getElementsByTagName('prompt')[0]);
+    if (choices[0]?.getAttribute('identifier') === 'true') {
+      return { type: QuizQuestionTypes.TRUE_FALSE, question, answer: correct[0] === 'true' };
+    }
+    return {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question,
+      options: choices.map(textOf),
+      answer: choices.findIndex((choice) => choice.getAttribute('identifier') === correct[0]),
+    };
+  });
+
+  return {
+    manifest,
+    quiz: { title: test.documentElement.getAttribute('title') ?? '', questions },
+  };
+};
+
+const withoutExplanations = (quiz: TQuiz): TQuiz => ({
+  ...quiz,
+  questions: quiz.questions.map(({ explanation: _explanation, ...question }) => question),
+});
+
+describe('parseQuizText', () => {
+  it('parses numbered questions with a trailing answer key', () => {
+    expect(parseQuizText(answerKeyQuizText)).toEqual(answerKeyQuiz);
+  });
+
+  it('parses inline answers and explanations, dropping unanswerable questions', () => {
+    expect(parseQuizText(inlineAnswerQuizText, 'Math Warm-up')).toEqual(inlineAnswerQuiz);
+  });
+
+  it('prefers a structured quiz block', () => {
+    expect(parseQuizText(structuredQuizText)).toEqual(structuredQuiz);
+  });
+
+  it('returns null when the text contains no answered questions', () => {
+    expect(parseQuizText('1. What is a noun?\n2. Name three verbs.')).toBeNull();
+    expect(parseQuizText('Here is a summary of the lesson.')).toBeNull();
+  });
+});
+
+describe('findLatestQuiz', () => {
+  it('returns the quiz from the most recent response, skipping user messages', () => {
+    const messages: Array<Partial<TMessage>> = [
+      { messageId: '1', isCreatedByUser: false, text: answerKeyQuizText },
+      {
+        messageId: '2',
+        isCreatedByUser: false,
+        text: '',
+        content: [{ type: ContentTypes.TEXT, text: structuredQuizText }],
+      },
+      { messageId: '3', isCreatedByUser: true, text: inlineAnswerQuizText },
+    ];
+    expect(findLatestQuiz(messages)).toEqual(structuredQuiz);
+  });
+
+  it('returns null when no message contains a quiz', () => {
+    expect(findLatestQuiz([{ messageId: '1', text: 'Hello' }, undefined])).toBeNull();
+  });
+});
+
+describe('quizToGift', () => {
+  it.each([
+    ['answer key', answerKeyQuiz],
+    ['inline answer', inlineAnswerQuiz],
+    ['structured', structuredQuiz],
+  ])('round-trips the %s fixture', (_name, quiz) => {
+    expect(readGift(quizToGift(quiz))).toEqual(quiz);
+  });
+
+  it('escapes GIFT control characters', () => {
+    const gift = quizToGift(structuredQuiz);
+    expect(gift).toContain('::Q1:: Which fraction equals 0.5? \\{pick one\\} {');
+    expect(gift).toContain('\t=1/2 \\= 2/4');
+    expect(gift).toContain('\t####Half of a whole\\: 1 ÷ 2 \\= 0.5');
+  });
+});
+
+describe('quizToAiken', () => {
+  it('round-trips multiple choice and true/false questions', () => {
+    expect(readAiken(quizToAiken(inlineAnswerQuiz))).toEqual([
+      { question: 'What is 7 × 8?', options: ['54', '56', '64', '48'], answer: 1 },
+      {
+        question: 'The sum of the angles of a triangle is 180 degrees.',
+        options: ['True', 'False'],
+        answer: 0,
+      },
+    ]);
+  });
+
+  it('omits question types Aiken cannot represent', () => {
+    const aiken = readAiken(quizToAiken(structuredQuiz));
+    expect(aiken.map(({ question }) => question)).toEqual([
+      'Which fraction equals 0.5? {pick one}',
+      '0.25 is greater than 1/5.',
+    ]);
+    expect(getUnsupportedQuizQuestions(structuredQuiz, QuizExportTypes.AIKEN)).toHaveLength(2);
+    expect(getUnsupportedQuizQuestions(structuredQuiz, QuizExportTypes.QTI)).toHaveLength(0);
+  });
+});
+
+describe('quizToQtiPackage', () => {
+  it.each([
+    ['answer key', answerKeyQuiz],
+    ['inline answer', inlineAnswerQuiz],
+    ['structured', structuredQuiz],
+  ])('round-trips the %s fixture', (_name, quiz) => {
+    const { quiz: result } = readQtiPackage(quizToQtiPackage(quiz));
+    expect(result).toEqual(withoutExplanations(quiz));
+  });
+
+  it('lists the test and every item in the manifest', () => {
+    const { manifest } = readQtiPackage(quizToQtiPackage(structuredQuiz));
+    const resources = Array.from(manifest.getElementsByTagName('resource'));
+    expect(resources.map((resource) => resource.getAttribute('type'))).toEqual([
+      'imsqti_test_xmlv2p1',
+      'imsqti_item_xmlv2p1',
+      'imsqti_item_xmlv2p1',
+      'imsqti_item_xmlv2p1',
+      'imsqti_item_xmlv2p1',
+    ]);
+    expect(manifest.getElementsByTagName('dependency')).toHaveLength(4);
+  });
+});
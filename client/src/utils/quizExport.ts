@@ -0,0 +1,441 @@
+import { strToU8, zipSync } from 'fflate';
+import { ContentTypes, QuizQuestionTypes, extractQuiz, tQuizSchema } from 'librechat-data-provider';
+import type { TMessage, TQuiz, TQuizQuestion } from 'librechat-data-provider';
+
+export enum QuizExportTypes {
+  QTI = 'qti',
+  GIFT = 'gift',
+  AIKEN = 'aiken',
+}
+
+export const isQuizExportType = (type: string): type is QuizExportTypes =>
+  Object.values(QuizExportTypes).includes(type as QuizExportTypes);
+
+const optionLabel = (idx: number) => String.fromCharCode(65 + idx);
+
+const questionRegex = /^(?:question\s*)?(\d+)\s*[.):]\s*(.+)$/i;
+const optionRegex = /^[-*]?\s*\(?([a-h])\s*[.)]\s*(.+)$/i;
+const inlineAnswerRegex = /^(?:correct\s+)?answer\s*[:-]\s*(.+)$/i;
+const explanationRegex = /^explanation\s*[:-]\s*(.+)$/i;
+const answerKeyHeadingRegex = /^(?:answer\s+key|answers)\s*:?$/i;
+const answerKeyEntryRegex = /^(?:question\s*)?(\d+)\s*[.):-]?\s*(true|false|[a-h])\b/i;
+
+type TDraftQuestion = {
+  number: number;
+  question: string;
+  options: string[];
+  answer?: string;
+  explanation?: string;
+};
+
+const stripMarkdown = (line: string) =>
+  line
+    .replace(/\*\*|__/g, '')
+    .replace(/^#+\s*/, '')
+    .trim();
+
+const toQuestion = ({ question, options, answer, explanation }: TDraftQuestion) => {
+  const value = answer?.trim() ?? '';
+  const base = explanation != null ? { question, explanation } : { question };
+
+  if (options.length >= 2) {
+    const index = value.length ? value.toUpperCase().charCodeAt(0) - 65 : -1;
+    if (index < 0 || index >= options.length) {
+      return null;
+    }
+    return { ...base, type: QuizQuestionTypes.MULTIPLE_CHOICE, options, answer: index };
+  }
+
+  if (/^(true|false)$/i.test(value)) {
+    return { ...base, type: QuizQuestionTypes.TRUE_FALSE, answer: value.toLowerCase() === 'true' };
+  }
+
+  return null;
+};
+
+/**
+ * Parses a quiz out of message text, preferring a structured quiz block and
+ * otherwise reading numbered questions, lettered options and an answer key,
+ * given either inline (`Answer: B`) or in a trailing "Answer Key" section.
+ * Questions without a resolvable answer are dropped.
+ * @returns The quiz, or `null` if no question with an answer was found.
+ */
+export function parseQuizText(text: string, fallbackTitle = 'Quiz'): TQuiz | null {
+  const structured = extractQuiz(text);
+  if (structured) {
+    return structured;
+  }
+
+  let title: string | undefined;
+  let inAnswerKey = false;
+  const drafts: TDraftQuestion[] = [];
+  const answerKey: Record<number, string> = {};
+
+  for (const rawLine of text.split('\n')) {
+    const isHeading = rawLine.trim().startsWith('#');
+    const line = stripMarkdown(rawLine);
+    if (!line.length) {
+      continue;
+    }
+
+    if (answerKeyHeadingRegex.test(line)) {
+      inAnswerKey = true;
+      continue;
+    }
+
+    if (inAnswerKey) {
+      const entry = answerKeyEntryRegex.exec(line);
+      if (entry) {
+        answerKey[Number(entry[1])] = entry[2];
+      }
+      continue;
+    }
+
+    const current = drafts[drafts.length - 1] as TDraftQuestion | undefined;
+    const questionMatch = questionRegex.exec(line);
+    if (questionMatch) {
+      drafts.push({ number: Number(questionMatch[1]), question: questionMatch[2].trim(), options: [] });
+      continue;
+    }
+
+    if (!current) {
+      if (isHeading && title == null) {
+        title = line;
+      }
+      continue;
+    }
+
+    const answerMatch = inlineAnswerRegex.exec(line);
+    if (answerMatch) {
+      current.answer = answerMatch[1].replace(/^\(?([a-h])\s*[.)]?(\s.*)?$/i, '$1');
+      continue;
+    }
+
+    const explanationMatch = explanationRegex.exec(line);
+    if (explanationMatch) {
+      current.explanation = explanationMatch[1].trim();
+      continue;
+    }
+
+    const optionMatch = optionRegex.exec(line);
+    if (optionMatch && optionMatch[1].toUpperCase() === optionLabel(current.options.length)) {
+      current.options.push(optionMatch[2].trim());
+      continue;
+    }
+
+    if (!current.options.length && current.answer == null) {
+      current.question = `${current.question} ${line}`;
+    }
+  }
+
+  const questions = drafts
+    .map((draft) => toQuestion({ ...draft, answer: answerKey[draft.number] ?? draft.answer }))
+    .filter((question) => question != null);
+
+  const result = tQuizSchema.safeParse({ title: title ?? fallbackTitle, questions });
+  return result.success ? result.data : null;
+}
+
+const getMessageTexts = (message: Partial<TMessage>): string[] => {
+  if (!message.content) {
+    return [message.text ?? ''];
+  }
+  return message.content.map((part) => {
+    if (part.type !== ContentTypes.TEXT) {
+      return '';
+    }
+    return typeof part.text === 'string' ? part.text : part.text.value;
+  });
+};
+
+/** Finds the most recent response in a branch that contains a quiz */
+export function findLatestQuiz(
+  messages: Array<Partial<TMessage> | undefined>,
+  fallbackTitle?: string,
+): TQuiz | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (!message || message.isCreatedByUser === true) {
+      continue;
+    }
+    const quiz = parseQuizText(getMessageTexts(message).join('\n\n'), fallbackTitle);
+    if (quiz) {
+      return quiz;
+    }
+  }
+  return null;
+}
+
+const aikenQuestionTypes = new Set<string>([
+  QuizQuestionTypes.MULTIPLE_CHOICE,
+  QuizQuestionTypes.TRUE_FALSE,
+]);
+
+/** Returns the questions a format cannot represent; Aiken only supports single-answer choices */
+export function getUnsupportedQuizQuestions(quiz: TQuiz, type: QuizExportTypes): TQuizQuestion[] {
+  if (type !== QuizExportTypes.AIKEN) {
+    return [];
+  }
+  return quiz.questions.filter((question) => !aikenQuestionTypes.has(question.type));
+}
+
+const escapeGift = (text: string) => text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+/** Serializes a quiz as Moodle GIFT import text */
+export function quizToGift(quiz: TQuiz): string {
+  const questions = quiz.questions.map((question, idx) => {
+    const answers: string[] = [];
+    switch (question.type) {
+      case QuizQuestionTypes.MULTIPLE_CHOICE:
+        question.options.forEach((option, optionIdx) => {
+          answers.push(`${optionIdx === question.answer ? '=' : '~'}${escapeGift(option)}`);
+        });
+        break;
+      case QuizQuestionTypes.TRUE_FALSE:
+        answers.push(question.answer ? 'TRUE' : 'FALSE');
+        break;
+      case QuizQuestionTypes.SHORT_ANSWER:
+        [question.answer, ...(question.acceptableAnswers ?? [])].forEach((answer) => {
+          answers.push(`=${escapeGift(answer)}`);
+        });
+        break;
+      case QuizQuestionTypes.MATCHING:
+        question.pairs.forEach((pair) => {
+          answers.push(`=${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`);
+        });
+        break;
+    }
+    if (question.explanation != null && question.explanation.length > 0) {
+      answers.push(`####${escapeGift(question.explanation)}`);
+    }
+    const body = answers.map((answer) => `\t${answer}`).join('\n');
+    return `::Q${idx + 1}:: ${escapeGift(question.question)} {\n${body}\n}`;
+  });
+
+  return [`// ${singleLine(quiz.title)}`, ...questions].join('\n\n') + '\n';
+}
+
+/**
+ * Serializes a quiz as Aiken import text. True/false questions become two-option
+ * multiple choice; question types Aiken cannot represent are omitted.
+ */
+export function quizToAiken(quiz: TQuiz): string {
+  const questions: string[] = [];
+  for (const question of quiz.questions) {
+    let options: string[];
+    let answer: number;
+    if (question.type === QuizQuestionTypes.MULTIPLE_CHOICE) {
+      options = question.options;
+      answer = question.answer;
+    } else if (question.type === QuizQuestionTypes.TRUE_FALSE) {
+      options = ['True', 'False'];
+      answer = question.answer ? 0 : 1;
+    } else {
+      continue;
+    }
+    questions.push(
+      [
+        singleLine(question.question),
+        ...options.map((option, idx) => `${optionLabel(idx)}. ${singleLine(option)}`),
+        `ANSWER: ${optionLabel(answer)}`,
+      ].join('\n'),
+    );
+  }
+  return questions.join('\n\n') + '\n';
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const QTI_NAMESPACE =
+  'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" ' +
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+  'xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 ' +
+  'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"';
+
+const QTI_TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+const choiceItemBody = (prompt: string, choices: Array<[string, string]>) =>
+  [
+    '    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">',
+    `      <prompt>${escapeXml(prompt)}</prompt>`,
+    ...choices.map(
+      ([identifier, text]) =>
+        `      <simpleChoice identifier="${identifier}">${escapeXml(text)}</simpleChoice>`,
+    ),
+    '    </choiceInteraction>',
+  ].join('\n');
+
+const buildQtiItem = (question: TQuizQuestion, identifier: string, title: string) => {
+  let declaration: string;
+  let body: string;
+  let template = 'match_correct';
+
+  switch (question.type) {
+    case QuizQuestionTypes.MULTIPLE_CHOICE:
+      declaration = [
+        '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+        `    <correctResponse><value>choice-${question.answer}</value></correctResponse>`,
+        '  </responseDeclaration>',
+      ].join('\n');
+      body = choiceItemBody(
+        question.question,
+        question.options.map((option, idx) => [`choice-${idx}`, option]),
+      );
+      break;
+    case QuizQuestionTypes.TRUE_FALSE:
+      declaration = [
+        '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+        `    <correctResponse><value>${question.answer ? 'true' : 'false'}</value></correctResponse>`,
+        '  </responseDeclaration>',
+      ].join('\n');
+      body = choiceItemBody(question.question, [
+        ['true', 'True'],
+        ['false', 'False'],
+      ]);
+      break;
+    case QuizQuestionTypes.SHORT_ANSWER: {
+      const answers = [question.answer, ...(question.acceptableAnswers ?? [])];
+      template = 'map_response';
+      declaration = [
+        '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+        `    <correctResponse><value>${escapeXml(question.answer)}</value></correctResponse>`,
+        '    <mapping defaultValue="0">',
+        ...answers.map(
+          (answer) =>
+            `      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="false"/>`,
+        ),
+        '    </mapping>',
+        '  </responseDeclaration>',
+      ].join('\n');
+      body = [
+        `    <p>${escapeXml(question.question)}</p>`,
+        '    <p><textEntryInteraction responseIdentifier="RESPONSE"/></p>',
+      ].join('\n');
+      break;
+    }
+    case QuizQuestionTypes.MATCHING: {
+      const count = question.pairs.length;
+      template = 'map_response';
+      declaration = [
+        '  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">',
+        '    <correctResponse>',
+        ...question.pairs.map((_pair, idx) => `      <value>left-${idx} right-${idx}</value>`),
+        '    </correctResponse>',
+        `    <mapping defaultValue="0" upperBound="${count}">`,
+        ...question.pairs.map(
+          (_pair, idx) => `      <mapEntry mapKey="left-${idx} right-${idx}" mappedValue="1"/>`,
+        ),
+        '    </mapping>',
+        '  </responseDeclaration>',
+      ].join('\n');
+      const matchSet = (side: 'left' | 'right') =>
+        [
+          '      <simpleMatchSet>',
+          ...question.pairs.map(
+            (pair, idx) =>
+              `        <simpleAssociableChoice identifier="${side}-${idx}" matchMax="1">${escapeXml(
+                pair[side],
+              )}</simpleAssociableChoice>`,
+          ),
+          '      </simpleMatchSet>',
+        ].join('\n');
+      body = [
+        `    <matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${count}">`,
+        `      <prompt>${escapeXml(question.question)}</prompt>`,
+        matchSet('left'),
+        matchSet('right'),
+        '    </matchInteraction>',
+      ].join('\n');
+      break;
+    }
+  }
+
+  return [
+    XML_DECLARATION,
+    `<assessmentItem ${QTI_NAMESPACE} identifier="${identifier}" title="${escapeXml(
+      title,
+    )}" adaptive="false" timeDependent="false">`,
+    declaration,
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+    '    <defaultValue><value>0</value></defaultValue>',
+    '  </outcomeDeclaration>',
+    '  <itemBody>',
+    body,
+    '  </itemBody>',
+    `  <responseProcessing template="${QTI_TEMPLATES}/${template}"/>`,
+    '</assessmentItem>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Packages a quiz as an IMS QTI 2.1 content package: one assessment item per
+ * question, an assessment test referencing them, and the `imsmanifest.xml`.
+ * @returns The zip archive bytes.
+ */
+export function quizToQtiPackage(quiz: TQuiz): Uint8Array {
+  const items = quiz.questions.map((question, idx) => ({
+    identifier: `item-${idx + 1}`,
+    href: `items/item-${idx + 1}.xml`,
+    xml: buildQtiItem(question, `item-${idx + 1}`, `Question ${idx + 1}`),
+  }));
+
+  const test = [
+    XML_DECLARATION,
+    `<assessmentTest ${QTI_NAMESPACE} identifier="assessment" title="${escapeXml(quiz.title)}">`,
+    '  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    `    <assessmentSection identifier="section-1" title="${escapeXml(quiz.title)}" visible="true">`,
+    ...items.map(
+      ({ identifier, href }) =>
+        `      <assessmentItemRef identifier="${identifier}" href="${href}"/>`,
+    ),
+    '    </assessmentSection>',
+    '  </testPart>',
+    '</assessmentTest>',
+    '',
+  ].join('\n');
+
+  const manifest = [
+    XML_DECLARATION,
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest">',
+    '  <metadata>',
+    '    <schema>QTIv2.1 Package</schema>',
+    '    <schemaversion>1.0.0</schemaversion>',
+    '  </metadata>',
+    '  <organizations/>',
+    '  <resources>',
+    '    <resource identifier="assessment" type="imsqti_test_xmlv2p1" href="assessment.xml">',
+    '      <file href="assessment.xml"/>',
+    ...items.map(({ identifier }) => `      <dependency identifierref="${identifier}"/>`),
+    '    </resource>',
+    ...items.map(({ identifier, href }) =>
+      [
+        `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}">`,
+        `      <file href="${href}"/>`,
+        '    </resource>',
+      ].join('\n'),
+    ),
+    '  </resources>',
+    '</manifest>',
+    '',
+  ].join('\n');
+
+  const files: Record<string, Uint8Array> = {
+    'imsmanifest.xml': strToU8(manifest),
+    'assessment.xml': strToU8(test),
+  };
+  for (const item of items) {
+    files[item.href] = strToU8(item.xml);
+  }
+  return zipSync(files);
+}
@@ -0,0 +1,128 @@
+import type { TRubric, TRubricFeedback } from 'librechat-data-provider';
+import {
+  toCsv,
+  rubricToCsv,
+  rubricFeedbackToCsv,
+  rubricFeedbackToPdf,
+  getRubricExportFilename,
+} from './rubricExport';
+import { createTextPdf, wrapText } from './pdf';
+
+const labels = {
+  criterion: 'Criterion',
+  level: 'Level',
+  points: 'Points',
+  maxPoints: 'Max Points',
+  feedback: 'Feedback',
+  total: 'Total',
+  summary: 'Summary',
+  student: 'Student',
+};
+
+const rubric: TRubric = {
+  title: 'Persuasive Essay',
+  levels: [
+    { label: 'Exemplary', points: 4 },
+    { label: 'Developing', points: 1 },
+  ],
+  criteria: [
+    { name: 'Thesis', description: 'Main claim', descriptors: ['Clear, arguable', 'Unclear'] },
+  ],
+};
+
+const feedback: TRubricFeedback = {
+  title: 'Persuasive Essay',
+  student: 'Sam',
+  scores: [
+    {
+      criterion: 'Thesis',
+      level: 'Exemplary',
+      points: 4,
+      maxPoints: 4,
+      feedback: 'Your claim "school should start later" is clear.',
+    },
+    { criterion: 'Evidence', level: 'Developing', points: 1, maxPoints: 4, feedback: 'Cite.' },
+  ],
+  summary: 'A strong start (keep going).',
+};
+
+const decode = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv([['a', 'b,c', 'say "hi"', 'line\nbreak', 3]])).toBe(
+      'a,"b,c","say ""hi""","line\nbreak",3',
+    );
+  });
+});
+
+describe('rubricToCsv', () => {
+  it('lists the criteria by performance level', () => {
+    expect(rubricToCsv(rubric, labels)).toBe(
+      'Criterion,Exemplary (4),Developing (1)\r\nThesis: Main claim,"Clear, arguable",Unclear',
+    );
+  });
+});
+
+describe('rubricFeedbackToCsv', () => {
+  it('lists the scores with the student, total and summary', () => {
+    const rows = rubricFeedbackToCsv(feedback, labels).split('\r\n');
+    expect(rows[0]).toBe('Student,Sam');
+    expect(rows[1]).toBe('Criterion,Level,Points,Max Points,Feedback');
+    expect(rows[2]).toBe(
+      'Thesis,Exemplary,4,4,"Your claim ""school should start later"" is clear."',
+    );
+    expect(rows[4]).toBe('Total,,5,8,');
+    expect(rows[5]).toBe('Summary,,,,A strong start (keep going).');
+  });
+});
+
+describe('getRubricExportFilename', () => {
+  it('joins the title and student without invalid characters', () => {
+    expect(getRubricExportFilename('Essay: Draft 1/2', 'Sam')).toBe('Essay Draft 12 - Sam');
+    expect(getRubricExportFilename('')).toBe('rubric');
+  });
+});
+
+describe('createTextPdf', () => {
+  it('writes a PDF whose cross-reference table points at each object', () => {
+    const pdf = decode(createTextPdf([{ text: 'Hello (world) \\ café – “quoted” 🎉' }]));
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(pdf).toContain('(Hello \\(world\\) \\\\ caf\xe9 \x96 \x93quoted\x94 ?) Tj');
+
+    const offsets = pdf.match(/^(\d{10}) 00000 n $/gm) ?? [];
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((entry, idx) => {
+      expect(pdf.slice(Number(entry.slice(0, 10))).startsWith(`${idx + 1} 0 obj`)).toBe(true);
+    });
+
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.slice(startxref).startsWith('xref')).toBe(true);
+  });
+
+  it('adds pages when the text does not fit', () => {
+    const pdf = decode(createTextPdf([{ text: Array(120).fill('Line').join('\n') }]));
+    expect(pdf).toContain('/Count 3');
+  });
+});
+
+describe('wrapText', () => {
+  it('wraps words and breaks words longer than a line', () => {
+    expect(wrapText('one two three\nabcdefghij', 8)).toEqual([
+      'one two',
+      'three',
+      'abcdefgh',
+      'ij',
+    ]);
+  });
+});
+
+describe('rubricFeedbackToPdf', () => {
+  it('includes the scores, feedback and total', () => {
+    const pdf = decode(rubricFeedbackToPdf(feedback, labels));
+    expect(pdf).toContain('(Total: 5 / 8) Tj');
+    expect(pdf).toContain('(Thesis \x96 Exemplary \\(4 / 4\\)) Tj');
+    expect(pdf).toContain('/BaseFont /Helvetica-Bold');
+  });
+});
@@ -0,0 +1,96 @@
+import { getRubricFeedbackTotals } from 'librechat-data-provider';
+import type { TRubric, TRubricFeedback } from 'librechat-data-provider';
+import { createTextPdf } from './pdf';
+import type { TPdfBlock } from './pdf';
+
+/** Localized column and section labels of rubric exports */
+export type TRubricExportLabels = {
+  criterion: string;
+  level: string;
+  points: string;
+  maxPoints: string;
+  feedback: string;
+  total: string;
+  summary: string;
+  student: string;
+};
+
+const escapeCsvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serializes rows as CSV, quoting cells that contain commas, quotes or line breaks */
+export const toCsv = (rows: Array<Array<string | number>>): string =>
+  rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+/** Formats a file name for an export, without characters that are invalid in file names */
+export const getRubricExportFilename = (title: string, student?: string) =>
+  [title, student]
+    .filter(Boolean)
+    .join(' - ')
+    .replace(/[\\/:*?"<>|]/g, '')
+    .trim() || 'rubric';
+
+/** Serializes a rubric as a CSV table of criteria by performance level */
+export function rubricToCsv(rubric: TRubric, labels: Pick<TRubricExportLabels, 'criterion'>) {
+  return toCsv([
+    [labels.criterion, ...rubric.levels.map((level) => `${level.label} (${level.points})`)],
+    ...rubric.criteria.map((criterion) => [
+      criterion.description ? `${criterion.name}: ${criterion.description}` : criterion.name,
+      ...criterion.descriptors,
+    ]),
+  ]);
+}
+
+/** Serializes rubric feedback as CSV: one row per criterion, then the total and summary */
+export function rubricFeedbackToCsv(feedback: TRubricFeedback, labels: TRubricExportLabels) {
+  const totals = getRubricFeedbackTotals(feedback);
+  const rows: Array<Array<string | number>> = [
+    [labels.criterion, labels.level, labels.points, labels.maxPoints, labels.feedback],
+    ...feedback.scores.map((score) => [
+      score.criterion,
+      score.level,
+      score.points,
+      score.maxPoints,
+      score.feedback,
+    ]),
+    [labels.total, '', totals.points, totals.maxPoints, ''],
+  ];
+  if (feedback.student) {
+    rows.unshift([labels.student, feedback.student]);
+  }
+  if (feedback.summary) {
+    rows.push([labels.summary, '', '', '', feedback.summary]);
+  }
+  return toCsv(rows);
+}
+
+/** Lays out rubric feedback as a printable PDF document */
+export function rubricFeedbackToPdf(feedback: TRubricFeedback, labels: TRubricExportLabels) {
+  const totals = getRubricFeedbackTotals(feedback);
+  const blocks: TPdfBlock[] = [{ text: feedback.title, bold: true, size: 16 }];
+  if (feedback.student) {
+    blocks.push({ text: `${labels.student}: ${feedback.student}`, spaceBefore: 4 });
+  }
+  blocks.push({ text: `${labels.total}: ${totals.points} / ${totals.maxPoints}`, bold: true });
+
+  for (const score of feedback.scores) {
+    blocks.push(
+      {
+        text: `${score.criterion} – ${score.level} (${score.points} / ${score.maxPoints})`,
+        bold: true,
+        spaceBefore: 12,
+      },
+      { text: score.feedback },
+    );
+  }
+
+  if (feedback.summary) {
+    blocks.push(
+      { text: labels.summary, bold: true, size: 13, spaceBefore: 16 },
+      { text: feedback.summary },
+    );
+  }
+  return createTextPdf(blocks);
+}
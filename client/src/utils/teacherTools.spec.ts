@@ -0,0 +1,150 @@
+import {
+  EModelEndpoint,
+  TeacherToolFieldTypes,
+  quizFormatInstructions,
+  rubricFormatInstructions,
+  TeacherToolResponseFormats,
+} from 'librechat-data-provider';
+import type { TModelSpec, TTeacherTool, TEndpointsConfig } from 'librechat-data-provider';
+import {
+  fillTeacherToolPrompt,
+  buildTeacherToolPrompt,
+  getTeacherToolDefaults,
+  resolveTeacherToolTarget,
+  getMissingTeacherToolField,
+} from './teacherTools';
+
+const baseTool: TTeacherTool = {
+  id: 'quiz',
+  title: 'Quiz Maker',
+  promptTemplate: 'Create a quiz on {{topic}}.\nAdditional instructions: {{notes}}',
+  responseFormat: TeacherToolResponseFormats.MARKDOWN,
+  fields: [
+    { name: 'topic', label: 'Topic', type: TeacherToolFieldTypes.TEXT, required: true },
+    { name: 'notes', label: 'Notes', type: TeacherToolFieldTypes.TEXTAREA, required: false },
+    {
+      name: 'count',
+      label: 'Number of Questions',
+      type: TeacherToolFieldTypes.NUMBER,
+      required: false,
+      default: 10,
+      min: 1,
+      max: 50,
+    },
+  ],
+  target: { endpoint: 'Ollama', model: 'llama3.2:latest' },
+};
+
+const endpointsConfig: TEndpointsConfig = {
+  [EModelEndpoint.openAI]: { order: 0 },
+  [EModelEndpoint.agents]: { order: 1 },
+  Ollama: { type: EModelEndpoint.custom, order: 2 },
+};
+
+describe('getTeacherToolDefaults', () => {
+  it('uses field defaults and empty strings otherwise', () => {
+    expect(getTeacherToolDefaults(baseTool.fields)).toEqual({
+      topic: '',
+      notes: '',
+      count: '10',
+    });
+  });
+});
+
+describe('fillTeacherToolPrompt', () => {
+  it('replaces placeholders with submitted values', () => {
+    const prompt = fillTeacherToolPrompt(baseTool.promptTemplate, {
+      topic: 'fractions',
+      notes: 'Use word problems',
+    });
+    expect(prompt).toBe('Create a quiz on fractions.\nAdditional instructions: Use word problems');
+  });
+
+  it('drops lines whose placeholders are all empty', () => {
+    const prompt = fillTeacherToolPrompt(baseTool.promptTemplate, { topic: 'fractions', notes: '' });
+    expect(prompt).toBe('Create a quiz on fractions.');
+  });
+
+  it('keeps lines with at least one filled placeholder', () => {
+    const prompt = fillTeacherToolPrompt('{{a}} and {{b}}', { a: 'x', b: '' });
+    expect(prompt).toBe('x and');
+  });
+});
+
+describe('buildTeacherToolPrompt', () => {
+  it('returns the filled template for markdown tools', () => {
+    expect(buildTeacherToolPrompt(baseTool, { topic: 'fractions' })).toBe(
+      'Create a quiz on fractions.',
+    );
+  });
+
+  it('appends quiz output instructions for quiz tools', () => {
+    const tool = { ...baseTool, responseFormat: TeacherToolResponseFormats.QUIZ };
+    expect(buildTeacherToolPrompt(tool, { topic: 'fractions' })).toBe(
+      `Create a quiz on fractions.\n\n${quizFormatInstructions}`,
+    );
+  });
+
+  it('appends rubric output instructions for rubric tools', () => {
+    const tool = { ...baseTool, responseFormat: TeacherToolResponseFormats.RUBRIC };
+    expect(buildTeacherToolPrompt(tool, { topic: 'fractions' })).toBe(
+      `Create a quiz on fractions.\n\n${rubricFormatInstructions}`,
+    );
+  });
+});
+
+describe('getMissingTeacherToolField', () => {
+  it('returns the label of a missing required field', () => {
+    expect(getMissingTeacherToolField(baseTool.fields, { topic: ' ', count: '5' })).toBe('Topic');
+  });
+
+  it('returns the label of an out-of-range number field', () => {
+    expect(getMissingTeacherToolField(baseTool.fields, { topic: 'a', count: '51' })).toBe(
+      'Number of Questions',
+    );
+  });
+
+  it('returns undefined for valid values', () => {
+    expect(getMissingTeacherToolField(baseTool.fields, { topic: 'a', count: '5' })).toBeUndefined();
+  });
+});
+
+describe('resolveTeacherToolTarget', () => {
+  it('resolves a custom endpoint with its endpoint type', () => {
+    expect(resolveTeacherToolTarget(baseTool, undefined, endpointsConfig)).toEqual({
+      endpoint: 'Ollama',
+      endpointType: EModelEndpoint.custom,
+      model: 'llama3.2:latest',
+    });
+  });
+
+  it('resolves an agent target to the agents endpoint', () => {
+    const tool = { ...baseTool, target: { agent_id: 'agent_123' } };
+    expect(resolveTeacherToolTarget(tool, undefined, endpointsConfig)).toEqual({
+      endpoint: EModelEndpoint.agents,
+      agent_id: 'agent_123',
+    });
+  });
+
+  it('resolves a model spec target from its preset', () => {
+    const modelSpecs: TModelSpec[] = [
+      {
+        name: 'tutor',
+        label: 'Tutor',
+        preset: { endpoint: EModelEndpoint.openAI, model: 'gpt-4o', temperature: 0.2 },
+      },
+    ];
+    const tool = { ...baseTool, target: { modelSpec: 'tutor' } };
+    expect(resolveTeacherToolTarget(tool, modelSpecs, endpointsConfig)).toEqual({
+      endpoint: EModelEndpoint.openAI,
+      model: 'gpt-4o',
+      temperature: 0.2,
+      spec: 'tutor',
+    });
+  });
+
+  it('returns undefined for an unknown model spec', () => {
+    const tool = { ...baseTool, target: { modelSpec: 'missing' } };
+    expect(resolveTeacherToolTarget(tool, [], endpointsConfig)).toBeUndefined();
+  });
+});
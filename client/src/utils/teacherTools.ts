@@ -0,0 +1,136 @@
+import {
+  EModelEndpoint,
+  TeacherToolFieldTypes,
+  quizFormatInstructions,
+  rubricFormatInstructions,
+  TeacherToolResponseFormats,
+} from 'librechat-data-provider';
+import type {
+  TPreset,
+  TModelSpec,
+  TTeacherTool,
+  TTeacherToolField,
+  TEndpointsConfig,
+} from 'librechat-data-provider';
+import { getEndpointField } from './endpoints';
+
+export type TTeacherToolValues = Record<string, string>;
+
+const toolVariableRegex = /{{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*}}/g;
+
+/** Builds the initial form state for a tool from its field defaults */
+export const getTeacherToolDefaults = (fields: TTeacherToolField[]): TTeacherToolValues =>
+  fields.reduce<TTeacherToolValues>((values, field) => {
+    values[field.name] = field.default != null ? String(field.default) : '';
+    return values;
+  }, {});
+
+/**
+ * Fills a tool's prompt template with the submitted values.
+ * Lines whose placeholders all resolve to empty values (e.g. an optional
+ * "Additional instructions: {{additionalInstructions}}") are dropped.
+ */
+export function fillTeacherToolPrompt(template: string, values: TTeacherToolValues): string {
+  return template
+    .split('\n')
+    .filter((line) => {
+      const variables = Array.from(line.matchAll(toolVariableRegex), (match) => match[1]);
+      if (!variables.length) {
+        return true;
+      }
+      return variables.some((name) => (values[name] ?? '').trim().length > 0);
+    })
+    .map((line) => line.replace(toolVariableRegex, (_, name: string) => values[name] ?? ''))
+    .join('\n')
+    .trim();
+}
+
+/** Builds the prompt for a tool, appending output instructions for structured formats */
+export function buildTeacherToolPrompt(tool: TTeacherTool, values: TTeacherToolValues): string {
+  const prompt = fillTeacherToolPrompt(tool.promptTemplate, values);
+  if (tool.responseFormat === TeacherToolResponseFormats.QUIZ) {
+    return `${prompt}\n\n${quizFormatInstructions}`;
+  }
+  if (tool.responseFormat === TeacherToolResponseFormats.RUBRIC) {
+    return `${prompt}\n\n${rubricFormatInstructions}`;
+  }
+  return prompt;
+}
+
+/** Returns the label of the first required field that has no value, if any */
+export function getMissingTeacherToolField(
+  fields: TTeacherToolField[],
+  values: TTeacherToolValues,
+): string | undefined {
+  const missing = fields.find(
+    (field) => field.required === true && (values[field.name] ?? '').trim().length === 0,
+  );
+  if (missing) {
+    return missing.label;
+  }
+
+  const outOfRange = fields.find((field) => {
+    if (field.type !== TeacherToolFieldTypes.NUMBER || !values[field.name]) {
+      return false;
+    }
+    const value = Number(values[field.name]);
+    return (
+      isNaN(value) ||
+      (field.min != null && value < field.min) ||
+      (field.max != null && value > field.max)
+    );
+  });
+  return outOfRange?.label;
+}
+
+export type TTeacherToolEndpointOption = Partial<TPreset> & {
+  endpoint: EModelEndpoint | string;
+  endpointType?: EModelEndpoint | null;
+  spec?: string;
+};
+
+/**
+ * Resolves a tool's configured target to the endpoint options of the request,
+ * using the model spec's preset when the target references one.
+ */
+export function resolveTeacherToolTarget(
+  tool: TTeacherTool,
+  modelSpecs: TModelSpec[] | undefined,
+  endpointsConfig: TEndpointsConfig | undefined,
+): TTeacherToolEndpointOption | undefined {
+  const { target } = tool;
+  let option: TTeacherToolEndpointOption | undefined;
+
+  if (target.modelSpec != null) {
+    const spec = modelSpecs?.find((modelSpec) => modelSpec.name === target.modelSpec);
+    if (!spec || spec.preset.endpoint == null) {
+      return undefined;
+    }
+    option = {
+      ...spec.preset,
+      endpoint: spec.preset.endpoint,
+      spec: spec.name,
+    };
+  } else if (target.agent_id != null) {
+    option = {
+      endpoint: EModelEndpoint.agents,
+      agent_id: target.agent_id,
+    };
+  } else if (target.endpoint != null) {
+    option = {
+      endpoint: target.endpoint,
+      model: target.model,
+    };
+  }
+
+  if (!option) {
+    return undefined;
+  }
+
+  const endpointType = getEndpointField(endpointsConfig, option.endpoint, 'type');
+  if (endpointType) {
+    option.endpointType = endpointType;
+  }
+
+  return option;
+}
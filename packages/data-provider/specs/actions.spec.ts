@@ -8,12 +8,19 @@ import {
   openapiToFunction,
   FunctionSignature,
   validateAndParseOpenAPISpec,
+  getServerUrls,
+  trimActionResponse,
 } from '../src/actions';
 import {
   getWeatherOpenapiSpec,
   whimsicalOpenapiSpec,
   scholarAIOpenapiSpec,
   swapidev,
+  parameterLocationsOpenapiSpec,
+  requestBodiesOpenapiSpec,
+  swaggerPetstoreSpec,
+  serverVariablesOpenapiSpec,
+  responseConfigOpenapiSpec,
 } from './openapiSpecs';
 import { AuthorizationTypeEnum, AuthTypeEnum } from '../src/types/assistants';
 import type { FlowchartSchema } from './openapiSpecs';
@@ -576,6 +583,48 @@ describe('Authentication Handling', () => {
       params: { param1: 'value1' },
     });
   });
+
+  it('sets the token of the client credentials grant as a Bearer token', async () => {
+    const actionRequest = new ActionRequest(
+      'https://example.com',
+      '/test',
+      'GET',
+      'testOp',
+      false,
+      'application/json',
+    );
+    const clientCredentials = {
+      auth: {
+        type: AuthTypeEnum.ClientCredentials,
+        client_url: 'https://auth.example.com/token',
+      },
+      oauth_client_id: 'client',
+      oauth_client_secret: 'secret',
+    };
+
+    const executor = actionRequest.createExecutor();
+    await executor.setParams({}).setAuth({
+      ...clientCredentials,
+      oauth_access_token: 'machine-token',
+      oauth_token_expires_at: new Date(Date.now() + 60000),
+    });
+    await executor.execute();
+    expect(mockedAxios.get).toHaveBeenCalledWith('https://example.com/test', {
+      headers: expect.objectContaining({ Authorization: 'Bearer machine-token' }),
+      params: {},
+    });
+
+    await expect(actionRequest.createExecutor().setAuth(clientCredentials)).rejects.toThrow(
+      'No access token found',
+    );
+    await expect(
+      actionRequest.createExecutor().setAuth({
+        ...clientCredentials,
+        oauth_access_token: 'machine-token',
+        oauth_token_expires_at: new Date(Date.now() - 1000),
+      }),
+    ).rejects.toThrow('Access token is expired');
+  });
 });
 
 describe('resolveRef', () => {
@@ -1096,3 +1145,423 @@ describe('createURL', () => {
     });
   });
 });
+
+describe('openapiToFunction parameter locations', () => {
+  const { functionSignatures, requestBuilders } = openapiToFunction(parameterLocationsOpenapiSpec);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.get.mockResolvedValue({ data: {} });
+    mockedAxios.post.mockResolvedValue({ data: {} });
+  });
+
+  it('only treats HTTP methods of a path as operations', () => {
+    expect(functionSignatures.map(({ name }) => name)).toEqual([
+      'listTasks',
+      'createTask',
+      'getProjectByCoordinates',
+    ]);
+  });
+
+  it('includes path-level parameters, letting operations override them', () => {
+    const listTasks = functionSignatures.find(({ name }) => name === 'listTasks');
+    expect(Object.keys(listTasks?.parameters.properties ?? {})).toEqual([
+      'projectId',
+      'X-Tenant',
+      'tags',
+      'ids',
+      'filter',
+      'session',
+    ]);
+    expect(listTasks?.parameters.required).toEqual(['projectId', 'X-Tenant']);
+
+    const createTask = functionSignatures.find(({ name }) => name === 'createTask');
+    expect(createTask?.parameters.properties['X-Tenant']).toMatchObject({
+      enum: ['acme', 'globex'],
+    });
+    expect(createTask?.parameters.required).toEqual(['projectId', 'X-Tenant', 'title']);
+    expect(requestBuilders.createTask.parameters).toEqual([
+      { name: 'projectId', in: 'path' },
+      { name: 'X-Tenant', in: 'header' },
+      { name: 'notify', in: 'query' },
+    ]);
+  });
+
+  it('sends query, header and cookie parameters of GET requests', async () => {
+    await requestBuilders.listTasks
+      .createExecutor()
+      .setParams({
+        projectId: 'a/b',
+        'X-Tenant': 'acme',
+        tags: ['urgent', 'bug'],
+        ids: [1, 2],
+        filter: { status: 'open' },
+        session: 'abc 123',
+      })
+      .execute();
+
+    const [url, config] = mockedAxios.get.mock.calls[0];
+    const { pathname, searchParams } = new URL(url);
+    expect(pathname).toBe('/projects/a%2Fb/tasks');
+    expect(searchParams.getAll('tags')).toEqual(['urgent', 'bug']);
+    expect(searchParams.get('ids')).toBe('1|2');
+    expect(searchParams.get('filter[status]')).toBe('open');
+    expect(config).toEqual({
+      headers: { 'X-Tenant': 'acme', Cookie: 'session=abc%20123', 'Content-Type': '' },
+      params: {},
+    });
+  });
+
+  it('sends query parameters of POST requests in the URL, not the body', async () => {
+    await requestBuilders.createTask
+      .createExecutor()
+      .setParams({ projectId: '42', 'X-Tenant': 'globex', notify: true, title: 'Write tests' })
+      .execute();
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'https://api.example.com/projects/42/tasks?notify=true',
+      { title: 'Write tests' },
+      { headers: { 'X-Tenant': 'globex', 'Content-Type': 'application/json' } },
+    );
+  });
+
+  it('serializes path and header parameters with their style', async () => {
+    const executor = requestBuilders.getProjectByCoordinates
+      .createExecutor()
+      .setParams({ coordinates: { lat: 1.5, lng: -2 }, 'X-Fields': ['id', 'name'] });
+
+    expect(executor.path).toBe('/projects/;lat=1.5;lng=-2');
+    expect(executor.headers).toEqual({ 'X-Fields': 'id,name' });
+  });
+
+  it('lets authentication headers take precedence over header parameters', async () => {
+    const actionRequest = new ActionRequest(
+      'https://example.com',
+      '/test',
+      'GET',
+      'testOp',
+      false,
+      'application/json',
+      [{ name: 'Authorization', in: 'header' }],
+    );
+    const executor = actionRequest.createExecutor().setParams({ Authorization: 'from-model' });
+    await executor.setAuth({
+      auth: {
+        type: AuthTypeEnum.ServiceHttp,
+        authorization_type: AuthorizationTypeEnum.Bearer,
+      },
+      api_key: 'secret',
+    });
+    await executor.execute();
+
+    expect(mockedAxios.get).toHaveBeenCalledWith('https://example.com/test', {
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      params: {},
+    });
+  });
+});
+
+describe('openapiToFunction request bodies', () => {
+  const { functionSignatures, requestBuilders } = openapiToFunction(requestBodiesOpenapiSpec);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.post.mockResolvedValue({ data: {} });
+  });
+
+  it('prefers JSON bodies, then forms, over other media types', () => {
+    expect(requestBuilders.createToken.contentType).toBe('application/x-www-form-urlencoded');
+    expect(requestBuilders.uploadDocument.contentType).toBe('multipart/form-data');
+    expect(requestBuilders.searchDocuments.contentType).toBe('application/json');
+  });
+
+  it('sends form-urlencoded bodies', async () => {
+    await requestBuilders.createToken
+      .createExecutor()
+      .setParams({ username: 'jane doe', scopes: ['read', 'write'] })
+      .execute();
+
+    const [url, data, config] = mockedAxios.post.mock.calls[0];
+    expect(url).toBe('https://docs.example.com/token');
+    expect((data as URLSearchParams).toString()).toBe('username=jane+doe&scopes=read&scopes=write');
+    expect(config?.headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' });
+  });
+
+  it('asks for file IDs in place of the binary fields of multipart bodies', () => {
+    const uploadDocument = functionSignatures.find(({ name }) => name === 'uploadDocument');
+    expect(uploadDocument?.parameters.properties).toEqual({
+      title: { type: 'string' },
+      file: {
+        type: 'string',
+        description: 'The document. The `file_id` of a conversation file to upload.',
+      },
+      attachments: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'The `file_id`s of conversation files to upload.',
+      },
+    });
+    expect(uploadDocument?.parameters.required).toEqual(['file']);
+    expect(requestBuilders.uploadDocument.fileFields).toEqual(['file', 'attachments']);
+  });
+
+  it('uploads the files set for the file fields of multipart bodies', async () => {
+    await requestBuilders.uploadDocument
+      .createExecutor()
+      .setParams({ title: 'Report', file: 'file-123' })
+      .setFiles({
+        file: [{ filename: 'report.pdf', type: 'application/pdf', data: Buffer.from('%PDF') }],
+      })
+      .execute();
+
+    const [url, data, config] = mockedAxios.post.mock.calls[0];
+    expect(url).toBe('https://docs.example.com/documents');
+    expect(config?.headers).toEqual({});
+
+    const formData = data as FormData;
+    expect(formData.get('title')).toBe('Report');
+    const file = formData.get('file') as File;
+    expect(file.name).toBe('report.pdf');
+    expect(file.type).toBe('application/pdf');
+    expect(await file.text()).toBe('%PDF');
+  });
+});
+
+describe('validateAndParseOpenAPISpec with Swagger 2.0', () => {
+  const result = validateAndParseOpenAPISpec(JSON.stringify(swaggerPetstoreSpec));
+  const spec = result.spec as OpenAPIV3.Document;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.get.mockResolvedValue({ data: {} });
+  });
+
+  it('converts the spec to OpenAPI 3 and reports the conversion warnings', () => {
+    expect(result.status).toBe(true);
+    expect(spec.openapi).toBe('3.0.3');
+    expect(result.message.split('\n')).toEqual([
+      'Converted the Swagger 2.0 spec to OpenAPI 3.0.',
+      'paths./pets/{petId}/photos.post: tab-separated values are not supported, using commas instead',
+      'Security definitions are not imported; configure authentication for the action instead.',
+    ]);
+  });
+
+  it('builds the servers from the schemes, host and base path', () => {
+    expect(getServerUrls(spec)).toEqual([
+      'https://pets.example.com/v1',
+      'http://pets.example.com/v1',
+    ]);
+  });
+
+  it('moves definitions to the components and rewrites their references', () => {
+    expect(spec.components?.schemas?.Pet).toEqual({
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        owner: { $ref: '#/components/schemas/Owner' },
+      },
+    });
+    const listPets = spec.paths['/pets']?.get as OpenAPIV3.OperationObject;
+    const response = listPets.responses['200'] as OpenAPIV3.ResponseObject;
+    expect(response.content?.['application/json'].schema).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Pet' },
+    });
+  });
+
+  it('sends query parameters with the style of their collection format', async () => {
+    const { requestBuilders } = openapiToFunction(spec);
+    await requestBuilders.listPets
+      .createExecutor()
+      .setParams({ limit: 10, tags: ['a', 'b'], status: ['available', 'sold'] })
+      .execute();
+
+    const [url] = mockedAxios.get.mock.calls[0];
+    const { searchParams } = new URL(url);
+    expect(searchParams.get('limit')).toBe('10');
+    expect(searchParams.get('tags')).toBe('a,b');
+    expect(searchParams.getAll('status')).toEqual(['available', 'sold']);
+  });
+
+  it('converts body and form data parameters to request bodies', () => {
+    const { functionSignatures, requestBuilders } = openapiToFunction(spec);
+
+    const createPet = functionSignatures.find(({ name }) => name === 'createPet');
+    expect(createPet?.parameters.required).toEqual(['name']);
+    expect(requestBuilders.createPet.contentType).toBe('application/json');
+
+    const uploadPhoto = functionSignatures.find(({ name }) => name === 'uploadPhoto');
+    expect(Object.keys(uploadPhoto?.parameters.properties ?? {})).toEqual([
+      'petId',
+      'sizes',
+      'caption',
+      'photo',
+    ]);
+    expect(requestBuilders.uploadPhoto.contentType).toBe('multipart/form-data');
+    expect(requestBuilders.uploadPhoto.fileFields).toEqual(['photo']);
+  });
+});
+
+describe('server selection', () => {
+  it('resolves server variables with their defaults and skips servers missing one', () => {
+    expect(getServerUrls(serverVariablesOpenapiSpec)).toEqual([
+      'https://eu.api.example.com/v2',
+      'https://backup.api.example.com',
+    ]);
+
+    const result = validateAndParseOpenAPISpec(JSON.stringify(serverVariablesOpenapiSpec));
+    expect(result.status).toBe(true);
+    expect(result.message).toBe(
+      'Server https://staging.api.example.com/{version} has no default for the variables: version; skipping it',
+    );
+  });
+
+  it('returns an error when no server can be resolved', () => {
+    const result = validateAndParseOpenAPISpec(
+      JSON.stringify({
+        ...serverVariablesOpenapiSpec,
+        servers: [{ url: 'https://{tenant}.example.com' }],
+      }),
+    );
+    expect(result.status).toBe(false);
+    expect(result.message.split('\n')).toEqual([
+      'Server https://{tenant}.example.com has no default for the variables: tenant; skipping it',
+      invalidServerURL,
+    ]);
+  });
+
+  it('sends requests to the chosen server of the spec', () => {
+    const getDomain = (serverUrl?: string) =>
+      openapiToFunction(serverVariablesOpenapiSpec, false, serverUrl).requestBuilders.getStatus
+        .domain;
+
+    expect(getDomain()).toBe('https://eu.api.example.com/v2');
+    expect(getDomain('https://backup.api.example.com')).toBe('https://backup.api.example.com');
+    expect(getDomain('https://attacker.example.com')).toBe('https://eu.api.example.com/v2');
+  });
+});
+
+describe('trimActionResponse', () => {
+  const tickets = {
+    total: 3,
+    page: 1,
+    results: [
+      { id: '1', title: 'Login fails', body: 'Long description' },
+      { id: '2', title: 'Slow search', body: 'Long description' },
+      { id: '3', title: 'Typo', body: 'Long description' },
+    ],
+  };
+
+  it('returns responses without a config unchanged', () => {
+    expect(trimActionResponse(tickets)).toEqual({ output: JSON.stringify(tickets) });
+    expect(trimActionResponse('plain text', {})).toEqual({ output: 'plain text' });
+  });
+
+  it('keeps the fields selected with JSONPath, in their structure', () => {
+    const { output, raw } = trimActionResponse(tickets, {
+      fields: ['$.results[*].id', '$.results[*]["title"]', '$.total', '$.missing'],
+    });
+    expect(JSON.parse(output)).toEqual({
+      total: 3,
+      results: [
+        { id: '1', title: 'Login fails' },
+        { id: '2', title: 'Slow search' },
+        { id: '3', title: 'Typo' },
+      ],
+    });
+    expect(raw).toBe(JSON.stringify(tickets));
+  });
+
+  it('selects array items by index and wildcards of objects', () => {
+    const { output } = trimActionResponse(tickets, { fields: ['$.results[1].title', '$.*'] });
+    expect(JSON.parse(output)).toEqual(tickets);
+
+    const { output: item } = trimActionResponse(tickets, { fields: ['$.results[1].title'] });
+    expect(JSON.parse(item)).toEqual({ results: [{ title: 'Slow search' }] });
+  });
+
+  it('limits lists to their first items and tells the model', () => {
+    const { output } = trimActionResponse(tickets, { fields: ['$.results[*].id'], maxItems: 2 });
+    expect(output).toBe(
+      '{"results":[{"id":"1"},{"id":"2"}]}\n\n(Lists were limited to their first 2 items.)',
+    );
+  });
+
+  it('cuts responses at the maximum characters, parsing JSON text responses', () => {
+    const { output, raw } = trimActionResponse(JSON.stringify(tickets), {
+      fields: ['$.page'],
+      maxChars: 5,
+    });
+    expect(output).toBe('{"pag\n\n(The response was cut at 5 of 10 characters.)');
+    expect(raw).toBe(JSON.stringify(tickets));
+
+    expect(trimActionResponse('plain text', { maxChars: 5 }).output).toBe(
+      'plain\n\n(The response was cut at 5 of 10 characters.)',
+    );
+    expect(trimActionResponse('short', { maxChars: 5 })).toEqual({ output: 'short' });
+  });
+
+  it('never selects inherited members, keeping own `__proto__` keys as data', () => {
+    for (const field of [
+      '$.constructor',
+      '$.toString',
+      '$.__proto__',
+      '$.results[0].constructor',
+    ]) {
+      expect(trimActionResponse(tickets, { fields: [field] }).output).toBe(
+        'null\n\n(None of the selected fields were in the response.)',
+      );
+    }
+
+    const response = JSON.parse('{"__proto__":{"polluted":true},"id":"1"}');
+    const { output } = trimActionResponse(response, { fields: ['$.__proto__', '$.*'] });
+    const selected = JSON.parse(output);
+    expect(Object.getPrototypeOf(selected)).toBe(Object.prototype);
+    expect(selected).toEqual(response);
+    expect(({} as { polluted?: boolean }).polluted).toBeUndefined();
+  });
+
+  it('tells the model when no selected field was in the response', () => {
+    expect(trimActionResponse(tickets, { fields: ['$.missing'] }).output).toBe(
+      'null\n\n(None of the selected fields were in the response.)',
+    );
+  });
+});
+
+describe('x-librechat-response', () => {
+  it('sets the response config of operations, falling back to the config of the spec', () => {
+    const { requestBuilders } = openapiToFunction(responseConfigOpenapiSpec);
+    expect(requestBuilders.listTickets.responseConfig).toEqual({
+      fields: ['$.results[*].id', '$.results[*].title', '$.total', '$.owner'],
+      maxItems: 2,
+    });
+    expect(requestBuilders.getTicket.responseConfig).toEqual({ maxChars: 2000 });
+    expect(requestBuilders.exportTickets.responseConfig).toEqual({ fields: [] });
+  });
+
+  it('reports invalid configs and fields missing from the response schema', () => {
+    const result = validateAndParseOpenAPISpec(JSON.stringify(responseConfigOpenapiSpec));
+    expect(result.status).toBe(true);
+    expect(result.message.split('\n')).toEqual([
+      'paths./tickets.get: x-librechat-response field $.owner is not in the response schema',
+      'paths./tickets/export.get: x-librechat-response field results[0] is not a supported JSONPath',
+      'paths./tickets/export.get: x-librechat-response maxItems must be a positive integer',
+    ]);
+  });
+
+  it('reports fields naming inherited members as missing from the response schema', () => {
+    const spec = JSON.parse(JSON.stringify(responseConfigOpenapiSpec));
+    spec.paths['/tickets'].get['x-librechat-response'].fields = [
+      '$.constructor',
+      '$.results[*].__proto__',
+    ];
+    const result = validateAndParseOpenAPISpec(JSON.stringify(spec));
+    expect(result.message.split('\n')).toEqual(
+      expect.arrayContaining([
+        'paths./tickets.get: x-librechat-response field $.constructor is not in the response schema',
+        'paths./tickets.get: x-librechat-response field $.results[*].__proto__ is not in the response schema',
+      ]),
+    );
+  });
+});
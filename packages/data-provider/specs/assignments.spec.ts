@@ -0,0 +1,203 @@
+import {
+  QuestionGrader,
+  toAssignedQuiz,
+  SubmissionStatus,
+  gradeQuizResponse,
+  gradeQuizResponses,
+  tQuizResponsesSchema,
+  summarizeQuizResults,
+  QuestionResultStatus,
+  applyQuestionGrades,
+  parseSubmissionGrades,
+  buildShortAnswerGradingPrompt,
+} from '../src/assignments';
+import { QuizQuestionTypes } from '../src/quiz';
+import type { TQuiz } from '../src/quiz';
+
+const quiz: TQuiz = {
+  title: 'Plant Biology',
+  questions: [
+    {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'Which organelle performs photosynthesis?',
+      options: ['Nucleus', 'Chloroplast', 'Ribosome'],
+      answer: 1,
+      explanation: 'Chloroplasts contain chlorophyll.',
+    },
+    {
+      type: QuizQuestionTypes.TRUE_FALSE,
+      question: 'Plants release oxygen.',
+      answer: true,
+      points: 2,
+    },
+    {
+      type: QuizQuestionTypes.SHORT_ANSWER,
+      question: 'What gas do plants absorb?',
+      answer: 'Carbon dioxide',
+      acceptableAnswers: ['CO2'],
+    },
+    {
+      type: QuizQuestionTypes.MATCHING,
+      question: 'Match each part to its function.',
+      points: 4,
+      pairs: [
+        { left: 'Root', right: 'Absorbs water' },
+        { left: 'Leaf', right: 'Makes food' },
+        { left: 'Stem', right: 'Transports nutrients' },
+        { left: 'Flower', right: 'Reproduction' },
+      ],
+    },
+  ],
+};
+
+describe('toAssignedQuiz', () => {
+  it('removes answers and explanations', () => {
+    const assigned = toAssignedQuiz(quiz);
+    const serialized = JSON.stringify(assigned);
+
+    expect(serialized).not.toContain('Carbon dioxide');
+    expect(serialized).not.toContain('CO2');
+    expect(serialized).not.toContain('chlorophyll');
+    expect(serialized).not.toContain('"answer"');
+    expect(assigned.questions[0]).toEqual({
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'Which organelle performs photosynthesis?',
+      options: ['Nucleus', 'Chloroplast', 'Ribosome'],
+    });
+  });
+
+  it('splits matching pairs into prompts and sorted choices', () => {
+    const matching = toAssignedQuiz(quiz).questions[3];
+
+    expect(matching).toMatchObject({
+      prompts: ['Root', 'Leaf', 'Stem', 'Flower'],
+      choices: ['Absorbs water', 'Makes food', 'Reproduction', 'Transports nutrients'],
+    });
+    expect(matching).not.toHaveProperty('pairs');
+  });
+});
+
+describe('gradeQuizResponse', () => {
+  it('grades objective questions', () => {
+    expect(gradeQuizResponse(quiz.questions[0], 1)).toMatchObject({
+      points: 1,
+      status: QuestionResultStatus.CORRECT,
+    });
+    expect(gradeQuizResponse(quiz.questions[0], 0).status).toBe(QuestionResultStatus.INCORRECT);
+    expect(gradeQuizResponse(quiz.questions[1], true)).toMatchObject({ points: 2, maxPoints: 2 });
+    expect(gradeQuizResponse(quiz.questions[1], null).points).toBe(0);
+  });
+
+  it('accepts short answers that match the answer key, ignoring case and spacing', () => {
+    expect(gradeQuizResponse(quiz.questions[2], '  carbon   DIOXIDE ').status).toBe(
+      QuestionResultStatus.CORRECT,
+    );
+    expect(gradeQuizResponse(quiz.questions[2], 'co2').status).toBe(QuestionResultStatus.CORRECT);
+  });
+
+  it('leaves other short answers pending and blank ones incorrect', () => {
+    expect(gradeQuizResponse(quiz.questions[2], 'The gas we exhale')).toEqual({
+      points: 0,
+      maxPoints: 1,
+      status: QuestionResultStatus.PENDING,
+    });
+    expect(gradeQuizResponse(quiz.questions[2], '  ').status).toBe(QuestionResultStatus.INCORRECT);
+  });
+
+  it('gives partial credit per correct matching pair', () => {
+    const result = gradeQuizResponse(quiz.questions[3], [
+      'Absorbs water',
+      'Makes food',
+      'Reproduction',
+      'Transports nutrients',
+    ]);
+
+    expect(result).toMatchObject({ points: 2, maxPoints: 4, status: QuestionResultStatus.PARTIAL });
+  });
+
+  it('treats responses of the wrong shape as incorrect', () => {
+    expect(gradeQuizResponse(quiz.questions[0], '1').points).toBe(0);
+    expect(gradeQuizResponse(quiz.questions[3], 'Absorbs water').points).toBe(0);
+  });
+});
+
+describe('summarizeQuizResults', () => {
+  it('totals points and stays submitted while any question is pending', () => {
+    const results = gradeQuizResponses(quiz, [1, true, 'Oxygen']);
+
+    expect(summarizeQuizResults(results)).toEqual({
+      score: 3,
+      maxScore: 8,
+      status: SubmissionStatus.SUBMITTED,
+    });
+  });
+
+  it('is graded once no question is pending', () => {
+    const results = gradeQuizResponses(quiz, [1, false, 'CO2', []]);
+
+    expect(summarizeQuizResults(results)).toEqual({
+      score: 2,
+      maxScore: 8,
+      status: SubmissionStatus.GRADED,
+    });
+  });
+});
+
+describe('tQuizResponsesSchema', () => {
+  it('accepts every response shape and rejects objects', () => {
+    expect(tQuizResponsesSchema.safeParse([1, true, 'text', ['a'], null]).success).toBe(true);
+    expect(tQuizResponsesSchema.safeParse([{ answer: 1 }]).success).toBe(false);
+  });
+});
+
+describe('applyQuestionGrades', () => {
+  it('overrides graded questions and clamps points to the maximum', () => {
+    const results = gradeQuizResponses(quiz, [0, true, 'The gas we exhale']);
+
+    const graded = applyQuestionGrades(
+      results,
+      [
+        { index: 0, points: 1, feedback: 'Accepted on appeal.' },
+        { index: 2, points: 5 },
+        { index: 9, points: 1 },
+      ],
+      QuestionGrader.TEACHER,
+    );
+
+    expect(graded[0]).toEqual({
+      points: 1,
+      maxPoints: 1,
+      status: QuestionResultStatus.CORRECT,
+      gradedBy: QuestionGrader.TEACHER,
+      feedback: 'Accepted on appeal.',
+    });
+    expect(graded[1]).toBe(results[1]);
+    expect(graded[2]).toMatchObject({ points: 1, status: QuestionResultStatus.CORRECT });
+    expect(graded).toHaveLength(results.length);
+  });
+});
+
+describe('buildShortAnswerGradingPrompt', () => {
+  it('includes only the requested short-answer questions with their answer keys', () => {
+    const prompt = buildShortAnswerGradingPrompt(quiz, [1, true, 'The gas we exhale'], [0, 2]);
+
+    expect(prompt).toContain('"studentAnswer": "The gas we exhale"');
+    expect(prompt).toContain('"answerKey": "Carbon dioxide"');
+    expect(prompt).toContain('"index": 2');
+    expect(prompt).not.toContain('Which organelle');
+  });
+});
+
+describe('parseSubmissionGrades', () => {
+  it('parses a grades array surrounded by other text', () => {
+    const text =
+      'Here are the grades:\n```json\n[{ "index": 2, "points": 0.5, "feedback": "Close." }]\n```';
+
+    expect(parseSubmissionGrades(text)).toEqual([{ index: 2, points: 0.5, feedback: 'Close.' }]);
+  });
+
+  it('returns null for invalid output', () => {
+    expect(parseSubmissionGrades('I cannot grade this.')).toBeNull();
+    expect(parseSubmissionGrades('[{ "index": -1, "points": 1 }]')).toBeNull();
+  });
+});
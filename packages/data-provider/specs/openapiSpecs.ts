@@ -1,4 +1,4 @@
-import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
 
 export type FlowchartSchema = {
   mermaid: {
@@ -475,3 +475,325 @@ components:
         url:
           type: string
           example: https://swapi.dev/api/people/1/`;
+
+export const parameterLocationsOpenapiSpec: OpenAPIV3.Document = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Projects',
+    version: 'v1.0.0',
+  },
+  servers: [{ url: 'https://api.example.com' }],
+  components: {
+    parameters: {
+      Tenant: {
+        name: 'X-Tenant',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+      },
+    },
+  },
+  paths: {
+    '/projects/{projectId}/tasks': {
+      parameters: [
+        { name: 'projectId', in: 'path', required: true, schema: { type: 'string' } },
+        { $ref: '#/components/parameters/Tenant' },
+      ],
+      get: {
+        operationId: 'listTasks',
+        parameters: [
+          { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+          {
+            name: 'ids',
+            in: 'query',
+            style: 'pipeDelimited',
+            explode: false,
+            schema: { type: 'array', items: { type: 'integer' } },
+          },
+          {
+            name: 'filter',
+            in: 'query',
+            style: 'deepObject',
+            explode: true,
+            schema: { type: 'object', properties: { status: { type: 'string' } } },
+          },
+          { name: 'session', in: 'cookie', schema: { type: 'string' } },
+          { name: 'Accept', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: { '200': { description: 'The tasks' } },
+      },
+      post: {
+        operationId: 'createTask',
+        parameters: [
+          { name: 'notify', in: 'query', schema: { type: 'boolean' } },
+          {
+            name: 'X-Tenant',
+            in: 'header',
+            required: true,
+            description: 'Overrides the path-level tenant',
+            schema: { type: 'string', enum: ['acme', 'globex'] },
+          },
+        ],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { title: { type: 'string' } },
+                required: ['title'],
+              },
+            },
+          },
+        },
+        responses: { '201': { description: 'The created task' } },
+      },
+    },
+    '/projects/{coordinates}': {
+      get: {
+        operationId: 'getProjectByCoordinates',
+        parameters: [
+          {
+            name: 'coordinates',
+            in: 'path',
+            required: true,
+            style: 'matrix',
+            explode: true,
+            schema: {
+              type: 'object',
+              properties: { lat: { type: 'number' }, lng: { type: 'number' } },
+            },
+          },
+          {
+            name: 'X-Fields',
+            in: 'header',
+            schema: { type: 'array', items: { type: 'string' } },
+          },
+        ],
+        responses: { '200': { description: 'The project' } },
+      },
+    },
+  },
+};
+
+export const requestBodiesOpenapiSpec: OpenAPIV3.Document = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Documents',
+    version: 'v1.0.0',
+  },
+  servers: [{ url: 'https://docs.example.com' }],
+  paths: {
+    '/token': {
+      post: {
+        operationId: 'createToken',
+        requestBody: {
+          content: {
+            'text/plain': { schema: { type: 'string' } },
+            'application/x-www-form-urlencoded': {
+              schema: {
+                type: 'object',
+                properties: {
+                  username: { type: 'string' },
+                  scopes: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+        responses: { '200': { description: 'The token' } },
+      },
+    },
+    '/documents': {
+      post: {
+        operationId: 'uploadDocument',
+        requestBody: {
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                properties: {
+                  title: { type: 'string' },
+                  file: { type: 'string', format: 'binary', description: 'The document.' },
+                  attachments: { type: 'array', items: { type: 'string', format: 'binary' } },
+                },
+                required: ['file'],
+              },
+            },
+          },
+        },
+        responses: { '201': { description: 'The uploaded document' } },
+      },
+    },
+    '/documents/search': {
+      post: {
+        operationId: 'searchDocuments',
+        requestBody: {
+          content: {
+            'multipart/form-data': {
+              schema: { type: 'object', properties: { query: { type: 'string' } } },
+            },
+            'application/json': {
+              schema: { type: 'object', properties: { query: { type: 'string' } } },
+            },
+          },
+        },
+        responses: { '200': { description: 'The matching documents' } },
+      },
+    },
+  },
+};
+
+export const swaggerPetstoreSpec: OpenAPIV2.Document = {
+  swagger: '2.0',
+  info: { title: 'Pet Store', version: '1.0.0' },
+  host: 'pets.example.com',
+  basePath: '/v1/',
+  schemes: ['https', 'http'],
+  produces: ['application/json'],
+  securityDefinitions: { api_key: { type: 'apiKey', name: 'api_key', in: 'header' } },
+  parameters: {
+    limit: { name: 'limit', in: 'query', type: 'integer', maximum: 100 },
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [
+          { $ref: '#/parameters/limit' },
+          { name: 'tags', in: 'query', type: 'array', items: { type: 'string' } },
+          {
+            name: 'status',
+            in: 'query',
+            type: 'array',
+            items: { type: 'string', enum: ['available', 'sold'] },
+            collectionFormat: 'multi',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'The pets',
+            schema: { type: 'array', items: { $ref: '#/definitions/Pet' } },
+          },
+        },
+      },
+      post: {
+        operationId: 'createPet',
+        consumes: ['application/json'],
+        parameters: [
+          { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+        ],
+        responses: { '201': { description: 'The created pet' } },
+      },
+    },
+    '/pets/{petId}/photos': {
+      parameters: [{ name: 'petId', in: 'path', required: true, type: 'string' }],
+      post: {
+        operationId: 'uploadPhoto',
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'caption', in: 'formData', type: 'string' },
+          { name: 'photo', in: 'formData', type: 'file', required: true },
+          {
+            name: 'sizes',
+            in: 'query',
+            type: 'array',
+            items: { type: 'integer' },
+            collectionFormat: 'tsv',
+          },
+        ],
+        responses: { '201': { description: 'The uploaded photo' } },
+      },
+    },
+  },
+  definitions: {
+    Pet: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        owner: { $ref: '#/definitions/Owner' },
+      },
+    },
+    Owner: { type: 'object', properties: { email: { type: 'string' } } },
+  },
+};
+
+export const serverVariablesOpenapiSpec: OpenAPIV3.Document = {
+  openapi: '3.0.3',
+  info: { title: 'Regional API', version: '1.0.0' },
+  servers: [
+    {
+      url: 'https://{region}.api.example.com/{version}',
+      variables: {
+        region: { default: 'eu', enum: ['eu', 'us'] },
+        version: { default: 'v2' },
+      },
+    },
+    { url: 'https://staging.api.example.com/{version}' },
+    { url: 'https://backup.api.example.com' },
+  ],
+  paths: {
+    '/status': {
+      get: {
+        operationId: 'getStatus',
+        responses: { '200': { description: 'The status' } },
+      },
+    },
+  },
+};
+
+export const responseConfigOpenapiSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Tickets', version: '1.0.0' },
+  servers: [{ url: 'https://tickets.example.com' }],
+  'x-librechat-response': { maxChars: 2000 },
+  paths: {
+    '/tickets': {
+      get: {
+        operationId: 'listTickets',
+        'x-librechat-response': {
+          fields: ['$.results[*].id', '$.results[*].title', '$.total', '$.owner'],
+          maxItems: 2,
+        },
+        responses: {
+          '200': {
+            description: 'The tickets',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    total: { type: 'integer' },
+                    results: { type: 'array', items: { $ref: '#/components/schemas/Ticket' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tickets/{id}': {
+      get: {
+        operationId: 'getTicket',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: { '200': { description: 'The ticket' } },
+      },
+    },
+    '/tickets/export': {
+      get: {
+        operationId: 'exportTickets',
+        'x-librechat-response': { fields: ['results[0]'], maxItems: 0 },
+        responses: { '200': { description: 'The export' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Ticket: {
+        type: 'object',
+        properties: { id: { type: 'string' }, title: { type: 'string' } },
+      },
+    },
+  },
+} as OpenAPIV3.Document;
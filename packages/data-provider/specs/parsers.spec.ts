@@ -1,4 +1,4 @@
-import { extractEnvVariable } from '../src/parsers';
+import { extractEnvVariable, resolveHeaders } from '../src/parsers';
 
 describe('extractEnvVariable', () => {
   const originalEnv = process.env;
@@ -46,3 +46,39 @@ describe('extractEnvVariable', () => {
     );
   });
 });
+
+describe('resolveHeaders', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('should resolve environment variables in header values', () => {
+    process.env.API_TOKEN = 'secret';
+    expect(resolveHeaders({ Authorization: '${API_TOKEN}', 'X-Static': 'value' })).toEqual({
+      Authorization: 'secret',
+      'X-Static': 'value',
+    });
+  });
+
+  test('should replace the user ID placeholder when a user is provided', () => {
+    const headers = {
+      'X-User-Id': '{{LIBRECHAT_USER_ID}}',
+      'X-Scope': 'user:{{LIBRECHAT_USER_ID}}',
+    };
+    expect(resolveHeaders(headers, { id: 'user123' })).toEqual({
+      'X-User-Id': 'user123',
+      'X-Scope': 'user:user123',
+    });
+    expect(resolveHeaders(headers)).toEqual(headers);
+  });
+
+  test('should return an empty object without headers', () => {
+    expect(resolveHeaders(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  parseQuiz,
+  extractQuiz,
+  formatQuizBlock,
+  replaceQuizBlock,
+  QuizQuestionTypes,
+  buildQuizQuestionRegenerationPrompt,
+} from '../src/quiz';
+import type { TQuiz } from '../src/quiz';
+
+const quiz: TQuiz = {
+  title: 'Fractions',
+  subject: 'Mathematics',
+  questions: [
+    {
+      type: QuizQuestionTypes.MULTIPLE_CHOICE,
+      question: 'What is 1/2 + 1/4?',
+      options: ['1/4', '3/4', '1', '2/6'],
+      answer: 1,
+      explanation: '1/2 is 2/4, and 2/4 + 1/4 = 3/4.',
+    },
+    {
+      type: QuizQuestionTypes.TRUE_FALSE,
+      question: '2/4 is equivalent to 1/2.',
+      answer: true,
+    },
+    {
+      type: QuizQuestionTypes.SHORT_ANSWER,
+      question: 'Simplify 4/8.',
+      answer: '1/2',
+      acceptableAnswers: ['0.5'],
+    },
+    {
+      type: QuizQuestionTypes.MATCHING,
+      question: 'Match each fraction to its decimal.',
+      pairs: [
+        { left: '1/4', right: '0.25' },
+        { left: '1/2', right: '0.5' },
+      ],
+    },
+  ],
+};
+
+describe('parseQuiz', () => {
+  it('parses a valid quiz', () => {
+    expect(parseQuiz(JSON.stringify(quiz))).toEqual(quiz);
+  });
+
+  it('returns null for invalid JSON', () => {
+    expect(parseQuiz('{"title": "Partial", "questions": [')).toBeNull();
+  });
+
+  it('returns null for an unknown question type', () => {
+    const invalid = { title: 'Bad', questions: [{ type: 'essay', question: 'Why?' }] };
+    expect(parseQuiz(JSON.stringify(invalid))).toBeNull();
+  });
+
+  it('returns null when a multiple choice answer is out of range', () => {
+    const invalid = {
+      title: 'Bad',
+      questions: [{ ...quiz.questions[0], answer: 4 }],
+    };
+    expect(parseQuiz(JSON.stringify(invalid))).toBeNull();
+  });
+});
+
+describe('quiz blocks', () => {
+  it('extracts a quiz from message text', () => {
+    const text = `Here is your quiz:\n\n${formatQuizBlock(quiz)}\n\nGood luck!`;
+    expect(extractQuiz(text)).toEqual(quiz);
+  });
+
+  it('returns null when the message has no quiz block', () => {
+    expect(extractQuiz('```json\n{}\n```')).toBeNull();
+  });
+
+  it('replaces an existing quiz block and keeps surrounding text', () => {
+    const text = `Intro\n\n${formatQuizBlock(quiz)}\n\nOutro`;
+    const updated: TQuiz = { ...quiz, title: 'Updated' };
+    const result = replaceQuizBlock(text, updated);
+    expect(result.startsWith('Intro\n\n')).toBe(true);
+    expect(result.endsWith('\n\nOutro')).toBe(true);
+    expect(extractQuiz(result)?.title).toBe('Updated');
+  });
+
+  it('appends a quiz block when none exists', () => {
+    expect(extractQuiz(replaceQuizBlock('Intro', quiz))).toEqual(quiz);
+  });
+});
+
+describe('buildQuizQuestionRegenerationPrompt', () => {
+  it('references the question and includes the current quiz', () => {
+    const prompt = buildQuizQuestionRegenerationPrompt(quiz, 1);
+    expect(prompt).toContain('Replace question 2');
+    expect(prompt).toContain(QuizQuestionTypes.TRUE_FALSE);
+    expect(extractQuiz(prompt)).toEqual(quiz);
+  });
+});
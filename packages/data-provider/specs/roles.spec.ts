@@ -0,0 +1,41 @@
+import {
+  Permissions,
+  SystemRoles,
+  roleDefaults,
+  PermissionTypes,
+  hasTeacherToolAccess,
+} from '../src/roles';
+
+describe('roleDefaults', () => {
+  it('enables Teacher Tools for teachers but not for students', () => {
+    expect(roleDefaults[SystemRoles.TEACHER][PermissionTypes.TEACHER_TOOLS]).toEqual({
+      [Permissions.USE]: true,
+      TOOLS: {},
+    });
+    expect(roleDefaults[SystemRoles.STUDENT][PermissionTypes.TEACHER_TOOLS][Permissions.USE]).toBe(
+      false,
+    );
+  });
+
+  it('prevents students from creating or sharing agents and prompts', () => {
+    const student = roleDefaults[SystemRoles.STUDENT];
+    expect(student[PermissionTypes.AGENTS][Permissions.CREATE]).toBe(false);
+    expect(student[PermissionTypes.PROMPTS][Permissions.CREATE]).toBe(false);
+    expect(student[PermissionTypes.PROMPTS][Permissions.SHARED_GLOBAL]).toBe(false);
+    expect(student[PermissionTypes.PROMPTS][Permissions.USE]).toBe(true);
+  });
+});
+
+describe('hasTeacherToolAccess', () => {
+  it('requires the USE permission', () => {
+    expect(hasTeacherToolAccess({ [Permissions.USE]: false, TOOLS: {} }, 'quiz')).toBe(false);
+    expect(hasTeacherToolAccess(undefined, 'quiz')).toBe(false);
+  });
+
+  it('allows tools without an override and denies disabled tools', () => {
+    const permissions = { [Permissions.USE]: true, TOOLS: { quiz: false, lesson: true } };
+    expect(hasTeacherToolAccess(permissions, 'lesson')).toBe(true);
+    expect(hasTeacherToolAccess(permissions, 'rubric')).toBe(true);
+    expect(hasTeacherToolAccess(permissions, 'quiz')).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  parseRubric,
+  extractRubric,
+  formatRubricBlock,
+  replaceRubricBlock,
+  getRubricMaxPoints,
+  parseRubricFeedback,
+  getRubricFeedbackTotals,
+  buildRubricFeedbackPrompt,
+  RUBRIC_FEEDBACK_BLOCK_LANGUAGE,
+} from '../src/rubric';
+import type { TRubric, TRubricFeedback } from '../src/rubric';
+
+const rubric: TRubric = {
+  title: 'Persuasive Essay',
+  subject: 'English',
+  levels: [
+    { label: 'Exemplary', points: 4 },
+    { label: 'Proficient', points: 3 },
+    { label: 'Developing', points: 1 },
+  ],
+  criteria: [
+    {
+      name: 'Thesis',
+      descriptors: ['Clear and arguable', 'Clear', 'Missing or unclear'],
+    },
+    {
+      name: 'Evidence',
+      description: 'Support for the claims',
+      descriptors: ['Relevant and cited', 'Mostly relevant', 'Little or none'],
+    },
+  ],
+};
+
+const feedback: TRubricFeedback = {
+  title: 'Persuasive Essay',
+  student: 'Sam',
+  scores: [
+    { criterion: 'Thesis', level: 'Proficient', points: 3, maxPoints: 4, feedback: 'Clear.' },
+    { criterion: 'Evidence', level: 'Developing', points: 1, maxPoints: 4, feedback: 'Cite.' },
+  ],
+  summary: 'A good start.',
+};
+
+describe('parseRubric', () => {
+  it('parses a valid rubric', () => {
+    expect(parseRubric(JSON.stringify(rubric))).toEqual(rubric);
+  });
+
+  it('returns null when a criterion does not describe every level', () => {
+    const invalid = {
+      ...rubric,
+      criteria: [{ name: 'Thesis', descriptors: ['Clear', 'Unclear'] }],
+    };
+    expect(parseRubric(JSON.stringify(invalid))).toBeNull();
+  });
+
+  it('returns null for invalid JSON', () => {
+    expect(parseRubric('{"title": "Partial", "levels": [')).toBeNull();
+  });
+});
+
+describe('rubric blocks', () => {
+  it('extracts a rubric, but not feedback, from message text', () => {
+    const text = `Here is your rubric:\n\n${formatRubricBlock(rubric)}`;
+    expect(extractRubric(text)).toEqual(rubric);
+
+    const feedbackText = `\`\`\`${RUBRIC_FEEDBACK_BLOCK_LANGUAGE}\n${JSON.stringify(feedback)}\n\`\`\``;
+    expect(extractRubric(feedbackText)).toBeNull();
+  });
+
+  it('replaces an existing rubric block and keeps surrounding text', () => {
+    const text = `Intro\n\n${formatRubricBlock(rubric)}\n\nOutro`;
+    const result = replaceRubricBlock(text, { ...rubric, title: 'Updated' });
+    expect(result.startsWith('Intro\n\n')).toBe(true);
+    expect(result.endsWith('\n\nOutro')).toBe(true);
+    expect(extractRubric(result)?.title).toBe('Updated');
+  });
+});
+
+describe('rubric points', () => {
+  it('counts the highest level for every criterion', () => {
+    expect(getRubricMaxPoints(rubric)).toBe(8);
+  });
+
+  it('sums the scores of feedback', () => {
+    expect(parseRubricFeedback(JSON.stringify(feedback))).toEqual(feedback);
+    expect(getRubricFeedbackTotals(feedback)).toEqual({ points: 4, maxPoints: 8 });
+  });
+});
+
+describe('buildRubricFeedbackPrompt', () => {
+  it('includes the rubric and the pasted work', () => {
+    const prompt = buildRubricFeedbackPrompt(rubric, { work: 'School should start later.' });
+    expect(extractRubric(prompt)).toEqual(rubric);
+    expect(prompt).toContain('School should start later.');
+    expect(prompt).toContain(`\`${RUBRIC_FEEDBACK_BLOCK_LANGUAGE}\``);
+    expect(prompt).toContain('"maxPoints": 4');
+  });
+
+  it('refers to attached files when no work is pasted', () => {
+    expect(buildRubricFeedbackPrompt(rubric, { student: 'Sam' })).toContain('attached file');
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  isTutorModeActive,
+  toProtectedAssignment,
+  buildTutorInstructions,
+  defaultTutorInstructions,
+} from '../src/tutor';
+import { tutorModeConfigSchema } from '../src/config';
+import { QuizQuestionTypes } from '../src/quiz';
+import { SystemRoles } from '../src/roles';
+
+describe('tutorModeConfigSchema', () => {
+  it('applies defaults', () => {
+    expect(tutorModeConfigSchema.parse({ roles: [SystemRoles.STUDENT] })).toEqual({
+      roles: [SystemRoles.STUDENT],
+      modelSpecs: [],
+      moderation: true,
+      audit: true,
+    });
+  });
+});
+
+describe('isTutorModeActive', () => {
+  const config = tutorModeConfigSchema.parse({
+    roles: [SystemRoles.STUDENT],
+    modelSpecs: ['homework-helper'],
+  });
+
+  it('applies to configured roles regardless of the model spec', () => {
+    expect(isTutorModeActive(config, { role: SystemRoles.STUDENT })).toBe(true);
+    expect(isTutorModeActive(config, { role: SystemRoles.STUDENT, spec: 'gpt-4o' })).toBe(true);
+  });
+
+  it('applies to configured model specs for any role', () => {
+    expect(isTutorModeActive(config, { role: SystemRoles.TEACHER, spec: 'homework-helper' })).toBe(
+      true,
+    );
+    expect(isTutorModeActive(config, { role: SystemRoles.TEACHER, spec: 'gpt-4o' })).toBe(false);
+    expect(isTutorModeActive(config, { role: SystemRoles.USER, spec: null })).toBe(false);
+  });
+
+  it('is inactive without a config', () => {
+    expect(isTutorModeActive(undefined, { role: SystemRoles.STUDENT })).toBe(false);
+  });
+});
+
+describe('buildTutorInstructions', () => {
+  it('uses the default instructions unless overridden', () => {
+    expect(buildTutorInstructions({})).toBe(defaultTutorInstructions);
+    expect(buildTutorInstructions({ instructions: '  Be Socratic.  ' })).toBe('Be Socratic.');
+    expect(buildTutorInstructions({ instructions: '   ' })).toBe(defaultTutorInstructions);
+  });
+
+  it('lists the questions of protected assignments without their answers', () => {
+    const assignment = toProtectedAssignment('Photosynthesis Check-in', {
+      title: 'Photosynthesis',
+      questions: [
+        {
+          type: QuizQuestionTypes.SHORT_ANSWER,
+          question: 'What gas do plants absorb?',
+          answer: 'Carbon dioxide',
+        },
+        {
+          type: QuizQuestionTypes.TRUE_FALSE,
+          question: 'Plants release oxygen.',
+          answer: true,
+        },
+      ],
+    });
+
+    const instructions = buildTutorInstructions({ protectedAssignments: [assignment] });
+
+    expect(instructions.startsWith(defaultTutorInstructions)).toBe(true);
+    expect(instructions).toContain(
+      'Assignment: Photosynthesis Check-in\n1. What gas do plants absorb?\n2. Plants release oxygen.',
+    );
+    expect(instructions).not.toContain('Carbon dioxide');
+  });
+});
@@ -12,6 +12,9 @@ import type {
 } from './types/assistants';
 import type { OpenAPIV3 } from 'openapi-types';
 import { Tools, AuthTypeEnum, AuthorizationTypeEnum } from './types/assistants';
+import { isSwagger2, convertSwaggerToOpenAPI } from './swagger';
+import { hasOwnKey, parseJSONPath, selectJSONPaths } from './jsonpath';
+import type { JSONPathSegment } from './jsonpath';
 
 export type ParametersSchema = {
   type: string;
@@ -40,6 +43,48 @@ export type OAuthCredentials = {
 
 export type Credentials = ApiKeyCredentials | OAuthCredentials;
 
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export enum ActionContentTypes {
+  JSON = 'application/json',
+  FORM = 'application/x-www-form-urlencoded',
+  MULTIPART = 'multipart/form-data',
+}
+
+/** A conversation file uploaded as a part of a multipart request */
+export type ActionFile = {
+  filename: string;
+  type?: string;
+  data: Buffer;
+};
+
+/** Where a parameter of an operation is sent, and how its value is serialized */
+export type ActionParameter = {
+  name: string;
+  in: ParameterLocation;
+  style?: string;
+  explode?: boolean;
+};
+
+/**
+ * How the response of an operation is trimmed before it is returned to the model,
+ * set with the `x-librechat-response` extension of the operation or the spec.
+ */
+export type ActionResponseConfig = {
+  /** JSONPath expressions of the fields to keep, e.g. `$.results[*].name` */
+  fields?: string[];
+  /** The maximum number of items kept of each list */
+  maxItems?: number;
+  /** The maximum number of characters of the response */
+  maxChars?: number;
+};
+
+/** The response returned to the model, with the raw response when it was trimmed */
+export type ActionResponse = {
+  output: string;
+  raw?: string;
+};
+
 type MediaTypeObject =
   | undefined
   | {
@@ -159,6 +204,85 @@ export class FunctionSignature {
   }
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringifyValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Serializes a path or header parameter with the `simple`, `label` or `matrix` style.
+ * @see https://spec.openapis.org/oas/v3.0.3#style-values
+ */
+function serializeSimpleParameter(
+  { name, style = 'simple', explode = false }: ActionParameter,
+  value: unknown,
+  encode: (value: string) => string,
+): string {
+  let pairs: [string, string][] | undefined;
+  let values: string[];
+  if (Array.isArray(value)) {
+    values = value.map((item) => encode(stringifyValue(item)));
+  } else if (isPlainObject(value)) {
+    pairs = Object.entries(value).map(([key, item]) => [encode(key), encode(stringifyValue(item))]);
+    values = explode ? pairs.map(([key, item]) => `${key}=${item}`) : pairs.flat();
+  } else {
+    values = [encode(stringifyValue(value))];
+  }
+
+  if (style === 'label') {
+    return `.${values.join(explode ? '.' : ',')}`;
+  }
+  if (style !== 'matrix') {
+    return values.join(',');
+  }
+  if (!explode) {
+    return `;${name}=${values.join(',')}`;
+  }
+  if (pairs) {
+    return pairs.map(([key, item]) => `;${key}=${item}`).join('');
+  }
+  return values.map((item) => `;${name}=${item}`).join('');
+}
+
+const queryDelimiters: Record<string, string> = {
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+};
+
+/**
+ * Serializes a query or cookie parameter with the `form`, `spaceDelimited`, `pipeDelimited`
+ * or `deepObject` style, into unencoded name and value pairs.
+ */
+function serializeFormParameter(
+  { name, style = 'form', explode = style === 'form' }: ActionParameter,
+  value: unknown,
+): [string, string][] {
+  if (Array.isArray(value)) {
+    const values = value.map(stringifyValue);
+    if (explode) {
+      return values.map((item) => [name, item]);
+    }
+    return [[name, values.join(queryDelimiters[style] ?? ',')]];
+  }
+  if (isPlainObject(value)) {
+    const pairs = Object.entries(value).map(([key, item]): [string, string] => [
+      key,
+      stringifyValue(item),
+    ]);
+    if (style === 'deepObject') {
+      return pairs.map(([key, item]) => [`${name}[${key}]`, item]);
+    }
+    if (explode) {
+      return pairs;
+    }
+    return [[name, pairs.flat().join(',')]];
+  }
+  return [[name, stringifyValue(value)]];
+}
+
 class RequestConfig {
   constructor(
     readonly domain: string,
@@ -167,12 +291,20 @@ class RequestConfig {
     readonly operation: string,
     readonly isConsequential: boolean,
     readonly contentType: string,
+    readonly parameters?: ActionParameter[],
+    readonly fileFields?: string[],
+    readonly responseConfig?: ActionResponseConfig,
   ) {}
 }
 
 class RequestExecutor {
   path: string;
+  /** Parameters without a declared location: the query of GET requests, or the body otherwise */
   params?: object;
+  query: [string, string][] = [];
+  headers: Record<string, string> = {};
+  cookies: string[] = [];
+  files: Record<string, ActionFile[]> = {};
   private operationHash?: string;
   private authHeaders: Record<string, string> = {};
   private authToken?: string;
@@ -184,17 +316,78 @@ class RequestExecutor {
   setParams(params: object) {
     this.operationHash = sha1(JSON.stringify(params));
     this.params = Object.assign({}, params);
+    const parameters = new Map(
+      this.config.parameters?.map((parameter) => [parameter.name, parameter]),
+    );
 
     for (const [key, value] of Object.entries(params)) {
-      const paramPattern = `{${key}}`;
-      if (this.path.includes(paramPattern)) {
-        this.path = this.path.replace(paramPattern, encodeURIComponent(value as string));
-        delete (this.params as Record<string, unknown>)[key];
+      const parameter = parameters.get(key);
+      if (!parameter || parameter.in === 'path') {
+        const paramPattern = `{${key}}`;
+        if (this.path.includes(paramPattern)) {
+          const pathValue = parameter
+            ? serializeSimpleParameter(parameter, value, encodeURIComponent)
+            : encodeURIComponent(value as string);
+          this.path = this.path.replace(paramPattern, pathValue);
+          delete (this.params as Record<string, unknown>)[key];
+        }
+        continue;
+      }
+
+      delete (this.params as Record<string, unknown>)[key];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (parameter.in === 'query') {
+        this.query.push(...serializeFormParameter(parameter, value));
+      } else if (parameter.in === 'header') {
+        this.headers[key] = serializeSimpleParameter(
+          { ...parameter, style: 'simple' },
+          value,
+          (item) => item,
+        );
+      } else if (parameter.in === 'cookie') {
+        const pairs = serializeFormParameter({ ...parameter, style: 'form' }, value);
+        this.cookies.push(...pairs.map(([name, item]) => `${name}=${encodeURIComponent(item)}`));
       }
     }
     return this;
   }
 
+  /** Sets the files uploaded in place of the file IDs of a multipart request's file fields */
+  setFiles(files: Record<string, ActionFile[]>) {
+    this.files = files;
+    return this;
+  }
+
+  private getBody(): object | undefined {
+    const { contentType } = this.config;
+    if (contentType !== ActionContentTypes.FORM && contentType !== ActionContentTypes.MULTIPART) {
+      return this.params;
+    }
+
+    const fields = Object.entries(this.params ?? {}).filter(
+      ([key, value]) => value != null && !this.files[key],
+    );
+    const pairs = fields.flatMap(([key, value]) =>
+      serializeFormParameter({ name: key, in: 'query' }, value),
+    );
+    if (contentType === ActionContentTypes.FORM) {
+      return new URLSearchParams(pairs);
+    }
+
+    const formData = new FormData();
+    for (const [name, value] of pairs) {
+      formData.append(name, value);
+    }
+    for (const [name, files] of Object.entries(this.files)) {
+      for (const file of files) {
+        formData.append(name, new Blob([file.data], { type: file.type }), file.filename);
+      }
+    }
+    return formData;
+  }
+
   async setAuth(metadata: ActionMetadataRuntime) {
     if (!metadata.auth) {
       return this;
@@ -237,6 +430,15 @@ class RequestExecutor {
       scope &&
       token_exchange_method
     );
+    const isClientCredentials = !!(
+      oauth_client_id != null &&
+      oauth_client_id &&
+      oauth_client_secret != null &&
+      oauth_client_secret &&
+      type === AuthTypeEnum.ClientCredentials &&
+      client_url != null &&
+      client_url
+    );
 
     if (isApiKey && authorization_type === AuthorizationTypeEnum.Basic) {
       const basicToken = Buffer.from(api_key).toString('base64');
@@ -250,8 +452,8 @@ class RequestExecutor {
       custom_auth_header
     ) {
       this.authHeaders[custom_auth_header] = api_key;
-    } else if (isOAuth) {
-      // TODO: maybe doing it in a different way later on. but we want that the user needs to folllow the oauth flow.
+    } else if (isOAuth || isClientCredentials) {
+      // Tokens are obtained, and refreshed before they expire, by the caller.
       // If we do not have a valid token, bail or ask user to sign in
       const now = new Date();
 
@@ -262,7 +464,6 @@ class RequestExecutor {
 
       // 2. Check if token is expired
       if (oauth_token_expires_at && now >= new Date(oauth_token_expires_at)) {
-        // Optionally check refresh_token logic, or just prompt user to re-login
         throw new Error('Access token is expired. Please re-login.');
       }
 
@@ -274,24 +475,43 @@ class RequestExecutor {
   }
 
   async execute() {
-    const url = createURL(this.config.domain, this.path);
-    const headers = {
+    let url = createURL(this.config.domain, this.path);
+    if (this.query.length > 0) {
+      const urlWithQuery = new URL(url);
+      for (const [name, value] of this.query) {
+        urlWithQuery.searchParams.append(name, value);
+      }
+      url = urlWithQuery.toString();
+    }
+
+    const headers: Record<string, string> = {
+      ...this.headers,
       ...this.authHeaders,
       'Content-Type': this.config.contentType,
     };
+    if (this.config.contentType === ActionContentTypes.MULTIPART) {
+      /** Set with the boundary of the form data */
+      delete headers['Content-Type'];
+    }
+    if (this.cookies.length > 0) {
+      headers['Cookie'] = this.cookies.join('; ');
+    }
 
     const method = this.config.method.toLowerCase();
     const axios = _axios.create();
     if (method === 'get') {
       return axios.get(url, { headers, params: this.params });
-    } else if (method === 'post') {
-      return axios.post(url, this.params, { headers });
+    }
+
+    const data = this.getBody();
+    if (method === 'post') {
+      return axios.post(url, data, { headers });
     } else if (method === 'put') {
-      return axios.put(url, this.params, { headers });
+      return axios.put(url, data, { headers });
     } else if (method === 'delete') {
-      return axios.delete(url, { headers, data: this.params });
+      return axios.delete(url, { headers, data });
     } else if (method === 'patch') {
-      return axios.patch(url, this.params, { headers });
+      return axios.patch(url, data, { headers });
     } else {
       throw new Error(`Unsupported HTTP method: ${method}`);
     }
@@ -312,8 +532,21 @@ export class ActionRequest {
     operation: string,
     isConsequential: boolean,
     contentType: string,
+    parameters?: ActionParameter[],
+    fileFields?: string[],
+    responseConfig?: ActionResponseConfig,
   ) {
-    this.config = new RequestConfig(domain, path, method, operation, isConsequential, contentType);
+    this.config = new RequestConfig(
+      domain,
+      path,
+      method,
+      operation,
+      isConsequential,
+      contentType,
+      parameters,
+      fileFields,
+      responseConfig,
+    );
   }
 
   // Add getters to maintain backward compatibility
@@ -335,6 +568,15 @@ export class ActionRequest {
   get contentType() {
     return this.config.contentType;
   }
+  get parameters() {
+    return this.config.parameters;
+  }
+  get fileFields() {
+    return this.config.fileFields;
+  }
+  get responseConfig() {
+    return this.config.responseConfig;
+  }
 
   createExecutor() {
     return new RequestExecutor(this.config);
@@ -377,12 +619,360 @@ function sanitizeOperationId(input: string) {
   return input.replace(/[^a-zA-Z0-9_-]/g, '');
 }
 
+const httpMethods = new Set(['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']);
+
+/** Headers the spec ignores as parameters, as they are set from the request body and security schemes */
+const ignoredHeaderParameters = new Set(['accept', 'content-type', 'authorization']);
+
+function resolveParameter(
+  parameter: OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject,
+  components?: OpenAPIV3.ComponentsObject,
+): OpenAPIV3.ParameterObject {
+  if ('$ref' in parameter) {
+    const refPath = parameter.$ref.replace(/^#\/components\/parameters\//, '');
+    const resolvedParameter = components?.parameters?.[refPath];
+    if (!resolvedParameter) {
+      throw new Error(`Reference ${parameter.$ref} not found`);
+    }
+    return resolveParameter(resolvedParameter, components);
+  }
+  return parameter;
+}
+
+/**
+ * Gets the media type of the request body to send, preferring JSON, then forms.
+ * Bodies of other media types are sent as JSON.
+ */
+function getRequestMediaType(content: MediaTypeObject): string | undefined {
+  const contentTypes = Object.keys(content ?? {});
+  const preferredTypes: string[] = [
+    ActionContentTypes.JSON,
+    ActionContentTypes.FORM,
+    ActionContentTypes.MULTIPART,
+  ];
+  for (const preferredType of preferredTypes) {
+    const contentType = contentTypes.find((type) => type.split(';')[0].trim() === preferredType);
+    if (contentType != null) {
+      return contentType;
+    }
+  }
+  return contentTypes.find((type) => type.endsWith('+json')) ?? contentTypes[0];
+}
+
+function getContentType(mediaType = ''): string {
+  const contentType = mediaType.split(';')[0].trim();
+  const isSupported =
+    contentType === ActionContentTypes.FORM ||
+    contentType === ActionContentTypes.MULTIPART ||
+    contentType.endsWith('json');
+  return isSupported ? contentType : ActionContentTypes.JSON;
+}
+
+function isBinarySchema(schema: OpenAPIV3.SchemaObject): boolean {
+  return schema.type === 'string' && schema.format === 'binary';
+}
+
+/**
+ * Replaces the binary properties of a multipart body with the IDs of conversation files to upload.
+ * @returns The names of the file fields
+ */
+function replaceFileProperties(
+  properties: Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>,
+  components?: OpenAPIV3.ComponentsObject,
+): string[] {
+  const fileFields: string[] = [];
+  for (const [name, property] of Object.entries(properties)) {
+    const schema = resolveRef(property, components);
+    const describe = (fileDescription: string) =>
+      [schema.description, fileDescription].filter(Boolean).join(' ');
+    if (isBinarySchema(schema)) {
+      properties[name] = {
+        type: 'string',
+        description: describe('The `file_id` of a conversation file to upload.'),
+      };
+      fileFields.push(name);
+    } else if (
+      schema.type === 'array' &&
+      schema.items != null &&
+      isBinarySchema(resolveRef(schema.items, components))
+    ) {
+      properties[name] = {
+        type: 'array',
+        items: { type: 'string' },
+        description: describe('The `file_id`s of conversation files to upload.'),
+      };
+      fileFields.push(name);
+    }
+  }
+  return fileFields;
+}
+
+/**
+ * Gets the parameters of an operation, including those of its path,
+ * which the operation's own parameters override.
+ */
+function getOperationParameters(
+  pathItem: OpenAPIV3.PathItemObject,
+  operation: OpenAPIV3.OperationObject,
+  components?: OpenAPIV3.ComponentsObject,
+): OpenAPIV3.ParameterObject[] {
+  const parameters = new Map<string, OpenAPIV3.ParameterObject>();
+  for (const param of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const paramObj = resolveParameter(param, components);
+    if (paramObj.in === 'header' && ignoredHeaderParameters.has(paramObj.name.toLowerCase())) {
+      continue;
+    }
+    parameters.set(`${paramObj.in}:${paramObj.name}`, paramObj);
+  }
+  return Array.from(parameters.values());
+}
+
+/** The characters of a raw response kept to show how it was trimmed */
+const maxRawResponseLength = 100000;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Parses an `x-librechat-response` config, leaving out invalid settings
+ * and describing them as errors.
+ */
+export function parseResponseConfig(value: unknown): {
+  config?: ActionResponseConfig;
+  errors: string[];
+} {
+  if (value == null) {
+    return { errors: [] };
+  }
+  if (!isPlainObject(value)) {
+    return { errors: ['x-librechat-response must be an object'] };
+  }
+
+  const config: ActionResponseConfig = {};
+  const errors: string[] = [];
+  if (value.fields != null) {
+    const fields = Array.isArray(value.fields) ? value.fields : [value.fields];
+    config.fields = [];
+    for (const field of fields) {
+      if (typeof field === 'string' && parseJSONPath(field) != null) {
+        config.fields.push(field);
+      } else {
+        errors.push(`x-librechat-response field ${String(field)} is not a supported JSONPath`);
+      }
+    }
+  }
+  for (const key of ['maxItems', 'maxChars'] as const) {
+    if (value[key] == null) {
+      continue;
+    }
+    if (isPositiveInteger(value[key])) {
+      config[key] = value[key] as number;
+    } else {
+      errors.push(`x-librechat-response ${key} must be a positive integer`);
+    }
+  }
+  return { config, errors };
+}
+
+/** Gets the schema of the first successful JSON response of an operation */
+function getResponseSchema(
+  operation: OpenAPIV3.OperationObject,
+): OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined {
+  for (const [statusCode, response] of Object.entries(operation.responses ?? {})) {
+    if (!statusCode.startsWith('2') || '$ref' in response) {
+      continue;
+    }
+    const mediaType = Object.keys(response.content ?? {}).find(
+      (type) => type === 'application/json' || type.endsWith('+json'),
+    );
+    const schema = mediaType != null ? response.content?.[mediaType]?.schema : undefined;
+    if (schema) {
+      return schema;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a JSONPath can match a response with the given schema.
+ * Parts of the schema without declared properties, or with unresolved references, match any path.
+ */
+function matchesSchema(
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined,
+  segments: JSONPathSegment[],
+  components?: OpenAPIV3.ComponentsObject,
+): boolean {
+  if (!schema || segments.length === 0) {
+    return true;
+  }
+  let resolved: OpenAPIV3.SchemaObject;
+  try {
+    resolved = resolveRef(schema, components);
+  } catch {
+    return true;
+  }
+
+  const [segment, ...rest] = segments;
+  if (resolved.type === 'array') {
+    return typeof segment !== 'string' && matchesSchema(resolved.items, rest, components);
+  }
+  if (segment === null) {
+    return Object.values(resolved.properties ?? {}).every((property) =>
+      matchesSchema(property, rest, components),
+    );
+  }
+  if (typeof segment === 'number' || !resolved.properties) {
+    return true;
+  }
+  if (hasOwnKey(resolved.properties, segment)) {
+    return matchesSchema(resolved.properties[segment], rest, components);
+  }
+  return resolved.additionalProperties != null && resolved.additionalProperties !== false;
+}
+
+/**
+ * Gets the `x-librechat-response` config of an operation, or of the spec,
+ * with errors for invalid settings and for fields missing from the response schema.
+ */
+function getResponseConfig(
+  operation: OpenAPIV3.OperationObject & { 'x-librechat-response'?: unknown },
+  openapiSpec: OpenAPIV3.Document & { 'x-librechat-response'?: unknown },
+): { config?: ActionResponseConfig; errors: string[] } {
+  const { config, errors } = parseResponseConfig(
+    operation['x-librechat-response'] ?? openapiSpec['x-librechat-response'],
+  );
+  const responseSchema = getResponseSchema(operation);
+  for (const field of config?.fields ?? []) {
+    const segments = parseJSONPath(field) ?? [];
+    if (!matchesSchema(responseSchema, segments, openapiSpec.components)) {
+      errors.push(`x-librechat-response field ${field} is not in the response schema`);
+    }
+  }
+  return { config, errors };
+}
+
+/**
+ * Trims the response of an action with its `x-librechat-response` config:
+ * keeps the selected fields, then the first items of lists, then the first characters.
+ * Notes on what was trimmed are added for the model, and the raw response is returned with the output.
+ */
+export function trimActionResponse(data: unknown, config?: ActionResponseConfig): ActionResponse {
+  const raw = typeof data === 'string' ? data : JSON.stringify(data);
+  if (!config || (!config.fields?.length && config.maxItems == null && config.maxChars == null)) {
+    return { output: raw };
+  }
+
+  let value = data;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // Text responses can only be cut at the maximum characters
+    }
+  }
+
+  const notes: string[] = [];
+  let trimmed = false;
+  const paths = (config.fields ?? [])
+    .map(parseJSONPath)
+    .filter((segments): segments is JSONPathSegment[] => segments != null);
+  if (typeof value === 'object' && value !== null && paths.length > 0) {
+    value = selectJSONPaths(value, paths) ?? null;
+    trimmed = true;
+    if (value === null) {
+      notes.push('None of the selected fields were in the response.');
+    }
+  }
+
+  const { maxItems, maxChars } = config;
+  if (maxItems != null && typeof value === 'object' && value !== null) {
+    let limitedLists = 0;
+    const limitItems = (item: unknown): unknown => {
+      if (Array.isArray(item)) {
+        if (item.length > maxItems) {
+          limitedLists++;
+        }
+        return item.slice(0, maxItems).map(limitItems);
+      }
+      if (isPlainObject(item)) {
+        return Object.fromEntries(
+          Object.entries(item).map(([key, entry]) => [key, limitItems(entry)]),
+        );
+      }
+      return item;
+    };
+    value = limitItems(value);
+    if (limitedLists > 0) {
+      notes.push(`Lists were limited to their first ${maxItems} items.`);
+    }
+  }
+
+  let output = typeof value === 'string' ? value : JSON.stringify(value);
+  if (maxChars != null && output.length > maxChars) {
+    notes.push(`The response was cut at ${maxChars} of ${output.length} characters.`);
+    output = output.slice(0, maxChars);
+  }
+
+  if (!trimmed && notes.length === 0) {
+    return { output: raw };
+  }
+  if (notes.length > 0) {
+    output = `${output}\n\n(${notes.join(' ')})`;
+  }
+  return {
+    output,
+    raw: raw.length > maxRawResponseLength ? raw.slice(0, maxRawResponseLength) : raw,
+  };
+}
+
+/**
+ * Resolves the variables of a server URL with their default values;
+ * variables without a default are returned as missing.
+ */
+export function resolveServerUrl(server: OpenAPIV3.ServerObject): {
+  url: string;
+  missing: string[];
+} {
+  const missing: string[] = [];
+  const url = server.url.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const value = server.variables?.[name]?.default;
+    if (value == null) {
+      missing.push(name);
+      return match;
+    }
+    return String(value);
+  });
+  return { url, missing };
+}
+
+/**
+ * Lists the resolved URLs of the servers of an OpenAPI spec,
+ * skipping servers with variables that have no default.
+ */
+export function getServerUrls(openapiSpec: OpenAPIV3.Document): string[] {
+  const urls: string[] = [];
+  for (const server of openapiSpec.servers ?? []) {
+    if (!server?.url) {
+      continue;
+    }
+    const { url, missing } = resolveServerUrl(server);
+    if (missing.length === 0) {
+      urls.push(url);
+    }
+  }
+  return urls;
+}
+
 /**
  * Converts an OpenAPI spec to function signatures and request builders.
+ * Requests are sent to `serverUrl` when it is one of the servers of the spec,
+ * and to the first server otherwise.
  */
 export function openapiToFunction(
   openapiSpec: OpenAPIV3.Document,
   generateZodSchemas = false,
+  serverUrl?: string,
 ): {
   functionSignatures: FunctionSignature[];
   requestBuilders: Record<string, ActionRequest>;
@@ -391,15 +981,23 @@ export function openapiToFunction(
   const functionSignatures: FunctionSignature[] = [];
   const requestBuilders: Record<string, ActionRequest> = {};
   const zodSchemas: Record<string, z.ZodTypeAny> = {};
-  const baseUrl = openapiSpec.servers?.[0]?.url ?? '';
+  const serverUrls = getServerUrls(openapiSpec);
+  const baseUrl =
+    serverUrl != null && serverUrls.includes(serverUrl) ? serverUrl : (serverUrls[0] ?? '');
 
   // Iterate over each path and method in the OpenAPI spec
   for (const [path, methods] of Object.entries(openapiSpec.paths)) {
+    const pathItem = (methods ?? {}) as OpenAPIV3.PathItemObject;
     for (const [method, operation] of Object.entries(methods as OpenAPIV3.PathsObject)) {
+      if (!httpMethods.has(method.toLowerCase())) {
+        continue;
+      }
       const operationObj = operation as OpenAPIV3.OperationObject & {
         'x-openai-isConsequential'?: boolean;
       } & {
         'x-strict'?: boolean
+      } & {
+        'x-librechat-response'?: unknown;
       };
 
       // Operation ID is used as the function name
@@ -414,9 +1012,9 @@ export function openapiToFunction(
         required: [],
       };
 
-      if (operationObj.parameters) {
-        for (const param of operationObj.parameters) {
-          const paramObj = param as OpenAPIV3.ParameterObject;
+      const parameters = getOperationParameters(pathItem, operationObj, openapiSpec.components);
+      if (parameters.length > 0) {
+        for (const paramObj of parameters) {
           const resolvedSchema = resolveRef(
             { ...paramObj.schema } as OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject,
             openapiSpec.components,
@@ -428,18 +1026,25 @@ export function openapiToFunction(
         }
       }
 
+      let contentType = '';
+      let fileFields: string[] | undefined;
       if (operationObj.requestBody) {
         const requestBody = operationObj.requestBody as RequestBodyObject;
         const content = requestBody.content;
-        const contentType = Object.keys(content ?? {})[0];
-        const schema = content?.[contentType]?.schema;
+        const mediaType = getRequestMediaType(content);
+        contentType = getContentType(mediaType);
+        const schema = content?.[mediaType ?? '']?.schema;
         const resolvedSchema = resolveRef(
           schema as OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject,
           openapiSpec.components,
         );
+        const bodyProperties = { ...resolvedSchema.properties };
+        if (contentType === ActionContentTypes.MULTIPART) {
+          fileFields = replaceFileProperties(bodyProperties, openapiSpec.components);
+        }
         parametersSchema.properties = {
           ...parametersSchema.properties,
-          ...resolvedSchema.properties,
+          ...bodyProperties,
         };
         if (resolvedSchema.required) {
           parametersSchema.required.push(...resolvedSchema.required);
@@ -455,7 +1060,15 @@ export function openapiToFunction(
         method,
         operationId,
         !!(operationObj['x-openai-isConsequential'] ?? false),
-        operationObj.requestBody ? 'application/json' : '',
+        contentType,
+        parameters.map(({ name, in: location, style, explode }) => ({
+          name,
+          in: location as ParameterLocation,
+          style,
+          explode,
+        })),
+        fileFields,
+        getResponseConfig(operationObj, openapiSpec).config,
       );
 
       requestBuilders[operationId] = actionRequest;
@@ -490,6 +1103,13 @@ export function validateAndParseOpenAPISpec(specString: string): ValidationResul
       parsedSpec = load(specString);
     }
 
+    const messages: string[] = [];
+    if (isSwagger2(parsedSpec)) {
+      const conversion = convertSwaggerToOpenAPI(parsedSpec);
+      parsedSpec = conversion.spec;
+      messages.push(...conversion.warnings);
+    }
+
     // Check for servers
     if (
       !parsedSpec.servers ||
@@ -499,8 +1119,23 @@ export function validateAndParseOpenAPISpec(specString: string): ValidationResul
       return { status: false, message: 'Could not find a valid URL in `servers`' };
     }
 
-    if (!parsedSpec.servers[0].url) {
-      return { status: false, message: 'Could not find a valid URL in `servers`' };
+    for (const server of parsedSpec.servers as OpenAPIV3.ServerObject[]) {
+      if (!server?.url) {
+        continue;
+      }
+      const { missing } = resolveServerUrl(server);
+      if (missing.length > 0) {
+        messages.push(
+          `Server ${server.url} has no default for the variables: ${missing.join(', ')}; skipping it`,
+        );
+      }
+    }
+
+    if (getServerUrls(parsedSpec).length === 0) {
+      return {
+        status: false,
+        message: messages.concat('Could not find a valid URL in `servers`').join('\n'),
+      };
     }
 
     // Check for paths
@@ -510,7 +1145,6 @@ export function validateAndParseOpenAPISpec(specString: string): ValidationResul
     }
 
     const components = parsedSpec.components?.schemas || {};
-    const messages = [];
 
     for (const [path, methods] of Object.entries(paths)) {
       for (const [httpMethod, operation] of Object.entries(methods as OpenAPIV3.PathItemObject)) {
@@ -532,6 +1166,11 @@ export function validateAndParseOpenAPISpec(specString: string): ValidationResul
             }
           }
         }
+
+        if (httpMethods.has(httpMethod.toLowerCase()) && typeof operation === 'object') {
+          const { errors } = getResponseConfig(operation as OpenAPIV3.OperationObject, parsedSpec);
+          messages.push(...errors.map((error) => `paths.${path}.${httpMethod}: ${error}`));
+        }
       }
     }
 
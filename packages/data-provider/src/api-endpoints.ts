@@ -1,4 +1,5 @@
 import type { AssistantsEndpoint } from './schemas';
+import type { TTutorAuditParams } from './types/tutor';
 
 export const health = () => '/health';
 export const user = () => '/api/user';
@@ -43,10 +44,17 @@ export const abortRequest = (endpoint: string) => `/api/ask/${endpoint}/abort`;
 
 export const conversationsRoot = '/api/convos';
 
-export const conversations = (pageNumber: string, isArchived?: boolean, tags?: string[]) =>
+export const conversations = (
+  pageNumber: string,
+  isArchived?: boolean,
+  tags?: string[],
+  standards?: string[],
+) =>
   `${conversationsRoot}?pageNumber=${pageNumber}${
     isArchived === true ? '&isArchived=true' : ''
-  }${tags?.map((tag) => `&tags=${tag}`).join('')}`;
+  }${tags?.map((tag) => `&tags=${tag}`).join('')}${
+    standards?.map((code) => `&standards=${encodeURIComponent(code)}`).join('') ?? ''
+  }`;
 
 export const conversationById = (id: string) => `${conversationsRoot}/${id}`;
 
@@ -221,6 +229,8 @@ export const roles = () => '/api/roles';
 export const getRole = (roleName: string) => `${roles()}/${roleName.toLowerCase()}`;
 export const updatePromptPermissions = (roleName: string) => `${getRole(roleName)}/prompts`;
 export const updateAgentPermissions = (roleName: string) => `${getRole(roleName)}/agents`;
+export const updateTeacherToolsPermissions = (roleName: string) =>
+  `${getRole(roleName)}/teacher-tools`;
 
 /* Conversation Tags */
 export const conversationTags = (tag?: string) =>
@@ -237,3 +247,62 @@ export const addTagToConversation = (conversationId: string) =>
 export const userTerms = () => '/api/user/terms';
 export const acceptUserTerms = () => '/api/user/terms/accept';
 export const banner = () => '/api/banner';
+
+export const standards = (params: object = {}) => {
+  let url = '/api/standards';
+  if (Object.keys(params).length > 0) {
+    const queryParams = new URLSearchParams(params as Record<string, string>).toString();
+    url += `?${queryParams}`;
+  }
+  return url;
+};
+
+/* Classes */
+export const classes = (classId?: string) => `/api/classes${classId != null ? `/${classId}` : ''}`;
+export const joinClass = () => `${classes()}/join`;
+export const classJoinCode = (classId: string) => `${classes(classId)}/join-code`;
+export const classTeachers = (classId: string) => `${classes(classId)}/teachers`;
+export const classMember = (classId: string, userId: string) =>
+  `${classes(classId)}/members/${userId}`;
+export const classShares = (classId: string) => `${classes(classId)}/shares`;
+export const classMaterials = (classId: string, materialId?: string) =>
+  `${classes(classId)}/materials${materialId != null ? `/${materialId}` : ''}`;
+
+/* Assignments */
+export const assignments = (params: { classId?: string } = {}) => {
+  const query = params.classId != null ? `?classId=${encodeURIComponent(params.classId)}` : '';
+  return `/api/assignments${query}`;
+};
+export const assignment = (assignmentId: string) => `/api/assignments/${assignmentId}`;
+export const assignmentResults = (assignmentId: string) => `${assignment(assignmentId)}/results`;
+export const assignmentSubmissions = (assignmentId: string, submissionId?: string) =>
+  `${assignment(assignmentId)}/submissions${submissionId != null ? `/${submissionId}` : ''}`;
+export const assignmentAgentGrade = (assignmentId: string, submissionId: string) =>
+  `${assignmentSubmissions(assignmentId, submissionId)}/agent-grade`;
+
+/* Tutor mode */
+export const tutorAudit = ({ classId, userId, flaggedOnly, cursor }: TTutorAuditParams) => {
+  const params = new URLSearchParams({ classId });
+  if (userId != null) {
+    params.set('userId', userId);
+  }
+  if (flaggedOnly === true) {
+    params.set('flaggedOnly', 'true');
+  }
+  if (cursor != null) {
+    params.set('cursor', cursor);
+  }
+  return `/api/tutor/audit?${params.toString()}`;
+};
+
+/* MCP */
+export const mcpResources = () => '/api/mcp/resources';
+export const mcpReadResource = () => `${mcpResources()}/read`;
+export const mcpPrompts = () => '/api/mcp/prompts';
+export const mcpGetPrompt = () => `${mcpPrompts()}/get`;
+export const mcpServers = () => '/api/mcp/servers';
+export const mcpServerAction = (serverName: string, action: 'reconnect' | 'disconnect') =>
+  `${mcpServers()}/${encodeURIComponent(serverName)}/${action}`;
+export const mcpReload = () => '/api/mcp/reload';
+export const mcpToolApproval = (approvalId: string) =>
+  `/api/mcp/approvals/${encodeURIComponent(approvalId)}`;
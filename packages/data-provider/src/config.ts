@@ -6,7 +6,7 @@ import { EModelEndpoint, eModelEndpointSchema } from './schemas';
 import { fileConfigSchema } from './file-config';
 import { specsConfigSchema, TSpecsConfig } from './models';
 import { FileSources } from './types/files';
-import { MCPServersSchema } from './mcp';
+import { MCPServersSchema, MCPSettingsSchema } from './mcp';
 
 export const defaultSocialLogins = ['google', 'facebook', 'openid', 'github', 'discord'];
 
@@ -471,6 +471,131 @@ export const intefaceSchema = z
 
 export type TInterfaceConfig = z.infer<typeof intefaceSchema>;
 
+export enum TeacherToolFieldTypes {
+  TEXT = 'text',
+  TEXTAREA = 'textarea',
+  NUMBER = 'number',
+  SELECT = 'select',
+  /** Searchable picker backed by the curriculum standards catalog */
+  STANDARDS = 'standards',
+}
+
+export const teacherToolFieldSchema = z.object({
+  /** Variable name used in the prompt template, e.g. `{{subject}}` */
+  name: z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/),
+  label: z.string(),
+  type: z.nativeEnum(TeacherToolFieldTypes).default(TeacherToolFieldTypes.TEXT),
+  placeholder: z.string().optional(),
+  required: z.boolean().default(false),
+  default: z.union([z.string(), z.number()]).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  options: z
+    .array(
+      z.object({
+        label: z.string(),
+        value: z.string(),
+      }),
+    )
+    .optional(),
+});
+
+export type TTeacherToolField = z.infer<typeof teacherToolFieldSchema>;
+
+export enum TeacherToolResponseFormats {
+  MARKDOWN = 'markdown',
+  /** Requests a structured `TQuiz`, rendered as an interactive quiz */
+  QUIZ = 'quiz',
+  /** Requests a structured `TRubric`, rendered as an editable rubric table */
+  RUBRIC = 'rubric',
+}
+
+export const teacherToolTargetSchema = z
+  .object({
+    /** A system-defined endpoint or the name of a custom endpoint */
+    endpoint: z.string().optional(),
+    model: z.string().optional(),
+    agent_id: z.string().optional(),
+    /** Name of a model spec defined in `modelSpecs.list` */
+    modelSpec: z.string().optional(),
+  })
+  .refine(
+    (target) =>
+      target.modelSpec != null ||
+      target.agent_id != null ||
+      (target.endpoint != null && target.model != null),
+    {
+      message: 'A teacher tool target requires a `modelSpec`, an `agent_id`, or both `endpoint` and `model`.',
+    },
+  );
+
+export type TTeacherToolTarget = z.infer<typeof teacherToolTargetSchema>;
+
+export const teacherToolSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().optional(),
+    /** A known icon name (e.g. `graduation-cap`) or an image URL */
+    icon: z.string().optional(),
+    fields: z.array(teacherToolFieldSchema).min(1),
+    /** Prompt sent to the target; `{{name}}` is replaced with the matching field value */
+    promptTemplate: z.string(),
+    responseFormat: z
+      .nativeEnum(TeacherToolResponseFormats)
+      .default(TeacherToolResponseFormats.MARKDOWN),
+    target: teacherToolTargetSchema,
+  })
+  .refine(
+    (tool) => new Set(tool.fields.map((field) => field.name)).size === tool.fields.length,
+    { message: 'Teacher tool field names must be unique.' },
+  )
+  .refine(
+    (tool) =>
+      tool.fields.every(
+        (field) =>
+          field.type !== TeacherToolFieldTypes.SELECT || (field.options?.length ?? 0) > 0,
+      ),
+    { message: 'Teacher tool `select` fields require at least one option.' },
+  );
+
+export type TTeacherTool = z.infer<typeof teacherToolSchema>;
+
+export const teacherToolsConfigSchema = z.object({
+  list: z
+    .array(teacherToolSchema)
+    .min(1)
+    .refine((list) => new Set(list.map((tool) => tool.id)).size === list.length, {
+      message: 'Teacher tool ids must be unique.',
+    }),
+  standards: z
+    .object({
+      /** JSON or CSV files, relative to the project root, that make up the standards catalog */
+      files: z.array(z.string()).min(1),
+    })
+    .optional(),
+});
+
+export type TTeacherToolsConfig = z.infer<typeof teacherToolsConfigSchema>;
+
+export const tutorModeConfigSchema = z.object({
+  /** Roles whose conversations always run in tutor mode, e.g. `STUDENT` */
+  roles: z.array(z.string()).default([]),
+  /**
+   * Names of model specs (from `modelSpecs.list`) that run in tutor mode for anyone using them.
+   * Only enforceable when `modelSpecs.enforce` is `true`; otherwise use `roles`.
+   */
+  modelSpecs: z.array(z.string()).default([]),
+  /** Replaces the default Socratic tutoring instructions */
+  instructions: z.string().optional(),
+  /** Moderates both the user's message and the response */
+  moderation: z.boolean().default(true),
+  /** Records tutor-mode exchanges for the user's teachers to review */
+  audit: z.boolean().default(true),
+});
+
+export type TTutorModeConfig = z.infer<typeof tutorModeConfigSchema>;
+
 export type TStartupConfig = {
   appTitle: string;
   socialLogins?: string[];
@@ -501,6 +626,8 @@ export type TStartupConfig = {
   helpAndFaqURL: string;
   customFooter?: string;
   modelSpecs?: TSpecsConfig;
+  teacherTools?: TTeacherToolsConfig;
+  tutorMode?: Pick<TTutorModeConfig, 'roles' | 'modelSpecs' | 'audit'>;
   sharedLinksEnabled: boolean;
   publicSharedLinksEnabled: boolean;
   analyticsGtmId?: string;
@@ -515,6 +642,7 @@ export const configSchema = z.object({
   includedTools: z.array(z.string()).optional(),
   filteredTools: z.array(z.string()).optional(),
   mcpServers: MCPServersSchema.optional(),
+  mcpSettings: MCPSettingsSchema.optional(),
   interface: intefaceSchema,
   fileStrategy: fileSourceSchema.default(FileSources.local),
   actions: z
@@ -538,6 +666,8 @@ export const configSchema = z.object({
   rateLimits: rateLimitSchema.optional(),
   fileConfig: fileConfigSchema.optional(),
   modelSpecs: specsConfigSchema.optional(),
+  teacherTools: teacherToolsConfigSchema.optional(),
+  tutorMode: tutorModeConfigSchema.optional(),
   endpoints: z
     .object({
       all: baseEndpointSchema.optional(),
@@ -1164,6 +1294,8 @@ export enum Constants {
   GLOBAL_PROJECT_NAME = 'instance',
   /** Delimiter for MCP tools */
   mcp_delimiter = '_mcp_',
+  /** Placeholder replaced with the current user's ID, e.g. in custom headers */
+  LIBRECHAT_USER_ID = '{{LIBRECHAT_USER_ID}}',
 }
 
 export enum LocalStorageKeys {
@@ -1193,6 +1325,8 @@ export enum LocalStorageKeys {
   TEXT_DRAFT = 'textDraft_',
   /** Key for saving file drafts */
   FILES_DRAFT = 'filesDraft_',
+  /** Prefix key for saving assignment response drafts */
+  ASSIGNMENT_DRAFT = 'assignmentDraft_',
   /** Key for last Selected Prompt Category */
   LAST_PROMPT_CATEGORY = 'lastPromptCategory',
   /** Key for rendering User Messages as Markdown */
@@ -3,8 +3,15 @@ import { EndpointURLs } from './config';
 import * as s from './schemas';
 
 export default function createPayload(submission: t.TSubmission) {
-  const { conversation, userMessage, endpointOption, isEdited, isContinued, isTemporary } =
-    submission;
+  const {
+    conversation,
+    userMessage,
+    endpointOption,
+    isEdited,
+    isContinued,
+    isTemporary,
+    standards,
+  } = submission;
   const { conversationId } = s.tConvoUpdateSchema.parse(conversation);
   const { endpoint, endpointType } = endpointOption as {
     endpoint: s.EModelEndpoint;
@@ -27,5 +34,9 @@ export default function createPayload(submission: t.TSubmission) {
     isTemporary,
   };
 
+  if (standards && standards.length > 0) {
+    payload.standards = standards;
+  }
+
   return { server, payload };
 }
@@ -9,6 +9,11 @@ import * as config from './config';
 import request from './request';
 import * as s from './schemas';
 import * as r from './roles';
+import * as st from './standards';
+import * as c from './types/classes';
+import * as as from './types/assignments';
+import * as tu from './types/tutor';
+import * as mcp from './types/mcp';
 
 export function abortRequestWithMessage(
   endpoint: string,
@@ -604,7 +609,7 @@ export const listConversations = (
   const pageNumber = (params?.pageNumber ?? '1') || '1'; // Default to page 1 if not provided
   const isArchived = params?.isArchived ?? false; // Default to false if not provided
   const tags = params?.tags || []; // Default to an empty array if not provided
-  return request.get(endpoints.conversations(pageNumber, isArchived, tags));
+  return request.get(endpoints.conversations(pageNumber, isArchived, tags, params?.standards));
 };
 
 export const listConversationsByQuery = (
@@ -728,6 +733,15 @@ export function updateAgentPermissions(
   return request.put(endpoints.updateAgentPermissions(variables.roleName), variables.updates);
 }
 
+export function updateTeacherToolsPermissions(
+  variables: m.UpdateTeacherToolsPermVars,
+): Promise<m.UpdatePermResponse> {
+  return request.put(
+    endpoints.updateTeacherToolsPermissions(variables.roleName),
+    variables.updates,
+  );
+}
+
 /* Tags */
 export function getConversationTags(): Promise<t.TConversationTagsResponse> {
   return request.get(endpoints.conversationTags());
@@ -774,3 +788,164 @@ export function acceptTerms(): Promise<t.TAcceptTermsResponse> {
 export function getBanner(): Promise<t.TBannerResponse> {
   return request.get(endpoints.banner());
 }
+
+export function getStandards(params: st.TStandardsQueryParams = {}): Promise<st.TStandardsResponse> {
+  return request.get(endpoints.standards(params));
+}
+
+/* Classes */
+export function getClasses(): Promise<c.TClassListResponse> {
+  return request.get(endpoints.classes());
+}
+
+export function getClass(classId: string): Promise<c.TClass> {
+  return request.get(endpoints.classes(classId));
+}
+
+export function createClass(payload: c.TCreateClassRequest): Promise<c.TClass> {
+  return request.post(endpoints.classes(), payload);
+}
+
+export function updateClass({ classId, data }: c.TUpdateClassVariables): Promise<c.TClass> {
+  return request.patch(endpoints.classes(classId), data);
+}
+
+export function deleteClass(classId: string): Promise<c.TDeleteClassResponse> {
+  return request.delete(endpoints.classes(classId));
+}
+
+export function joinClass(payload: c.TJoinClassRequest): Promise<c.TClass> {
+  return request.post(endpoints.joinClass(), payload);
+}
+
+export function regenerateClassJoinCode(classId: string): Promise<c.TClass> {
+  return request.post(endpoints.classJoinCode(classId));
+}
+
+export function addClassTeacher({ classId, email }: c.TAddClassTeacherVariables): Promise<c.TClass> {
+  return request.post(endpoints.classTeachers(classId), { email });
+}
+
+export function removeClassMember({
+  classId,
+  userId,
+}: c.TRemoveClassMemberVariables): Promise<c.TClass> {
+  return request.delete(endpoints.classMember(classId, userId));
+}
+
+export function updateClassShares({ classId, data }: c.TUpdateClassSharesVariables): Promise<c.TClass> {
+  return request.patch(endpoints.classShares(classId), data);
+}
+
+export function shareClassMaterial({
+  classId,
+  conversationId,
+}: c.TShareClassMaterialVariables): Promise<c.TClass> {
+  return request.post(endpoints.classMaterials(classId), { conversationId });
+}
+
+export function removeClassMaterial({
+  classId,
+  materialId,
+}: c.TRemoveClassMaterialVariables): Promise<c.TClass> {
+  return request.delete(endpoints.classMaterials(classId, materialId));
+}
+
+/* Assignments */
+export function getAssignments(
+  params: as.TAssignmentListParams = {},
+): Promise<as.TAssignmentListResponse> {
+  return request.get(endpoints.assignments(params));
+}
+
+export function getAssignment(assignmentId: string): Promise<as.TAssignment> {
+  return request.get(endpoints.assignment(assignmentId));
+}
+
+export function createAssignment(payload: as.TCreateAssignmentRequest): Promise<as.TAssignment> {
+  return request.post(endpoints.assignments(), payload);
+}
+
+export function updateAssignment({
+  assignmentId,
+  data,
+}: as.TUpdateAssignmentVariables): Promise<as.TAssignment> {
+  return request.patch(endpoints.assignment(assignmentId), data);
+}
+
+export function deleteAssignment(assignmentId: string): Promise<as.TDeleteAssignmentResponse> {
+  return request.delete(endpoints.assignment(assignmentId));
+}
+
+export function submitAssignment({
+  assignmentId,
+  responses,
+}: as.TSubmitAssignmentVariables): Promise<as.TAssignment> {
+  return request.post(endpoints.assignmentSubmissions(assignmentId), { responses });
+}
+
+export function getAssignmentResults(assignmentId: string): Promise<as.TAssignmentResultsResponse> {
+  return request.get(endpoints.assignmentResults(assignmentId));
+}
+
+export function gradeAssignmentSubmission({
+  assignmentId,
+  submissionId,
+  grades,
+}: as.TGradeSubmissionVariables): Promise<as.TAssignmentSubmission> {
+  return request.patch(endpoints.assignmentSubmissions(assignmentId, submissionId), { grades });
+}
+
+export function agentGradeAssignmentSubmission({
+  assignmentId,
+  submissionId,
+}: as.TSubmissionVariables): Promise<as.TAssignmentSubmission> {
+  return request.post(endpoints.assignmentAgentGrade(assignmentId, submissionId));
+}
+
+/* Tutor mode */
+export function getTutorAudit(params: tu.TTutorAuditParams): Promise<tu.TTutorAuditResponse> {
+  return request.get(endpoints.tutorAudit(params));
+}
+
+/* MCP */
+export function getMCPResources(): Promise<mcp.TMCPResource[]> {
+  return request.get(endpoints.mcpResources());
+}
+
+export function readMCPResource(
+  payload: mcp.TReadMCPResourceRequest,
+): Promise<mcp.TMCPResourceContents> {
+  return request.post(endpoints.mcpReadResource(), payload);
+}
+
+export function getMCPPrompts(): Promise<mcp.TMCPPrompt[]> {
+  return request.get(endpoints.mcpPrompts());
+}
+
+export function getMCPPrompt(payload: mcp.TGetMCPPromptRequest): Promise<mcp.TGetMCPPromptResponse> {
+  return request.post(endpoints.mcpGetPrompt(), payload);
+}
+
+export function getMCPServerStatuses(): Promise<mcp.TMCPServerStatus[]> {
+  return request.get(endpoints.mcpServers());
+}
+
+export function reconnectMCPServer(serverName: string): Promise<mcp.TMCPServerStatus> {
+  return request.post(endpoints.mcpServerAction(serverName, 'reconnect'));
+}
+
+export function disconnectMCPServer(serverName: string): Promise<mcp.TMCPServerStatus> {
+  return request.post(endpoints.mcpServerAction(serverName, 'disconnect'));
+}
+
+export function reloadMCPServers(): Promise<mcp.TMCPReloadResponse> {
+  return request.post(endpoints.mcpReload());
+}
+
+export function respondToMCPToolApproval({
+  approvalId,
+  approved,
+}: mcp.TMCPToolApprovalRequest): Promise<mcp.TMCPToolApprovalResponse> {
+  return request.post(endpoints.mcpToolApproval(approvalId), { approved });
+}
@@ -5,6 +5,15 @@ export * from './config';
 export * from './file-config';
 /* artifacts  */
 export * from './artifacts';
+/* quizzes */
+export * from './quiz';
+/* rubrics */
+export * from './rubric';
+export * from './assignments';
+/* tutor mode */
+export * from './tutor';
+/* curriculum standards */
+export * from './standards';
 /* schema helpers  */
 export * from './parsers';
 export * from './zod';
@@ -19,10 +28,14 @@ export * from './roles';
 export * from './types';
 export * from './types/agents';
 export * from './types/assistants';
+export * from './types/assignments';
+export * from './types/classes';
 export * from './types/files';
 export * from './types/mutations';
 export * from './types/queries';
 export * from './types/runs';
+export * from './types/tutor';
+export * from './types/mcp';
 /* query/mutation keys */
 export * from './keys';
 /* api call helpers */
@@ -32,4 +45,5 @@ export { dataService };
 import * as dataService from './data-service';
 /* general helpers */
 export * from './actions';
+export * from './swagger';
 export { default as createPayload } from './createPayload';
@@ -0,0 +1,151 @@
+/**
+ * A segment of a JSONPath expression: a property name, an array index,
+ * or `null` for the `*` wildcard.
+ */
+export type JSONPathSegment = string | number | null;
+
+const segmentPattern = /^(?:\.([A-Za-z_$][\w$-]*)|\.\*|\[\*\]|\[(\d+)\]|\[(['"])(.*?)\3\])/;
+
+/**
+ * Parses the subset of JSONPath used to select response fields:
+ * `$.name`, `$['name']`, `$.list[0]`, and the wildcards `$.list[*]` and `$.*`.
+ * Returns `null` for expressions outside this subset.
+ */
+export function parseJSONPath(path: string): JSONPathSegment[] | null {
+  const expression = path.trim();
+  if (!expression.startsWith('$')) {
+    return null;
+  }
+
+  const segments: JSONPathSegment[] = [];
+  let rest = expression.slice(1);
+  while (rest.length > 0) {
+    const match = segmentPattern.exec(rest);
+    if (!match) {
+      return null;
+    }
+    const [token, name, index, , quotedName] = match;
+    if (name != null) {
+      segments.push(name);
+    } else if (index != null) {
+      segments.push(Number(index));
+    } else if (quotedName != null) {
+      segments.push(quotedName);
+    } else {
+      segments.push(null);
+    }
+    rest = rest.slice(token.length);
+  }
+  return segments;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Whether the object has the key itself, so that paths never select inherited members */
+export function hasOwnKey(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+/** Sets a key as an own property, as assigning `__proto__` would replace the prototype instead */
+function setKey(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Projects a value onto a path, keeping the structure leading to the selected fields.
+ * Arrays keep the positions of their items, so projections of several paths can be merged.
+ */
+function project(value: unknown, segments: JSONPathSegment[]): unknown {
+  if (segments.length === 0) {
+    return value;
+  }
+  const [segment, ...rest] = segments;
+
+  if (segment === null) {
+    if (Array.isArray(value)) {
+      return value.map((item) => project(item, rest));
+    }
+    if (isObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const projected = project(item, rest);
+        if (projected !== undefined) {
+          setKey(result, key, projected);
+        }
+      }
+      return result;
+    }
+    return undefined;
+  }
+
+  if (typeof segment === 'number') {
+    if (!Array.isArray(value) || segment >= value.length) {
+      return undefined;
+    }
+    const projected = project(value[segment], rest);
+    if (projected === undefined) {
+      return undefined;
+    }
+    const result: unknown[] = [];
+    result[segment] = projected;
+    return result;
+  }
+
+  if (!isObject(value) || !hasOwnKey(value, segment)) {
+    return undefined;
+  }
+  const projected = project(value[segment], rest);
+  return projected === undefined ? undefined : { [segment]: projected };
+}
+
+function merge(target: unknown, source: unknown): unknown {
+  if (target === undefined) {
+    return source;
+  }
+  if (source === undefined) {
+    return target;
+  }
+  if (Array.isArray(target) && Array.isArray(source)) {
+    const length = Math.max(target.length, source.length);
+    return Array.from({ length }, (_, index) => merge(target[index], source[index]));
+  }
+  if (isObject(target) && isObject(source)) {
+    const result: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      setKey(result, key, merge(hasOwnKey(result, key) ? result[key] : undefined, value));
+    }
+    return result;
+  }
+  return source;
+}
+
+/** Removes the positions of the array items no path selected */
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.filter((item) => item !== undefined).map(compact);
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, compact(item)]));
+  }
+  return value;
+}
+
+/**
+ * Selects the fields matching the parsed JSONPath expressions,
+ * e.g. `$.results[*].id` and `$.results[*].name` keep `{ results: [{ id, name }] }`.
+ * Returns `undefined` when no field matches.
+ */
+export function selectJSONPaths(value: unknown, paths: JSONPathSegment[][]): unknown {
+  let selected: unknown;
+  for (const segments of paths) {
+    selected = merge(selected, project(value, segments));
+  }
+  return compact(selected);
+}
@@ -46,6 +46,16 @@ export enum QueryKeys {
   health = 'health',
   userTerms = 'userTerms',
   banner = 'banner',
+  standards = 'standards',
+  classes = 'classes',
+  class = 'class',
+  assignments = 'assignments',
+  assignment = 'assignment',
+  assignmentResults = 'assignmentResults',
+  tutorAudit = 'tutorAudit',
+  mcpResources = 'mcpResources',
+  mcpPrompts = 'mcpPrompts',
+  mcpServerStatuses = 'mcpServerStatuses',
 }
 
 export enum MutationKeys {
@@ -1,7 +1,71 @@
 import { z } from 'zod';
 
+export const MCPUserVarSchema = z.object({
+  /** Label shown to users in the tool authentication form */
+  title: z.string(),
+  description: z.string().optional(),
+});
+
+export const MCPOAuthSchema = z.object({
+  /** Authorization endpoint; discovered from the server's OAuth metadata when omitted */
+  authorization_url: z.string().url().optional(),
+  /** Token endpoint; discovered from the server's OAuth metadata when omitted */
+  token_url: z.string().url().optional(),
+  /** Pre-registered client ID; the client is registered dynamically when omitted */
+  client_id: z.string().optional(),
+  client_secret: z.string().optional(),
+  /** Space-separated scopes to request */
+  scope: z.string().optional(),
+  /** Overrides the default redirect URI, `{DOMAIN_CLIENT}/api/mcp/{serverName}/oauth/callback` */
+  redirect_uri: z.string().url().optional(),
+});
+
+export const MCPRootSchema = z.object({
+  /** Must be a `file://` URI */
+  uri: z.string().startsWith('file://'),
+  name: z.string().optional(),
+});
+
 const BaseOptionsSchema = z.object({
   iconPath: z.string().optional(),
+  /** Timeout in milliseconds for requests to the server, such as tool calls */
+  timeout: z.number().int().positive().optional(),
+  /** Timeout in milliseconds for establishing and initializing the connection to the server */
+  initTimeout: z.number().int().positive().optional(),
+  /**
+   * Values each user provides for themselves, referenced as `{{VAR_NAME}}` in `env`, `args`, `url` or `headers`.
+   * Servers declaring them get one connection per user instead of a shared one.
+   * Their tools are listed at startup by starting the server once with these placeholders left empty,
+   * so the server must start and list its tools without user values.
+   */
+  customUserVars: z.record(z.string(), MCPUserVarSchema).optional(),
+  /**
+   * Whether users sign in to the server with OAuth 2.1; implied when `oauth` is set.
+   * Such servers get one connection per user, authorized with the user's token.
+   */
+  requiresOAuth: z.boolean().optional(),
+  oauth: MCPOAuthSchema.optional(),
+  /** Names of the only tools of the server to expose; all tools are exposed when omitted */
+  includeTools: z.array(z.string()).optional(),
+  /** Names of tools of the server to hide, applied after `includeTools` */
+  excludeTools: z.array(z.string()).optional(),
+  /** Roles of the users who may use the server's tools; all users may when omitted */
+  roles: z.array(z.string()).optional(),
+  /**
+   * Whether users approve the arguments of each tool call in the chat before it is sent to the server:
+   * `true` for every tool of the server, or the names of the tools requiring it.
+   */
+  requiresApproval: z.union([z.boolean(), z.array(z.string())]).optional(),
+  /**
+   * Whether the server may request completions from the model of the conversation while its tools run.
+   * Users confirm each request, and its tokens are spent from their balance.
+   */
+  sampling: z.boolean().optional(),
+  /**
+   * Locations the server is told it may operate in, such as project directories.
+   * URIs may reference the user's ID as `{{LIBRECHAT_USER_ID}}`.
+   */
+  roots: z.array(MCPRootSchema).optional(),
 });
 
 export const StdioOptionsSchema = BaseOptionsSchema.extend({
@@ -60,12 +124,46 @@ export const SSEOptionsSchema = BaseOptionsSchema.extend({
         message: 'SSE URL must not start with ws:// or wss://',
       },
     ),
+  /**
+   * Headers sent with every request to the server.
+   * Values may reference environment variables as `${ENV_VAR}` and the user's ID as `{{LIBRECHAT_USER_ID}}`.
+   */
+  headers: z.record(z.string(), z.string()).optional(),
+});
+
+export const StreamableHTTPOptionsSchema = BaseOptionsSchema.extend({
+  type: z.literal('streamable-http'),
+  url: z
+    .string()
+    .url()
+    .refine(
+      (val) => {
+        const protocol = new URL(val).protocol;
+        return protocol === 'http:' || protocol === 'https:';
+      },
+      {
+        message: 'Streamable HTTP URL must start with http:// or https://',
+      },
+    ),
+  /**
+   * Headers sent with every request to the server.
+   * Values may reference environment variables as `${ENV_VAR}` and the user's ID as `{{LIBRECHAT_USER_ID}}`.
+   */
+  headers: z.record(z.string(), z.string()).optional(),
 });
 
 export const MCPOptionsSchema = z.union([
   StdioOptionsSchema,
   WebSocketOptionsSchema,
   SSEOptionsSchema,
+  StreamableHTTPOptionsSchema,
 ]);
 
 export const MCPServersSchema = z.record(z.string(), MCPOptionsSchema);
+
+export const MCPSettingsSchema = z.object({
+  /** Time in milliseconds after which an unused per-user connection is closed */
+  userConnectionIdleTimeout: z.number().int().positive().optional(),
+  /** Maximum number of per-user stdio processes running at once, across all users */
+  maxUserStdioConnections: z.number().int().positive().optional(),
+});
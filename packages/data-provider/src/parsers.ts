@@ -19,7 +19,7 @@ import {
   compactAssistantSchema,
 } from './schemas';
 import { bedrockInputSchema } from './bedrock';
-import { alternateName } from './config';
+import { alternateName, Constants } from './config';
 
 type EndpointSchema =
   | typeof openAISchema
@@ -134,13 +134,23 @@ export function extractEnvVariable(value: string) {
   return value;
 }
 
-/** Resolves header values to env variables if detected */
-export function resolveHeaders(headers: Record<string, string> | undefined) {
+/**
+ * Resolves header values to env variables if detected,
+ * and replaces the `{{LIBRECHAT_USER_ID}}` placeholder when a user is provided
+ */
+export function resolveHeaders(
+  headers: Record<string, string> | undefined,
+  user?: { id?: string },
+) {
   const resolvedHeaders = { ...(headers ?? {}) };
 
   if (headers && typeof headers === 'object' && !Array.isArray(headers)) {
     Object.keys(headers).forEach((key) => {
-      resolvedHeaders[key] = extractEnvVariable(headers[key]);
+      let value = extractEnvVariable(headers[key]);
+      if (user?.id != null) {
+        value = value.replaceAll(Constants.LIBRECHAT_USER_ID, user.id);
+      }
+      resolvedHeaders[key] = value;
     });
   }
 
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+
+/** Fenced code block language used for structured quiz output */
+export const QUIZ_BLOCK_LANGUAGE = 'quiz';
+
+export enum QuizQuestionTypes {
+  MULTIPLE_CHOICE = 'multiple_choice',
+  TRUE_FALSE = 'true_false',
+  SHORT_ANSWER = 'short_answer',
+  MATCHING = 'matching',
+}
+
+const quizQuestionBaseSchema = z.object({
+  question: z.string().min(1),
+  explanation: z.string().optional(),
+  points: z.number().nonnegative().optional(),
+});
+
+export const multipleChoiceQuestionSchema = quizQuestionBaseSchema.extend({
+  type: z.literal(QuizQuestionTypes.MULTIPLE_CHOICE),
+  options: z.array(z.string()).min(2),
+  /** Index of the correct option */
+  answer: z.number().int().nonnegative(),
+});
+
+export const trueFalseQuestionSchema = quizQuestionBaseSchema.extend({
+  type: z.literal(QuizQuestionTypes.TRUE_FALSE),
+  answer: z.boolean(),
+});
+
+export const shortAnswerQuestionSchema = quizQuestionBaseSchema.extend({
+  type: z.literal(QuizQuestionTypes.SHORT_ANSWER),
+  answer: z.string(),
+  acceptableAnswers: z.array(z.string()).optional(),
+});
+
+export const matchingQuestionSchema = quizQuestionBaseSchema.extend({
+  type: z.literal(QuizQuestionTypes.MATCHING),
+  /** Each pair is a correct match; the right-hand column is shuffled for display */
+  pairs: z
+    .array(
+      z.object({
+        left: z.string(),
+        right: z.string(),
+      }),
+    )
+    .min(2),
+});
+
+export const tQuizQuestionSchema = z.discriminatedUnion('type', [
+  multipleChoiceQuestionSchema,
+  trueFalseQuestionSchema,
+  shortAnswerQuestionSchema,
+  matchingQuestionSchema,
+]);
+
+export type TQuizQuestion = z.infer<typeof tQuizQuestionSchema>;
+export type TMultipleChoiceQuestion = z.infer<typeof multipleChoiceQuestionSchema>;
+export type TTrueFalseQuestion = z.infer<typeof trueFalseQuestionSchema>;
+export type TShortAnswerQuestion = z.infer<typeof shortAnswerQuestionSchema>;
+export type TMatchingQuestion = z.infer<typeof matchingQuestionSchema>;
+
+export const tQuizSchema = z
+  .object({
+    title: z.string(),
+    subject: z.string().optional(),
+    gradeLevel: z.string().optional(),
+    instructions: z.string().optional(),
+    questions: z.array(tQuizQuestionSchema).min(1),
+  })
+  .superRefine((quiz, ctx) => {
+    quiz.questions.forEach((question, index) => {
+      if (
+        question.type === QuizQuestionTypes.MULTIPLE_CHOICE &&
+        question.answer >= question.options.length
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['questions', index, 'answer'],
+          message: 'Answer must be the index of one of the options.',
+        });
+      }
+    });
+  });
+
+export type TQuiz = z.infer<typeof tQuizSchema>;
+
+/**
+ * Parses and validates serialized quiz JSON.
+ * @returns The quiz, or `null` if the text is not a valid quiz.
+ */
+export function parseQuiz(text: string): TQuiz | null {
+  try {
+    const result = tQuizSchema.safeParse(JSON.parse(text.trim()));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+const quizBlockRegex = new RegExp('```' + QUIZ_BLOCK_LANGUAGE + '[^\\S\\n]*\\n([\\s\\S]*?)\\n```');
+
+/** Finds the first fenced quiz block in message text and parses it */
+export function extractQuiz(text: string): TQuiz | null {
+  const match = quizBlockRegex.exec(text);
+  return match ? parseQuiz(match[1]) : null;
+}
+
+/** Serializes a quiz as a fenced quiz block */
+export function formatQuizBlock(quiz: TQuiz): string {
+  return '```' + QUIZ_BLOCK_LANGUAGE + '\n' + JSON.stringify(quiz, null, 2) + '\n```';
+}
+
+/** Replaces the first fenced quiz block in message text, appending one if none exists */
+export function replaceQuizBlock(text: string, quiz: TQuiz): string {
+  const block = formatQuizBlock(quiz);
+  if (!quizBlockRegex.test(text)) {
+    return text.length ? `${text}\n\n${block}` : block;
+  }
+  return text.replace(quizBlockRegex, () => block);
+}
+
+/** Output instructions appended to prompts that request a structured quiz */
+export const quizFormatInstructions = `Respond with the quiz as JSON inside a single fenced code block whose language is \`${QUIZ_BLOCK_LANGUAGE}\`, with no other text before or after it.
+The JSON must match this shape:
+{
+  "title": string,
+  "subject"?: string,
+  "gradeLevel"?: string,
+  "instructions"?: string,
+  "questions": Question[]
+}
+Each Question is one of:
+- { "type": "${QuizQuestionTypes.MULTIPLE_CHOICE}", "question": string, "options": string[], "answer": number (0-based index of the correct option), "explanation": string }
+- { "type": "${QuizQuestionTypes.TRUE_FALSE}", "question": string, "answer": boolean, "explanation": string }
+- { "type": "${QuizQuestionTypes.SHORT_ANSWER}", "question": string, "answer": string, "acceptableAnswers"?: string[], "explanation": string }
+- { "type": "${QuizQuestionTypes.MATCHING}", "question": string, "pairs": { "left": string, "right": string }[], "explanation": string }`;
+
+/** Builds the follow-up prompt that asks the model to replace a single question */
+export function buildQuizQuestionRegenerationPrompt(quiz: TQuiz, index: number): string {
+  const question = quiz.questions[index];
+  return `Replace question ${index + 1} ("${question.question}") of the quiz below with a new, different question of the same type ("${question.type}") and similar difficulty. Keep every other question unchanged.
+
+${formatQuizBlock(quiz)}
+
+${quizFormatInstructions}`;
+}
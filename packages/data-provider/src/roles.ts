@@ -12,6 +12,14 @@ export enum SystemRoles {
    * The default user role
    */
   USER = 'USER',
+  /**
+   * The classroom teacher role
+   */
+  TEACHER = 'TEACHER',
+  /**
+   * The classroom student role
+   */
+  STUDENT = 'STUDENT',
 }
 
 /**
@@ -34,6 +42,10 @@ export enum PermissionTypes {
    * Type for Multi-Conversation Permissions
    */
   MULTI_CONVO = 'MULTI_CONVO',
+  /**
+   * Type for Teacher Tools Permissions
+   */
+  TEACHER_TOOLS = 'TEACHER_TOOLS',
 }
 
 /**
@@ -71,12 +83,19 @@ export const multiConvoPermissionsSchema = z.object({
   [Permissions.USE]: z.boolean().default(false),
 });
 
+export const teacherToolsPermissionsSchema = z.object({
+  [Permissions.USE]: z.boolean().default(true),
+  /** Per-tool USE overrides keyed by tool id; tools not listed follow `USE` */
+  TOOLS: z.record(z.boolean()).default({}),
+});
+
 export const roleSchema = z.object({
   name: z.string(),
   [PermissionTypes.PROMPTS]: promptPermissionsSchema,
   [PermissionTypes.BOOKMARKS]: bookmarkPermissionsSchema,
   [PermissionTypes.AGENTS]: agentPermissionsSchema,
   [PermissionTypes.MULTI_CONVO]: multiConvoPermissionsSchema,
+  [PermissionTypes.TEACHER_TOOLS]: teacherToolsPermissionsSchema,
 });
 
 export type TRole = z.infer<typeof roleSchema>;
@@ -84,6 +103,18 @@ export type TAgentPermissions = z.infer<typeof agentPermissionsSchema>;
 export type TPromptPermissions = z.infer<typeof promptPermissionsSchema>;
 export type TBookmarkPermissions = z.infer<typeof bookmarkPermissionsSchema>;
 export type TMultiConvoPermissions = z.infer<typeof multiConvoPermissionsSchema>;
+export type TTeacherToolsPermissions = z.infer<typeof teacherToolsPermissionsSchema>;
+
+/**
+ * Checks whether a role may use a specific Teacher Tool:
+ * the role needs Teacher Tools `USE`, and the tool must not be disabled for it.
+ */
+export function hasTeacherToolAccess(
+  permissions: Partial<TTeacherToolsPermissions> | undefined,
+  toolId: string,
+): boolean {
+  return permissions?.[Permissions.USE] === true && permissions.TOOLS?.[toolId] !== false;
+}
 
 const defaultRolesSchema = z.object({
   [SystemRoles.ADMIN]: roleSchema.extend({
@@ -106,6 +137,7 @@ const defaultRolesSchema = z.object({
     [PermissionTypes.MULTI_CONVO]: multiConvoPermissionsSchema.extend({
       [Permissions.USE]: z.boolean().default(true),
     }),
+    [PermissionTypes.TEACHER_TOOLS]: teacherToolsPermissionsSchema,
   }),
   [SystemRoles.USER]: roleSchema.extend({
     name: z.literal(SystemRoles.USER),
@@ -113,6 +145,33 @@ const defaultRolesSchema = z.object({
     [PermissionTypes.BOOKMARKS]: bookmarkPermissionsSchema,
     [PermissionTypes.AGENTS]: agentPermissionsSchema,
     [PermissionTypes.MULTI_CONVO]: multiConvoPermissionsSchema,
+    [PermissionTypes.TEACHER_TOOLS]: teacherToolsPermissionsSchema,
+  }),
+  [SystemRoles.TEACHER]: roleSchema.extend({
+    name: z.literal(SystemRoles.TEACHER),
+    [PermissionTypes.PROMPTS]: promptPermissionsSchema,
+    [PermissionTypes.BOOKMARKS]: bookmarkPermissionsSchema,
+    [PermissionTypes.AGENTS]: agentPermissionsSchema,
+    [PermissionTypes.MULTI_CONVO]: multiConvoPermissionsSchema,
+    [PermissionTypes.TEACHER_TOOLS]: teacherToolsPermissionsSchema,
+  }),
+  [SystemRoles.STUDENT]: roleSchema.extend({
+    name: z.literal(SystemRoles.STUDENT),
+    [PermissionTypes.PROMPTS]: promptPermissionsSchema.extend({
+      [Permissions.SHARED_GLOBAL]: z.boolean().default(false),
+      [Permissions.USE]: z.boolean().default(true),
+      [Permissions.CREATE]: z.boolean().default(false),
+    }),
+    [PermissionTypes.BOOKMARKS]: bookmarkPermissionsSchema,
+    [PermissionTypes.AGENTS]: agentPermissionsSchema.extend({
+      [Permissions.SHARED_GLOBAL]: z.boolean().default(false),
+      [Permissions.USE]: z.boolean().default(true),
+      [Permissions.CREATE]: z.boolean().default(false),
+    }),
+    [PermissionTypes.MULTI_CONVO]: multiConvoPermissionsSchema,
+    [PermissionTypes.TEACHER_TOOLS]: teacherToolsPermissionsSchema.extend({
+      [Permissions.USE]: z.boolean().default(false),
+    }),
   }),
 });
 
@@ -123,6 +182,7 @@ export const roleDefaults = defaultRolesSchema.parse({
     [PermissionTypes.BOOKMARKS]: {},
     [PermissionTypes.AGENTS]: {},
     [PermissionTypes.MULTI_CONVO]: {},
+    [PermissionTypes.TEACHER_TOOLS]: {},
   },
   [SystemRoles.USER]: {
     name: SystemRoles.USER,
@@ -130,5 +190,22 @@ export const roleDefaults = defaultRolesSchema.parse({
     [PermissionTypes.BOOKMARKS]: {},
     [PermissionTypes.AGENTS]: {},
     [PermissionTypes.MULTI_CONVO]: {},
+    [PermissionTypes.TEACHER_TOOLS]: {},
+  },
+  [SystemRoles.TEACHER]: {
+    name: SystemRoles.TEACHER,
+    [PermissionTypes.PROMPTS]: {},
+    [PermissionTypes.BOOKMARKS]: {},
+    [PermissionTypes.AGENTS]: {},
+    [PermissionTypes.MULTI_CONVO]: {},
+    [PermissionTypes.TEACHER_TOOLS]: {},
+  },
+  [SystemRoles.STUDENT]: {
+    name: SystemRoles.STUDENT,
+    [PermissionTypes.PROMPTS]: {},
+    [PermissionTypes.BOOKMARKS]: {},
+    [PermissionTypes.AGENTS]: {},
+    [PermissionTypes.MULTI_CONVO]: {},
+    [PermissionTypes.TEACHER_TOOLS]: {},
   },
 });
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+
+/** Fenced code block language used for structured rubric output */
+export const RUBRIC_BLOCK_LANGUAGE = 'rubric';
+
+/** Fenced code block language used for rubric-based feedback on student work */
+export const RUBRIC_FEEDBACK_BLOCK_LANGUAGE = 'rubric_feedback';
+
+export const rubricLevelSchema = z.object({
+  label: z.string().min(1),
+  points: z.number().nonnegative(),
+});
+
+export const rubricCriterionSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  /** What performance at each level looks like, in the order of the rubric's levels */
+  descriptors: z.array(z.string()),
+});
+
+export type TRubricLevel = z.infer<typeof rubricLevelSchema>;
+export type TRubricCriterion = z.infer<typeof rubricCriterionSchema>;
+
+export const tRubricSchema = z
+  .object({
+    title: z.string(),
+    subject: z.string().optional(),
+    gradeLevel: z.string().optional(),
+    /** Performance levels, from highest to lowest */
+    levels: z.array(rubricLevelSchema).min(2),
+    criteria: z.array(rubricCriterionSchema).min(1),
+  })
+  .superRefine((rubric, ctx) => {
+    rubric.criteria.forEach((criterion, index) => {
+      if (criterion.descriptors.length !== rubric.levels.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['criteria', index, 'descriptors'],
+          message: 'Each criterion needs one descriptor per performance level.',
+        });
+      }
+    });
+  });
+
+export type TRubric = z.infer<typeof tRubricSchema>;
+
+export const rubricScoreSchema = z.object({
+  criterion: z.string(),
+  /** Label of the performance level the work reached */
+  level: z.string(),
+  points: z.number().nonnegative(),
+  maxPoints: z.number().nonnegative(),
+  feedback: z.string(),
+});
+
+export type TRubricScore = z.infer<typeof rubricScoreSchema>;
+
+export const tRubricFeedbackSchema = z.object({
+  /** Title of the rubric the work was scored against */
+  title: z.string(),
+  student: z.string().optional(),
+  scores: z.array(rubricScoreSchema).min(1),
+  /** Overall written feedback */
+  summary: z.string().optional(),
+});
+
+export type TRubricFeedback = z.infer<typeof tRubricFeedbackSchema>;
+
+/** Points of the highest performance level, earned per criterion */
+export const getRubricCriterionMaxPoints = (rubric: TRubric): number =>
+  Math.max(...rubric.levels.map((level) => level.points));
+
+/** Total points of a rubric */
+export const getRubricMaxPoints = (rubric: TRubric): number =>
+  getRubricCriterionMaxPoints(rubric) * rubric.criteria.length;
+
+/** Sums the points of rubric feedback */
+export function getRubricFeedbackTotals(feedback: TRubricFeedback): {
+  points: number;
+  maxPoints: number;
+} {
+  return feedback.scores.reduce(
+    (totals, score) => ({
+      points: totals.points + score.points,
+      maxPoints: totals.maxPoints + score.maxPoints,
+    }),
+    { points: 0, maxPoints: 0 },
+  );
+}
+
+const parseJson = <T>(schema: z.ZodType<T>, text: string): T | null => {
+  try {
+    const result = schema.safeParse(JSON.parse(text.trim()));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses and validates serialized rubric JSON.
+ * @returns The rubric, or `null` if the text is not a valid rubric.
+ */
+export const parseRubric = (text: string): TRubric | null => parseJson(tRubricSchema, text);
+
+/**
+ * Parses and validates serialized rubric feedback JSON.
+ * @returns The feedback, or `null` if the text is not valid rubric feedback.
+ */
+export const parseRubricFeedback = (text: string): TRubricFeedback | null =>
+  parseJson(tRubricFeedbackSchema, text);
+
+const rubricBlockRegex = new RegExp(
+  '```' + RUBRIC_BLOCK_LANGUAGE + '[^\\S\\n]*\\n([\\s\\S]*?)\\n```',
+);
+
+/** Finds the first fenced rubric block in message text and parses it */
+export function extractRubric(text: string): TRubric | null {
+  const match = rubricBlockRegex.exec(text);
+  return match ? parseRubric(match[1]) : null;
+}
+
+/** Serializes a rubric as a fenced rubric block */
+export function formatRubricBlock(rubric: TRubric): string {
+  return '```' + RUBRIC_BLOCK_LANGUAGE + '\n' + JSON.stringify(rubric, null, 2) + '\n```';
+}
+
+/** Replaces the first fenced rubric block in message text, appending one if none exists */
+export function replaceRubricBlock(text: string, rubric: TRubric): string {
+  const block = formatRubricBlock(rubric);
+  if (!rubricBlockRegex.test(text)) {
+    return text.length ? `${text}\n\n${block}` : block;
+  }
+  return text.replace(rubricBlockRegex, () => block);
+}
+
+/** Output instructions appended to prompts that request a structured rubric */
+export const rubricFormatInstructions = `Respond with the rubric as JSON inside a single fenced code block whose language is \`${RUBRIC_BLOCK_LANGUAGE}\`, with no other text before or after it.
+The JSON must match this shape:
+{
+  "title": string,
+  "subject"?: string,
+  "gradeLevel"?: string,
+  "levels": { "label": string, "points": number }[] (performance levels, from highest to lowest),
+  "criteria": { "name": string, "description"?: string, "descriptors": string[] }[]
+}
+Each criterion's "descriptors" describe the work at each level, with exactly one descriptor per level, in the order of "levels".`;
+
+/**
+ * Builds the prompt that asks the model to score student work against a rubric.
+ * The work is either pasted text, files attached to the message, or both.
+ */
+export function buildRubricFeedbackPrompt(
+  rubric: TRubric,
+  { work, student }: { work?: string; student?: string } = {},
+): string {
+  const maxPoints = getRubricCriterionMaxPoints(rubric);
+  const source = work?.trim()
+    ? `The student's work, together with any attached file(s):\n"""\n${work.trim()}\n"""`
+    : 'The work to score is in the attached file(s).';
+
+  return `Score the student work${student?.trim() ? ` by ${student.trim()}` : ''} against the rubric below. For each criterion, choose the performance level the work reaches, award that level's points and write specific, constructive feedback that quotes or references the work. Then write a short overall summary with the main strengths and next steps.
+
+${formatRubricBlock(rubric)}
+
+${source}
+
+Respond with the feedback as JSON inside a single fenced code block whose language is \`${RUBRIC_FEEDBACK_BLOCK_LANGUAGE}\`, with no other text before or after it.
+The JSON must match this shape:
+{
+  "title": ${JSON.stringify(rubric.title)},
+  "student"?: string,
+  "scores": { "criterion": string, "level": string, "points": number, "maxPoints": ${maxPoints}, "feedback": string }[] (one per criterion, in rubric order),
+  "summary": string
+}`;
+}
@@ -485,11 +485,24 @@ export const tMessageSchema = z.object({
 });
 
 export type TAttachmentMetadata = { messageId: string; toolCallId: string };
+/** The raw response of an action call, saved when the response returned to the model was trimmed */
+export type TActionResponseAttachment = TAttachmentMetadata & {
+  type: 'action_response';
+  conversationId?: string;
+  raw_response: string;
+};
 export type TAttachment =
   | (TFile & TAttachmentMetadata)
   | (Pick<TFile, 'filename' | 'filepath' | 'conversationId'> & {
       expiresAt: number;
-    } & TAttachmentMetadata);
+    } & TAttachmentMetadata)
+  | TActionResponseAttachment;
+
+export function isActionResponseAttachment(
+  attachment?: TAttachment | null,
+): attachment is TActionResponseAttachment {
+  return (attachment as Partial<TActionResponseAttachment> | undefined)?.type === 'action_response';
+}
 
 export type TMessage = z.input<typeof tMessageSchema> & {
   children?: TMessage[];
@@ -562,6 +575,8 @@ export const tConversationSchema = z.object({
   examples: z.array(tExampleSchema).optional(),
   /* DB */
   tags: z.array(z.string()).optional(),
+  /* Teacher Tools: curriculum standard codes */
+  standards: z.array(z.string()).optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
   /* Files */
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+/** A single entry of the curriculum standards catalog, e.g. a Common Core or NGSS standard */
+export const tStandardSchema = z.object({
+  /** Unique identifier, e.g. `CCSS.MATH.CONTENT.7.RP.A.1` or `MS-LS1-6` */
+  code: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  /** Standards framework, e.g. `Common Core` or `NGSS` */
+  framework: z.string().trim().optional(),
+  subject: z.string().trim().optional(),
+  grade: z.string().trim().optional(),
+});
+
+export type TStandard = z.infer<typeof tStandardSchema>;
+
+export type TStandardsQueryParams = {
+  search?: string;
+  framework?: string;
+  subject?: string;
+  grade?: string;
+  limit?: number;
+};
+
+export type TStandardsResponse = {
+  standards: TStandard[];
+  /** Total number of matches before `limit` was applied */
+  total: number;
+};
+
+/** Formats selected standards as prompt lines, e.g. `- MS-LS1-6: Construct a scientific explanation...` */
+export function formatStandardsForPrompt(standards: TStandard[]): string {
+  return standards.map(({ code, description }) => `- ${code}: ${description}`).join('\n');
+}
@@ -0,0 +1,336 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+
+export type ConversionResult = {
+  spec: OpenAPIV3.Document;
+  warnings: string[];
+};
+
+type SwaggerParameter = OpenAPIV2.Parameter & {
+  type?: string;
+  format?: string;
+  items?: OpenAPIV2.ItemsObject;
+  collectionFormat?: string;
+  schema?: OpenAPIV2.SchemaObject | OpenAPIV2.ReferenceObject;
+};
+
+const httpMethods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+const refPrefixes: Record<string, string> = {
+  '#/definitions/': '#/components/schemas/',
+  '#/parameters/': '#/components/parameters/',
+  '#/responses/': '#/components/responses/',
+};
+
+/** Fields of Swagger 2.0 non-body parameters that belong to their schema in OpenAPI 3 */
+const schemaFields = [
+  'type',
+  'format',
+  'items',
+  'enum',
+  'default',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'multipleOf',
+] as const;
+
+export function isSwagger2(spec: unknown): spec is OpenAPIV2.Document {
+  return (
+    typeof spec === 'object' &&
+    spec !== null &&
+    String((spec as { swagger?: unknown }).swagger).startsWith('2')
+  );
+}
+
+/** Rewrites the `$ref`s of a Swagger 2.0 value to their OpenAPI 3 components */
+function convertRefs<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(convertRefs) as T;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const converted: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (key === '$ref' && typeof item === 'string') {
+      const prefix = Object.keys(refPrefixes).find((refPrefix) => item.startsWith(refPrefix));
+      converted[key] = prefix != null ? item.replace(prefix, refPrefixes[prefix]) : item;
+    } else {
+      converted[key] = convertRefs(item);
+    }
+  }
+  return converted as T;
+}
+
+/** Converts the type of a Swagger 2.0 parameter or items object to an OpenAPI 3 schema */
+function toSchema(parameter: SwaggerParameter | OpenAPIV2.ItemsObject): OpenAPIV3.SchemaObject {
+  if (parameter.type === 'file') {
+    return { type: 'string', format: 'binary' };
+  }
+  const schema: Record<string, unknown> = {};
+  for (const field of schemaFields) {
+    if (parameter[field as keyof typeof parameter] !== undefined) {
+      schema[field] = parameter[field as keyof typeof parameter];
+    }
+  }
+  if (parameter.items) {
+    schema.items = toSchema(parameter.items as OpenAPIV2.ItemsObject);
+  }
+  return schema as OpenAPIV3.SchemaObject;
+}
+
+/** Maps the `collectionFormat` of an array parameter to its OpenAPI 3 style */
+function toStyle(
+  parameter: SwaggerParameter,
+  context: string,
+  warnings: string[],
+): Pick<OpenAPIV3.ParameterObject, 'style' | 'explode'> {
+  if (parameter.type !== 'array') {
+    return {};
+  }
+  const isQuery = parameter.in === 'query';
+  switch (parameter.collectionFormat) {
+    case 'multi':
+      return { style: 'form', explode: true };
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false };
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false };
+    case 'tsv':
+      warnings.push(`${context}: tab-separated values are not supported, using commas instead`);
+      return isQuery ? { style: 'form', explode: false } : { style: 'simple', explode: false };
+    default:
+      return isQuery ? { style: 'form', explode: false } : { style: 'simple', explode: false };
+  }
+}
+
+function convertParameter(
+  parameter: SwaggerParameter,
+  context: string,
+  warnings: string[],
+): OpenAPIV3.ParameterObject {
+  return {
+    name: parameter.name,
+    in: parameter.in,
+    description: parameter.description,
+    required: parameter.required,
+    schema: toSchema(parameter),
+    ...toStyle(parameter, context, warnings),
+  };
+}
+
+/** Builds the request body of an operation from its `body` or `formData` parameters */
+function convertRequestBody(
+  parameters: SwaggerParameter[],
+  consumes: string[],
+): OpenAPIV3.RequestBodyObject | undefined {
+  const body = parameters.find((parameter) => parameter.in === 'body');
+  if (body) {
+    const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+    const mediaTypes = consumes.length > 0 ? consumes : ['application/json'];
+    for (const mediaType of mediaTypes) {
+      content[mediaType] = { schema: convertRefs(body.schema) as OpenAPIV3.SchemaObject };
+    }
+    return { description: body.description, required: body.required, content };
+  }
+
+  const fields = parameters.filter((parameter) => parameter.in === 'formData');
+  if (fields.length === 0) {
+    return undefined;
+  }
+  const isMultipart =
+    consumes.includes('multipart/form-data') || fields.some(({ type }) => type === 'file');
+  const schema: OpenAPIV3.SchemaObject = { type: 'object', properties: {} };
+  const required: string[] = [];
+  for (const field of fields) {
+    schema.properties = { ...schema.properties, [field.name]: toSchema(field) };
+    if (field.description) {
+      (schema.properties[field.name] as OpenAPIV3.SchemaObject).description = field.description;
+    }
+    if (field.required === true) {
+      required.push(field.name);
+    }
+  }
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  const mediaType = isMultipart ? 'multipart/form-data' : 'application/x-www-form-urlencoded';
+  return { content: { [mediaType]: { schema } } };
+}
+
+function convertResponses(
+  responses: OpenAPIV2.ResponsesObject | undefined,
+  produces: string[],
+): OpenAPIV3.ResponsesObject {
+  const converted: OpenAPIV3.ResponsesObject = {};
+  for (const [status, response] of Object.entries(responses ?? {})) {
+    if (response == null) {
+      continue;
+    }
+    if ('$ref' in response) {
+      converted[status] = convertRefs(response) as OpenAPIV3.ReferenceObject;
+      continue;
+    }
+    const { schema, description, headers } = response as OpenAPIV2.ResponseObject;
+    const convertedResponse: OpenAPIV3.ResponseObject = { description: description ?? '' };
+    if (headers) {
+      convertedResponse.headers = Object.fromEntries(
+        Object.entries(headers).map(([name, header]) => [
+          name,
+          { description: header.description, schema: toSchema(header) },
+        ]),
+      );
+    }
+    if (schema) {
+      const mediaTypes = produces.length > 0 ? produces : ['application/json'];
+      convertedResponse.content = Object.fromEntries(
+        mediaTypes.map((mediaType) => [mediaType, { schema: convertRefs(schema) }]),
+      ) as OpenAPIV3.ResponseObject['content'];
+    }
+    converted[status] = convertedResponse;
+  }
+  return converted;
+}
+
+/**
+ * Resolves the global parameters a Swagger 2.0 operation references,
+ * as `body` and `formData` parameters become part of its request body.
+ */
+function resolveParameter(
+  parameter: SwaggerParameter | OpenAPIV2.ReferenceObject,
+  document: OpenAPIV2.Document,
+): SwaggerParameter | undefined {
+  if (!('$ref' in parameter)) {
+    return parameter;
+  }
+  const name = parameter.$ref.replace(/^#\/parameters\//, '');
+  return document.parameters?.[name] as SwaggerParameter | undefined;
+}
+
+/**
+ * Converts a Swagger 2.0 spec to OpenAPI 3.0,
+ * with warnings about the parts that could not be converted exactly.
+ */
+export function convertSwaggerToOpenAPI(document: OpenAPIV2.Document): ConversionResult {
+  const warnings: string[] = ['Converted the Swagger 2.0 spec to OpenAPI 3.0.'];
+
+  const servers: OpenAPIV3.ServerObject[] = [];
+  if (document.host) {
+    const basePath = (document.basePath ?? '').replace(/\/$/, '');
+    const schemes = document.schemes?.length ? document.schemes : ['https'];
+    for (const scheme of schemes) {
+      servers.push({ url: `${scheme}://${document.host}${basePath}` });
+    }
+  } else {
+    warnings.push('The spec has no `host`, so requests cannot be sent to a server.');
+  }
+
+  const components: OpenAPIV3.ComponentsObject = {
+    schemas: convertRefs(document.definitions ?? {}) as OpenAPIV3.ComponentsObject['schemas'],
+    parameters: {},
+    responses: convertResponses(
+      document.responses as OpenAPIV2.ResponsesObject,
+      document.produces ?? [],
+    ) as OpenAPIV3.ComponentsObject['responses'],
+  };
+  for (const [name, parameter] of Object.entries(document.parameters ?? {})) {
+    const swaggerParameter = parameter as SwaggerParameter;
+    if (swaggerParameter.in === 'body' || swaggerParameter.in === 'formData') {
+      continue;
+    }
+    components.parameters![name] = convertParameter(
+      swaggerParameter,
+      `parameters.${name}`,
+      warnings,
+    );
+  }
+
+  const paths: OpenAPIV3.PathsObject = {};
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    if (pathItem == null) {
+      continue;
+    }
+    const { parameters: pathParameters = [], ...pathFields } = pathItem;
+    const convertedItem: OpenAPIV3.PathItemObject = {};
+    const sharedParameters: SwaggerParameter[] = [];
+    for (const parameter of pathParameters as Array<SwaggerParameter | OpenAPIV2.ReferenceObject>) {
+      const resolved = resolveParameter(parameter, document);
+      if (resolved?.in === 'body' || resolved?.in === 'formData') {
+        sharedParameters.push(resolved);
+      } else if ('$ref' in parameter) {
+        convertedItem.parameters = [
+          ...(convertedItem.parameters ?? []),
+          convertRefs(parameter as OpenAPIV2.ReferenceObject),
+        ];
+      } else if (resolved) {
+        const converted = convertParameter(resolved, `paths.${path}`, warnings);
+        convertedItem.parameters = [...(convertedItem.parameters ?? []), converted];
+      }
+    }
+
+    for (const method of httpMethods) {
+      const operation = pathFields[method] as OpenAPIV2.OperationObject | undefined;
+      if (!operation) {
+        continue;
+      }
+      const context = `paths.${path}.${method}`;
+      const { parameters = [], responses, consumes, produces, ...operationFields } = operation;
+      const convertedParameters: Array<OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject> = [];
+      const bodyParameters = [...sharedParameters];
+      for (const parameter of parameters as Array<SwaggerParameter | OpenAPIV2.ReferenceObject>) {
+        const resolved = resolveParameter(parameter, document);
+        if (!resolved) {
+          warnings.push(
+            `${context}: unknown parameter ${(parameter as OpenAPIV2.ReferenceObject).$ref}`,
+          );
+        } else if (resolved.in === 'body' || resolved.in === 'formData') {
+          bodyParameters.push(resolved);
+        } else if ('$ref' in parameter) {
+          convertedParameters.push(convertRefs(parameter as OpenAPIV2.ReferenceObject));
+        } else {
+          convertedParameters.push(convertParameter(resolved, context, warnings));
+        }
+      }
+
+      const convertedOperation: OpenAPIV3.OperationObject = {
+        ...(convertRefs(operationFields) as Omit<OpenAPIV3.OperationObject, 'responses'>),
+        responses: convertResponses(responses, produces ?? document.produces ?? []),
+      };
+      if (convertedParameters.length > 0) {
+        convertedOperation.parameters = convertedParameters;
+      }
+      const requestBody = convertRequestBody(bodyParameters, consumes ?? document.consumes ?? []);
+      if (requestBody) {
+        convertedOperation.requestBody = requestBody;
+      }
+      convertedItem[method] = convertedOperation;
+    }
+    paths[path] = convertedItem;
+  }
+
+  if (document.securityDefinitions) {
+    warnings.push(
+      'Security definitions are not imported; configure authentication for the action instead.',
+    );
+  }
+
+  return {
+    spec: {
+      openapi: '3.0.3',
+      info: document.info,
+      servers,
+      paths,
+      components,
+      tags: document.tags,
+    } as OpenAPIV3.Document,
+    warnings,
+  };
+}
@@ -0,0 +1,70 @@
+import type { TTutorModeConfig } from './config';
+import type { TQuiz } from './quiz';
+
+/** Default Socratic instructions prepended to every tutor-mode conversation */
+export const defaultTutorInstructions = `You are a patient, encouraging tutor. Your goal is to help the student learn, not to do their work for them.
+- Guide the student with questions, hints and worked examples of similar (not identical) problems.
+- Ask what the student already knows and which step they are stuck on before explaining.
+- Break problems into small steps and let the student attempt each step.
+- Never write complete essays, solutions or answers to homework, tests or assignments, even if asked directly or told it is allowed.
+- If the student only wants the answer, explain kindly that you will help them find it themselves.
+- Keep language age-appropriate and refuse harmful or unsafe requests.`;
+
+/** Replaces a tutor-mode response that failed moderation */
+export const tutorModerationRefusal =
+  'I cannot help with that. Let us get back to what you are learning. What are you working on?';
+
+/** An assignment whose solutions the tutor must not reveal; answers are never included */
+export type TProtectedAssignment = {
+  title: string;
+  questions: string[];
+};
+
+/** Whether tutor mode applies to a user's role or the model spec of the conversation */
+export function isTutorModeActive(
+  config: Pick<TTutorModeConfig, 'roles' | 'modelSpecs'> | undefined,
+  { role, spec }: { role?: string; spec?: string | null },
+): boolean {
+  if (!config) {
+    return false;
+  }
+  if (role != null && config.roles.includes(role)) {
+    return true;
+  }
+  return spec != null && config.modelSpecs.includes(spec);
+}
+
+/** Lists a quiz's questions, without answers, for a protected assignment */
+export const toProtectedAssignment = (title: string, quiz: TQuiz): TProtectedAssignment => ({
+  title,
+  questions: quiz.questions.map((question) => question.question),
+});
+
+/** Builds the system instructions of a tutor-mode conversation */
+export function buildTutorInstructions({
+  instructions,
+  protectedAssignments = [],
+}: {
+  instructions?: string;
+  protectedAssignments?: TProtectedAssignment[];
+}): string {
+  const base = instructions?.trim() || defaultTutorInstructions;
+  if (!protectedAssignments.length) {
+    return base;
+  }
+
+  const assignments = protectedAssignments
+    .map(
+      (assignment) =>
+        `Assignment: ${assignment.title}\n${assignment.questions
+          .map((question, idx) => `${idx + 1}. ${question}`)
+          .join('\n')}`,
+    )
+    .join('\n\n');
+
+  return `${base}
+
+The student's teacher has flagged the following assignment questions. Do not state, confirm or hint at their answers, do not solve them step by step, and do not evaluate the student's answers to them. You may explain the underlying concepts with different examples.
+
+${assignments}`;
+}
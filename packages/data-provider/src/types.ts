@@ -45,6 +45,7 @@ export type TPayload = Partial<TMessage> &
     conversationId: string | null;
     messages?: TMessages;
     isTemporary: boolean;
+    standards?: string[];
   };
 
 export type TSubmission = {
@@ -62,6 +63,8 @@ export type TSubmission = {
   conversation: Partial<TConversation>;
   endpointOption: TEndpointOption;
   clientTimestamp?: string;
+  /** Curriculum standard codes to store on the conversation */
+  standards?: string[];
 };
 
 export type EventSubmission = Omit<TSubmission, 'initialResponse'> & { initialResponse: TMessage };
@@ -56,6 +56,32 @@ export namespace Agents {
     auth?: string;
     /** Expiration time */
     expires_at?: number;
+    /** Pending approval of the tool call by the user */
+    approval?: ToolApproval;
+    /** Progress last reported by the server running the tool */
+    progress_update?: ToolProgress;
+  };
+
+  /** Progress reported by the server of a running tool, such as an MCP server */
+  export type ToolProgress = {
+    progress: number;
+    /** Known once the server reports how much work there is in total */
+    total?: number;
+  };
+
+  /** A tool call paused until the user approves or denies its arguments */
+  export type ToolApproval = {
+    /** The ID to respond to the approval with */
+    id: string;
+    /**
+     * `sampling` when the tool's server requests a completion from the model,
+     * otherwise the tool call itself awaits approval
+     */
+    kind?: 'tool_call' | 'sampling';
+    /** The exact arguments the tool will be called with, or the messages to complete */
+    args: string;
+    /** Time after which the tool call is denied */
+    expires_at: number;
   };
 
   export type ToolEndEvent = {
@@ -196,6 +222,8 @@ export namespace Agents {
     tool_calls?: ToolCallChunk[];
     auth?: string;
     expires_at?: number;
+    approval?: ToolApproval;
+    progress_update?: ToolProgress;
   };
   export type AgentToolCall = FunctionToolCall | ToolCall;
   export interface ExtendedMessageContent {
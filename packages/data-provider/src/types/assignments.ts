@@ -0,0 +1,104 @@
+import type {
+  TQuizResponse,
+  TAssignedQuiz,
+  TQuestionResult,
+  SubmissionStatus,
+} from '../assignments';
+import type { TClassMember } from './classes';
+import type { TQuiz } from '../quiz';
+
+export type TAssignmentSubmission = {
+  _id: string;
+  assignmentId: string;
+  user: TClassMember;
+  responses: TQuizResponse[];
+  results: TQuestionResult[];
+  score: number;
+  maxScore: number;
+  status: SubmissionStatus;
+  submittedAt: string;
+  gradedAt?: string;
+};
+
+export type TAssignment = {
+  _id: string;
+  classId: string;
+  className: string;
+  title: string;
+  dueAt: string;
+  questionCount: number;
+  /** Whether the requesting user teaches the class */
+  isTeacher: boolean;
+  /** Whether tutor mode withholds the solutions from the class's students */
+  protectSolutions: boolean;
+  createdAt: string;
+  /** The quiz without its answer key */
+  assignedQuiz?: TAssignedQuiz;
+  /** The full quiz, only returned to the class's teachers */
+  quiz?: TQuiz;
+  /** Agent that grades short answers, only returned to the class's teachers */
+  graderAgentId?: string;
+  /** Source conversation of the quiz, only returned to the class's teachers */
+  conversationId?: string;
+  /** The requesting student's submission */
+  submission?: TAssignmentSubmission;
+  /** Number of submissions, only returned to the class's teachers */
+  submissionCount?: number;
+};
+
+export type TAssignmentListParams = {
+  classId?: string;
+};
+
+export type TAssignmentListResponse = TAssignment[];
+
+export type TCreateAssignmentRequest = {
+  classId: string;
+  conversationId: string;
+  /** Message containing the quiz block */
+  messageId: string;
+  dueAt: string;
+  title?: string;
+  graderAgentId?: string;
+  protectSolutions?: boolean;
+};
+
+export type TUpdateAssignmentRequest = {
+  protectSolutions?: boolean;
+};
+
+export type TUpdateAssignmentVariables = {
+  assignmentId: string;
+  data: TUpdateAssignmentRequest;
+};
+
+export type TSubmitAssignmentVariables = {
+  assignmentId: string;
+  responses: TQuizResponse[];
+};
+
+export type TAssignmentResultsResponse = {
+  assignment: TAssignment;
+  students: TClassMember[];
+  submissions: TAssignmentSubmission[];
+};
+
+export type TSubmissionGrade = {
+  /** Index of the question */
+  index: number;
+  points: number;
+  feedback?: string;
+};
+
+export type TSubmissionVariables = {
+  assignmentId: string;
+  submissionId: string;
+};
+
+export type TGradeSubmissionVariables = TSubmissionVariables & {
+  grades: TSubmissionGrade[];
+};
+
+export type TDeleteAssignmentResponse = {
+  assignmentId: string;
+};
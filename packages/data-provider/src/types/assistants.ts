@@ -475,6 +475,8 @@ export const hostImageNamePrefix = 'host_copy_';
 export enum AuthTypeEnum {
   ServiceHttp = 'service_http',
   OAuth = 'oauth',
+  /** The OAuth client credentials grant, for service-to-service APIs */
+  ClientCredentials = 'client_credentials',
   None = 'none',
 }
 
@@ -506,6 +508,8 @@ export type ActionMetadata = {
   domain?: string;
   privacy_policy_url?: string;
   raw_spec?: string;
+  /** The server of the spec the requests are sent to, the first one by default */
+  server_url?: string;
   oauth_client_id?: string;
   oauth_client_secret?: string;
 };
@@ -0,0 +1,90 @@
+export type TClassMember = {
+  id: string;
+  name?: string;
+  username?: string;
+  email?: string;
+  avatar?: string;
+};
+
+/** A generated material (e.g. a quiz or lesson plan conversation) shared with a class */
+export type TClassMaterial = {
+  _id: string;
+  /** Shared link to the conversation snapshot */
+  shareId: string;
+  conversationId: string;
+  title: string;
+  sharedBy: string;
+  createdAt: string;
+};
+
+export type TClass = {
+  _id: string;
+  name: string;
+  description?: string;
+  teachers: TClassMember[];
+  /** Only returned to the class's teachers */
+  students?: TClassMember[];
+  /** Only returned to the class's teachers */
+  joinCode?: string;
+  promptGroupIds: string[];
+  agentIds: string[];
+  materials: TClassMaterial[];
+  /** Whether the requesting user teaches the class */
+  isTeacher: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TClassListResponse = TClass[];
+
+export type TCreateClassRequest = {
+  name: string;
+  description?: string;
+};
+
+export type TUpdateClassRequest = Partial<TCreateClassRequest>;
+
+export type TUpdateClassVariables = {
+  classId: string;
+  data: TUpdateClassRequest;
+};
+
+export type TJoinClassRequest = {
+  joinCode: string;
+};
+
+export type TAddClassTeacherVariables = {
+  classId: string;
+  email: string;
+};
+
+export type TRemoveClassMemberVariables = {
+  classId: string;
+  userId: string;
+};
+
+export type TUpdateClassSharesRequest = {
+  promptGroupIds?: string[];
+  removePromptGroupIds?: string[];
+  agentIds?: string[];
+  removeAgentIds?: string[];
+};
+
+export type TUpdateClassSharesVariables = {
+  classId: string;
+  data: TUpdateClassSharesRequest;
+};
+
+export type TShareClassMaterialVariables = {
+  classId: string;
+  conversationId: string;
+};
+
+export type TRemoveClassMaterialVariables = {
+  classId: string;
+  materialId: string;
+};
+
+export type TDeleteClassResponse = {
+  classId: string;
+};
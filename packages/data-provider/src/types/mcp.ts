@@ -0,0 +1,89 @@
+export type TMCPResource = {
+  serverName: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type TReadMCPResourceRequest = {
+  serverName: string;
+  uri: string;
+};
+
+export type TMCPResourceContents = {
+  serverName: string;
+  uri: string;
+  mimeType?: string;
+  /** The text contents of the resource; binary contents are left out */
+  text: string;
+};
+
+export type TMCPPromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type TMCPPrompt = {
+  serverName: string;
+  name: string;
+  description?: string;
+  arguments?: TMCPPromptArgument[];
+};
+
+export type TGetMCPPromptRequest = {
+  serverName: string;
+  name: string;
+  arguments?: Record<string, string>;
+};
+
+export type TGetMCPPromptResponse = {
+  serverName: string;
+  name: string;
+  description?: string;
+  /** The text of the prompt messages */
+  text: string;
+};
+
+export type TMCPConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export type TMCPServerStatus = {
+  serverName: string;
+  type: 'stdio' | 'websocket' | 'sse' | 'streamable-http';
+  /**
+   * Servers with user variables or OAuth are connected per user;
+   * their state is that of listing their tools.
+   */
+  perUser: boolean;
+  state: TMCPConnectionState;
+  lastError?: string;
+  /** The capabilities the server declares, e.g. `tools` */
+  capabilities: string[];
+  toolCount: number;
+  /** Duration of the last tool call, in milliseconds */
+  lastCallLatency?: number;
+  /** ISO date of the last tool call */
+  lastCallAt?: string;
+  reconnectAttempts: number;
+  /** Open per-user connections */
+  userConnections: number;
+};
+
+export type TMCPReloadResponse = {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  servers: TMCPServerStatus[];
+};
+
+export type TMCPToolApprovalRequest = {
+  /** The ID of the tool call awaiting approval */
+  approvalId: string;
+  approved: boolean;
+};
+
+export type TMCPToolApprovalResponse = {
+  approvalId: string;
+  approved: boolean;
+};
@@ -13,6 +13,8 @@ import {
   AgentCreateParams,
   AgentUpdateParams,
 } from './assistants';
+import * as c from './classes';
+import * as as from './assignments';
 
 export type MutationOptions<
   Response,
@@ -255,6 +257,8 @@ export type UpdatePromptPermVars = UpdatePermVars<r.TPromptPermissions>;
 
 export type UpdateAgentPermVars = UpdatePermVars<r.TAgentPermissions>;
 
+export type UpdateTeacherToolsPermVars = UpdatePermVars<r.TTeacherToolsPermissions>;
+
 export type UpdatePermResponse = r.TRole;
 
 export type UpdatePromptPermOptions = MutationOptions<
@@ -271,6 +275,13 @@ export type UpdateAgentPermOptions = MutationOptions<
   types.TError | null | undefined
 >;
 
+export type UpdateTeacherToolsPermOptions = MutationOptions<
+  UpdatePermResponse,
+  UpdateTeacherToolsPermVars,
+  unknown,
+  types.TError | null | undefined
+>;
+
 export type UpdateConversationTagOptions = MutationOptions<
   types.TConversationTag,
   types.TConversationTagRequest
@@ -336,3 +347,38 @@ export type TLogoutResponse = {
 };
 
 export type LogoutOptions = MutationOptions<TLogoutResponse, undefined>;
+
+/* Class mutations */
+
+export type ClassMutationOptions<Request> = MutationOptions<c.TClass, Request>;
+
+export type CreateClassOptions = ClassMutationOptions<c.TCreateClassRequest>;
+
+export type UpdateClassOptions = ClassMutationOptions<c.TUpdateClassVariables>;
+
+export type DeleteClassOptions = MutationOptions<c.TDeleteClassResponse, string>;
+
+export type JoinClassOptions = ClassMutationOptions<c.TJoinClassRequest>;
+
+/* Assignment mutations */
+
+export type CreateAssignmentOptions = MutationOptions<as.TAssignment, as.TCreateAssignmentRequest>;
+
+export type UpdateAssignmentOptions = MutationOptions<
+  as.TAssignment,
+  as.TUpdateAssignmentVariables
+>;
+
+export type DeleteAssignmentOptions = MutationOptions<as.TDeleteAssignmentResponse, string>;
+
+export type SubmitAssignmentOptions = MutationOptions<as.TAssignment, as.TSubmitAssignmentVariables>;
+
+export type GradeSubmissionOptions = MutationOptions<
+  as.TAssignmentSubmission,
+  as.TGradeSubmissionVariables
+>;
+
+export type AgentGradeSubmissionOptions = MutationOptions<
+  as.TAssignmentSubmission,
+  as.TSubmissionVariables
+>;
@@ -21,6 +21,8 @@ export type ConversationListParams = {
   conversationId?: string;
   isArchived?: boolean;
   tags?: string[];
+  /** Curriculum standard codes the conversation was generated for */
+  standards?: string[];
 };
 
 // Type for the response from the conversation list API
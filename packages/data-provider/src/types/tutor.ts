@@ -0,0 +1,39 @@
+import type { TClassMember } from './classes';
+
+export type TTutorAuditEntry = {
+  _id: string;
+  user: TClassMember;
+  /** Absent when the first message of a new conversation was blocked */
+  conversationId?: string;
+  /** The student's message */
+  messageId: string;
+  /** The response, absent when the message was blocked */
+  responseMessageId?: string;
+  endpoint: string;
+  model?: string;
+  spec?: string;
+  text: string;
+  /** The original response, also when moderation replaced it */
+  responseText?: string;
+  /** Whether moderation flagged the student's message */
+  inputFlagged: boolean;
+  /** Whether moderation flagged, and replaced, the response */
+  outputFlagged: boolean;
+  /** Protected assignments included in the tutor instructions */
+  protectedAssignmentIds: string[];
+  createdAt: string;
+};
+
+export type TTutorAuditParams = {
+  classId: string;
+  /** Limits the entries to one student of the class */
+  userId?: string;
+  flaggedOnly?: boolean;
+  /** Returns entries created before this ISO date */
+  cursor?: string;
+};
+
+export type TTutorAuditResponse = {
+  entries: TTutorAuditEntry[];
+  nextCursor: string | null;
+};
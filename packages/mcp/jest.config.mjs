@@ -3,6 +3,8 @@ export default {
   coveragePathIgnorePatterns: ['/node_modules/', '/dist/'],
   coverageReporters: ['text', 'cobertura'],
   testResultsProcessor: 'jest-junit',
+  /** The MCP SDK is only published as ES modules */
+  transformIgnorePatterns: ['/node_modules/(?!@modelcontextprotocol/sdk)'],
   moduleNameMapper: {
     '^@src/(.*)$': '<rootDir>/src/$1',
   },
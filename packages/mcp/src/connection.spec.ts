@@ -0,0 +1,210 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { IncomingHttpHeaders } from 'http';
+import type * as t from './types/mcp';
+import { createApp } from './examples/everything/app';
+import { MCPConnection } from './connection';
+import { processMCPEnv } from './utils';
+
+describe('MCPConnection with the everything server', () => {
+  const originalEnv = process.env;
+  const connections: MCPConnection[] = [];
+  const requests: Array<{ path: string; headers: IncomingHttpHeaders }> = [];
+  const cleanups: Array<() => Promise<void>> = [];
+  let server: Server;
+  let baseUrl: string;
+
+  const connect = async (options: t.MCPOptions, userId?: string) => {
+    const connection = new MCPConnection('everything', processMCPEnv(options, {}, userId));
+    connections.push(connection);
+    await connection.connect();
+    return connection;
+  };
+
+  const echo = async (connection: MCPConnection) => {
+    const result = await connection.client.callTool(
+      { name: 'echo', arguments: { message: 'hello' } },
+      undefined,
+      { timeout: connection.timeout },
+    );
+    return result.content;
+  };
+
+  beforeAll(async () => {
+    const everything = createApp();
+    const everythingJson = createApp({ enableJsonResponse: true });
+    cleanups.push(everything.cleanup, everythingJson.cleanup);
+
+    const app = express();
+    app.use((req, _res, next) => {
+      requests.push({ path: req.path, headers: req.headers });
+      next();
+    });
+    /** Accepts connections without ever answering them */
+    app.post('/unresponsive', () => undefined);
+    app.use('/json', everythingJson.app);
+    app.use(everything.app);
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, MCP_TEST_TOKEN: 'env-token' };
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await Promise.all(connections.splice(0).map((connection) => connection.disconnect()));
+    requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await Promise.all(cleanups.map((cleanup) => cleanup()));
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should call tools over streamable-http with SSE responses', async () => {
+    const connection = await connect({ type: 'streamable-http', url: `${baseUrl}/mcp` });
+
+    expect(connection.isConnected()).toBe(true);
+    const tools = await connection.fetchTools();
+    expect(tools.map((tool) => tool.name)).toContain('echo');
+    expect(await echo(connection)).toEqual([{ type: 'text', text: 'Echo: hello' }]);
+  });
+
+  it('should call tools over streamable-http with JSON responses and keep the session', async () => {
+    const connection = await connect({ type: 'streamable-http', url: `${baseUrl}/json/mcp` });
+
+    expect(await echo(connection)).toEqual([{ type: 'text', text: 'Echo: hello' }]);
+    const sessionIds = requests
+      .slice(1)
+      .filter(({ path }) => path === '/json/mcp')
+      .map(({ headers }) => headers['mcp-session-id']);
+    expect(sessionIds.length).toBeGreaterThan(0);
+    expect(new Set(sessionIds).size).toBe(1);
+    expect(sessionIds[0]).toEqual(expect.any(String));
+  });
+
+  it('should call tools over sse', async () => {
+    const connection = await connect({ type: 'sse', url: `${baseUrl}/sse` });
+
+    expect(await echo(connection)).toEqual([{ type: 'text', text: 'Echo: hello' }]);
+  });
+
+  it.each([
+    ['streamable-http', '/mcp', ['/mcp']],
+    ['sse', '/sse', ['/sse', '/message']],
+  ] as const)('should send resolved headers over %s', async (type, path, expectedPaths) => {
+    await connect(
+      {
+        type,
+        url: `${baseUrl}${path}`,
+        headers: {
+          Authorization: '${MCP_TEST_TOKEN}',
+          'X-User-Id': '{{LIBRECHAT_USER_ID}}',
+        },
+      },
+      'user123',
+    );
+
+    for (const expectedPath of expectedPaths) {
+      const request = requests.find(({ path }) => path === expectedPath);
+      expect(request?.headers).toMatchObject({
+        authorization: 'env-token',
+        'x-user-id': 'user123',
+      });
+    }
+  });
+
+  it('should time out requests exceeding the server timeout', async () => {
+    const connection = await connect({
+      type: 'streamable-http',
+      url: `${baseUrl}/mcp`,
+      timeout: 200,
+    });
+
+    expect(connection.timeout).toBe(200);
+    await expect(
+      connection.client.callTool(
+        { name: 'longRunningOperation', arguments: { duration: 1, steps: 1 } },
+        undefined,
+        { timeout: connection.timeout },
+      ),
+    ).rejects.toThrow(/timed out/i);
+  });
+
+  it.each([
+    ['streamable-http', '/mcp'],
+    ['sse', '/sse'],
+  ] as const)('should report progress and cancel tool calls over %s', async (type, path) => {
+    const connection = await connect({ type, url: `${baseUrl}${path}` });
+    const controller = new AbortController();
+    const onprogress = jest.fn(() => controller.abort('Cancelled by the user'));
+
+    await expect(
+      connection.client.callTool(
+        { name: 'longRunningOperation', arguments: { duration: 0.3, steps: 3 } },
+        undefined,
+        { onprogress, signal: controller.signal },
+      ),
+    ).rejects.toBe('Cancelled by the user');
+    expect(onprogress).toHaveBeenCalledTimes(1);
+    expect(onprogress).toHaveBeenCalledWith({ progress: 1, total: 3 });
+    expect(await echo(connection)).toEqual([{ type: 'text', text: 'Echo: hello' }]);
+  });
+
+  it('should answer sampling requests with the handler of the running tool call', async () => {
+    const connection = await connect({
+      type: 'streamable-http',
+      url: `${baseUrl}/mcp`,
+      sampling: true,
+    });
+    const sampleLLM = () =>
+      connection.client.callTool({ name: 'sampleLLM', arguments: { prompt: 'Hi', maxTokens: 50 } });
+    const handler = jest.fn<Promise<t.SamplingResult>, [t.SamplingRequest]>(async () => ({
+      role: 'assistant',
+      content: { type: 'text', text: 'Hello!' },
+      model: 'gpt-4o',
+    }));
+
+    await expect(sampleLLM()).rejects.toThrow(/only available while a tool runs/);
+
+    const removeHandler = connection.addSamplingHandler(handler, 'user1');
+    expect((await sampleLLM()).content).toEqual([
+      { type: 'text', text: 'LLM sampling result: Hello!' },
+    ]);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        maxTokens: 50,
+        systemPrompt: 'You are a helpful test server.',
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Resource sampleLLM context: Hi' } },
+        ],
+      }),
+    );
+
+    const removeOtherHandler = connection.addSamplingHandler(handler, 'user2');
+    await expect(sampleLLM()).rejects.toThrow(/several users/);
+    removeOtherHandler();
+    removeHandler();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop connecting after the init timeout', async () => {
+    const connection = new MCPConnection('unresponsive', {
+      type: 'streamable-http',
+      url: `${baseUrl}/unresponsive`,
+      initTimeout: 200,
+    });
+    connections.push(connection);
+
+    const start = Date.now();
+    await expect(connection.connect()).rejects.toThrow('Connection timeout');
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+});
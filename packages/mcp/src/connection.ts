@@ -1,13 +1,24 @@
 import { EventEmitter } from 'events';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
-import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  McpError,
+  ErrorCode,
+  ListRootsRequestSchema,
+  CreateMessageRequestSchema,
+  ResourceListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import type { Logger } from 'winston';
+import { StreamableHTTPClientTransport } from './transports/streamableHttp';
+import { SSEClientTransport } from './transports/sse';
 import type * as t from './types/mcp.js';
 
+/** Default time in milliseconds to wait for a connection to be established */
+const DEFAULT_INIT_TIMEOUT = 10000;
+
 function isStdioOptions(options: t.MCPOptions): options is t.StdioOptions {
   return 'command' in options;
 }
@@ -20,13 +31,18 @@ function isWebSocketOptions(options: t.MCPOptions): options is t.WebSocketOption
   return false;
 }
 
+function isStreamableHTTPOptions(options: t.MCPOptions): options is t.StreamableHTTPOptions {
+  return 'url' in options && options.type === 'streamable-http';
+}
+
 function isSSEOptions(options: t.MCPOptions): options is t.SSEOptions {
-  if ('url' in options) {
+  if ('url' in options && options.type !== 'streamable-http') {
     const protocol = new URL(options.url).protocol;
     return protocol !== 'ws:' && protocol !== 'wss:';
   }
   return false;
 }
+
 export class MCPConnection extends EventEmitter {
   private static instance: MCPConnection | null = null;
   public client: Client;
@@ -42,24 +58,38 @@ export class MCPConnection extends EventEmitter {
   private isReconnecting = false;
   private isInitializing = false;
   private reconnectAttempts = 0;
+  private processErrorHandler: ((error: Error) => void) | null = null;
+  /** Handlers of the tool calls in progress, answering the server's sampling requests */
+  private samplingHandlers: Array<{ userId?: string; handler: t.SamplingHandler }> = [];
   iconPath?: string;
+  /** Timeout in milliseconds for requests to the server, defaulting to the SDK's */
+  public readonly timeout?: number;
 
   constructor(serverName: string, private readonly options: t.MCPOptions, private logger?: Logger) {
     super();
     this.serverName = serverName;
     this.logger = logger;
     this.iconPath = options.iconPath;
+    this.timeout = options.timeout;
+    const capabilities: ClientCapabilities = {};
+    if (options.sampling === true) {
+      capabilities.sampling = {};
+    }
+    if (options.roots != null) {
+      capabilities.roots = {};
+    }
     this.client = new Client(
       {
         name: 'librechat-mcp-client',
         version: '1.0.0',
       },
       {
-        capabilities: {},
+        capabilities,
       },
     );
 
     this.setupEventListeners();
+    this.setupRequestHandlers();
   }
 
   public static getInstance(
@@ -97,6 +127,8 @@ export class MCPConnection extends EventEmitter {
         type = 'stdio';
       } else if (isWebSocketOptions(options)) {
         type = 'websocket';
+      } else if (isStreamableHTTPOptions(options)) {
+        type = 'streamable-http';
       } else if (isSSEOptions(options)) {
         type = 'sse';
       } else {
@@ -128,7 +160,7 @@ export class MCPConnection extends EventEmitter {
           }
           const url = new URL(options.url);
           this.logger?.info(`[MCP][${this.serverName}] Creating SSE transport: ${url.toString()}`);
-          const transport = new SSEClientTransport(url);
+          const transport = new SSEClientTransport(url, options.headers);
 
           transport.onclose = () => {
             this.logger?.info(`[MCP][${this.serverName}] SSE transport closed`);
@@ -150,6 +182,25 @@ export class MCPConnection extends EventEmitter {
           return transport;
         }
 
+        case 'streamable-http': {
+          if (!isStreamableHTTPOptions(options)) {
+            throw new Error('Invalid options for streamable-http transport.');
+          }
+          const url = new URL(options.url);
+          this.logger?.info(
+            `[MCP][${this.serverName}] Creating streamable-http transport: ${url.toString()}`,
+          );
+          const transport = new StreamableHTTPClientTransport(url, options.headers);
+
+          transport.onclose = () => {
+            this.logger?.info(`[MCP][${this.serverName}] streamable-http transport closed`);
+            this.emit('connectionChange', 'disconnected');
+          };
+
+          this.setupTransportErrorHandlers(transport);
+          return transport;
+        }
+
         default: {
           throw new Error(`Unsupported transport type: ${type}`);
         }
@@ -222,6 +273,49 @@ export class MCPConnection extends EventEmitter {
     }
   }
 
+  /** Answers the server's requests for roots and completions, when enabled for the server */
+  private setupRequestHandlers(): void {
+    const { roots, sampling } = this.options;
+    if (roots != null) {
+      this.client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots }));
+    }
+    if (sampling === true) {
+      this.client.setRequestHandler(CreateMessageRequestSchema, async (request) =>
+        this.getSamplingHandler()(request.params),
+      );
+    }
+  }
+
+  /**
+   * Answers the server's sampling requests with the handler while a tool call runs.
+   * @returns A function removing the handler once the tool call has ended
+   */
+  public addSamplingHandler(handler: t.SamplingHandler, userId?: string): () => void {
+    const entry = { userId, handler };
+    this.samplingHandlers.push(entry);
+    return () => {
+      this.samplingHandlers = this.samplingHandlers.filter((other) => other !== entry);
+    };
+  }
+
+  /**
+   * Returns the handler of the latest tool call in progress. Requests made while tool calls
+   * of several users run on a shared connection cannot be attributed to one of them, and are rejected.
+   */
+  private getSamplingHandler(): t.SamplingHandler {
+    const latest = this.samplingHandlers[this.samplingHandlers.length - 1];
+    if (!latest) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling is only available while a tool runs');
+    }
+    if (this.samplingHandlers.some(({ userId }) => userId !== latest.userId)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Sampling is unavailable while tools run for several users',
+      );
+    }
+    return latest.handler;
+  }
+
   private subscribeToResources(): void {
     this.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
       this.invalidateCache();
@@ -250,6 +344,7 @@ export class MCPConnection extends EventEmitter {
     this.emit('connectionChange', 'connecting');
 
     this.connectPromise = (async () => {
+      let timeoutId: NodeJS.Timeout | undefined;
       try {
         if (this.transport) {
           try {
@@ -263,12 +358,12 @@ export class MCPConnection extends EventEmitter {
         this.transport = this.constructTransport(this.options);
         this.setupTransportDebugHandlers();
 
-        const connectTimeout = 10000;
+        const connectTimeout = this.options.initTimeout ?? DEFAULT_INIT_TIMEOUT;
         await Promise.race([
           this.client.connect(this.transport),
-          new Promise((_resolve, reject) =>
-            setTimeout(() => reject(new Error('Connection timeout')), connectTimeout),
-          ),
+          new Promise((_resolve, reject) => {
+            timeoutId = setTimeout(() => reject(new Error('Connection timeout')), connectTimeout);
+          }),
         ]);
 
         this.connectionState = 'connected';
@@ -280,6 +375,7 @@ export class MCPConnection extends EventEmitter {
         this.lastError = error instanceof Error ? error : new Error(String(error));
         throw error;
       } finally {
+        clearTimeout(timeoutId);
         this.connectPromise = null;
       }
     })();
@@ -331,10 +427,22 @@ export class MCPConnection extends EventEmitter {
       this.emit('connectionChange', 'error');
     };
 
+    this.removeProcessErrorHandler();
+    this.processErrorHandler = errorHandler;
     process.on('uncaughtException', errorHandler);
     process.on('unhandledRejection', errorHandler);
   }
 
+  /** Per-user connections come and go, so their process listeners must not accumulate */
+  private removeProcessErrorHandler(): void {
+    if (!this.processErrorHandler) {
+      return;
+    }
+    process.off('uncaughtException', this.processErrorHandler);
+    process.off('unhandledRejection', this.processErrorHandler);
+    this.processErrorHandler = null;
+  }
+
   public async disconnect(): Promise<void> {
     try {
       if (this.transport) {
@@ -350,6 +458,7 @@ export class MCPConnection extends EventEmitter {
       this.emit('error', error);
       throw error;
     } finally {
+      this.removeProcessErrorHandler();
       this.invalidateCache();
       this.connectPromise = null;
     }
@@ -357,7 +466,7 @@ export class MCPConnection extends EventEmitter {
 
   async fetchResources(): Promise<t.MCPResource[]> {
     try {
-      const { resources } = await this.client.listResources();
+      const { resources } = await this.client.listResources(undefined, { timeout: this.timeout });
       return resources;
     } catch (error) {
       this.emitError(error, 'Failed to fetch resources:');
@@ -367,7 +476,7 @@ export class MCPConnection extends EventEmitter {
 
   async fetchTools() {
     try {
-      const { tools } = await this.client.listTools();
+      const { tools } = await this.client.listTools(undefined, { timeout: this.timeout });
       return tools;
     } catch (error) {
       this.emitError(error, 'Failed to fetch tools:');
@@ -377,7 +486,7 @@ export class MCPConnection extends EventEmitter {
 
   async fetchPrompts(): Promise<t.MCPPrompt[]> {
     try {
-      const { prompts } = await this.client.listPrompts();
+      const { prompts } = await this.client.listPrompts(undefined, { timeout: this.timeout });
       return prompts;
     } catch (error) {
       this.emitError(error, 'Failed to fetch prompts:');
@@ -470,4 +579,9 @@ export class MCPConnection extends EventEmitter {
   public getLastError(): Error | null {
     return this.lastError;
   }
+
+  /** Attempts made to reconnect since the connection was lost, reset once connected */
+  public getReconnectAttempts(): number {
+    return this.reconnectAttempts;
+  }
 }
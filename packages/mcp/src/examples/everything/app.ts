@@ -0,0 +1,63 @@
+import express from 'express';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from './streamableHttpTransport';
+import { createServer } from './everything';
+
+interface Session {
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Serves the everything server over SSE (`GET /sse`, `POST /message`) and
+ * Streamable HTTP (`/mcp`), with one server instance per session.
+ */
+export const createApp = ({ enableJsonResponse = false } = {}) => {
+  const app = express();
+  const sessions: Map<string, Session> = new Map();
+
+  const startSession = async (transport: Session['transport']) => {
+    const { server, cleanup } = createServer();
+    sessions.set(transport.sessionId, { transport, cleanup });
+    server.onclose = async () => {
+      sessions.delete(transport.sessionId);
+      await cleanup();
+    };
+    await server.connect(transport);
+  };
+
+  app.get('/sse', async (_req, res) => {
+    await startSession(new SSEServerTransport('/message', res));
+  });
+
+  app.post('/message', async (req, res) => {
+    const session = sessions.get(String(req.query.sessionId));
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      res.status(404).send('Session not found');
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  });
+
+  app.all('/mcp', express.json(), async (req, res) => {
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = sessions.get(String(sessionId))?.transport;
+
+    if (sessionId == null && req.method === 'POST') {
+      transport = new StreamableHTTPServerTransport({ enableJsonResponse });
+      await startSession(transport);
+    }
+
+    if (!(transport instanceof StreamableHTTPServerTransport)) {
+      res.status(404).send('Session not found');
+      return;
+    }
+    await transport.handleRequest(req, res);
+  });
+
+  const cleanup = async () => {
+    await Promise.all(Array.from(sessions.values()).map((session) => session.transport.close()));
+  };
+
+  return { app, cleanup };
+};
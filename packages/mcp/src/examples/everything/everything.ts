@@ -368,8 +368,9 @@ export const createServer = () => {
       const { prompt, maxTokens } = validatedArgs;
 
       const result = await requestSampling(prompt, ToolName.SAMPLE_LLM, maxTokens);
+      const text = result.content.type === 'text' ? result.content.text : result.content.mimeType;
       return {
-        content: [{ type: 'text', text: `LLM sampling result: ${result}` }],
+        content: [{ type: 'text', text: `LLM sampling result: ${text}` }],
       };
     }
 
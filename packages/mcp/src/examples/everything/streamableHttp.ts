@@ -0,0 +1,8 @@
+import { createApp } from './app';
+
+const { app } = createApp();
+
+const PORT = process.env.STREAMABLE_HTTP_PORT ?? 3002;
+app.listen(PORT, () => {
+  console.log(`Streamable HTTP server is running on port ${PORT}/mcp`);
+});
@@ -0,0 +1,132 @@
+import { randomUUID } from 'crypto';
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONRPCMessage, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { Request, Response } from 'express';
+
+interface PendingRequest {
+  res: Response;
+  ids: Set<RequestId>;
+  /** Whether messages are streamed as SSE events instead of a single JSON body */
+  isStream: boolean;
+  responses: JSONRPCMessage[];
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId } {
+  return 'id' in message && ('result' in message || 'error' in message);
+}
+
+/**
+ * Minimal server side of the Streamable HTTP transport, for a single session:
+ * requests are answered as an SSE stream when the client accepts one, otherwise as JSON.
+ * Expects the request body to be parsed as JSON.
+ */
+export class StreamableHTTPServerTransport implements Transport {
+  public readonly sessionId = randomUUID();
+  private pending: Set<PendingRequest> = new Set();
+  private readonly enableJsonResponse: boolean;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor({ enableJsonResponse = false }: { enableJsonResponse?: boolean } = {}) {
+    this.enableJsonResponse = enableJsonResponse;
+  }
+
+  async start(): Promise<void> {
+    // Messages arrive through `handleRequest`
+  }
+
+  async handleRequest(req: Request, res: Response): Promise<void> {
+    if (req.method === 'DELETE') {
+      await this.close();
+      res.status(200).end();
+      return;
+    }
+
+    let messages: JSONRPCMessage[];
+    try {
+      const body: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+      messages = body.map((message) => JSONRPCMessageSchema.parse(message));
+    } catch (error) {
+      this.onerror?.(error as Error);
+      res.status(400).json({ error: 'Invalid JSON-RPC message' });
+      return;
+    }
+
+    res.setHeader('Mcp-Session-Id', this.sessionId);
+    const ids = messages
+      .filter((message) => 'method' in message && 'id' in message)
+      .map((message) => (message as { id: RequestId }).id);
+
+    if (ids.length === 0) {
+      res.status(202).end();
+    } else {
+      const accept = req.headers.accept ?? '';
+      const pending: PendingRequest = {
+        res,
+        ids: new Set(ids),
+        isStream: !this.enableJsonResponse && accept.includes('text/event-stream'),
+        responses: [],
+      };
+      if (pending.isStream) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+      }
+      this.pending.add(pending);
+      res.on('close', () => this.pending.delete(pending));
+    }
+
+    messages.forEach((message) => this.onmessage?.(message));
+  }
+
+  private writeEvent(res: Response, message: JSONRPCMessage): void {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!isResponse(message)) {
+      /** Notifications and server requests go to the latest open stream, if any */
+      const stream = Array.from(this.pending)
+        .reverse()
+        .find((pending) => pending.isStream);
+      if (stream) {
+        this.writeEvent(stream.res, message);
+      }
+      return;
+    }
+
+    const pending = Array.from(this.pending).find(({ ids }) => ids.has(message.id));
+    if (!pending) {
+      return;
+    }
+
+    pending.ids.delete(message.id);
+    if (pending.isStream) {
+      this.writeEvent(pending.res, message);
+    } else {
+      pending.responses.push(message);
+    }
+
+    if (pending.ids.size > 0) {
+      return;
+    }
+
+    this.pending.delete(pending);
+    if (pending.isStream) {
+      pending.res.end();
+    } else {
+      pending.res.json(pending.responses.length === 1 ? pending.responses[0] : pending.responses);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.pending.forEach(({ res }) => res.end());
+    this.pending.clear();
+    this.onclose?.();
+  }
+}
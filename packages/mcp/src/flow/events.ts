@@ -0,0 +1,92 @@
+import { EventEmitter } from 'events';
+import type { FlowEvents, RedisFlowClient } from './types';
+
+/** Coordinates the flows of a single instance, in memory */
+export class LocalFlowEvents implements FlowEvents {
+  private emitter = new EventEmitter();
+  /** Expiry times of the claimed flows, by flow key */
+  private claims: Map<string, number> = new Map();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async claim(flowKey: string, ttl: number): Promise<boolean> {
+    const expiresAt = this.claims.get(flowKey);
+    if (expiresAt != null && expiresAt > Date.now()) {
+      return false;
+    }
+    this.claims.set(flowKey, Date.now() + ttl);
+    return true;
+  }
+
+  async release(flowKey: string): Promise<void> {
+    this.claims.delete(flowKey);
+  }
+
+  async publish(flowKey: string): Promise<void> {
+    this.emitter.emit(flowKey);
+  }
+
+  async subscribe(flowKey: string, listener: () => void): Promise<() => Promise<void>> {
+    this.emitter.on(flowKey, listener);
+    return async () => {
+      this.emitter.off(flowKey, listener);
+    };
+  }
+}
+
+/**
+ * Coordinates flows across instances sharing a Redis server: flows are claimed with `SET NX`,
+ * and changes are published to the instances waiting on them.
+ * The subscriber must be a connection of its own, as subscribed connections cannot run other commands.
+ */
+export class RedisFlowEvents implements FlowEvents {
+  private emitter = new EventEmitter();
+  private readonly prefix: string;
+
+  constructor(
+    private readonly publisher: RedisFlowClient,
+    private readonly subscriber: RedisFlowClient,
+    prefix = 'flows',
+  ) {
+    this.prefix = prefix;
+    this.emitter.setMaxListeners(0);
+    this.subscriber.on('message', (channel: string) => this.emitter.emit(channel));
+  }
+
+  private getClaimKey(flowKey: string): string {
+    return `${this.prefix}:claim:${flowKey}`;
+  }
+
+  private getChannel(flowKey: string): string {
+    return `${this.prefix}:changed:${flowKey}`;
+  }
+
+  async claim(flowKey: string, ttl: number): Promise<boolean> {
+    const result = await this.publisher.set(this.getClaimKey(flowKey), '1', 'PX', ttl, 'NX');
+    return result === 'OK';
+  }
+
+  async release(flowKey: string): Promise<void> {
+    await this.publisher.del(this.getClaimKey(flowKey));
+  }
+
+  async publish(flowKey: string): Promise<void> {
+    await this.publisher.publish(this.getChannel(flowKey), '1');
+  }
+
+  async subscribe(flowKey: string, listener: () => void): Promise<() => Promise<void>> {
+    const channel = this.getChannel(flowKey);
+    if (this.emitter.listenerCount(channel) === 0) {
+      await this.subscriber.subscribe(channel);
+    }
+    this.emitter.on(channel, listener);
+    return async () => {
+      this.emitter.off(channel, listener);
+      if (this.emitter.listenerCount(channel) === 0) {
+        await this.subscriber.unsubscribe(channel);
+      }
+    };
+  }
+}
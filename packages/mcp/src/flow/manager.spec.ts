@@ -1,6 +1,8 @@
+import { EventEmitter } from 'events';
 import { FlowStateManager } from './manager';
+import { RedisFlowEvents } from './events';
 import Keyv from 'keyv';
-import type { FlowState } from './types';
+import type { FlowState, RedisFlowClient } from './types';
 
 // Create a mock class without extending Keyv
 class MockKeyv {
@@ -25,6 +27,40 @@ class MockKeyv {
   }
 }
 
+/** An in-memory Redis server, shared by the connections of several instances */
+class MockRedisServer {
+  keys: Map<string, number> = new Map();
+  bus = new EventEmitter();
+
+  connect(): RedisFlowClient {
+    const channels: Set<string> = new Set();
+    const connection = new EventEmitter();
+    this.bus.on('message', (channel: string, message: string) => {
+      if (channels.has(channel)) {
+        connection.emit('message', channel, message);
+      }
+    });
+    return {
+      set: async (key, _value, _px, ttl) => {
+        const expiresAt = this.keys.get(key);
+        if (expiresAt != null && expiresAt > Date.now()) {
+          return null;
+        }
+        this.keys.set(key, Date.now() + ttl);
+        return 'OK';
+      },
+      del: async (key) => Number(this.keys.delete(key)),
+      publish: async (channel, message) => {
+        setImmediate(() => this.bus.emit('message', channel, message));
+        return 1;
+      },
+      subscribe: async (channel) => channels.add(channel),
+      unsubscribe: async (channel) => channels.delete(channel),
+      on: (event, listener) => connection.on(event, listener),
+    };
+  }
+}
+
 describe('FlowStateManager', () => {
   let flowManager: FlowStateManager<string>;
   let store: MockKeyv;
@@ -149,4 +185,95 @@ describe('FlowStateManager', () => {
       await expect(flowPromise).rejects.toThrow('failure');
     }, 15000);
   });
+
+  it('should not install process signal handlers', () => {
+    const listeners = process.listenerCount('SIGTERM');
+    new FlowStateManager(store as unknown as Keyv, { ttl: 1000, ci: true });
+    expect(process.listenerCount('SIGTERM')).toBe(listeners);
+  });
+
+  it('should complete flows without polling', async () => {
+    const flowPromise = flowManager.createFlow('fast-flow', 'test-type');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const start = Date.now();
+    await flowManager.completeFlow('fast-flow', 'test-type', 'result');
+    expect(await flowPromise).toBe('result');
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+
+  it('should stop waiting when aborted, leaving the flow pending', async () => {
+    const controller = new AbortController();
+    const flowPromise = flowManager.createFlow('aborted-flow', 'test-type', {}, controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    controller.abort();
+    await expect(flowPromise).rejects.toThrow('test-type flow aborted');
+    expect(await flowManager.getFlowState('aborted-flow', 'test-type')).toMatchObject({
+      status: 'PENDING',
+    });
+  });
+
+  it('should retry failed flows', async () => {
+    const failing = flowManager.createFlowWithHandler('retry-flow', 'test-type', async () => {
+      throw new Error('failure');
+    });
+    await expect(failing).rejects.toThrow('failure');
+
+    const handler = jest.fn(async () => 'result');
+    expect(await flowManager.createFlowWithHandler('retry-flow', 'test-type', handler)).toBe(
+      'result',
+    );
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  describe('Multiple instances', () => {
+    let redis: MockRedisServer;
+    let instances: FlowStateManager<string>[];
+
+    beforeEach(() => {
+      redis = new MockRedisServer();
+      instances = [0, 1].map(
+        () =>
+          new FlowStateManager<string>(store as unknown as Keyv, {
+            ttl: 30000,
+            ci: true,
+            events: new RedisFlowEvents(redis.connect(), redis.connect()),
+          }),
+      );
+    });
+
+    it('should resolve a flow completed by another instance', async () => {
+      const [first, second] = instances;
+      const flowPromise = first.createFlow('shared-flow', 'test-type');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(await second.completeFlow('shared-flow', 'test-type', 'result')).toBe(true);
+      expect(await flowPromise).toBe('result');
+    });
+
+    it('should reject a flow failed by another instance', async () => {
+      const [first, second] = instances;
+      const flowPromise = first.createFlow('failed-flow', 'test-type');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await second.failFlow('failed-flow', 'test-type', 'failure');
+      await expect(flowPromise).rejects.toThrow('failure');
+    });
+
+    it('should run the handler of a flow once across instances', async () => {
+      const handler = jest.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return 'result';
+      });
+
+      const results = await Promise.all(
+        instances.map((instance) =>
+          instance.createFlowWithHandler('handled-flow', 'test-type', handler),
+        ),
+      );
+      expect(results).toEqual(['result', 'result']);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
 });
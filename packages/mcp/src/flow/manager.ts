@@ -1,12 +1,13 @@
 import Keyv from 'keyv';
 import type { Logger } from 'winston';
-import type { FlowState, FlowMetadata, FlowManagerOptions } from './types';
+import type { FlowState, FlowEvents, FlowMetadata, FlowManagerOptions } from './types';
+import { LocalFlowEvents } from './events';
 
 export class FlowStateManager<T = unknown> {
   private keyv: Keyv;
   private ttl: number;
   private logger: Logger;
-  private intervals: Set<NodeJS.Timeout>;
+  private events: FlowEvents;
 
   private static getDefaultLogger(): Logger {
     return {
@@ -21,7 +22,7 @@ export class FlowStateManager<T = unknown> {
     if (!options) {
       options = { ttl: 60000 * 3 };
     }
-    const { ci = false, ttl, logger } = options;
+    const { ci = false, ttl, logger, events } = options;
 
     if (!ci && !(store instanceof Keyv)) {
       throw new Error('Invalid store provided to FlowStateManager');
@@ -30,22 +31,7 @@ export class FlowStateManager<T = unknown> {
     this.ttl = ttl;
     this.keyv = store;
     this.logger = logger || FlowStateManager.getDefaultLogger();
-    this.intervals = new Set();
-    this.setupCleanupHandlers();
-  }
-
-  private setupCleanupHandlers() {
-    const cleanup = () => {
-      this.logger.info('Cleaning up FlowStateManager intervals...');
-      this.intervals.forEach((interval) => clearInterval(interval));
-      this.intervals.clear();
-      process.exit(0);
-    };
-
-    process.on('SIGTERM', cleanup);
-    process.on('SIGINT', cleanup);
-    process.on('SIGQUIT', cleanup);
-    process.on('SIGHUP', cleanup);
+    this.events = events ?? new LocalFlowEvents();
   }
 
   private getFlowKey(flowId: string, type: string): string {
@@ -53,23 +39,22 @@ export class FlowStateManager<T = unknown> {
   }
 
   /**
-   * Creates a new flow and waits for its completion
+   * Atomically creates the flow's initial state, unless another caller already has.
+   * A failed flow is replaced, so that it can be retried.
+   * @returns Whether the flow was created by this call
    */
-  async createFlow(flowId: string, type: string, metadata: FlowMetadata = {}): Promise<T> {
-    const flowKey = this.getFlowKey(flowId, type);
-
-    let existingState = (await this.keyv.get(flowKey)) as FlowState<T> | undefined;
-    if (existingState) {
+  private async initializeFlow(
+    flowKey: string,
+    type: string,
+    metadata: FlowMetadata,
+  ): Promise<boolean> {
+    const claimed = await this.events.claim(flowKey, this.ttl);
+    const existingState = claimed
+      ? ((await this.keyv.get(flowKey)) as FlowState | undefined)
+      : undefined;
+    if (!claimed || (existingState && existingState.status !== 'FAILED')) {
       this.logger.debug(`[${flowKey}] Flow already exists`);
-      return this.monitorFlow(flowKey, type);
-    }
-
-    await new Promise((resolve) => setTimeout(resolve, 250));
-
-    existingState = (await this.keyv.get(flowKey)) as FlowState<T> | undefined;
-    if (existingState) {
-      this.logger.debug(`[${flowKey}] Flow exists on 2nd check`);
-      return this.monitorFlow(flowKey, type);
+      return false;
     }
 
     const initialState: FlowState = {
@@ -78,65 +63,113 @@ export class FlowStateManager<T = unknown> {
       metadata,
       createdAt: Date.now(),
     };
-
-    this.logger.debug('Creating initial flow state:', flowKey);
+    this.logger.debug(`[${flowKey}] Creating initial flow state`);
     await this.keyv.set(flowKey, initialState, this.ttl);
-    return this.monitorFlow(flowKey, type);
+    return true;
+  }
+
+  private async deleteFlow(flowKey: string): Promise<void> {
+    await this.keyv.delete(flowKey);
+    await this.events.release(flowKey);
   }
 
-  private monitorFlow(flowKey: string, type: string): Promise<T> {
+  /**
+   * Creates a new flow and waits for its completion
+   * @param signal - Stops waiting for the flow, leaving it to other callers
+   */
+  async createFlow(
+    flowId: string,
+    type: string,
+    metadata: FlowMetadata = {},
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const flowKey = this.getFlowKey(flowId, type);
+    await this.initializeFlow(flowKey, type, metadata);
+    return this.monitorFlow(flowKey, type, signal);
+  }
+
+  /** Waits for the flow to complete or fail, as published by any instance */
+  private monitorFlow(flowKey: string, type: string, signal?: AbortSignal): Promise<T> {
     return new Promise<T>((resolve, reject) => {
-      const checkInterval = 2000;
-      let elapsedTime = 0;
+      let settled = false;
+      const timeoutId = setTimeout(() => onTimeout(), this.ttl);
+      let unsubscribe: (() => Promise<void>) | undefined;
 
-      const intervalId = setInterval(async () => {
+      const settle = (callback: () => void) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        unsubscribe?.().catch((error) =>
+          this.logger.error(`[${flowKey}] Error unsubscribing from flow:`, error),
+        );
+        callback();
+      };
+
+      const onAbort = () => {
+        this.logger.debug(`[${flowKey}] Stopped waiting for the flow`);
+        settle(() => reject(new Error(`${type} flow aborted`)));
+      };
+
+      const onTimeout = async () => {
+        if (settled) {
+          return;
+        }
+        this.logger.error(`[${flowKey}] Flow timed out | TTL: ${this.ttl}`);
+        settle(() => reject(new Error(`${type} flow timed out`)));
+        await this.deleteFlow(flowKey).catch((error) =>
+          this.logger.error(`[${flowKey}] Error deleting flow:`, error),
+        );
+      };
+
+      const checkFlow = async () => {
+        if (settled) {
+          return;
+        }
         try {
           const flowState = (await this.keyv.get(flowKey)) as FlowState<T> | undefined;
-
           if (!flowState) {
-            clearInterval(intervalId);
-            this.intervals.delete(intervalId);
             this.logger.error(`[${flowKey}] Flow state not found`);
-            reject(new Error(`${type} Flow state not found`));
+            settle(() => reject(new Error(`${type} Flow state not found`)));
             return;
           }
 
-          if (flowState.status !== 'PENDING') {
-            clearInterval(intervalId);
-            this.intervals.delete(intervalId);
+          if (flowState.status === 'COMPLETED') {
             this.logger.debug(`[${flowKey}] Flow completed`);
-
-            if (flowState.status === 'COMPLETED' && flowState.result !== undefined) {
-              resolve(flowState.result);
-            } else if (flowState.status === 'FAILED') {
-              await this.keyv.delete(flowKey);
-              reject(new Error(flowState.error ?? `${type} flow failed`));
-            }
-            return;
+            settle(() => resolve(flowState.result as T));
+          } else if (flowState.status === 'FAILED') {
+            this.logger.debug(`[${flowKey}] Flow failed`);
+            settle(() => reject(new Error(flowState.error ?? `${type} flow failed`)));
           }
-
-          elapsedTime += checkInterval;
-          if (elapsedTime >= this.ttl) {
-            clearInterval(intervalId);
-            this.intervals.delete(intervalId);
-            this.logger.error(
-              `[${flowKey}] Flow timed out | Elapsed time: ${elapsedTime} | TTL: ${this.ttl}`,
-            );
-            await this.keyv.delete(flowKey);
-            reject(new Error(`${type} flow timed out`));
-          }
-          this.logger.debug(
-            `[${flowKey}] Flow state elapsed time: ${elapsedTime}, checking again...`,
-          );
         } catch (error) {
           this.logger.error(`[${flowKey}] Error checking flow state:`, error);
-          clearInterval(intervalId);
-          this.intervals.delete(intervalId);
-          reject(error);
+          settle(() => reject(error));
         }
-      }, checkInterval);
-
-      this.intervals.add(intervalId);
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      /** Subscribes before the first check, so that no change is missed in between */
+      this.events
+        .subscribe(flowKey, checkFlow)
+        .then((remove) => {
+          if (settled) {
+            remove().catch(() => undefined);
+            return;
+          }
+          unsubscribe = remove;
+          return checkFlow();
+        })
+        .catch((error) => {
+          this.logger.error(`[${flowKey}] Error subscribing to flow:`, error);
+          settle(() => reject(error));
+        });
     });
   }
 
@@ -159,6 +192,7 @@ export class FlowStateManager<T = unknown> {
     };
 
     await this.keyv.set(flowKey, updatedState, this.ttl);
+    await this.events.publish(flowKey);
     return true;
   }
 
@@ -181,6 +215,8 @@ export class FlowStateManager<T = unknown> {
     };
 
     await this.keyv.set(flowKey, updatedState, this.ttl);
+    await this.events.release(flowKey);
+    await this.events.publish(flowKey);
     return true;
   }
 
@@ -198,37 +234,21 @@ export class FlowStateManager<T = unknown> {
    * @param type - The type of flow
    * @param handler - Async function to execute if no existing flow is found
    * @param metadata - Optional metadata for the flow
+   * @param signal - Stops waiting for an existing flow
    */
   async createFlowWithHandler(
     flowId: string,
     type: string,
     handler: () => Promise<T>,
     metadata: FlowMetadata = {},
+    signal?: AbortSignal,
   ): Promise<T> {
     const flowKey = this.getFlowKey(flowId, type);
-    let existingState = (await this.keyv.get(flowKey)) as FlowState<T> | undefined;
-    if (existingState) {
-      this.logger.debug(`[${flowKey}] Flow already exists`);
-      return this.monitorFlow(flowKey, type);
+    const created = await this.initializeFlow(flowKey, type, metadata);
+    if (!created) {
+      return this.monitorFlow(flowKey, type, signal);
     }
 
-    await new Promise((resolve) => setTimeout(resolve, 250));
-
-    existingState = (await this.keyv.get(flowKey)) as FlowState<T> | undefined;
-    if (existingState) {
-      this.logger.debug(`[${flowKey}] Flow exists on 2nd check`);
-      return this.monitorFlow(flowKey, type);
-    }
-
-    const initialState: FlowState = {
-      type,
-      status: 'PENDING',
-      metadata,
-      createdAt: Date.now(),
-    };
-    this.logger.debug(`[${flowKey}] Creating initial flow state`);
-    await this.keyv.set(flowKey, initialState, this.ttl);
-
     try {
       const result = await handler();
       await this.completeFlow(flowId, type, result);
@@ -20,4 +20,31 @@ export interface FlowManagerOptions {
   ttl: number;
   ci?: boolean;
   logger?: Logger;
+  /** Defaults to coordinating the flows of this instance only */
+  events?: FlowEvents;
+}
+
+/**
+ * Coordinates flows between the callers creating, completing and waiting on them,
+ * including callers on other instances when backed by a shared server.
+ */
+export interface FlowEvents {
+  /** Claims the creation of a flow, resolving false if another caller has claimed it first */
+  claim(flowKey: string, ttl: number): Promise<boolean>;
+  /** Releases the claim of a deleted flow, so that it can be created again */
+  release(flowKey: string): Promise<void>;
+  /** Notifies the callers waiting on a flow that its state changed */
+  publish(flowKey: string): Promise<void>;
+  /** Calls the listener whenever the flow's state changes, until unsubscribed */
+  subscribe(flowKey: string, listener: () => void): Promise<() => Promise<void>>;
+}
+
+/** The commands of a Redis client, such as `ioredis`, used to coordinate flows */
+export interface RedisFlowClient {
+  set(key: string, value: string, px: 'PX', ttl: number, nx: 'NX'): Promise<'OK' | null>;
+  del(key: string): Promise<number>;
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
 }
@@ -1,7 +1,14 @@
 /* MCP */
 export * from './manager';
+/* Utils */
+export * from './utils';
+/* OAuth */
+export * from './oauth/handler';
+export * from './oauth/tokens';
 /* Flow */
 export * from './flow/manager';
+export * from './flow/events';
 /* types */
 export type * from './types/mcp';
 export type * from './flow/types';
+export type * from './oauth/types';
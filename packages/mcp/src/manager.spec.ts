@@ -0,0 +1,606 @@
+import type { Logger } from 'winston';
+import type * as t from './types/mcp';
+import type { FlowStateManager } from './flow/manager';
+import type { MCPOAuthTokens, MCPStoredToken, MCPTokenMethods } from './oauth/types';
+import { initiateOAuthFlow, refreshOAuthTokens } from './oauth/handler';
+import { MCPManager } from './manager';
+
+jest.mock('@modelcontextprotocol/sdk/types.js', () => {
+  const { McpError, ErrorCode } = jest.requireActual('@modelcontextprotocol/sdk/types.js');
+  return { CallToolResultSchema: {}, McpError, ErrorCode };
+});
+
+jest.mock('./oauth/handler', () => ({
+  ...jest.requireActual('./oauth/handler'),
+  initiateOAuthFlow: jest.fn(),
+  refreshOAuthTokens: jest.fn(),
+}));
+
+jest.mock('./connection', () => {
+  class MockConnection {
+    public serverName: string;
+    public options: unknown;
+    public connected = false;
+    public client = {
+      getServerCapabilities: () => ({ tools: {} }),
+      listTools: async () => ({ tools: [] }),
+      request: async () => ({ content: [{ type: 'text', text: 'result' }] }),
+      readResource: async ({ uri }: { uri: string }) => ({ contents: [{ uri, text: 'contents' }] }),
+    };
+
+    constructor(serverName: string, options: unknown) {
+      this.serverName = serverName;
+      this.options = options;
+    }
+
+    on() {
+      return this;
+    }
+
+    async connect() {
+      const { url } = this.options as { url?: string };
+      if (url?.includes('unauthorized') === true) {
+        const { MCPHTTPError } = jest.requireActual('./transports/errors');
+        throw new MCPHTTPError('Unauthorized', 401);
+      }
+      this.connected = true;
+    }
+
+    async disconnect() {
+      this.connected = false;
+    }
+
+    isConnected() {
+      return this.connected;
+    }
+
+    getConnectionState() {
+      return this.connected ? 'connected' : 'disconnected';
+    }
+
+    getLastError() {
+      return null;
+    }
+
+    getReconnectAttempts() {
+      return 0;
+    }
+
+    async fetchTools() {
+      return [{ name: 'search', description: 'Search', inputSchema: { type: 'object' } }];
+    }
+  }
+  return { MCPConnection: MockConnection };
+});
+
+type MockConnection = {
+  options: t.StdioOptions;
+  connected: boolean;
+};
+
+const logger = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+} as unknown as Logger;
+
+const mcpServers: t.MCPServers = {
+  shared: {
+    command: 'node',
+    args: ['shared.js'],
+  },
+  private: {
+    command: 'node',
+    args: ['private.js', '--key={{API_KEY}}'],
+    env: { API_KEY: '{{API_KEY}}' },
+    customUserVars: {
+      API_KEY: { title: 'API Key', description: 'Your API key' },
+    },
+  },
+};
+
+describe('MCPManager per-user connections', () => {
+  let manager: MCPManager;
+
+  beforeEach(async () => {
+    manager = MCPManager.getInstance(logger);
+    await manager.initializeMCP(mcpServers, { maxUserStdioConnections: 2 });
+  });
+
+  afterEach(async () => {
+    await MCPManager.destroyInstance();
+  });
+
+  it('should list tools of user-scoped servers without keeping a shared connection', async () => {
+    expect(manager.getConnection('shared')).toBeDefined();
+    expect(manager.getConnection('private')).toBeUndefined();
+    expect(manager.isUserScopedServer('private')).toBe(true);
+    expect(manager.isUserScopedServer('shared')).toBe(false);
+
+    const availableTools: t.LCAvailableTools = {};
+    await manager.mapAvailableTools(availableTools);
+    expect(Object.keys(availableTools).sort()).toEqual(['search_mcp_private', 'search_mcp_shared']);
+  });
+
+  it('should list tools of user-scoped servers at startup without user values', async () => {
+    await MCPManager.destroyInstance();
+    const { MCPConnection } = jest.requireMock('./connection');
+    const connectSpy = jest.spyOn(MCPConnection.prototype, 'connect');
+    manager = MCPManager.getInstance(logger);
+    await manager.initializeMCP(mcpServers);
+
+    const startup = (connectSpy.mock.contexts as MockConnection[]).find(
+      (connection) => connection.options.args[0] === 'private.js',
+    );
+    expect(startup?.options.env).toEqual({ API_KEY: '' });
+    expect(startup?.options.args).toEqual(['private.js', '--key=']);
+    expect(startup?.connected).toBe(false);
+    connectSpy.mockRestore();
+  });
+
+  it('should report user-scoped servers failing to start without user values', async () => {
+    await MCPManager.destroyInstance();
+    manager = MCPManager.getInstance(logger);
+    await manager.initializeMCP({
+      remote: {
+        type: 'streamable-http',
+        url: 'https://example.com/unauthorized?key={{API_KEY}}',
+        customUserVars: { API_KEY: { title: 'API Key' } },
+      },
+    });
+
+    expect(manager.getServerStatus('remote')).toMatchObject({ perUser: true, state: 'error' });
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('Listing tools without user values failed'),
+      expect.anything(),
+    );
+  });
+
+  it('should request user variables through the tool auth config', async () => {
+    const manifestTools: t.LCToolManifest = [];
+    await manager.loadManifestTools(manifestTools);
+
+    const privateTool = manifestTools.find((tool) => tool.pluginKey === 'search_mcp_private');
+    const sharedTool = manifestTools.find((tool) => tool.pluginKey === 'search_mcp_shared');
+    expect(privateTool?.authConfig).toEqual([
+      { authField: 'API_KEY_mcp_private', label: 'API Key', description: 'Your API key' },
+    ]);
+    expect(sharedTool?.authConfig).toBeUndefined();
+  });
+
+  it('should start one connection per user with the user values', async () => {
+    const first = (await manager.getUserConnection('user1', 'private', {
+      API_KEY: 'key1',
+    })) as unknown as MockConnection;
+    const second = (await manager.getUserConnection('user2', 'private', {
+      API_KEY: 'key2',
+    })) as unknown as MockConnection;
+
+    expect(first).not.toBe(second);
+    expect(first.options.env).toEqual({ API_KEY: 'key1' });
+    expect(first.options.args).toEqual(['private.js', '--key=key1']);
+    expect(second.options.env).toEqual({ API_KEY: 'key2' });
+
+    const again = await manager.getUserConnection('user1', 'private', { API_KEY: 'key1' });
+    expect(again).toBe(first);
+  });
+
+  it('should replace a connection when the user values change', async () => {
+    const first = (await manager.getUserConnection('user1', 'private', {
+      API_KEY: 'key1',
+    })) as unknown as MockConnection;
+    const updated = (await manager.getUserConnection('user1', 'private', {
+      API_KEY: 'updated',
+    })) as unknown as MockConnection;
+
+    expect(updated).not.toBe(first);
+    expect(first.connected).toBe(false);
+    expect(updated.options.env).toEqual({ API_KEY: 'updated' });
+  });
+
+  it('should share one connection between concurrent requests', async () => {
+    const { MCPConnection } = jest.requireMock('./connection');
+    const connectSpy = jest.spyOn(MCPConnection.prototype, 'connect');
+
+    const [first, second] = await Promise.all([
+      manager.getUserConnection('user1', 'private', { API_KEY: 'key1' }),
+      manager.getUserConnection('user1', 'private', { API_KEY: 'key1' }),
+    ]);
+
+    expect(second).toBe(first);
+    expect(first.isConnected()).toBe(true);
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+    connectSpy.mockRestore();
+  });
+
+  it('should replace a pending connection only once it is connected', async () => {
+    const [first, updated] = (await Promise.all([
+      manager.getUserConnection('user1', 'private', { API_KEY: 'key1' }),
+      manager.getUserConnection('user1', 'private', { API_KEY: 'updated' }),
+    ])) as unknown as MockConnection[];
+
+    expect(first.connected).toBe(false);
+    expect(updated.connected).toBe(true);
+    expect(updated.options.env).toEqual({ API_KEY: 'updated' });
+    expect(
+      manager.getServerStatuses().find(({ serverName }) => serverName === 'private'),
+    ).toMatchObject({
+      userConnections: 1,
+    });
+  });
+
+  it('should reject missing user values', async () => {
+    await expect(manager.getUserConnection('user1', 'private', {})).rejects.toThrow('API Key');
+    await expect(manager.getUserConnection('user1', 'shared', {})).rejects.toThrow(
+      'not connected per user',
+    );
+  });
+
+  it('should limit the number of per-user stdio processes', async () => {
+    await manager.getUserConnection('user1', 'private', { API_KEY: 'key1' });
+    await manager.getUserConnection('user2', 'private', { API_KEY: 'key2' });
+
+    await expect(
+      manager.getUserConnection('user3', 'private', { API_KEY: 'key3' }),
+    ).rejects.toThrow('Too many MCP server processes');
+
+    await manager.disconnectUserConnections('user1');
+    await expect(
+      manager.getUserConnection('user3', 'private', { API_KEY: 'key3' }),
+    ).resolves.toBeDefined();
+  });
+
+  it('should close idle user connections', async () => {
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const connection = (await manager.getUserConnection('user1', 'private', {
+      API_KEY: 'key1',
+    })) as unknown as MockConnection;
+
+    dateSpy.mockReturnValue(now + 15 * 60 * 1000 + 1);
+    await manager.checkIdleConnections();
+
+    expect(connection.connected).toBe(false);
+    const next = await manager.getUserConnection('user1', 'private', { API_KEY: 'key1' });
+    expect(next).not.toBe(connection);
+  });
+
+  it('should call tools of user-scoped servers on the user connection', async () => {
+    const [content] = await manager.callTool({
+      serverName: 'private',
+      toolName: 'search',
+      provider: 'openAI',
+      toolArguments: { query: 'test' },
+      userId: 'user1',
+      customUserVars: { API_KEY: 'key1' },
+    });
+    expect(content).toEqual([{ type: 'text', text: 'result' }]);
+
+    await expect(
+      manager.callTool({ serverName: 'private', toolName: 'search', provider: 'openAI' }),
+    ).rejects.toThrow('A user is required');
+  });
+
+  it('should list resources only of servers supporting them', async () => {
+    await expect(manager.listResources({ serverName: 'shared' })).resolves.toEqual([]);
+  });
+
+  it('should read resources of user-scoped servers on the user connection', async () => {
+    const contents = await manager.readResource({
+      serverName: 'private',
+      uri: 'file:///notes.md',
+      userId: 'user1',
+      customUserVars: { API_KEY: 'key1' },
+    });
+    expect(contents).toEqual([{ uri: 'file:///notes.md', text: 'contents' }]);
+    await expect(
+      manager.readResource({ serverName: 'private', uri: 'file:///notes.md' }),
+    ).rejects.toThrow('A user is required');
+  });
+});
+
+describe('MCPManager OAuth connections', () => {
+  const remote: t.MCPOptions = { type: 'sse', url: 'https://example.com/sse', requiresOAuth: true };
+  const client = { client_id: 'client', token_url: 'https://example.com/token' };
+  let manager: MCPManager;
+  let tokens: Map<string, MCPStoredToken>;
+  let flowManager: {
+    getFlowState: jest.Mock;
+    createFlow: jest.Mock;
+    createFlowWithHandler: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    tokens = new Map();
+    const tokenMethods: MCPTokenMethods = {
+      findToken: async ({ identifier }) => tokens.get(identifier) ?? null,
+      storeToken: async ({ identifier, token }) => {
+        tokens.set(identifier, { token, expiresAt: new Date(Date.now() + 60000) });
+      },
+    };
+    flowManager = {
+      getFlowState: jest.fn().mockResolvedValue(undefined),
+      createFlow: jest
+        .fn()
+        .mockResolvedValue({ access_token: 'access-1', refresh_token: 'refresh-1' }),
+      createFlowWithHandler: jest.fn((_id, _type, handler: () => Promise<unknown>) => handler()),
+    };
+    jest.mocked(initiateOAuthFlow).mockResolvedValue({
+      serverName: 'remote',
+      userId: 'user1',
+      state: 'state',
+      codeVerifier: 'verifier',
+      redirectUri: 'https://chat.example.com/api/mcp/remote/oauth/callback',
+      authorizationUrl: 'https://example.com/authorize?state=state',
+      tokenUrl: client.token_url,
+      clientInfo: { client_id: client.client_id },
+    });
+    jest.mocked(refreshOAuthTokens).mockResolvedValue({ access_token: 'access-2' });
+
+    manager = MCPManager.getInstance(logger);
+    await manager.initializeMCP(
+      { remote },
+      {},
+      {
+        flowManager: flowManager as unknown as FlowStateManager<MCPOAuthTokens>,
+        tokenMethods,
+        getRedirectUri: (serverName) =>
+          `https://chat.example.com/api/mcp/${serverName}/oauth/callback`,
+      },
+    );
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await MCPManager.destroyInstance();
+  });
+
+  const getHeaders = (connection: unknown) =>
+    (connection as { options: t.SSEOptions }).options.headers;
+
+  it('should ask the user to sign in and store the tokens', async () => {
+    const oauthStart = jest.fn().mockResolvedValue(undefined);
+    const oauthEnd = jest.fn().mockResolvedValue(undefined);
+
+    const connection = await manager.getUserConnection(
+      'user1',
+      'remote',
+      {},
+      {
+        oauthStart,
+        oauthEnd,
+      },
+    );
+
+    expect(oauthStart).toHaveBeenCalledWith('https://example.com/authorize?state=state');
+    expect(flowManager.createFlow).toHaveBeenCalledWith(
+      'user1_mcp_remote',
+      'mcp_oauth',
+      expect.objectContaining({ state: 'state' }),
+    );
+    expect(oauthEnd).toHaveBeenCalled();
+    expect(getHeaders(connection)).toEqual({ Authorization: 'Bearer access-1' });
+    expect(tokens.get('user1_mcp_remote')?.token).toBe('access-1');
+    expect(tokens.get('user1_mcp_remote:refresh')?.token).toBe('refresh-1');
+    expect(JSON.parse(tokens.get('user1_mcp_remote:client')?.token ?? '')).toEqual(client);
+  });
+
+  it('should use a stored access token without signing in', async () => {
+    tokens.set('user1_mcp_remote', { token: 'stored', expiresAt: new Date() });
+
+    const connection = await manager.getUserConnection('user1', 'remote');
+
+    expect(getHeaders(connection)).toEqual({ Authorization: 'Bearer stored' });
+    expect(initiateOAuthFlow).not.toHaveBeenCalled();
+  });
+
+  it('should refresh an expired access token', async () => {
+    tokens.set('user1_mcp_remote:refresh', { token: 'refresh-1', expiresAt: new Date() });
+    tokens.set('user1_mcp_remote:client', { token: JSON.stringify(client), expiresAt: new Date() });
+
+    const connection = await manager.getUserConnection('user1', 'remote');
+
+    expect(refreshOAuthTokens).toHaveBeenCalledWith('refresh-1', client);
+    expect(getHeaders(connection)).toEqual({ Authorization: 'Bearer access-2' });
+    expect(tokens.get('user1_mcp_remote')?.token).toBe('access-2');
+    expect(tokens.get('user1_mcp_remote:refresh')?.token).toBe('refresh-1');
+  });
+
+  it('should require signing in when the user cannot be prompted', async () => {
+    await expect(manager.getUserConnection('user1', 'remote')).rejects.toThrow(
+      'Sign-in to MCP server "remote" is required',
+    );
+  });
+});
+
+describe('MCPManager server health', () => {
+  let manager: MCPManager;
+  let availableTools: t.LCAvailableTools;
+
+  beforeEach(async () => {
+    manager = MCPManager.getInstance(logger);
+    await manager.initializeMCP({
+      ...mcpServers,
+      /** Fails right away, as unauthorized connections are not retried */
+      broken: { type: 'streamable-http', url: 'https://example.com/unauthorized' },
+    });
+    availableTools = {};
+    await manager.mapAvailableTools(availableTools);
+  });
+
+  afterEach(async () => {
+    await MCPManager.destroyInstance();
+  });
+
+  it('should report the state of every configured server', () => {
+    expect(manager.getServerStatuses()).toEqual([
+      expect.objectContaining({
+        serverName: 'shared',
+        type: 'stdio',
+        perUser: false,
+        state: 'connected',
+        capabilities: ['tools'],
+        reconnectAttempts: 0,
+        userConnections: 0,
+      }),
+      expect.objectContaining({
+        serverName: 'private',
+        perUser: true,
+        state: 'connected',
+        toolCount: 1,
+      }),
+      expect.objectContaining({
+        serverName: 'broken',
+        type: 'streamable-http',
+        state: 'error',
+        lastError: 'Unauthorized',
+      }),
+    ]);
+  });
+
+  it('should record the latency of the last tool call', async () => {
+    await manager.callTool({ serverName: 'shared', toolName: 'search', provider: 'openAI' });
+
+    const status = manager.getServerStatus('shared');
+    expect(status.lastCallLatency).toEqual(expect.any(Number));
+    expect(status.lastCallAt).toEqual(expect.any(String));
+  });
+
+  it('should disconnect and reconnect a server', async () => {
+    await manager.getUserConnection('user1', 'private', { API_KEY: 'key1' });
+    expect(manager.getServerStatus('private').userConnections).toBe(1);
+
+    await manager.disconnectServer('shared');
+    await manager.disconnectServer('private');
+    expect(manager.getServerStatus('shared').state).toBe('disconnected');
+    expect(manager.getServerStatus('private').userConnections).toBe(0);
+
+    await manager.reconnectServer('shared');
+    expect(manager.getConnection('shared')?.isConnected()).toBe(true);
+    expect(availableTools).toHaveProperty('search_mcp_shared');
+    await expect(manager.reconnectServer('unknown')).rejects.toThrow('is not configured');
+  });
+
+  it('should apply added, changed and removed servers on reload', async () => {
+    const previous = manager.getConnection('shared');
+
+    const result = await manager.reloadServers({
+      shared: { command: 'node', args: ['shared.js', '--verbose'] },
+      added: { command: 'node', args: ['added.js'] },
+    });
+
+    expect(result).toEqual({
+      added: ['added'],
+      updated: ['shared'],
+      removed: ['private', 'broken'],
+    });
+    expect(previous?.isConnected()).toBe(false);
+    expect(manager.getConnection('shared')).not.toBe(previous);
+    expect(Object.keys(availableTools).sort()).toEqual(['search_mcp_added', 'search_mcp_shared']);
+    expect(manager.getServerStatuses().map(({ serverName }) => serverName)).toEqual([
+      'shared',
+      'added',
+    ]);
+  });
+});
+
+describe('MCPManager tool access', () => {
+  let manager: MCPManager;
+
+  beforeEach(async () => {
+    manager = MCPManager.getInstance(logger);
+    await manager.initializeMCP({
+      shared: { ...mcpServers.shared, roles: ['ADMIN'], requiresApproval: ['search'] },
+      hidden: { command: 'node', args: ['hidden.js'], excludeTools: ['search'] },
+    });
+  });
+
+  afterEach(async () => {
+    await MCPManager.destroyInstance();
+  });
+
+  it('should leave out excluded tools', async () => {
+    const availableTools: t.LCAvailableTools = {};
+    await manager.mapAvailableTools(availableTools);
+    const manifestTools: t.LCToolManifest = [];
+    await manager.loadManifestTools(manifestTools);
+
+    expect(Object.keys(availableTools)).toEqual(['search_mcp_shared']);
+    expect(manifestTools.map(({ pluginKey }) => pluginKey)).toEqual(['search_mcp_shared']);
+    await expect(
+      manager.callTool({ serverName: 'hidden', toolName: 'search', provider: 'openAI' }),
+    ).rejects.toThrow('is not exposed');
+  });
+
+  it('should report the availability and approval of tools', () => {
+    expect(manager.isToolAvailable('shared', 'search', 'ADMIN')).toBe(true);
+    expect(manager.isToolAvailable('shared', 'search', 'USER')).toBe(false);
+    expect(manager.isToolAvailable('hidden', 'search', 'USER')).toBe(false);
+    expect(manager.isToolAvailable('unknown', 'search')).toBe(false);
+    expect(manager.isServerAllowed('shared', 'USER')).toBe(false);
+    expect(manager.isServerAllowed('hidden', 'USER')).toBe(true);
+    expect(manager.requiresApproval('shared', 'search')).toBe(true);
+    expect(manager.requiresApproval('hidden', 'search')).toBe(false);
+  });
+});
+
+describe('MCPManager tool call options', () => {
+  let manager: MCPManager;
+
+  beforeEach(async () => {
+    manager = MCPManager.getInstance(logger);
+    await manager.initializeMCP({ shared: { ...mcpServers.shared, timeout: 30000 } });
+  });
+
+  afterEach(async () => {
+    await MCPManager.destroyInstance();
+  });
+
+  const mockRequest = () => {
+    const connection = manager.getConnection('shared') as unknown as {
+      timeout?: number;
+      client: { request: jest.Mock };
+    };
+    connection.timeout = 30000;
+    connection.client.request = jest.fn(async () => ({ content: [] }));
+    return connection.client.request;
+  };
+
+  it('should pass the timeout, signal and progress handler of the call', async () => {
+    const request = mockRequest();
+    const controller = new AbortController();
+    const onProgress = jest.fn();
+
+    await manager.callTool({ serverName: 'shared', toolName: 'search', provider: 'openAI' });
+    await manager.callTool({
+      serverName: 'shared',
+      toolName: 'search',
+      provider: 'openAI',
+      timeout: 5000,
+      signal: controller.signal,
+      onProgress,
+    });
+
+    expect(request.mock.calls[0][2]).toEqual(expect.objectContaining({ timeout: 30000 }));
+    expect(request.mock.calls[1][2]).toEqual({
+      timeout: 5000,
+      signal: controller.signal,
+      onprogress: onProgress,
+    });
+  });
+
+  it('should report tool calls exceeding their timeout', async () => {
+    const { McpError, ErrorCode } = jest.requireActual('@modelcontextprotocol/sdk/types.js');
+    mockRequest().mockRejectedValue(new McpError(ErrorCode.RequestTimeout, 'Request timed out'));
+
+    await expect(
+      manager.callTool({
+        serverName: 'shared',
+        toolName: 'search',
+        provider: 'openAI',
+        timeout: 5000,
+      }),
+    ).rejects.toThrow('Tool "search" of MCP server "shared" timed out after 5000ms');
+  });
+});
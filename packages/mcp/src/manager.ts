@@ -2,13 +2,84 @@ import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
 import type { JsonSchemaType } from 'librechat-data-provider';
 import type { Logger } from 'winston';
 import type * as t from './types/mcp';
+import type { MCPOAuthClientData, MCPOAuthFlowMetadata, MCPOAuthTokens } from './oauth/types';
+import {
+  isRoleAllowed,
+  isToolEnabled,
+  requiresOAuth,
+  processMCPEnv,
+  getServerType,
+  isUserScopedServer,
+  toolRequiresApproval,
+  resolveOAuthConfig,
+  getUserVarAuthField,
+} from './utils';
+import {
+  MCP_OAUTH_FLOW,
+  initiateOAuthFlow,
+  refreshOAuthTokens,
+  MCP_OAUTH_REFRESH_FLOW,
+} from './oauth/handler';
+import { loadOAuthTokens, storeOAuthTokens } from './oauth/tokens';
+import {
+  isUnauthorizedError,
+  MCPToolTimeoutError,
+  isRequestTimeoutError,
+} from './transports/errors';
 import { formatToolContent } from './parsers';
 import { MCPConnection } from './connection';
 import { CONSTANTS } from './enum';
 
+/** Default time after which an unused per-user connection is closed: 15 minutes */
+const DEFAULT_USER_CONNECTION_IDLE_TIMEOUT = 15 * 60 * 1000;
+/** Default maximum number of per-user stdio processes running at once */
+const DEFAULT_MAX_USER_STDIO_CONNECTIONS = 20;
+/** Default time to wait for a server to connect, unless the server sets `initTimeout` */
+const CONNECTION_TIMEOUT = 30000;
+/** Signs in to OAuth servers at startup, to list their tools */
+const SYSTEM_USER_ID = 'system';
+
+/** Health of a server, kept across its connections */
+interface ServerStats {
+  lastError?: string;
+  capabilities: string[];
+  toolCount: number;
+  lastCallLatency?: number;
+  lastCallAt?: number;
+}
+
+interface UserConnection {
+  userId: string;
+  serverName: string;
+  connection: MCPConnection;
+  isStdio: boolean;
+  /** Fingerprint of the user's variable values the connection was started with */
+  varsKey: string;
+  lastActivity: number;
+}
+
+interface PendingUserConnection {
+  varsKey: string;
+  promise: Promise<MCPConnection>;
+}
+
 export class MCPManager {
   private static instance: MCPManager | null = null;
   private connections: Map<string, MCPConnection> = new Map();
+  private mcpConfigs: t.MCPServers = {};
+  /** Connections to servers with `customUserVars`, keyed by `getUserConnectionKey` */
+  private userConnections: Map<string, UserConnection> = new Map();
+  /** Connects in progress, shared by concurrent requests for the same user and server */
+  private pendingUserConnections: Map<string, PendingUserConnection> = new Map();
+  /** Tools of servers connected per user, listed once at startup without user values */
+  private userServerTools: Map<string, t.MCPTool[]> = new Map();
+  private serverStats: Map<string, ServerStats> = new Map();
+  private userConnectionIdleTimeout = DEFAULT_USER_CONNECTION_IDLE_TIMEOUT;
+  private maxUserStdioConnections = DEFAULT_MAX_USER_STDIO_CONNECTIONS;
+  private idleCheckInterval: NodeJS.Timeout | null = null;
+  private oauth: t.MCPOAuthOptions | null = null;
+  /** Kept to add the tools of OAuth servers listed after startup */
+  private availableTools: t.LCAvailableTools | null = null;
   private logger: Logger;
 
   private static getDefaultLogger(): Logger {
@@ -31,64 +102,30 @@ export class MCPManager {
     return MCPManager.instance;
   }
 
-  public async initializeMCP(mcpServers: t.MCPServers): Promise<void> {
+  public async initializeMCP(
+    mcpServers: t.MCPServers,
+    mcpSettings: t.MCPSettings = {},
+    oauth?: t.MCPOAuthOptions,
+  ): Promise<void> {
     this.logger.info('[MCP] Initializing servers');
 
+    this.mcpConfigs = mcpServers;
+    this.oauth = oauth ?? null;
+    this.applySettings(mcpSettings);
+
     const entries = Object.entries(mcpServers);
-    const initializedServers = new Set();
     const connectionResults = await Promise.allSettled(
-      entries.map(async ([serverName, config], i) => {
-        const connection = new MCPConnection(serverName, config, this.logger);
-
-        connection.on('connectionChange', (state) => {
-          this.logger.info(`[MCP][${serverName}] Connection state: ${state}`);
-        });
-
-        try {
-          const connectionTimeout = new Promise<void>((_, reject) =>
-            setTimeout(() => reject(new Error('Connection timeout')), 30000),
-          );
-
-          const connectionAttempt = this.initializeServer(connection, serverName);
-          await Promise.race([connectionAttempt, connectionTimeout]);
-
-          if (connection.isConnected()) {
-            initializedServers.add(i);
-            this.connections.set(serverName, connection);
-
-            const serverCapabilities = connection.client.getServerCapabilities();
-            this.logger.info(
-              `[MCP][${serverName}] Capabilities: ${JSON.stringify(serverCapabilities)}`,
-            );
-
-            if (serverCapabilities?.tools) {
-              const tools = await connection.client.listTools();
-              if (tools.tools.length) {
-                this.logger.info(
-                  `[MCP][${serverName}] Available tools: ${tools.tools
-                    .map((tool) => tool.name)
-                    .join(', ')}`,
-                );
-              }
-            }
-          }
-        } catch (error) {
-          this.logger.error(`[MCP][${serverName}] Initialization failed`, error);
-          throw error;
-        }
-      }),
+      entries.map(([serverName, config]) => this.connectServer(serverName, config)),
     );
-
-    const failedConnections = connectionResults.filter(
-      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    const initializedServers = new Set(
+      connectionResults.flatMap((result, i) => (result.status === 'fulfilled' ? [i] : [])),
     );
+    const failedCount = entries.length - initializedServers.size;
 
     this.logger.info(`[MCP] Initialized ${initializedServers.size}/${entries.length} server(s)`);
 
-    if (failedConnections.length > 0) {
-      this.logger.warn(
-        `[MCP] ${failedConnections.length}/${entries.length} server(s) failed to initialize`,
-      );
+    if (failedCount > 0) {
+      this.logger.warn(`[MCP] ${failedCount}/${entries.length} server(s) failed to initialize`);
     }
 
     entries.forEach(([serverName], index) => {
@@ -104,6 +141,102 @@ export class MCPManager {
     } else if (initializedServers.size === 0) {
       this.logger.error('[MCP] No servers initialized');
     }
+
+    if (this.userServerTools.size > 0) {
+      this.startIdleCheck();
+    }
+  }
+
+  private applySettings(mcpSettings: t.MCPSettings): void {
+    this.userConnectionIdleTimeout =
+      mcpSettings.userConnectionIdleTimeout ?? DEFAULT_USER_CONNECTION_IDLE_TIMEOUT;
+    this.maxUserStdioConnections =
+      mcpSettings.maxUserStdioConnections ?? DEFAULT_MAX_USER_STDIO_CONNECTIONS;
+  }
+
+  private getServerStats(serverName: string): ServerStats {
+    let stats = this.serverStats.get(serverName);
+    if (!stats) {
+      stats = { capabilities: [], toolCount: 0 };
+      this.serverStats.set(serverName, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Connects to a server, keeping the connection of shared servers. Servers connected per user
+   * are only started to list their tools, with empty values for their user placeholders and no
+   * OAuth token, so they must start and list their tools without them.
+   */
+  private async connectServer(serverName: string, config: t.MCPOptions): Promise<void> {
+    const stats = this.getServerStats(serverName);
+    const connection = new MCPConnection(serverName, processMCPEnv(config), this.logger);
+
+    connection.on('connectionChange', (state) => {
+      this.logger.info(`[MCP][${serverName}] Connection state: ${state}`);
+    });
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    try {
+      const connectionTimeout = new Promise<void>((_, reject) => {
+        timeoutId = setTimeout(
+          () => reject(new Error('Connection timeout')),
+          config.initTimeout ?? CONNECTION_TIMEOUT,
+        );
+      });
+
+      const connectionAttempt = this.initializeServer(connection, serverName);
+      await Promise.race([connectionAttempt, connectionTimeout]);
+      if (!connection.isConnected()) {
+        throw new Error('Connection not established');
+      }
+
+      stats.lastError = undefined;
+      const serverCapabilities = connection.client.getServerCapabilities();
+      stats.capabilities = Object.keys(serverCapabilities ?? {});
+
+      if (isUserScopedServer(config)) {
+        const tools = await connection.fetchTools();
+        this.userServerTools.set(serverName, tools);
+        stats.toolCount = tools.length;
+        await connection.disconnect();
+        this.logger.info(`[MCP][${serverName}] Connections will be made per user`);
+        return;
+      }
+
+      this.connections.set(serverName, connection);
+      this.logger.info(`[MCP][${serverName}] Capabilities: ${JSON.stringify(serverCapabilities)}`);
+
+      if (serverCapabilities?.tools) {
+        const tools = await connection.client.listTools();
+        stats.toolCount = tools.tools.length;
+        if (tools.tools.length) {
+          this.logger.info(
+            `[MCP][${serverName}] Available tools: ${tools.tools
+              .map((tool) => tool.name)
+              .join(', ')}`,
+          );
+        }
+      }
+    } catch (error) {
+      if (requiresOAuth(config) && isUnauthorizedError(error) && this.oauth) {
+        this.listToolsAfterSignIn(serverName, config).catch((signInError) => {
+          this.logger.error(`[MCP][${serverName}] Failed to list tools`, signInError);
+        });
+        return;
+      }
+      stats.lastError = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        isUserScopedServer(config)
+          ? `[MCP][${serverName}] Listing tools without user values failed; the server is unavailable to all users`
+          : `[MCP][${serverName}] Initialization failed`,
+        error,
+      );
+      await connection.disconnect().catch(() => undefined);
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   private async initializeServer(connection: MCPConnection, serverName: string): Promise<void> {
@@ -120,8 +253,8 @@ export class MCPManager {
       } catch (error) {
         attempts++;
 
-        if (attempts === maxAttempts) {
-          this.logger.error(`[MCP][${serverName}] Failed after ${maxAttempts} attempts`);
+        if (attempts === maxAttempts || isUnauthorizedError(error)) {
+          this.logger.error(`[MCP][${serverName}] Failed after ${attempts} attempts`);
           throw error;
         }
 
@@ -138,33 +271,389 @@ export class MCPManager {
     return this.connections;
   }
 
-  public async mapAvailableTools(availableTools: t.LCAvailableTools): Promise<void> {
-    for (const [serverName, connection] of this.connections.entries()) {
-      try {
-        if (connection.isConnected() !== true) {
-          this.logger.warn(`Connection ${serverName} is not connected. Skipping tool fetch.`);
-          continue;
-        }
+  /** Whether the server declares `customUserVars` or uses the user ID, and is connected per user */
+  public isUserScopedServer(serverName: string): boolean {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    return config != null && isUserScopedServer(config);
+  }
 
-        const tools = await connection.fetchTools();
-        for (const tool of tools) {
-          const name = `${tool.name}${CONSTANTS.mcp_delimiter}${serverName}`;
-          availableTools[name] = {
-            type: 'function',
-            ['function']: {
-              name,
-              description: tool.description,
-              parameters: tool.inputSchema as JsonSchemaType,
-            },
-          };
-        }
+  /** Whether users with the role may use the server, according to its `roles` */
+  public isServerAllowed(serverName: string, role?: string): boolean {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    return config != null && isRoleAllowed(config, role);
+  }
+
+  /** Whether the server exposes the tool to users with the role, per its `includeTools`, `excludeTools` and `roles` */
+  public isToolAvailable(serverName: string, toolName: string, role?: string): boolean {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    return config != null && isToolEnabled(config, toolName) && isRoleAllowed(config, role);
+  }
+
+  /** Whether users approve the arguments of the tool's calls before they are sent to the server */
+  public requiresApproval(serverName: string, toolName: string): boolean {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    return config != null && toolRequiresApproval(config, toolName);
+  }
+
+  /** Returns the variables users provide for the server, keyed by variable name */
+  public getCustomUserVars(serverName: string): Record<string, t.MCPUserVar> {
+    return this.mcpConfigs[serverName]?.customUserVars ?? {};
+  }
+
+  private getUserConnectionKey(userId: string, serverName: string): string {
+    return `${userId}${CONSTANTS.mcp_delimiter}${serverName}`;
+  }
+
+  /**
+   * Returns the user's connection to a server with `customUserVars` or OAuth, starting it with the
+   * user's values and token. A connection started with different values is replaced.
+   */
+  public async getUserConnection(
+    userId: string,
+    serverName: string,
+    customUserVars: t.CustomUserVars = {},
+    oauthCallbacks: Pick<t.MCPRequestOptions, 'oauthStart' | 'oauthEnd'> = {},
+  ): Promise<MCPConnection> {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    if (!config || !isUserScopedServer(config)) {
+      throw new Error(`MCP server "${serverName}" is not connected per user`);
+    }
+
+    const missingVars = Object.entries(config.customUserVars ?? {})
+      .filter(([varName]) => !customUserVars[varName])
+      .map(([, userVar]) => userVar.title);
+    if (missingVars.length > 0) {
+      throw new Error(
+        `Missing values for MCP server "${serverName}": ${missingVars.join(', ')}. Provide them in the tool settings.`,
+      );
+    }
+
+    await this.checkIdleConnections();
+
+    const key = this.getUserConnectionKey(userId, serverName);
+    const varsKey = JSON.stringify(
+      Object.keys(customUserVars)
+        .sort()
+        .map((k) => customUserVars[k]),
+    );
+
+    let pending = this.pendingUserConnections.get(key);
+    while (pending) {
+      if (pending.varsKey === varsKey) {
+        return pending.promise;
+      }
+      /** Replaced only once connected, so the pending connection is not left behind */
+      await pending.promise.catch(() => undefined);
+      pending = this.pendingUserConnections.get(key);
+    }
+
+    const existing = this.userConnections.get(key);
+    if (existing && existing.varsKey === varsKey && existing.connection.isConnected()) {
+      existing.lastActivity = Date.now();
+      return existing.connection;
+    }
+
+    const promise = this.connectUser(userId, serverName, config, customUserVars, oauthCallbacks, {
+      varsKey,
+      replace: existing,
+    });
+    this.pendingUserConnections.set(key, { varsKey, promise });
+    try {
+      return await promise;
+    } finally {
+      if (this.pendingUserConnections.get(key)?.promise === promise) {
+        this.pendingUserConnections.delete(key);
+      }
+    }
+  }
+
+  /** Starts the user's connection, closing the one started with other values first */
+  private async connectUser(
+    userId: string,
+    serverName: string,
+    config: t.MCPOptions,
+    customUserVars: t.CustomUserVars,
+    oauthCallbacks: Pick<t.MCPRequestOptions, 'oauthStart' | 'oauthEnd'>,
+    { varsKey, replace }: { varsKey: string; replace?: UserConnection },
+  ): Promise<MCPConnection> {
+    const key = this.getUserConnectionKey(userId, serverName);
+    if (replace) {
+      await this.disconnectUserConnection(userId, serverName);
+    }
+
+    const isStdio = 'command' in config;
+    if (isStdio && this.getUserStdioConnectionCount() >= this.maxUserStdioConnections) {
+      this.logger.warn(
+        `[MCP][${serverName}] Per-user stdio limit of ${this.maxUserStdioConnections} reached`,
+      );
+      throw new Error('Too many MCP server processes are running. Please try again later.');
+    }
+
+    let accessToken: string | undefined;
+    if (requiresOAuth(config)) {
+      accessToken = await this.getOAuthAccessToken(userId, serverName, config, oauthCallbacks);
+    }
+
+    const connection = new MCPConnection(
+      serverName,
+      this.withAccessToken(processMCPEnv(config, customUserVars, userId), accessToken),
+      this.logger,
+    );
+    const userConnection: UserConnection = {
+      userId,
+      serverName,
+      connection,
+      isStdio,
+      varsKey,
+      lastActivity: Date.now(),
+    };
+    /** Reserved before connecting so connects for other users count towards the stdio limit */
+    this.userConnections.set(key, userConnection);
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    try {
+      const connectionTimeout = new Promise<void>((_, reject) => {
+        timeoutId = setTimeout(
+          () => reject(new Error('Connection timeout')),
+          config.initTimeout ?? CONNECTION_TIMEOUT,
+        );
+      });
+      await Promise.race([connection.connect(), connectionTimeout]);
+    } catch (error) {
+      this.logger.error(`[MCP][${serverName}] User connection failed`, error);
+      if (this.userConnections.get(key) === userConnection) {
+        this.userConnections.delete(key);
+      }
+      await connection.disconnect().catch(() => undefined);
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    this.logger.info(`[MCP][${serverName}] Connected for user ${userId}`);
+    return connection;
+  }
+
+  /** Adds the user's OAuth access token to the headers of a remote server */
+  private withAccessToken(options: t.MCPOptions, accessToken?: string): t.MCPOptions {
+    if (accessToken == null || !('url' in options) || /^wss?:/.test(options.url)) {
+      return options;
+    }
+    const headers = 'headers' in options ? options.headers : undefined;
+    return {
+      ...options,
+      headers: { ...headers, Authorization: `Bearer ${accessToken}` },
+    } as t.MCPOptions;
+  }
+
+  /**
+   * Returns the user's access token for an OAuth server: a stored one, a refreshed one,
+   * or one obtained by asking the user to sign in through `oauthStart`.
+   */
+  private async getOAuthAccessToken(
+    userId: string,
+    serverName: string,
+    config: t.MCPOptions,
+    { oauthStart, oauthEnd }: Pick<t.MCPRequestOptions, 'oauthStart' | 'oauthEnd'>,
+  ): Promise<string> {
+    const { flowManager, tokenMethods } = this.getOAuthOptions(serverName);
+    const identifier = this.getUserConnectionKey(userId, serverName);
+    const stored = await loadOAuthTokens({ userId, identifier, tokenMethods });
+    if (stored.accessToken != null) {
+      return stored.accessToken;
+    }
+
+    const { refreshToken, client } = stored;
+    if (refreshToken != null && client != null) {
+      try {
+        const tokens = await flowManager.createFlowWithHandler(
+          identifier,
+          MCP_OAUTH_REFRESH_FLOW,
+          () => refreshOAuthTokens(refreshToken, client),
+        );
+        await storeOAuthTokens({
+          userId,
+          identifier,
+          tokenMethods,
+          tokens: { ...tokens, refresh_token: tokens.refresh_token ?? refreshToken },
+          client,
+        });
+        return tokens.access_token;
       } catch (error) {
-        this.logger.warn(`[MCP][${serverName}] Not connected, skipping tool fetch`);
+        this.logger.warn(`[MCP][${serverName}] Token refresh failed, requesting sign-in`, error);
       }
     }
+
+    if (!oauthStart) {
+      throw new Error(`Sign-in to MCP server "${serverName}" is required`);
+    }
+
+    const { tokens, client: signInClient } = await this.requestOAuthSignIn(
+      userId,
+      serverName,
+      config,
+      oauthStart,
+    );
+    await storeOAuthTokens({ userId, identifier, tokenMethods, tokens, client: signInClient });
+    await oauthEnd?.();
+    return tokens.access_token;
   }
 
-  public async loadManifestTools(manifestTools: t.LCToolManifest): Promise<void> {
+  private getOAuthOptions(serverName: string): t.MCPOAuthOptions {
+    if (!this.oauth) {
+      throw new Error(`MCP server "${serverName}" requires OAuth, which is not configured`);
+    }
+    return this.oauth;
+  }
+
+  /**
+   * Sends the user the authorization URL of a pending sign-in, or of a new one,
+   * and waits for the OAuth callback to complete it.
+   */
+  private async requestOAuthSignIn(
+    userId: string,
+    serverName: string,
+    config: t.MCPOptions,
+    oauthStart: (authorizationUrl: string) => Promise<void>,
+  ): Promise<{ tokens: MCPOAuthTokens; client: MCPOAuthClientData }> {
+    if (!('url' in config)) {
+      throw new Error(`MCP server "${serverName}" must be a remote server to use OAuth`);
+    }
+    const { flowManager, getRedirectUri } = this.getOAuthOptions(serverName);
+    const flowId = this.getUserConnectionKey(userId, serverName);
+
+    const existing = await flowManager.getFlowState(flowId, MCP_OAUTH_FLOW);
+    let flowMetadata: MCPOAuthFlowMetadata;
+    if (existing?.status === 'PENDING') {
+      flowMetadata = existing.metadata as MCPOAuthFlowMetadata;
+    } else {
+      const oauthConfig = resolveOAuthConfig(config);
+      flowMetadata = await initiateOAuthFlow({
+        flowId,
+        userId,
+        serverName,
+        serverUrl: config.url,
+        redirectUri: oauthConfig?.redirect_uri ?? getRedirectUri(serverName),
+        config: oauthConfig,
+      });
+    }
+
+    await oauthStart(flowMetadata.authorizationUrl);
+    const tokens = await flowManager.createFlow(flowId, MCP_OAUTH_FLOW, flowMetadata);
+    return { tokens, client: { ...flowMetadata.clientInfo, token_url: flowMetadata.tokenUrl } };
+  }
+
+  /**
+   * Lists the tools of an OAuth server refusing anonymous access once an admin signs in
+   * at the logged URL; the token is only used for listing and not stored.
+   */
+  private async listToolsAfterSignIn(serverName: string, config: t.MCPOptions): Promise<void> {
+    const { tokens } = await this.requestOAuthSignIn(
+      SYSTEM_USER_ID,
+      serverName,
+      config,
+      async (authorizationUrl) => {
+        this.logger.warn(
+          `[MCP][${serverName}] Sign in within a few minutes to list the server's tools: ${authorizationUrl}`,
+        );
+      },
+    );
+
+    const connection = new MCPConnection(
+      serverName,
+      this.withAccessToken(processMCPEnv(config), tokens.access_token),
+      this.logger,
+    );
+    try {
+      await connection.connect();
+      const tools = await connection.fetchTools();
+      this.userServerTools.set(serverName, tools);
+      const stats = this.getServerStats(serverName);
+      stats.capabilities = Object.keys(connection.client.getServerCapabilities() ?? {});
+      stats.toolCount = tools.length;
+      if (this.availableTools) {
+        this.mapServerTools(this.availableTools, serverName, tools);
+      }
+      this.startIdleCheck();
+      this.logger.info(`[MCP][${serverName}] Listed ${tools.length} tool(s) after signing in`);
+    } finally {
+      await connection.disconnect().catch(() => undefined);
+    }
+    await this.oauth?.onToolsUpdated?.();
+  }
+
+  private getUserStdioConnectionCount(): number {
+    let count = 0;
+    for (const userConnection of this.userConnections.values()) {
+      if (userConnection.isStdio) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /** Closes per-user connections unused for longer than the idle timeout */
+  public async checkIdleConnections(): Promise<void> {
+    const now = Date.now();
+    const idleConnections = Array.from(this.userConnections.values()).filter(
+      (userConnection) => now - userConnection.lastActivity > this.userConnectionIdleTimeout,
+    );
+    await Promise.all(
+      idleConnections.map(({ userId, serverName }) => {
+        this.logger.info(`[MCP][${serverName}] Closing idle connection of user ${userId}`);
+        return this.disconnectUserConnection(userId, serverName);
+      }),
+    );
+  }
+
+  private startIdleCheck(): void {
+    if (this.idleCheckInterval) {
+      return;
+    }
+    this.idleCheckInterval = setInterval(
+      () => {
+        this.checkIdleConnections().catch((error) => {
+          this.logger.error('[MCP] Error closing idle user connections', error);
+        });
+      },
+      Math.min(this.userConnectionIdleTimeout, 60000),
+    );
+    this.idleCheckInterval.unref();
+  }
+
+  public async disconnectUserConnection(userId: string, serverName: string): Promise<void> {
+    const key = this.getUserConnectionKey(userId, serverName);
+    const userConnection = this.userConnections.get(key);
+    if (!userConnection) {
+      return;
+    }
+    this.userConnections.delete(key);
+    try {
+      await userConnection.connection.disconnect();
+    } catch (error) {
+      this.logger.error(`[MCP][${serverName}] Error disconnecting user ${userId}`, error);
+    }
+  }
+
+  /** Closes all connections of a user, e.g. when the account is deleted */
+  public async disconnectUserConnections(userId: string): Promise<void> {
+    const serverNames = Array.from(this.userConnections.values())
+      .filter((userConnection) => userConnection.userId === userId)
+      .map(({ serverName }) => serverName);
+    await Promise.all(
+      serverNames.map((serverName) => this.disconnectUserConnection(userId, serverName)),
+    );
+  }
+
+  /** Leaves out the tools hidden by the server's `includeTools` and `excludeTools` */
+  private filterServerTools(serverName: string, tools: t.MCPTool[]): t.MCPTool[] {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    return config ? tools.filter((tool) => isToolEnabled(config, tool.name)) : tools;
+  }
+
+  /** Returns the tools of every server: from the shared connections, or listed at startup */
+  private async getServerTools(): Promise<Array<[string, t.MCPTool[]]>> {
+    const serverTools: Array<[string, t.MCPTool[]]> = Array.from(this.userServerTools.entries());
     for (const [serverName, connection] of this.connections.entries()) {
       try {
         if (connection.isConnected() !== true) {
@@ -172,61 +661,364 @@ export class MCPManager {
           continue;
         }
 
-        const tools = await connection.fetchTools();
-        for (const tool of tools) {
-          const pluginKey = `${tool.name}${CONSTANTS.mcp_delimiter}${serverName}`;
-          manifestTools.push({
-            name: tool.name,
-            pluginKey,
-            description: tool.description ?? '',
-            icon: connection.iconPath,
-          });
-        }
+        serverTools.push([serverName, await connection.fetchTools()]);
       } catch (error) {
         this.logger.error(`[MCP][${serverName}] Error fetching tools`, error);
       }
     }
+    return serverTools;
   }
 
-  async callTool(
+  private mapServerTools(
+    availableTools: t.LCAvailableTools,
     serverName: string,
-    toolName: string,
-    provider: t.Provider,
-    toolArguments?: Record<string, unknown>,
-  ): Promise<t.FormattedToolResponse> {
+    tools: t.MCPTool[],
+  ): void {
+    for (const tool of this.filterServerTools(serverName, tools)) {
+      const name = `${tool.name}${CONSTANTS.mcp_delimiter}${serverName}`;
+      availableTools[name] = {
+        type: 'function',
+        ['function']: {
+          name,
+          description: tool.description,
+          parameters: tool.inputSchema as JsonSchemaType,
+        },
+      };
+    }
+  }
+
+  /** Replaces the server's tools in the available tools, e.g. after reconnecting it */
+  private async updateServerTools(serverName: string): Promise<void> {
+    if (!this.availableTools) {
+      return;
+    }
+    const suffix = `${CONSTANTS.mcp_delimiter}${serverName}`;
+    for (const toolName of Object.keys(this.availableTools)) {
+      if (toolName.endsWith(suffix)) {
+        delete this.availableTools[toolName];
+      }
+    }
+
     const connection = this.connections.get(serverName);
+    let tools = this.userServerTools.get(serverName);
+    if (!tools && connection?.isConnected() === true) {
+      tools = await connection.fetchTools();
+      this.getServerStats(serverName).toolCount = tools.length;
+    }
+    if (tools) {
+      this.mapServerTools(this.availableTools, serverName, tools);
+    }
+  }
+
+  public async mapAvailableTools(availableTools: t.LCAvailableTools): Promise<void> {
+    this.availableTools = availableTools;
+    for (const [serverName, tools] of await this.getServerTools()) {
+      this.mapServerTools(availableTools, serverName, tools);
+    }
+  }
+
+  public async loadManifestTools(manifestTools: t.LCToolManifest): Promise<void> {
+    for (const [serverName, tools] of await this.getServerTools()) {
+      const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+      /** User variables are requested through the tool authentication form */
+      const authConfig = Object.entries(config?.customUserVars ?? {}).map(([varName, userVar]) => ({
+        authField: getUserVarAuthField(serverName, varName),
+        label: userVar.title,
+        description: userVar.description ?? '',
+      }));
+      for (const tool of this.filterServerTools(serverName, tools)) {
+        const pluginKey = `${tool.name}${CONSTANTS.mcp_delimiter}${serverName}`;
+        manifestTools.push({
+          name: tool.name,
+          pluginKey,
+          description: tool.description ?? '',
+          icon: config?.iconPath,
+          authConfig: authConfig.length > 0 ? authConfig : undefined,
+        });
+      }
+    }
+  }
+
+  /** Returns the user's connection for servers with `customUserVars`, otherwise the shared one */
+  private async getRequestConnection({
+    serverName,
+    userId,
+    customUserVars,
+    oauthStart,
+    oauthEnd,
+  }: t.MCPRequestOptions): Promise<MCPConnection> {
+    let connection: MCPConnection | undefined;
+    if (this.isUserScopedServer(serverName)) {
+      if (userId == null) {
+        throw new Error(`A user is required to use MCP server "${serverName}"`);
+      }
+      connection = await this.getUserConnection(userId, serverName, customUserVars, {
+        oauthStart,
+        oauthEnd,
+      });
+    } else {
+      connection = this.connections.get(serverName);
+    }
     if (!connection) {
       throw new Error(
         `No connection found for server: ${serverName}. Please make sure to use MCP servers available under 'Connected MCP Servers'.`,
       );
     }
-    const result = await connection.client.request(
-      {
-        method: 'tools/call',
-        params: {
-          name: toolName,
-          arguments: toolArguments,
-        },
-      },
-      CallToolResultSchema,
+    return connection;
+  }
+
+  /** Returns the names of all configured servers */
+  public getServerNames(): string[] {
+    return Object.keys(this.mcpConfigs);
+  }
+
+  /** Lists the server's resources, or none if it does not support them */
+  public async listResources(options: t.MCPRequestOptions): Promise<t.MCPResource[]> {
+    const connection = await this.getRequestConnection(options);
+    if (!connection.client.getServerCapabilities()?.resources) {
+      return [];
+    }
+    return connection.fetchResources();
+  }
+
+  public async readResource({
+    uri,
+    ...options
+  }: t.ReadResourceOptions): Promise<t.MCPResourceContents> {
+    const connection = await this.getRequestConnection(options);
+    const { contents } = await connection.client.readResource(
+      { uri },
+      { timeout: connection.timeout },
+    );
+    return contents;
+  }
+
+  /** Lists the server's prompts, or none if it does not support them */
+  public async listPrompts(options: t.MCPRequestOptions): Promise<t.MCPPrompt[]> {
+    const connection = await this.getRequestConnection(options);
+    if (!connection.client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+    return connection.fetchPrompts();
+  }
+
+  public async getPrompt({
+    name,
+    promptArguments,
+    ...options
+  }: t.GetPromptOptions): Promise<t.MCPPromptResult> {
+    const connection = await this.getRequestConnection(options);
+    return connection.client.getPrompt(
+      { name, arguments: promptArguments },
+      { timeout: connection.timeout },
     );
+  }
+
+  async callTool({
+    serverName,
+    toolName,
+    provider,
+    toolArguments,
+    userId,
+    customUserVars,
+    oauthStart,
+    oauthEnd,
+    createMessage,
+    timeout,
+    signal,
+    onProgress,
+  }: t.CallToolOptions): Promise<t.FormattedToolResponse> {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    if (config && !isToolEnabled(config, toolName)) {
+      throw new Error(`Tool "${toolName}" is not exposed by MCP server "${serverName}"`);
+    }
+    const connection = await this.getRequestConnection({
+      serverName,
+      userId,
+      customUserVars,
+      oauthStart,
+      oauthEnd,
+    });
+    const removeSamplingHandler =
+      createMessage && config?.sampling === true
+        ? connection.addSamplingHandler(createMessage, userId)
+        : undefined;
+    const requestTimeout = timeout ?? connection.timeout;
+    const startTime = Date.now();
+    let result: t.MCPToolCallResponse;
+    try {
+      result = await connection.client.request(
+        {
+          method: 'tools/call',
+          params: {
+            name: toolName,
+            arguments: toolArguments,
+          },
+        },
+        CallToolResultSchema,
+        { timeout: requestTimeout, signal, onprogress: onProgress },
+      );
+    } catch (error) {
+      if (isRequestTimeoutError(error)) {
+        throw new MCPToolTimeoutError(serverName, toolName, requestTimeout);
+      }
+      throw error;
+    } finally {
+      removeSamplingHandler?.();
+      const stats = this.getServerStats(serverName);
+      stats.lastCallLatency = Date.now() - startTime;
+      stats.lastCallAt = Date.now();
+    }
+    const userConnection =
+      userId != null
+        ? this.userConnections.get(this.getUserConnectionKey(userId, serverName))
+        : null;
+    if (userConnection) {
+      userConnection.lastActivity = Date.now();
+    }
     return formatToolContent(result, provider);
   }
 
+  /** Closes the shared connection of a server and the users' connections to it */
   public async disconnectServer(serverName: string): Promise<void> {
     const connection = this.connections.get(serverName);
     if (connection) {
       await connection.disconnect();
       this.connections.delete(serverName);
     }
+    const userIds = Array.from(this.userConnections.values())
+      .filter((userConnection) => userConnection.serverName === serverName)
+      .map(({ userId }) => userId);
+    await Promise.all(userIds.map((userId) => this.disconnectUserConnection(userId, serverName)));
   }
 
-  public async disconnectAll(): Promise<void> {
-    const disconnectPromises = Array.from(this.connections.values()).map((connection) =>
-      connection.disconnect(),
+  private getServerConfig(serverName: string): t.MCPOptions {
+    const config = this.mcpConfigs[serverName] as t.MCPOptions | undefined;
+    if (!config) {
+      throw new Error(`MCP server "${serverName}" is not configured`);
+    }
+    return config;
+  }
+
+  /**
+   * Reconnects a server, closing its current connections, and updates its tools.
+   * Servers connected per user have their tools listed again.
+   */
+  public async reconnectServer(serverName: string): Promise<void> {
+    const config = this.getServerConfig(serverName);
+    await this.disconnectServer(serverName);
+    this.userServerTools.delete(serverName);
+    try {
+      await this.connectServer(serverName, config);
+    } finally {
+      await this.updateServerTools(serverName);
+    }
+  }
+
+  /**
+   * Applies new `mcpServers` without a restart: removed and changed servers are disconnected,
+   * added and changed servers are connected, and the available tools are updated.
+   * Servers that fail to connect are reported by `getServerStatuses`.
+   */
+  public async reloadServers(
+    mcpServers: t.MCPServers,
+    mcpSettings: t.MCPSettings = {},
+  ): Promise<t.MCPReloadResult> {
+    const previous = this.mcpConfigs;
+    const removed = Object.keys(previous).filter((serverName) => !(serverName in mcpServers));
+    const added = Object.keys(mcpServers).filter((serverName) => !(serverName in previous));
+    const updated = Object.keys(mcpServers).filter(
+      (serverName) =>
+        serverName in previous &&
+        JSON.stringify(previous[serverName]) !== JSON.stringify(mcpServers[serverName]),
+    );
+
+    for (const serverName of [...removed, ...updated]) {
+      await this.disconnectServer(serverName);
+      this.userServerTools.delete(serverName);
+      this.serverStats.delete(serverName);
+      await this.updateServerTools(serverName);
+    }
+
+    this.mcpConfigs = mcpServers;
+    this.applySettings(mcpSettings);
+
+    await Promise.allSettled(
+      [...added, ...updated].map(async (serverName) => {
+        try {
+          await this.connectServer(serverName, mcpServers[serverName]);
+        } finally {
+          await this.updateServerTools(serverName);
+        }
+      }),
+    );
+    if (this.userServerTools.size > 0) {
+      this.startIdleCheck();
+    }
+
+    this.logger.info(
+      `[MCP] Reloaded servers | added: ${added.length}, updated: ${updated.length}, removed: ${removed.length}`,
+    );
+    return { added, updated, removed };
+  }
+
+  /** Returns the health of every configured server */
+  public getServerStatuses(): t.MCPServerStatus[] {
+    return Object.entries(this.mcpConfigs).map(([serverName, config]) =>
+      this.getServerStatus(serverName, config),
     );
+  }
+
+  public getServerStatus(
+    serverName: string,
+    config: t.MCPOptions = this.getServerConfig(serverName),
+  ): t.MCPServerStatus {
+    const stats = this.serverStats.get(serverName);
+    const perUser = isUserScopedServer(config);
+    const connection = this.connections.get(serverName);
+    const errorState: t.ConnectionState = stats?.lastError != null ? 'error' : 'disconnected';
+
+    let state: t.ConnectionState;
+    if (perUser) {
+      state = this.userServerTools.has(serverName) ? 'connected' : errorState;
+    } else {
+      state = connection?.getConnectionState() ?? errorState;
+    }
+
+    let userConnections = 0;
+    for (const userConnection of this.userConnections.values()) {
+      if (userConnection.serverName === serverName) {
+        userConnections++;
+      }
+    }
+
+    return {
+      serverName,
+      type: getServerType(config),
+      perUser,
+      state,
+      lastError: connection?.getLastError()?.message ?? stats?.lastError,
+      capabilities: stats?.capabilities ?? [],
+      toolCount: stats?.toolCount ?? 0,
+      lastCallLatency: stats?.lastCallLatency,
+      lastCallAt: stats?.lastCallAt != null ? new Date(stats.lastCallAt).toISOString() : undefined,
+      reconnectAttempts: connection?.getReconnectAttempts() ?? 0,
+      userConnections,
+    };
+  }
+
+  public async disconnectAll(): Promise<void> {
+    if (this.idleCheckInterval) {
+      clearInterval(this.idleCheckInterval);
+      this.idleCheckInterval = null;
+    }
+    const disconnectPromises = [
+      ...this.connections.values(),
+      ...Array.from(this.userConnections.values(), ({ connection }) => connection),
+    ].map((connection) => connection.disconnect());
     await Promise.all(disconnectPromises);
     this.connections.clear();
+    this.userConnections.clear();
   }
 
   public static async destroyInstance(): Promise<void> {
@@ -0,0 +1,202 @@
+import Keyv from 'keyv';
+import express from 'express';
+import { createHash } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { MCPOAuthTokens } from './types';
+import {
+  MCP_OAUTH_FLOW,
+  completeOAuthFlow,
+  initiateOAuthFlow,
+  refreshOAuthTokens,
+  getFlowIdFromState,
+  discoverOAuthMetadata,
+} from './handler';
+import { FlowStateManager } from '../flow/manager';
+
+describe('MCP OAuth handler', () => {
+  const redirectUri = 'http://localhost:3080/api/mcp/remote/oauth/callback';
+  const registrations: unknown[] = [];
+  const tokenRequests: Array<Record<string, string>> = [];
+  let serveMetadata = true;
+  let codeChallenge: string | null = null;
+  let server: Server;
+  let baseUrl: string;
+  let flowManager: FlowStateManager<MCPOAuthTokens>;
+
+  beforeAll(async () => {
+    const app = express();
+    app.get('/.well-known/oauth-authorization-server', (_req, res) => {
+      if (!serveMetadata) {
+        res.sendStatus(404);
+        return;
+      }
+      res.json({
+        authorization_endpoint: `${baseUrl}/oauth/authorize`,
+        token_endpoint: `${baseUrl}/oauth/token`,
+        registration_endpoint: `${baseUrl}/oauth/register`,
+      });
+    });
+    app.post('/oauth/register', express.json(), (req, res) => {
+      registrations.push(req.body);
+      res.status(201).json({ client_id: 'registered-client' });
+    });
+    app.post('/oauth/token', express.urlencoded({ extended: false }), (req, res) => {
+      tokenRequests.push(req.body);
+      const { grant_type, code, code_verifier, refresh_token } = req.body;
+      if (grant_type === 'refresh_token' && refresh_token === 'refresh-1') {
+        res.json({ access_token: 'access-2', token_type: 'Bearer', expires_in: 3600 });
+        return;
+      }
+      const challenge = createHash('sha256').update(String(code_verifier)).digest('base64url');
+      if (
+        grant_type !== 'authorization_code' ||
+        code !== 'auth-code' ||
+        challenge !== codeChallenge
+      ) {
+        res.status(400).json({ error: 'invalid_grant' });
+        return;
+      }
+      res.json({
+        access_token: 'access-1',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        refresh_token: 'refresh-1',
+      });
+    });
+
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    serveMetadata = true;
+    codeChallenge = null;
+    registrations.length = 0;
+    tokenRequests.length = 0;
+    flowManager = new FlowStateManager<MCPOAuthTokens>(new Keyv(), { ttl: 10000 });
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const initiate = (config = {}) =>
+    initiateOAuthFlow({
+      flowId: 'user1_mcp_remote',
+      userId: 'user1',
+      serverName: 'remote',
+      serverUrl: `${baseUrl}/mcp`,
+      redirectUri,
+      config,
+    });
+
+  it('should discover the metadata from the origin of the server', async () => {
+    const metadata = await discoverOAuthMetadata(`${baseUrl}/mcp`);
+    expect(metadata.token_endpoint).toBe(`${baseUrl}/oauth/token`);
+  });
+
+  it('should fall back to the default endpoints without metadata', async () => {
+    serveMetadata = false;
+    const metadata = await discoverOAuthMetadata(`${baseUrl}/mcp`);
+    expect(metadata).toEqual({
+      authorization_endpoint: `${baseUrl}/authorize`,
+      token_endpoint: `${baseUrl}/token`,
+      registration_endpoint: `${baseUrl}/register`,
+    });
+  });
+
+  it('should register a client and build the authorization URL with PKCE', async () => {
+    const flowMetadata = await initiate({ scope: 'read' });
+
+    expect(registrations).toEqual([
+      expect.objectContaining({ redirect_uris: [redirectUri], token_endpoint_auth_method: 'none' }),
+    ]);
+    const url = new URL(flowMetadata.authorizationUrl);
+    expect(`${url.origin}${url.pathname}`).toBe(`${baseUrl}/oauth/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: 'code',
+      client_id: 'registered-client',
+      redirect_uri: redirectUri,
+      code_challenge_method: 'S256',
+      state: flowMetadata.state,
+      scope: 'read',
+    });
+    expect(url.searchParams.get('code_challenge')).toBe(
+      createHash('sha256').update(flowMetadata.codeVerifier).digest('base64url'),
+    );
+    expect(getFlowIdFromState(flowMetadata.state)).toBe('user1_mcp_remote');
+  });
+
+  it('should use a configured client without registering one', async () => {
+    const flowMetadata = await initiate({
+      client_id: 'configured-client',
+      client_secret: 'secret',
+    });
+
+    expect(registrations).toHaveLength(0);
+    expect(flowMetadata.clientInfo).toEqual({
+      client_id: 'configured-client',
+      client_secret: 'secret',
+    });
+  });
+
+  it('should exchange the code and resolve the waiting flow with the tokens', async () => {
+    const flowMetadata = await initiate();
+    codeChallenge = new URL(flowMetadata.authorizationUrl).searchParams.get('code_challenge');
+
+    const waiting = flowManager.createFlow('user1_mcp_remote', MCP_OAUTH_FLOW, flowMetadata);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    await completeOAuthFlow({ code: 'auth-code', state: flowMetadata.state, flowManager });
+
+    await expect(waiting).resolves.toMatchObject({
+      access_token: 'access-1',
+      refresh_token: 'refresh-1',
+    });
+    expect(tokenRequests[0]).toMatchObject({
+      grant_type: 'authorization_code',
+      client_id: 'registered-client',
+      redirect_uri: redirectUri,
+    });
+  });
+
+  it('should reject a callback without a pending flow', async () => {
+    const flowMetadata = await initiate();
+
+    await expect(
+      completeOAuthFlow({ code: 'auth-code', state: flowMetadata.state, flowManager }),
+    ).rejects.toThrow('OAuth flow not found or expired');
+    await expect(
+      completeOAuthFlow({ code: 'auth-code', state: 'malformed', flowManager }),
+    ).rejects.toThrow('Invalid state parameter');
+  });
+
+  it('should fail the flow when the code exchange fails', async () => {
+    const flowMetadata = await initiate();
+
+    const waiting = flowManager.createFlow('user1_mcp_remote', MCP_OAUTH_FLOW, flowMetadata);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    await expect(
+      completeOAuthFlow({ code: 'wrong-code', state: flowMetadata.state, flowManager }),
+    ).rejects.toThrow('Token request failed (HTTP 400)');
+
+    await expect(waiting).rejects.toThrow('Token request failed (HTTP 400)');
+  });
+
+  it('should refresh tokens with the stored client', async () => {
+    const tokens = await refreshOAuthTokens('refresh-1', {
+      client_id: 'registered-client',
+      token_url: `${baseUrl}/oauth/token`,
+    });
+
+    expect(tokens.access_token).toBe('access-2');
+    expect(tokenRequests[0]).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'refresh-1',
+      client_id: 'registered-client',
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { createHash, randomBytes } from 'crypto';
+import type { FlowStateManager } from '../flow/manager';
+import type * as t from './types';
+import type { MCPOAuthConfig } from '../types/mcp';
+
+/** Flow type of user sign-ins, completed by the OAuth callback */
+export const MCP_OAUTH_FLOW = 'mcp_oauth';
+/** Flow type of token refreshes, so concurrent requests refresh only once */
+export const MCP_OAUTH_REFRESH_FLOW = 'mcp_oauth_refresh';
+
+const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+/** Generates a PKCE code verifier and its S256 challenge */
+export function generatePKCE(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/** Encodes the flow ID into the `state` parameter, so the callback can find the flow */
+function createOAuthState(flowId: string): string {
+  const nonce = randomBytes(16).toString('base64url');
+  return Buffer.from(JSON.stringify({ flowId, nonce })).toString('base64url');
+}
+
+/** Returns the flow ID of a `state` parameter, or `null` if it is malformed */
+export function getFlowIdFromState(state: string): string | null {
+  try {
+    const { flowId } = JSON.parse(Buffer.from(state, 'base64url').toString('utf8'));
+    return typeof flowId === 'string' ? flowId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Discovers the authorization server metadata of an MCP server, which is served from the root of
+ * the server's origin. Servers without metadata use the default `/authorize`, `/token` and
+ * `/register` endpoints.
+ */
+export async function discoverOAuthMetadata(serverUrl: string): Promise<t.OAuthMetadata> {
+  const url = new URL('/.well-known/oauth-authorization-server', serverUrl);
+  const response = await fetch(url, { headers: { 'MCP-Protocol-Version': MCP_PROTOCOL_VERSION } });
+
+  if (response.status === 404) {
+    return {
+      authorization_endpoint: new URL('/authorize', url).toString(),
+      token_endpoint: new URL('/token', url).toString(),
+      registration_endpoint: new URL('/register', url).toString(),
+    };
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to discover OAuth metadata (HTTP ${response.status})`);
+  }
+
+  const metadata = (await response.json()) as t.OAuthMetadata;
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint) {
+    throw new Error('OAuth metadata is missing the authorization or token endpoint');
+  }
+  return metadata;
+}
+
+/** Registers LibreChat as a public client with the authorization server (RFC 7591) */
+export async function registerOAuthClient(
+  metadata: t.OAuthMetadata,
+  redirectUri: string,
+): Promise<t.OAuthClientInformation> {
+  if (metadata.registration_endpoint == null) {
+    throw new Error('The authorization server does not support dynamic client registration');
+  }
+
+  const response = await fetch(metadata.registration_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_name: 'LibreChat',
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to register OAuth client (HTTP ${response.status})`);
+  }
+
+  const { client_id, client_secret } = (await response.json()) as t.OAuthClientInformation;
+  return { client_id, client_secret };
+}
+
+async function requestTokens(
+  tokenUrl: string,
+  clientInfo: t.OAuthClientInformation,
+  params: Record<string, string>,
+): Promise<t.MCPOAuthTokens> {
+  const body = new URLSearchParams({ ...params, client_id: clientInfo.client_id });
+  if (clientInfo.client_secret != null && clientInfo.client_secret !== '') {
+    body.set('client_secret', clientInfo.client_secret);
+  }
+
+  const response = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: body.toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token request failed (HTTP ${response.status})`);
+  }
+
+  const tokens = (await response.json()) as t.MCPOAuthTokens;
+  if (!tokens.access_token) {
+    throw new Error('Token response is missing the access token');
+  }
+  return tokens;
+}
+
+/**
+ * Prepares a user's sign-in to an OAuth server: discovers its endpoints, registers a client
+ * unless one is configured, and builds the authorization URL with PKCE.
+ * The returned metadata is stored with the flow until the callback completes it.
+ */
+export async function initiateOAuthFlow({
+  flowId,
+  userId,
+  serverName,
+  serverUrl,
+  redirectUri,
+  config = {},
+}: {
+  flowId: string;
+  userId: string;
+  serverName: string;
+  serverUrl: string;
+  redirectUri: string;
+  config?: MCPOAuthConfig;
+}): Promise<t.MCPOAuthFlowMetadata> {
+  let metadata: t.OAuthMetadata;
+  if (config.authorization_url != null && config.token_url != null) {
+    metadata = {
+      authorization_endpoint: config.authorization_url,
+      token_endpoint: config.token_url,
+    };
+  } else {
+    metadata = await discoverOAuthMetadata(serverUrl);
+  }
+
+  const clientInfo: t.OAuthClientInformation =
+    config.client_id != null
+      ? { client_id: config.client_id, client_secret: config.client_secret }
+      : await registerOAuthClient(metadata, redirectUri);
+
+  const { codeVerifier, codeChallenge } = generatePKCE();
+  const state = createOAuthState(flowId);
+
+  const authorizationUrl = new URL(config.authorization_url ?? metadata.authorization_endpoint);
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', clientInfo.client_id);
+  authorizationUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizationUrl.searchParams.set('code_challenge', codeChallenge);
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+  authorizationUrl.searchParams.set('state', state);
+  if (config.scope != null) {
+    authorizationUrl.searchParams.set('scope', config.scope);
+  }
+
+  return {
+    serverName,
+    userId,
+    state,
+    codeVerifier,
+    redirectUri,
+    authorizationUrl: authorizationUrl.toString(),
+    tokenUrl: config.token_url ?? metadata.token_endpoint,
+    clientInfo,
+  };
+}
+
+/**
+ * Completes a sign-in flow from the OAuth callback: verifies the state,
+ * exchanges the authorization code for tokens and resolves the waiting request with them.
+ */
+export async function completeOAuthFlow({
+  code,
+  state,
+  flowManager,
+}: {
+  code: string;
+  state: string;
+  flowManager: FlowStateManager<t.MCPOAuthTokens>;
+}): Promise<t.MCPOAuthFlowMetadata> {
+  const flowId = getFlowIdFromState(state);
+  if (flowId == null) {
+    throw new Error('Invalid state parameter');
+  }
+
+  const flowState = await flowManager.getFlowState(flowId, MCP_OAUTH_FLOW);
+  const flowMetadata = flowState?.metadata as t.MCPOAuthFlowMetadata | undefined;
+  if (!flowState || flowState.status !== 'PENDING' || !flowMetadata) {
+    throw new Error('OAuth flow not found or expired');
+  }
+  if (flowMetadata.state !== state) {
+    await flowManager.failFlow(flowId, MCP_OAUTH_FLOW, 'Mismatched state parameter');
+    throw new Error('Mismatched state parameter');
+  }
+
+  try {
+    const tokens = await requestTokens(flowMetadata.tokenUrl, flowMetadata.clientInfo, {
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: flowMetadata.codeVerifier,
+      redirect_uri: flowMetadata.redirectUri,
+    });
+    await flowManager.completeFlow(flowId, MCP_OAUTH_FLOW, tokens);
+    return flowMetadata;
+  } catch (error) {
+    await flowManager.failFlow(flowId, MCP_OAUTH_FLOW, error as Error);
+    throw error;
+  }
+}
+
+/** Exchanges a refresh token for new tokens */
+export function refreshOAuthTokens(
+  refreshToken: string,
+  client: t.MCPOAuthClientData,
+): Promise<t.MCPOAuthTokens> {
+  const { token_url, ...clientInfo } = client;
+  return requestTokens(token_url, clientInfo, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+}
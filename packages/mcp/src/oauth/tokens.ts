@@ -0,0 +1,84 @@
+import type * as t from './types';
+
+export const MCP_OAUTH_TOKEN = 'mcp_oauth';
+export const MCP_OAUTH_REFRESH_TOKEN = 'mcp_oauth_refresh';
+export const MCP_OAUTH_CLIENT = 'mcp_oauth_client';
+
+/** Lifetime of refresh tokens without an expiry, and of the client used to refresh them: 30 days */
+const DEFAULT_REFRESH_TOKEN_EXPIRY = 30 * 24 * 60 * 60;
+
+interface TokenStorageOptions {
+  userId: string;
+  /** Identifies the user's tokens of a server, e.g. `{userId}_mcp_{serverName}` */
+  identifier: string;
+  tokenMethods: t.MCPTokenMethods;
+}
+
+/** Stores a user's tokens, along with the client needed to refresh them */
+export async function storeOAuthTokens({
+  userId,
+  identifier,
+  tokenMethods,
+  tokens,
+  client,
+}: TokenStorageOptions & {
+  tokens: t.MCPOAuthTokens;
+  client: t.MCPOAuthClientData;
+}): Promise<void> {
+  await tokenMethods.storeToken({
+    userId,
+    type: MCP_OAUTH_TOKEN,
+    identifier,
+    token: tokens.access_token,
+    expiresIn: tokens.expires_in,
+  });
+
+  if (tokens.refresh_token == null) {
+    return;
+  }
+
+  const expiresIn = tokens.refresh_token_expires_in ?? DEFAULT_REFRESH_TOKEN_EXPIRY;
+  await Promise.all([
+    tokenMethods.storeToken({
+      userId,
+      type: MCP_OAUTH_REFRESH_TOKEN,
+      identifier: `${identifier}:refresh`,
+      token: tokens.refresh_token,
+      expiresIn,
+    }),
+    tokenMethods.storeToken({
+      userId,
+      type: MCP_OAUTH_CLIENT,
+      identifier: `${identifier}:client`,
+      token: JSON.stringify(client),
+      expiresIn,
+    }),
+  ]);
+}
+
+/** Loads a user's unexpired tokens of a server */
+export async function loadOAuthTokens({
+  userId,
+  identifier,
+  tokenMethods,
+}: TokenStorageOptions): Promise<{
+  accessToken?: string;
+  refreshToken?: string;
+  client?: t.MCPOAuthClientData;
+}> {
+  const [accessToken, refreshToken, client] = await Promise.all([
+    tokenMethods.findToken({ userId, type: MCP_OAUTH_TOKEN, identifier }),
+    tokenMethods.findToken({
+      userId,
+      type: MCP_OAUTH_REFRESH_TOKEN,
+      identifier: `${identifier}:refresh`,
+    }),
+    tokenMethods.findToken({ userId, type: MCP_OAUTH_CLIENT, identifier: `${identifier}:client` }),
+  ]);
+
+  return {
+    accessToken: accessToken?.token,
+    refreshToken: refreshToken?.token,
+    client: client ? (JSON.parse(client.token) as t.MCPOAuthClientData) : undefined,
+  };
+}
@@ -0,0 +1,62 @@
+import type { FlowMetadata } from '../flow/types';
+
+/** Authorization server metadata (RFC 8414), limited to the fields used by the client */
+export interface OAuthMetadata {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+export interface OAuthClientInformation {
+  client_id: string;
+  client_secret?: string;
+}
+
+export interface MCPOAuthTokens {
+  access_token: string;
+  token_type?: string;
+  /** Lifetime of the access token in seconds */
+  expires_in?: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+  scope?: string;
+}
+
+/** Stored with the sign-in flow, until the authorization server redirects back with a code */
+export interface MCPOAuthFlowMetadata extends FlowMetadata {
+  serverName: string;
+  userId: string;
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  clientInfo: OAuthClientInformation;
+}
+
+/** Stored per user to refresh tokens after the sign-in flow has expired */
+export interface MCPOAuthClientData extends OAuthClientInformation {
+  token_url: string;
+}
+
+export interface MCPTokenQuery {
+  userId: string;
+  type: string;
+  identifier: string;
+}
+
+export interface MCPStoredToken {
+  /** The decrypted token */
+  token: string;
+  expiresAt: Date;
+}
+
+/** Persists tokens per user; implemented by the app, which also encrypts them */
+export interface MCPTokenMethods {
+  /** Returns the token, or `null` if it does not exist or has expired */
+  findToken(query: MCPTokenQuery): Promise<MCPStoredToken | null>;
+  storeToken(token: MCPTokenQuery & { token: string; expiresIn?: number }): Promise<void>;
+}
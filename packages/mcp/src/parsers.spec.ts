@@ -0,0 +1,101 @@
+import type * as t from './types/mcp';
+import { formatToolContent } from './parsers';
+
+describe('formatToolContent', () => {
+  const png = { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' } as const;
+  const svg = { type: 'image', data: 'PHN2Zz4=', mimeType: 'image/svg+xml' } as const;
+
+  it('should keep one text block per text and resource', () => {
+    const result: t.MCPToolCallResponse = {
+      content: [
+        { type: 'text', text: 'First' },
+        { type: 'text', text: '{"a":1}' },
+        {
+          type: 'resource',
+          resource: { uri: 'https://example.com/doc', mimeType: 'text/plain', text: 'Body' },
+        },
+      ],
+    };
+
+    expect(formatToolContent(result, 'openAI')).toEqual([
+      [
+        { type: 'text', text: 'First' },
+        { type: 'text', text: '{"a":1}' },
+        { type: 'text', text: 'Resource URI: https://example.com/doc\nType: text/plain\n\nBody' },
+      ],
+      undefined,
+    ]);
+  });
+
+  it.each([
+    ['openAI', { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }],
+    ['anthropic', { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }],
+    ['google', { type: 'media', mimeType: 'image/png', data: 'iVBORw0KGgo=' }],
+    ['vertexai', { type: 'media', mimeType: 'image/png', data: 'iVBORw0KGgo=' }],
+  ])('should format images for %s and attach them', (provider, image) => {
+    const [content, artifact] = formatToolContent({ content: [png] }, provider);
+
+    expect(content).toEqual([]);
+    expect(artifact).toEqual({
+      content: [image],
+      attachments: [{ filename: 'image-1', mimeType: 'image/png', data: 'iVBORw0KGgo=' }],
+    });
+  });
+
+  it('should describe images the provider cannot receive', () => {
+    const [content, artifact] = formatToolContent({ content: [svg] }, 'bedrock');
+
+    expect(content).toEqual([
+      { type: 'text', text: '(Image of type image/svg+xml, which the model cannot view)' },
+    ]);
+    expect(artifact?.content).toBeUndefined();
+    expect(artifact?.attachments).toHaveLength(1);
+  });
+
+  it('should attach binary resources', () => {
+    const [content, artifact] = formatToolContent(
+      {
+        content: [
+          {
+            type: 'resource',
+            resource: {
+              uri: 'file:///reports/Q1%20report.pdf',
+              mimeType: 'application/pdf',
+              blob: 'JVBERi0=',
+            },
+          },
+        ],
+      },
+      'openAI',
+    );
+
+    expect(content).toEqual([
+      {
+        type: 'text',
+        text: 'Resource URI: file:///reports/Q1%20report.pdf\nType: application/pdf\nAttached for the user as "Q1 report.pdf"',
+      },
+    ]);
+    expect(artifact).toEqual({
+      content: undefined,
+      attachments: [
+        {
+          filename: 'Q1 report.pdf',
+          mimeType: 'application/pdf',
+          data: 'JVBERi0=',
+          uri: 'file:///reports/Q1%20report.pdf',
+        },
+      ],
+    });
+  });
+
+  it('should return text to endpoints not run by agents', () => {
+    const [content, artifact] = formatToolContent(
+      { content: [{ type: 'text', text: 'Result' }, png] },
+      'assistants',
+    );
+
+    expect(content).toBe('Result\n\n(Image of type image/png, which the model cannot view)');
+    expect(artifact?.attachments).toHaveLength(1);
+    expect(formatToolContent({ content: [] }, 'assistants')).toEqual(['(No response)', undefined]);
+  });
+});
@@ -1,157 +1,140 @@
+import { EModelEndpoint, isAssistantsEndpoint } from 'librechat-data-provider';
 import type * as t from './types/mcp';
-const RECOGNIZED_PROVIDERS = new Set(['google', 'anthropic', 'openAI']);
+
+/** Image types Anthropic and Bedrock models accept */
+const BASE64_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif', 'image/webp']);
+
+function isImageURL(item: t.ImageContent): boolean {
+  return item.data.startsWith('http');
+}
+
+const toImageUrl: t.ImageFormatter = (item) => ({
+  type: 'image_url',
+  image_url: {
+    url: isImageURL(item) ? item.data : `data:${item.mimeType};base64,${item.data}`,
+  },
+});
+
+/** Google models receive base64 images as media, but not image URLs */
+const toMedia: t.ImageFormatter = (item) =>
+  isImageURL(item) ? null : { type: 'media', mimeType: item.mimeType, data: item.data };
+
+/** Anthropic and Bedrock models only receive base64 images of some types */
+const toBase64ImageUrl: t.ImageFormatter = (item) =>
+  !isImageURL(item) && BASE64_IMAGE_TYPES.has(item.mimeType) ? toImageUrl(item) : null;
 
 const imageFormatters: Record<string, undefined | t.ImageFormatter> = {
-  // google: (item) => ({
-  //   type: 'image',
-  //   inlineData: {
-  //     mimeType: item.mimeType,
-  //     data: item.data,
-  //   },
-  // }),
-  // anthropic: (item) => ({
-  //   type: 'image',
-  //   source: {
-  //     type: 'base64',
-  //     media_type: item.mimeType,
-  //     data: item.data,
-  //   },
-  // }),
-  default: (item) => ({
-    type: 'image_url',
-    image_url: {
-      url: item.data.startsWith('http') ? item.data : `data:${item.mimeType};base64,${item.data}`,
-    },
-  }),
+  google: toMedia,
+  vertexai: toMedia,
+  anthropic: toBase64ImageUrl,
+  bedrock: toBase64ImageUrl,
+  bedrock_legacy: toBase64ImageUrl,
+  default: toImageUrl,
 };
 
-function isImageContent(item: t.ToolContentPart): item is t.ImageContent {
-  return item.type === 'image';
+/** Whether the endpoint's tools return text, as they are not run by agents */
+function returnsText(provider: t.Provider): boolean {
+  return isAssistantsEndpoint(provider) || provider === EModelEndpoint.gptPlugins;
 }
 
-function parseAsString(result: t.MCPToolCallResponse): string {
-  const content = result?.content ?? [];
-  if (!content.length) {
-    return '(No response)';
+/** Returns the last path segment of a resource URI, e.g. `report.pdf` */
+function getResourceFilename(uri: string): string {
+  const [path] = uri.split(/[?#]/);
+  const name = path.split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(name) || 'resource';
+  } catch {
+    return name || 'resource';
   }
-
-  const text = content
-    .map((item) => {
-      if (item.type === 'text') {
-        return item.text;
-      }
-      if (item.type === 'resource') {
-        const resourceText = [];
-        if (item.resource.text != null && item.resource.text) {
-          resourceText.push(item.resource.text);
-        }
-        if (item.resource.uri) {
-          resourceText.push(`Resource URI: ${item.resource.uri}`);
-        }
-        if (item.resource.mimeType != null && item.resource.mimeType) {
-          resourceText.push(`Type: ${item.resource.mimeType}`);
-        }
-        return resourceText.join('\n');
-      }
-      return JSON.stringify(item, null, 2);
-    })
-    .filter(Boolean)
-    .join('\n\n');
-
-  return text;
 }
 
 /**
- * Converts MCPToolCallResponse content into recognized content block types
- * Recognized types: "image", "image_url", "text", "json"
- *
- * @param {t.MCPToolCallResponse} result - The MCPToolCallResponse object
- * @param {string} provider - The provider name (google, anthropic, openai)
- * @returns {Array<Object>} Formatted content blocks
+ * Describes a resource for the model, starting with its URI and type.
+ * Binary contents are added to the attachments instead.
  */
+function formatResource(
+  item: Extract<t.ToolContentPart, { type: 'resource' }>,
+  attachments: t.MCPAttachment[],
+): string {
+  const { uri, mimeType, text, blob } = item.resource;
+  const lines = [`Resource URI: ${uri}`];
+  if (mimeType != null && mimeType) {
+    lines.push(`Type: ${mimeType}`);
+  }
+  if (blob != null && blob) {
+    const filename = getResourceFilename(uri);
+    attachments.push({
+      filename,
+      mimeType: mimeType || 'application/octet-stream',
+      data: blob,
+      uri,
+    });
+    lines.push(`Attached for the user as "${filename}"`);
+  }
+  if (text != null && text) {
+    lines.push('', text);
+  }
+  return lines.join('\n');
+}
+
 /**
- * Converts MCPToolCallResponse content into recognized content block types
- * First element: string or formatted content (excluding image_url)
- * Second element: image_url content if any
+ * Converts MCPToolCallResponse content into content blocks for the provider.
+ * First element: one text block per text or resource, or their text for endpoints not run by agents
+ * Second element: the images formatted for the provider, and the binary contents to save as attachments
  *
  * @param {t.MCPToolCallResponse} result - The MCPToolCallResponse object
- * @param {string} provider - The provider name (google, anthropic, openai)
- * @returns {t.FormattedToolResponse} Tuple of content and image_urls
+ * @param {string} provider - The provider name (google, anthropic, openAI, ...) or endpoint
+ * @returns {t.FormattedToolResponse} Tuple of content and artifact
  */
 export function formatToolContent(
   result: t.MCPToolCallResponse,
   provider: t.Provider,
 ): t.FormattedToolResponse {
-  if (!RECOGNIZED_PROVIDERS.has(provider)) {
-    return [parseAsString(result), undefined];
-  }
-
+  const asText = returnsText(provider);
   const content = result?.content ?? [];
   if (!content.length) {
-    return [[{ type: 'text', text: '(No response)' }], undefined];
+    return [asText ? '(No response)' : [{ type: 'text', text: '(No response)' }], undefined];
   }
 
-  const formattedContent: t.FormattedContent[] = [];
-  const imageUrls: t.FormattedContent[] = [];
-  let currentTextBlock = '';
+  const formatImage = (imageFormatters[provider] ?? imageFormatters.default) as t.ImageFormatter;
+  const textBlocks: string[] = [];
+  const images: t.FormattedContent[] = [];
+  const attachments: t.MCPAttachment[] = [];
 
-  type ContentHandler = undefined | ((item: t.ToolContentPart) => void);
-
-  const contentHandlers: {
-    text: (item: Extract<t.ToolContentPart, { type: 'text' }>) => void;
-    image: (item: t.ToolContentPart) => void;
-    resource: (item: Extract<t.ToolContentPart, { type: 'resource' }>) => void;
-  } = {
-    text: (item) => {
-      currentTextBlock += (currentTextBlock ? '\n\n' : '') + item.text;
-    },
-
-    image: (item) => {
-      if (!isImageContent(item)) {
-        return;
-      }
-      if (currentTextBlock) {
-        formattedContent.push({ type: 'text', text: currentTextBlock });
-        currentTextBlock = '';
+  for (const item of content) {
+    if (item.type === 'text') {
+      textBlocks.push(item.text);
+    } else if (item.type === 'image') {
+      if (!isImageURL(item)) {
+        attachments.push({
+          filename: `image-${attachments.length + 1}`,
+          mimeType: item.mimeType,
+          data: item.data,
+        });
       }
-      const formatter = imageFormatters.default as t.ImageFormatter;
-      const formattedImage = formatter(item);
-
-      if (formattedImage.type === 'image_url') {
-        imageUrls.push(formattedImage);
+      const image = asText ? null : formatImage(item);
+      if (image) {
+        images.push(image);
       } else {
-        formattedContent.push(formattedImage);
-      }
-    },
-
-    resource: (item) => {
-      const resourceText = [];
-      if (item.resource.text != null && item.resource.text) {
-        resourceText.push(item.resource.text);
-      }
-      if (item.resource.uri.length) {
-        resourceText.push(`Resource URI: ${item.resource.uri}`);
+        textBlocks.push(`(Image of type ${item.mimeType}, which the model cannot view)`);
       }
-      if (item.resource.mimeType != null && item.resource.mimeType) {
-        resourceText.push(`Type: ${item.resource.mimeType}`);
-      }
-      currentTextBlock += (currentTextBlock ? '\n\n' : '') + resourceText.join('\n');
-    },
-  };
-
-  for (const item of content) {
-    const handler = contentHandlers[item.type as keyof typeof contentHandlers] as ContentHandler;
-    if (handler) {
-      handler(item as never);
+    } else if (item.type === 'resource') {
+      textBlocks.push(formatResource(item, attachments));
     } else {
-      const stringified = JSON.stringify(item, null, 2);
-      currentTextBlock += (currentTextBlock ? '\n\n' : '') + stringified;
+      textBlocks.push(JSON.stringify(item, null, 2));
     }
   }
 
-  if (currentTextBlock) {
-    formattedContent.push({ type: 'text', text: currentTextBlock });
+  let artifact: t.MCPToolArtifact | undefined;
+  if (images.length || attachments.length) {
+    artifact = {
+      content: images.length ? images : undefined,
+      attachments: attachments.length ? attachments : undefined,
+    };
   }
 
-  return [formattedContent, imageUrls.length ? { content: imageUrls } : undefined];
+  if (asText) {
+    return [textBlocks.join('\n\n'), artifact];
+  }
+  return [textBlocks.map((text) => ({ type: 'text', text })), artifact];
 }
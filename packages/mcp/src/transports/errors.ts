@@ -0,0 +1,31 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+/** An error response from an MCP server over HTTP */
+export class MCPHTTPError extends Error {
+  public readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'MCPHTTPError';
+    this.status = status;
+  }
+}
+
+/** Whether the server rejected the request for missing or invalid authorization */
+export function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof MCPHTTPError && error.status === 401;
+}
+
+/** A tool call cancelled for exceeding its timeout */
+export class MCPToolTimeoutError extends Error {
+  constructor(serverName: string, toolName: string, timeout?: number) {
+    const after = timeout != null ? ` after ${timeout}ms` : '';
+    super(`Tool "${toolName}" of MCP server "${serverName}" timed out${after}`);
+    this.name = 'MCPToolTimeoutError';
+  }
+}
+
+/** Whether a request to the server was cancelled for exceeding its timeout */
+export function isRequestTimeoutError(error: unknown): error is McpError {
+  return error instanceof McpError && error.code === ErrorCode.RequestTimeout;
+}
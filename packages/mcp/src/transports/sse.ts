@@ -0,0 +1,109 @@
+import { EventSource } from 'eventsource';
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { MCPHTTPError } from './errors';
+
+/**
+ * Client transport for SSE: receives messages over Server-Sent Events and sends them as separate
+ * POST requests. Unlike the SDK's transport, custom headers are sent with both.
+ */
+export class SSEClientTransport implements Transport {
+  private eventSource?: EventSource;
+  private endpoint?: URL;
+  private abortController?: AbortController;
+  private readonly url: URL;
+  private readonly headers: Record<string, string>;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  start(): Promise<void> {
+    if (this.eventSource) {
+      throw new Error('SSEClientTransport already started!');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.abortController = new AbortController();
+      this.eventSource = new EventSource(this.url.href, {
+        fetch: (url, init) =>
+          fetch(url, { ...init, headers: { ...init?.headers, ...this.headers } }),
+      });
+
+      this.eventSource.onerror = (event) => {
+        const error = new MCPHTTPError(
+          `SSE error: ${event.message ?? `HTTP ${event.code ?? 'unknown'}`}`,
+          event.code,
+        );
+        reject(error);
+        this.onerror?.(error);
+      };
+
+      this.eventSource.addEventListener('endpoint', (event) => {
+        try {
+          this.endpoint = new URL(event.data, this.url);
+          if (this.endpoint.origin !== this.url.origin) {
+            throw new Error(
+              `Endpoint origin does not match connection origin: ${this.endpoint.origin}`,
+            );
+          }
+        } catch (error) {
+          reject(error);
+          this.onerror?.(error as Error);
+          void this.close();
+          return;
+        }
+        resolve();
+      });
+
+      this.eventSource.onmessage = (event) => {
+        let message: JSONRPCMessage;
+        try {
+          message = JSONRPCMessageSchema.parse(JSON.parse(event.data));
+        } catch (error) {
+          this.onerror?.(error as Error);
+          return;
+        }
+        this.onmessage?.(message);
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    this.abortController?.abort();
+    this.eventSource?.close();
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+        signal: this.abortController?.signal,
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => null);
+        throw new MCPHTTPError(
+          `Error POSTing to endpoint (HTTP ${response.status}): ${text}`,
+          response.status,
+        );
+      }
+    } catch (error) {
+      this.onerror?.(error as Error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { MCPHTTPError } from './errors';
+
+const SESSION_ID_HEADER = 'mcp-session-id';
+
+/**
+ * Client transport for Streamable HTTP: every message is POSTed to a single endpoint, which answers
+ * requests with either a JSON body or an SSE stream ending with the response.
+ * The session ID assigned by the server on initialization is sent with all later requests.
+ */
+export class StreamableHTTPClientTransport implements Transport {
+  private abortController?: AbortController;
+  private readonly url: URL;
+  private readonly headers: Record<string, string>;
+  public sessionId?: string;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  async start(): Promise<void> {
+    if (this.abortController) {
+      throw new Error('StreamableHTTPClientTransport already started!');
+    }
+    this.abortController = new AbortController();
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers = { ...this.headers };
+    if (this.sessionId != null) {
+      headers[SESSION_ID_HEADER] = this.sessionId;
+    }
+    return headers;
+  }
+
+  async close(): Promise<void> {
+    this.abortController?.abort();
+    if (this.sessionId != null) {
+      /** Ends the session on the server; servers may not support it, so failures are ignored */
+      await fetch(this.url, { method: 'DELETE', headers: this.getHeaders() }).catch(
+        () => undefined,
+      );
+      this.sessionId = undefined;
+    }
+    this.onclose?.();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          ...this.getHeaders(),
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: JSON.stringify(message),
+        signal: this.abortController?.signal,
+      });
+
+      const sessionId = response.headers.get(SESSION_ID_HEADER);
+      if (sessionId != null && sessionId !== '') {
+        this.sessionId = sessionId;
+      }
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => null);
+        throw new MCPHTTPError(
+          `Error POSTing to endpoint (HTTP ${response.status}): ${text}`,
+          response.status,
+        );
+      }
+
+      if (response.status === 202 || !response.body) {
+        return;
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (contentType.includes('text/event-stream')) {
+        /** Not awaited: the stream stays open until the server sends the response */
+        void this.readEventStream(response.body);
+        return;
+      }
+
+      if (contentType.includes('application/json')) {
+        const data: unknown = await response.json();
+        const messages = Array.isArray(data) ? data : [data];
+        messages.forEach((item) => this.handleMessage(item));
+        return;
+      }
+
+      await response.body.cancel();
+    } catch (error) {
+      this.onerror?.(error as Error);
+      throw error;
+    }
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(data);
+    } catch (error) {
+      this.onerror?.(error as Error);
+      return;
+    }
+    this.onmessage?.(message);
+  }
+
+  private handleEvent(event: string): void {
+    let eventName = 'message';
+    const data: string[] = [];
+    for (const line of event.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (eventName !== 'message' || data.length === 0) {
+      return;
+    }
+
+    try {
+      this.handleMessage(JSON.parse(data.join('\n')));
+    } catch (error) {
+      this.onerror?.(error as Error);
+    }
+  }
+
+  private async readEventStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() ?? '';
+        events.forEach((event) => this.handleEvent(event));
+      }
+      if (buffer.trim() !== '') {
+        this.handleEvent(buffer);
+      }
+    } catch (error) {
+      if (this.abortController?.signal.aborted !== true) {
+        this.onerror?.(error as Error);
+      }
+    }
+  }
+}
@@ -1,19 +1,44 @@
 import { z } from 'zod';
 import {
+  MCPOAuthSchema,
   SSEOptionsSchema,
   MCPOptionsSchema,
   MCPServersSchema,
+  MCPUserVarSchema,
+  MCPSettingsSchema,
   StdioOptionsSchema,
   WebSocketOptionsSchema,
+  StreamableHTTPOptionsSchema,
 } from 'librechat-data-provider';
-import type { JsonSchemaType, TPlugin } from 'librechat-data-provider';
-import { ToolSchema, ListToolsResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  TPlugin,
+  JsonSchemaType,
+  TMCPServerStatus,
+  TMCPReloadResponse,
+} from 'librechat-data-provider';
+import {
+  ToolSchema,
+  GetPromptResultSchema,
+  ListToolsResultSchema,
+  ReadResourceResultSchema,
+  CreateMessageRequestSchema,
+  CreateMessageResultSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPOAuthTokens, MCPTokenMethods } from '../oauth/types';
+import type { FlowStateManager } from '../flow/manager';
 
 export type StdioOptions = z.infer<typeof StdioOptionsSchema>;
 export type WebSocketOptions = z.infer<typeof WebSocketOptionsSchema>;
 export type SSEOptions = z.infer<typeof SSEOptionsSchema>;
+export type StreamableHTTPOptions = z.infer<typeof StreamableHTTPOptionsSchema>;
 export type MCPOptions = z.infer<typeof MCPOptionsSchema>;
 export type MCPServers = z.infer<typeof MCPServersSchema>;
+export type MCPUserVar = z.infer<typeof MCPUserVarSchema>;
+export type MCPSettings = z.infer<typeof MCPSettingsSchema>;
+export type MCPOAuthConfig = z.infer<typeof MCPOAuthSchema>;
+/** A user's values of a server's `customUserVars`, by variable name */
+export type CustomUserVars = Record<string, string>;
 export interface MCPResource {
   uri: string;
   name: string;
@@ -37,10 +62,13 @@ export type LCToolManifest = TPlugin[];
 export interface MCPPrompt {
   name: string;
   description?: string;
-  arguments?: Array<{ name: string }>;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
 }
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type MCPServerStatus = TMCPServerStatus;
+/** Names of the servers changed by reloading `mcpServers` */
+export type MCPReloadResult = Pick<TMCPReloadResponse, 'added' | 'updated' | 'removed'>;
 
 export type MCPTool = z.infer<typeof ToolSchema>;
 export type MCPToolListResponse = z.infer<typeof ListToolsResultSchema>;
@@ -72,7 +100,11 @@ export type MCPToolCallResponse =
       isError?: boolean;
     };
 
-export type Provider = 'google' | 'anthropic' | 'openAI';
+/**
+ * The provider of the agent calling a tool, e.g. `openAI`, `anthropic` or `google`,
+ * or the endpoint of tools not run by agents, such as `assistants`
+ */
+export type Provider = string;
 
 export type FormattedContent =
   | {
@@ -80,19 +112,10 @@ export type FormattedContent =
       text: string;
     }
   | {
-      type: 'image';
-      inlineData: {
-        mimeType: string;
-        data: string;
-      };
-    }
-  | {
-      type: 'image';
-      source: {
-        type: 'base64';
-        media_type: string;
-        data: string;
-      };
+      /** Base64 image, as Google models receive them */
+      type: 'media';
+      mimeType: string;
+      data: string;
     }
   | {
       type: 'image_url';
@@ -101,9 +124,75 @@ export type FormattedContent =
       };
     };
 
-export type ImageFormatter = (item: ImageContent) => FormattedContent;
+/** Formats an image for the provider, or returns `null` if the provider cannot receive it */
+export type ImageFormatter = (item: ImageContent) => FormattedContent | null;
+
+/** Binary contents of a tool result, saved as attachments of the message */
+export type MCPAttachment = {
+  filename: string;
+  mimeType: string;
+  /** Base64-encoded contents */
+  data: string;
+  /** The URI of the resource the contents belong to */
+  uri?: string;
+};
+
+export type MCPToolArtifact = {
+  /** Images the model receives with the tool result */
+  content?: FormattedContent[];
+  attachments?: MCPAttachment[];
+};
+
+/** What the manager needs to let users sign in to OAuth servers */
+export interface MCPOAuthOptions {
+  flowManager: FlowStateManager<MCPOAuthTokens>;
+  tokenMethods: MCPTokenMethods;
+  /** Returns the URL the authorization server redirects to after signing in */
+  getRedirectUri: (serverName: string) => string;
+  /** Called when tools of a server become known after startup, i.e. once signed in to it */
+  onToolsUpdated?: () => Promise<void> | void;
+}
+
+export interface MCPRequestOptions {
+  serverName: string;
+  /** Required for servers with `customUserVars` or OAuth, which are connected per user */
+  userId?: string;
+  customUserVars?: CustomUserVars;
+  /** Sends the sign-in URL of an OAuth server to the user, who is not signed in yet */
+  oauthStart?: (authorizationUrl: string) => Promise<void>;
+  /** Called once the user has signed in */
+  oauthEnd?: () => Promise<void>;
+}
+
+export type SamplingRequest = z.infer<typeof CreateMessageRequestSchema>['params'];
+export type SamplingResult = z.infer<typeof CreateMessageResultSchema>;
+/** Completes the messages of a server's sampling request with the model of the conversation */
+export type SamplingHandler = (request: SamplingRequest) => Promise<SamplingResult>;
+
+export interface CallToolOptions extends MCPRequestOptions {
+  toolName: string;
+  provider: Provider;
+  toolArguments?: Record<string, unknown>;
+  /** Answers the sampling requests the server makes while the tool runs, if it has `sampling` enabled */
+  createMessage?: SamplingHandler;
+  /** Timeout in milliseconds for this call, overriding the server's `timeout` */
+  timeout?: number;
+  /** Cancels the call, notifying the server */
+  signal?: AbortSignal;
+  /** Receives the progress the server reports while the tool runs */
+  onProgress?: (progress: Progress) => void;
+}
+
+export interface ReadResourceOptions extends MCPRequestOptions {
+  uri: string;
+}
+
+export interface GetPromptOptions extends MCPRequestOptions {
+  name: string;
+  promptArguments?: Record<string, string>;
+}
+
+export type MCPResourceContents = z.infer<typeof ReadResourceResultSchema>['contents'];
+export type MCPPromptResult = z.infer<typeof GetPromptResultSchema>;
 
-export type FormattedToolResponse = [
-  string | FormattedContent[],
-  { content: FormattedContent[] } | undefined,
-];
+export type FormattedToolResponse = [string | FormattedContent[], MCPToolArtifact | undefined];
@@ -0,0 +1,138 @@
+import type * as t from './types/mcp';
+import {
+  isRoleAllowed,
+  isToolEnabled,
+  processMCPEnv,
+  requiresOAuth,
+  toolRequiresApproval,
+  isUserScopedServer,
+  resolveOAuthConfig,
+  getUserVarAuthField,
+} from './utils';
+
+describe('processMCPEnv', () => {
+  it('should return options without user variables unchanged', () => {
+    const options: t.MCPOptions = { command: 'node', args: ['{{API_KEY}}'] };
+    expect(processMCPEnv(options, { API_KEY: 'key' })).toBe(options);
+    expect(isUserScopedServer(options)).toBe(false);
+  });
+
+  it('should replace declared variables in env and args', () => {
+    const options: t.MCPOptions = {
+      command: 'node',
+      args: ['server.js', '--token={{TOKEN}}', '{{OTHER}}'],
+      env: { TOKEN: '{{TOKEN}}', REGION: '{{REGION}}' },
+      customUserVars: {
+        TOKEN: { title: 'Token' },
+        REGION: { title: 'Region' },
+      },
+    };
+
+    expect(isUserScopedServer(options)).toBe(true);
+    expect(processMCPEnv(options, { TOKEN: 'secret' })).toMatchObject({
+      args: ['server.js', '--token=secret', '{{OTHER}}'],
+      env: { TOKEN: 'secret', REGION: '' },
+    });
+    expect(options.env).toEqual({ TOKEN: '{{TOKEN}}', REGION: '{{REGION}}' });
+  });
+
+  it('should replace declared variables in the url', () => {
+    const options: t.MCPOptions = {
+      url: 'https://example.com/sse?key={{API_KEY}}',
+      customUserVars: { API_KEY: { title: 'API Key' } },
+    };
+    expect(processMCPEnv(options, { API_KEY: 'abc' })).toMatchObject({
+      url: 'https://example.com/sse?key=abc',
+    });
+  });
+
+  it('should replace the user ID and resolve environment variables in headers', () => {
+    process.env.MCP_UTILS_TOKEN = 'env-token';
+    const options: t.MCPOptions = {
+      type: 'streamable-http',
+      url: 'https://example.com/mcp?user={{LIBRECHAT_USER_ID}}',
+      headers: {
+        Authorization: '${MCP_UTILS_TOKEN}',
+        'X-User-Id': '{{LIBRECHAT_USER_ID}}',
+      },
+    };
+
+    expect(isUserScopedServer(options)).toBe(true);
+    expect(processMCPEnv(options, {}, 'user123')).toEqual({
+      ...options,
+      url: 'https://example.com/mcp?user=user123',
+      headers: { Authorization: 'env-token', 'X-User-Id': 'user123' },
+    });
+    delete process.env.MCP_UTILS_TOKEN;
+  });
+
+  it('should replace the user ID in roots', () => {
+    const options: t.MCPOptions = {
+      command: 'node',
+      args: ['server.js'],
+      roots: [
+        { uri: 'file:///workspaces/{{LIBRECHAT_USER_ID}}', name: 'Workspace' },
+        { uri: 'file:///shared' },
+      ],
+    };
+
+    expect(isUserScopedServer(options)).toBe(true);
+    expect(processMCPEnv(options, {}, 'user123').roots).toEqual([
+      { uri: 'file:///workspaces/user123', name: 'Workspace' },
+      { uri: 'file:///shared' },
+    ]);
+  });
+
+  it('should connect OAuth servers per user and resolve their OAuth settings', () => {
+    process.env.MCP_UTILS_CLIENT_ID = 'env-client';
+    const options: t.MCPOptions = {
+      type: 'sse',
+      url: 'https://example.com/sse',
+      oauth: { client_id: '${MCP_UTILS_CLIENT_ID}', scope: 'read' },
+    };
+
+    expect(requiresOAuth(options)).toBe(true);
+    expect(isUserScopedServer(options)).toBe(true);
+    expect(resolveOAuthConfig(options)).toEqual({ client_id: 'env-client', scope: 'read' });
+    expect(requiresOAuth({ url: 'https://example.com/sse', requiresOAuth: true })).toBe(true);
+    expect(requiresOAuth({ url: 'https://example.com/sse' })).toBe(false);
+    delete process.env.MCP_UTILS_CLIENT_ID;
+  });
+
+  it('should namespace auth fields by server', () => {
+    expect(getUserVarAuthField('github', 'TOKEN')).toBe('TOKEN_mcp_github');
+  });
+});
+
+describe('MCP tool access', () => {
+  const options: t.MCPOptions = { command: 'node', args: ['server.js'] };
+
+  it('should apply includeTools before excludeTools', () => {
+    expect(isToolEnabled(options, 'search')).toBe(true);
+
+    const filtered: t.MCPOptions = {
+      ...options,
+      includeTools: ['search', 'fetch'],
+      excludeTools: ['fetch'],
+    };
+    expect(isToolEnabled(filtered, 'search')).toBe(true);
+    expect(isToolEnabled(filtered, 'fetch')).toBe(false);
+    expect(isToolEnabled(filtered, 'delete')).toBe(false);
+  });
+
+  it('should restrict servers with roles to users with one of them', () => {
+    expect(isRoleAllowed(options)).toBe(true);
+    expect(isRoleAllowed({ ...options, roles: ['ADMIN'] }, 'ADMIN')).toBe(true);
+    expect(isRoleAllowed({ ...options, roles: ['ADMIN'] }, 'USER')).toBe(false);
+    expect(isRoleAllowed({ ...options, roles: ['ADMIN'] })).toBe(false);
+  });
+
+  it('should require approval for all or the listed tools', () => {
+    expect(toolRequiresApproval(options, 'delete')).toBe(false);
+    expect(toolRequiresApproval({ ...options, requiresApproval: true }, 'search')).toBe(true);
+    expect(toolRequiresApproval({ ...options, requiresApproval: ['delete'] }, 'delete')).toBe(true);
+    expect(toolRequiresApproval({ ...options, requiresApproval: ['delete'] }, 'search')).toBe(
+      false,
+    );
+  });
+});
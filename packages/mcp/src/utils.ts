@@ -0,0 +1,128 @@
+import { Constants, resolveHeaders, extractEnvVariable } from 'librechat-data-provider';
+import type * as t from './types/mcp';
+import { CONSTANTS } from './enum';
+
+/** Whether the server's options reference the `{{LIBRECHAT_USER_ID}}` placeholder */
+function usesUserIdPlaceholder(options: t.MCPOptions): boolean {
+  return JSON.stringify(options).includes(Constants.LIBRECHAT_USER_ID);
+}
+
+/** Whether users sign in to the server with OAuth */
+export function requiresOAuth(options: t.MCPOptions): boolean {
+  return options.requiresOAuth === true || options.oauth != null;
+}
+
+/** Whether the server exposes the tool, according to its `includeTools` and `excludeTools` */
+export function isToolEnabled(options: t.MCPOptions, toolName: string): boolean {
+  if (options.includeTools != null && !options.includeTools.includes(toolName)) {
+    return false;
+  }
+  return options.excludeTools?.includes(toolName) !== true;
+}
+
+/** Whether users with the role may use the server's tools, according to its `roles` */
+export function isRoleAllowed(options: t.MCPOptions, role?: string): boolean {
+  if (options.roles == null) {
+    return true;
+  }
+  return role != null && options.roles.includes(role);
+}
+
+/** Whether users approve the arguments of the tool's calls, according to the server's `requiresApproval` */
+export function toolRequiresApproval(options: t.MCPOptions, toolName: string): boolean {
+  const { requiresApproval } = options;
+  return Array.isArray(requiresApproval)
+    ? requiresApproval.includes(toolName)
+    : requiresApproval === true;
+}
+
+/** Returns the transport of a server, inferred from its options like the connection does */
+export function getServerType(options: t.MCPOptions): t.MCPServerStatus['type'] {
+  if ('command' in options) {
+    return 'stdio';
+  }
+  if (options.type === 'streamable-http') {
+    return 'streamable-http';
+  }
+  const protocol = new URL(options.url).protocol;
+  return protocol === 'ws:' || protocol === 'wss:' ? 'websocket' : 'sse';
+}
+
+/** Returns the server's OAuth settings with `${ENV_VAR}` references resolved */
+export function resolveOAuthConfig(options: t.MCPOptions): t.MCPOAuthConfig | undefined {
+  if (options.oauth == null) {
+    return undefined;
+  }
+  const oauth: t.MCPOAuthConfig = {};
+  for (const [key, value] of Object.entries(options.oauth)) {
+    oauth[key as keyof t.MCPOAuthConfig] = value != null ? extractEnvVariable(value) : value;
+  }
+  return oauth;
+}
+
+/**
+ * Whether the server declares `customUserVars`, references `{{LIBRECHAT_USER_ID}}` or requires OAuth,
+ * requiring one connection per user
+ */
+export function isUserScopedServer(options: t.MCPOptions): boolean {
+  return (
+    Object.keys(options.customUserVars ?? {}).length > 0 ||
+    usesUserIdPlaceholder(options) ||
+    requiresOAuth(options)
+  );
+}
+
+/**
+ * Returns the plugin auth field under which a user's value of a server's custom variable is stored,
+ * e.g. `API_KEY_mcp_github`.
+ */
+export function getUserVarAuthField(serverName: string, varName: string): string {
+  return `${varName}${CONSTANTS.mcp_delimiter}${serverName}`;
+}
+
+/**
+ * Replaces the `{{VAR_NAME}}` placeholders of the server's `customUserVars` and `{{LIBRECHAT_USER_ID}}`
+ * in `env`, `args`, `url` and `headers` with the user's values; variables without a value are replaced
+ * with an empty string. Header values referencing `${ENV_VAR}` are resolved from the environment.
+ */
+export function processMCPEnv(
+  options: t.MCPOptions,
+  customUserVars: t.CustomUserVars = {},
+  userId?: string,
+): t.MCPOptions {
+  const varNames = Object.keys(options.customUserVars ?? {});
+  const hasHeaders = 'headers' in options && options.headers != null;
+  if (varNames.length === 0 && !hasHeaders && !usesUserIdPlaceholder(options)) {
+    return options;
+  }
+
+  const replaceVars = (value: string) =>
+    varNames
+      .reduce(
+        (result, varName) => result.replaceAll(`{{${varName}}}`, customUserVars[varName] ?? ''),
+        value,
+      )
+      .replaceAll(Constants.LIBRECHAT_USER_ID, userId ?? '');
+  const roots = options.roots?.map((root) => ({ ...root, uri: replaceVars(root.uri) }));
+
+  if ('command' in options) {
+    let env: Record<string, string> | undefined;
+    if (options.env != null) {
+      env = {};
+      for (const [key, value] of Object.entries(options.env)) {
+        env[key] = replaceVars(value);
+      }
+    }
+    return { ...options, args: options.args.map(replaceVars), env, roots };
+  }
+
+  if ('headers' in options && options.headers != null) {
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(resolveHeaders(options.headers, { id: userId }))) {
+      headers[key] = replaceVars(value);
+    }
+    return { ...options, url: replaceVars(options.url), headers, roots };
+  }
+
+  return { ...options, url: replaceVars(options.url), roots };
+}